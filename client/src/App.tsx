@@ -2,7 +2,11 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { Board } from "./components/Board";
 import { Settings } from "./components/Settings";
+import { Report } from "./components/Report";
+import { Dashboard } from "./components/Dashboard";
 import { Toaster } from "./components/ui/sonner";
+import { GlobalSearch } from "./components/GlobalSearch";
+import { TokenPrompt } from "./components/TokenPrompt";
 
 export default function App() {
   return (
@@ -11,8 +15,12 @@ export default function App() {
         <Routes>
           <Route path="/" element={<Board />} />
           <Route path="/settings" element={<Settings />} />
+          <Route path="/report" element={<Report />} />
+          <Route path="/stats" element={<Dashboard />} />
         </Routes>
+        <GlobalSearch />
       </BrowserRouter>
+      <TokenPrompt />
       <Toaster />
     </ThemeProvider>
   );
@@ -1,13 +1,21 @@
 import { useState, useEffect } from "react";
-import type { Card, ColumnName } from "@daily-kanban/shared";
+import type { BulkCardAction, Card, ColumnName, ImportBoardResponse, Label, UpdateCardRequest, User } from "@daily-kanban/shared";
 import { DragDropContext, type DropResult } from "@hello-pangea/dnd";
 import { KanbanColumn } from "./KanbanColumn";
 import { CreateCardDialog } from "./CreateCardDialog";
 import { CardDetailPanel } from "./CardDetailPanel";
+import { FilterBar } from "./FilterBar";
+import { ColumnSettingsDialog } from "./ColumnSettingsDialog";
+import { ExportDialog } from "./ExportDialog";
+import { BulkActionBar } from "./BulkActionBar";
+import { SnoozedDrawer } from "./SnoozedDrawer";
+import { EMPTY_FILTERS, matchesFilters, type BoardFilters } from "../lib/filters";
+import { compareByUrgency } from "../lib/urgency";
 import { useBoard } from "../hooks/useBoard";
+import { useUndo } from "../hooks/useUndo";
 import { useAiProcessing } from "../hooks/useAiProcessing";
-import { Link } from "react-router-dom";
-import { Settings as SettingsIcon, Trash2, Sun, Moon } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Settings as SettingsIcon, BarChart3, ClipboardList, Trash2, Sun, Moon, ChevronLeft, ChevronRight } from "lucide-react";
 import { useTheme } from "next-themes";
 import { Button } from "@/components/ui/button";
 import {
@@ -19,31 +27,109 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { api } from "../lib/api";
+import { api, type CardNeighbors } from "../lib/api";
 
-const COLUMNS: ColumnName[] = ["inbox", "in_process", "review", "ai_do", "human_do", "done"];
+const URGENCY_STORAGE_KEY = "urgencySortColumns";
 
 export function Board() {
-  const { board, cards, loading, error, moveCard, createCard, purgeBoard, cardsByColumn, updateCard } =
-    useBoard();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const date = searchParams.get("date") ?? undefined;
+  const {
+    board, boards, cards, columns, setColumns, loading, error, refresh, moveCard, bulkUpdate, createCard, createCardFromTemplate,
+    purgeBoard, restoreCards, cardsByColumn, updateCard, snoozeCard, editCard, deleteCard, archiveCard,
+  } = useBoard(date);
+  const undo = useUndo();
   const [purgeOpen, setPurgeOpen] = useState(false);
   const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  const [focusSessionId, setFocusSessionId] = useState<number | null>(null);
+  // Multi-selection for bulk actions; the anchor is where shift-click ranges start
+  const [checkedIds, setCheckedIds] = useState<Set<number>>(new Set());
+  const [checkAnchorId, setCheckAnchorId] = useState<number | null>(null);
   const { processingCardId, logs, todos, activeQuestion, actionQueue, startProcessing, startExecution, answerQuestion, loadHistoricalLogs, removeFromQueue, clearQueue } = useAiProcessing();
   const { theme, setTheme } = useTheme();
   const [repos, setRepos] = useState<{ id: string; name: string; path: string }[]>([]);
   const [defaultRepoId, setDefaultRepoId] = useState<string | null>(null);
+  const [labels, setLabels] = useState<Label[]>([]);
+  const [filters, setFilters] = useState<BoardFilters>(EMPTY_FILTERS);
+  const [users, setUsers] = useState<User[]>([]);
+  const [meId, setMeId] = useState<number | null>(null);
+  const [urgencyColumns, setUrgencyColumns] = useState<ColumnName[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(URGENCY_STORAGE_KEY) ?? "[]");
+    } catch {
+      return [];
+    }
+  });
 
   useEffect(() => {
     api.getRepos().then((data) => {
       setRepos(data.repos);
       setDefaultRepoId(data.default_repo_id);
     });
+    api.listLabels().then((data) => setLabels(data.labels));
+    api.listUsers().then((data) => setUsers(data.users));
+    api.getMe().then((me) => setMeId(me.id));
+  }, []);
+
+  const assignees = new Map(users.map((u) => [u.id, u.name]));
+
+  // Connector polls can introduce new labels, so pick them up as cards change
+  const cardLabelKey = cards.flatMap((c) => c.labels.map((l) => l.id)).sort().join(",");
+  useEffect(() => {
+    api.listLabels().then((data) => setLabels(data.labels));
+  }, [cardLabelKey]);
+
+  // Cards that left the board (or another board was opened) drop out of the selection
+  const checkedCardIds = new Set(cards.filter((c) => checkedIds.has(c.id)).map((c) => c.id));
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setCheckedIds(new Set());
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
   }, []);
 
+  const visibleCardsByColumn = (column: ColumnName) => {
+    const visible = cardsByColumn(column).filter((c) => matchesFilters(c, filters));
+    return urgencyColumns.includes(column) ? visible.sort((a, b) => compareByUrgency(a, b)) : visible;
+  };
+
+  const toggleUrgencySort = (column: ColumnName) => {
+    setUrgencyColumns((prev) => {
+      const next = prev.includes(column) ? prev.filter((c) => c !== column) : [...prev, column];
+      localStorage.setItem(URGENCY_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  };
+
+  // Boards are listed newest first, and the newest one is always today's
+  const todayDate = boards[0]?.date;
+  const isToday = !date || date === todayDate;
+  const boardIndex = boards.findIndex((b) => b.date === board?.date);
+  const olderDate = boardIndex >= 0 ? boards[boardIndex + 1]?.date : undefined;
+  const newerDate = boardIndex > 0 ? boards[boardIndex - 1]?.date : undefined;
+
+  // Show the board the cards went to; it may be a date the list didn't have yet
+  const handleImported = async (result: ImportBoardResponse) => {
+    await refresh();
+    setSearchParams(result.board.date === todayDate ? {} : { date: result.board.date });
+  };
+
+  const goToDate = (target: string | undefined) => {
+    if (!target || target === todayDate) {
+      setSearchParams({});
+    } else if (boards.some((b) => b.date === target)) {
+      setSearchParams({ date: target });
+    } else {
+      toast.error(`No board for ${target}`);
+    }
+  };
+
   const handlePurge = async () => {
     try {
-      await purgeBoard();
-      toast.success("Board cleared");
+      const cardIds = await purgeBoard();
+      undo.push(`Cleared ${cardIds.length} cards`, () => restoreCards(cardIds));
     } catch {
       toast.error("Failed to clear board");
     } finally {
@@ -58,34 +144,207 @@ export function Board() {
 
     const cardId = Number(result.draggableId);
     const newColumn = destination.droppableId as ColumnName;
+    const dragged = cards.find((c) => c.id === cardId);
+    const target = columns.find((c) => c.key === newColumn);
+    const startsAi = target?.behavior === "start_ai";
+    if (checkedCardIds.has(cardId) && checkedCardIds.size > 1) {
+      if (startsAi) {
+        toast.error(`Cards go into "${target.name}" one at a time`);
+        return;
+      }
+      if (source.droppableId !== destination.droppableId) handleBulkAction({ type: "move", column_name: newColumn });
+      return;
+    }
+    if (startsAi && dragged && dragged.dependencies.open_blockers.length > 0) {
+      toast.error("This card is blocked by unfinished cards");
+      return;
+    }
+    // The server enforces this too; checking here avoids a card bouncing back
+    if (
+      target?.wip_limit != null && dragged?.column_name !== newColumn &&
+      cardsByColumn(newColumn).length >= target.wip_limit
+    ) {
+      toast.error(`"${target.name}" is at its WIP limit of ${target.wip_limit}`);
+      return;
+    }
+    const sortedByUrgency = urgencyColumns.includes(newColumn);
+    // Manual order means nothing in a column sorted by urgency
+    if (sortedByUrgency && source.droppableId === destination.droppableId) return;
+
+    // The server places the card between its new neighbors; a column sorted
+    // by urgency has no manual order, so the card just goes to the end
+    const destCards = visibleCardsByColumn(newColumn).filter((c) => c.id !== cardId);
+    const neighbors: CardNeighbors = sortedByUrgency
+      ? {}
+      : { after_id: destCards[destination.index - 1]?.id ?? null, before_id: destCards[destination.index]?.id ?? null };
+    // Where undo puts the card back
+    const sourceCards = cardsByColumn(source.droppableId);
+    const sourceIndex = sourceCards.findIndex((c) => c.id === cardId);
+    const from = {
+      column: source.droppableId as ColumnName,
+      neighbors: { after_id: sourceCards[sourceIndex - 1]?.id ?? null, before_id: sourceCards[sourceIndex + 1]?.id ?? null },
+    };
+
+    moveCard(cardId, newColumn, neighbors)
+      .then(() => {
+        if (startsAi) {
+          if (dragged) setSelectedCard(dragged);
+          startProcessing(cardId, updateCard);
+          return;
+        }
+        // AI processing starts right away in a start_ai column, so only other moves are undoable
+        if (!dragged) return;
+        const actionQueued = target?.behavior === "execute_action" && dragged.action_payload !== null;
+        undo.push(`Moved "${dragged.title}"`, async () => {
+          if (actionQueued) {
+            await api.cancelExecution(cardId).catch(() => {
+              throw new Error("The action has already run");
+            });
+          }
+          await moveCard(cardId, from.column, from.neighbors);
+        });
+      })
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to move card"));
+  };
+
+  // Adding or removing a blocker changes the `blocks` list of the other card too
+  const handleDependencyChange = (card: Card) => {
+    updateCard(card);
+    refresh();
+  };
 
-    // Get the destination column's cards (excluding the dragged card)
-    const destCards = cardsByColumn(newColumn).filter((c) => c.id !== cardId);
-    const destIndex = destination.index;
-
-    // Calculate position using fractional indexing
-    let position: number;
-    if (destCards.length === 0) {
-      position = 1;
-    } else if (destIndex === 0) {
-      position = destCards[0].position - 1;
-    } else if (destIndex >= destCards.length) {
-      position = destCards[destCards.length - 1].position + 1;
+  const handleCardClick = (card: Card, event: React.PointerEvent) => {
+    if (event.shiftKey || event.ctrlKey || event.metaKey) {
+      const column = visibleCardsByColumn(card.column_name);
+      const from = column.findIndex((c) => c.id === checkAnchorId);
+      const to = column.findIndex((c) => c.id === card.id);
+      setCheckedIds((prev) => {
+        const next = new Set(prev);
+        if (event.shiftKey && from !== -1) {
+          for (const c of column.slice(Math.min(from, to), Math.max(from, to) + 1)) next.add(c.id);
+        } else if (next.has(card.id)) {
+          next.delete(card.id);
+        } else {
+          next.add(card.id);
+        }
+        return next;
+      });
+      setCheckAnchorId(card.id);
+      return;
+    }
+    setCheckedIds(new Set());
+    setFocusSessionId(null);
+    setSelectedCard((prev) => (prev?.id === card.id ? null : card));
+  };
+
+  const handleBulkAction = async (action: BulkCardAction) => {
+    const ids = [...checkedCardIds];
+    const before = cards.filter((c) => checkedCardIds.has(c.id));
+    try {
+      await bulkUpdate(ids, action);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update cards");
+      return;
+    }
+    const label = `${ids.length} cards`;
+    if (action.type === "move") {
+      setCheckedIds(new Set());
+      // Cards arriving in an execute_action column each queued their connector action
+      const target = columns.find((c) => c.key === action.column_name);
+      const queued =
+        target?.behavior === "execute_action"
+          ? before.filter((c) => c.column_name !== target.key && c.action_payload !== null)
+          : [];
+      undo.push(`Moved ${label}`, async () => {
+        const cancelled = await Promise.allSettled(queued.map((c) => api.cancelExecution(c.id)));
+        // Put each card back in its own column, keeping their original order
+        for (const column of new Set(before.map((c) => c.column_name))) {
+          const group = before.filter((c) => c.column_name === column).sort((a, b) => a.position - b.position);
+          await bulkUpdate(group.map((c) => c.id), { type: "move", column_name: column });
+        }
+        const ran = cancelled.filter((r) => r.status === "rejected").length;
+        if (ran > 0) throw new Error(`${ran} of the actions had already run`);
+      });
+    } else if (action.type === "archive" || action.type === "delete") {
+      setCheckedIds(new Set());
+      // Restoring only works on today's board
+      if (isToday) {
+        undo.push(`${action.type === "archive" ? "Archived" : "Deleted"} ${label}`, () => restoreCards(ids));
+      } else {
+        toast.success(`${action.type === "archive" ? "Archived" : "Deleted"} ${label}`);
+      }
     } else {
-      position = (destCards[destIndex - 1].position + destCards[destIndex].position) / 2;
+      toast.success(`Updated ${label}`);
+    }
+  };
+
+  const handleEdit = async (cardId: number, fields: UpdateCardRequest) => {
+    try {
+      await editCard(cardId, fields);
+    } catch {
+      toast.error("Failed to save card");
     }
+  };
 
-    moveCard(cardId, newColumn, position);
+  const handleDelete = async (cardId: number) => {
+    try {
+      await deleteCard(cardId);
+      setSelectedCard(null);
+      toast.success("Card deleted");
+    } catch {
+      toast.error("Failed to delete card");
+    }
+  };
 
-    if (newColumn === "in_process") {
-      const card = cards.find((c) => c.id === cardId);
-      if (card) setSelectedCard(card);
-      startProcessing(cardId, updateCard);
+  const handleSnooze = async (card: Card, until: Date) => {
+    try {
+      await snoozeCard(card.id, until.toISOString());
+      setSelectedCard(null);
+      undo.push(`Snoozed "${card.title}"`, async () => {
+        await api.wakeCard(card.id);
+        await refresh();
+      });
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to snooze card");
     }
   };
 
-  const handleCardClick = (card: Card) => {
-    setSelectedCard((prev) => (prev?.id === card.id ? null : card));
+  const handleWake = (card: Card) => {
+    toast.success(`"${card.title}" is back in the inbox`);
+    refresh();
+  };
+
+  const handleArchive = async (cardId: number) => {
+    try {
+      await archiveCard(cardId);
+      setSelectedCard(null);
+      toast.success("Card archived");
+    } catch {
+      toast.error("Failed to archive card");
+    }
+  };
+
+  const handleLabelsChange = async (cardId: number, labelIds: number[]) => {
+    try {
+      const updated = await api.setCardLabels(cardId, labelIds);
+      updateCard(updated);
+    } catch {
+      toast.error("Failed to update labels");
+    }
+  };
+
+  const handleAssign = async (cardId: number, assigneeId: number | null) => {
+    try {
+      updateCard(await api.assignCard(cardId, assigneeId));
+    } catch {
+      toast.error("Failed to assign card");
+    }
+  };
+
+  const handleCreateLabel = async (name: string) => {
+    const label = await api.createLabel(name);
+    setLabels((prev) => [...prev, label].sort((a, b) => a.name.localeCompare(b.name)));
+    return label;
   };
 
   const handleRepoChange = async (cardId: number, repoId: string) => {
@@ -98,6 +357,21 @@ export function Board() {
     ? cards.find((c) => c.id === selectedCard.id) ?? null
     : null;
 
+  // Global search links here with ?card=…&session=…; open that card once the
+  // board has loaded, then drop the params so closing the panel sticks.
+  const focusCardParam = searchParams.get("card");
+  useEffect(() => {
+    if (!focusCardParam || loading || (date && board?.date !== date)) return;
+    const card = cards.find((c) => c.id === Number(focusCardParam));
+    if (card) {
+      setSelectedCard(card);
+      setFocusSessionId(Number(searchParams.get("session")) || null);
+    } else {
+      toast.error("That card is archived or no longer on this board");
+    }
+    setSearchParams(date ? { date } : {}, { replace: true });
+  }, [focusCardParam, loading, board, cards, searchParams, setSearchParams, date]);
+
   useEffect(() => {
     if (currentSelectedCard && processingCardId !== currentSelectedCard.id) {
       loadHistoricalLogs(currentSelectedCard.id);
@@ -125,13 +399,59 @@ export function Board() {
       <header className="flex items-center justify-between p-4 border-b">
         <div>
           <h1 className="text-lg font-bold">Daily Kanban</h1>
-          <p className="text-xs text-muted-foreground">{board?.date}</p>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              disabled={!olderDate}
+              onClick={() => goToDate(olderDate)}
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </Button>
+            <input
+              type="date"
+              value={board?.date ?? ""}
+              max={todayDate}
+              onChange={(e) => goToDate(e.target.value)}
+              className="bg-transparent text-xs text-muted-foreground focus-visible:outline-none"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-5 w-5"
+              disabled={!newerDate}
+              onClick={() => goToDate(newerDate)}
+            >
+              <ChevronRight className="h-3 w-3" />
+            </Button>
+            {!isToday && (
+              <button
+                onClick={() => goToDate(undefined)}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline ml-1"
+              >
+                Back to today
+              </button>
+            )}
+          </div>
         </div>
         <div className="flex gap-2">
-          <CreateCardDialog onCreateCard={createCard} />
-          <Button variant="ghost" size="icon" onClick={() => setPurgeOpen(true)}>
-            <Trash2 className="h-4 w-4" />
-          </Button>
+          {isToday && <CreateCardDialog onCreateCard={createCard} onCreateFromTemplate={createCardFromTemplate} />}
+          {isToday && (
+            <Button variant="ghost" size="icon" onClick={() => setPurgeOpen(true)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+          <SnoozedDrawer onWake={handleWake} />
+          {board && (
+            <Link to={`/report?date=${board.date}`}>
+              <Button variant="ghost" size="icon" title="Daily report">
+                <ClipboardList className="h-4 w-4" />
+              </Button>
+            </Link>
+          )}
+          {board && <ExportDialog boardDate={board.date} onImported={handleImported} />}
+          {board && <ColumnSettingsDialog boardDate={board.date} columns={columns} onChange={setColumns} />}
           <Button
             variant="ghost"
             size="icon"
@@ -140,6 +460,11 @@ export function Board() {
             <Sun className="h-4 w-4 hidden dark:block" />
             <Moon className="h-4 w-4 block dark:hidden" />
           </Button>
+          <Link to="/stats">
+            <Button variant="ghost" size="icon" title="Dashboard">
+              <BarChart3 className="h-4 w-4" />
+            </Button>
+          </Link>
           <Link to="/settings">
             <Button variant="ghost" size="icon">
               <SettingsIcon className="h-4 w-4" />
@@ -152,7 +477,7 @@ export function Board() {
           <DialogHeader>
             <DialogTitle>Clear Board</DialogTitle>
             <DialogDescription>
-              This will delete all cards from today's board. This action cannot be undone.
+              This will delete all cards from today's board. You can undo it from the notification that follows.
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -166,28 +491,49 @@ export function Board() {
         </DialogContent>
       </Dialog>
 
+      <FilterBar filters={filters} labels={labels} users={users} meId={meId} onChange={setFilters} />
+
       <div className="flex-1 min-h-0 relative overflow-hidden">
         <div className="h-full overflow-x-auto p-4">
           <DragDropContext onDragEnd={onDragEnd}>
             <div className="flex gap-4 h-full">
-              {COLUMNS.map((col) => (
+              {columns.map((col) => (
                 <KanbanColumn
-                  key={col}
+                  key={col.key}
                   column={col}
-                  cards={cardsByColumn(col)}
+                  cards={visibleCardsByColumn(col.key)}
+                  total={cardsByColumn(col.key).length}
+                  sortByUrgency={urgencyColumns.includes(col.key)}
+                  onToggleSort={() => toggleUrgencySort(col.key)}
                   selectedCardId={currentSelectedCard?.id}
+                  checkedCardIds={checkedCardIds}
                   processingCardId={processingCardId}
                   onCardClick={handleCardClick}
+                  assignees={assignees}
                 />
               ))}
             </div>
           </DragDropContext>
         </div>
 
+        {checkedCardIds.size > 0 && (
+          <BulkActionBar
+            count={checkedCardIds.size}
+            columns={columns.filter((c) => c.behavior !== "start_ai")}
+            labels={labels}
+            repos={repos}
+            onAction={handleBulkAction}
+            onClear={() => setCheckedIds(new Set())}
+          />
+        )}
+
         {currentSelectedCard && (
           <CardDetailPanel
             card={currentSelectedCard}
-            onClose={() => setSelectedCard(null)}
+            onClose={() => {
+              setSelectedCard(null);
+              setFocusSessionId(null);
+            }}
             processingLogs={logs}
             todos={todos}
             activeQuestion={activeQuestion}
@@ -198,9 +544,22 @@ export function Board() {
             repos={repos}
             defaultRepoId={defaultRepoId}
             onRepoChange={(repoId) => handleRepoChange(currentSelectedCard.id, repoId)}
+            users={users}
+            onAssign={(assigneeId) => handleAssign(currentSelectedCard.id, assigneeId)}
             actionQueue={actionQueue}
             onRemoveFromQueue={removeFromQueue}
             onClearQueue={clearQueue}
+            labels={labels}
+            onLabelsChange={(labelIds) => handleLabelsChange(currentSelectedCard.id, labelIds)}
+            onCreateLabel={handleCreateLabel}
+            onEdit={(fields) => handleEdit(currentSelectedCard.id, fields)}
+            onArchive={() => handleArchive(currentSelectedCard.id)}
+            onSnooze={(until) => handleSnooze(currentSelectedCard, until)}
+            onDelete={() => handleDelete(currentSelectedCard.id)}
+            onChecklistChange={(checklist) => updateCard({ ...currentSelectedCard, checklist })}
+            boardCards={cards}
+            onCardChange={handleDependencyChange}
+            focusSessionId={focusSessionId}
           />
         )}
       </div>
@@ -0,0 +1,83 @@
+import type { BoardColumn, BulkCardAction, Label } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Archive, Bot, BotOff, Trash2, X } from "lucide-react";
+
+interface BulkActionBarProps {
+  count: number;
+  // Columns that can take a batch; start_ai columns process one card at a time
+  columns: BoardColumn[];
+  labels: Label[];
+  repos: { id: string; name: string }[];
+  onAction: (action: BulkCardAction) => void;
+  onClear: () => void;
+}
+
+const selectClass = "h-8 rounded-md border border-input bg-background px-2 text-sm";
+
+export function BulkActionBar({ count, columns, labels, repos, onAction, onClear }: BulkActionBarProps) {
+  return (
+    <div className="absolute bottom-4 left-1/2 z-20 flex -translate-x-1/2 items-center gap-2 rounded-lg border bg-background px-3 py-2 shadow-lg">
+      <span className="text-sm font-medium whitespace-nowrap">{count} selected</span>
+      <select
+        value=""
+        onChange={(e) => e.target.value && onAction({ type: "move", column_name: e.target.value })}
+        className={selectClass}
+      >
+        <option value="">Move to…</option>
+        {columns.map((c) => (
+          <option key={c.key} value={c.key}>{c.name}</option>
+        ))}
+      </select>
+      {labels.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => {
+            const [type, id] = e.target.value.split(":");
+            if (id) onAction({ type: type as "add_label" | "remove_label", label_id: Number(id) });
+          }}
+          className={selectClass}
+        >
+          <option value="">Label…</option>
+          <optgroup label="Add">
+            {labels.map((l) => (
+              <option key={l.id} value={`add_label:${l.id}`}>{l.name}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Remove">
+            {labels.map((l) => (
+              <option key={l.id} value={`remove_label:${l.id}`}>{l.name}</option>
+            ))}
+          </optgroup>
+        </select>
+      )}
+      {repos.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onAction({ type: "set_repo", repo_id: e.target.value === "none" ? null : e.target.value })}
+          className={selectClass}
+        >
+          <option value="">Repo…</option>
+          <option value="none">No repo</option>
+          {repos.map((r) => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+        </select>
+      )}
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Turn AI on" onClick={() => onAction({ type: "toggle_ai", ai_toggle: true })}>
+        <Bot className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Turn AI off" onClick={() => onAction({ type: "toggle_ai", ai_toggle: false })}>
+        <BotOff className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Archive" onClick={() => onAction({ type: "archive" })}>
+        <Archive className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" title="Delete" onClick={() => onAction({ type: "delete" })}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Clear selection (Esc)" onClick={onClear}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
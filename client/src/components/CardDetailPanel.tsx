@@ -1,16 +1,27 @@
 import { useState, useRef, useCallback } from "react";
-import type { Card, TodoItem, QuestionEvent } from "@daily-kanban/shared";
+import type {
+  Card, ChecklistProgress, Label, Priority, TodoItem, QuestionEvent, UpdateCardRequest, User,
+} from "@daily-kanban/shared";
 import type { ProcessingLog, QueuedAction } from "../hooks/useAiProcessing";
 import Markdown from "react-markdown";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { LogsPanel } from "./LogsPanel";
 import { DiffViewer } from "./DiffViewer";
 import { QueuedActions } from "./QueuedActions";
+import { LabelChip } from "./LabelChip";
+import { Checklist } from "./Checklist";
+import { NotesThread } from "./NotesThread";
+import { Dependencies } from "./Dependencies";
+import { Timeline } from "./Timeline";
+import { SnoozeDialog } from "./SnoozeDialog";
+import { PRIORITY_LABELS, isOverdue, toDateTimeLocal } from "../lib/urgency";
 import {
   X, Mail, Calendar, GitMerge, Send, ListTodo, PenLine, ExternalLink,
   Sparkles, ChevronDown, ChevronRight,
-  MessageCircleQuestion, CircleDot, Circle, CheckCircle,
+  MessageCircleQuestion, CircleDot, Circle, CheckCircle, Pencil, Archive, Trash2, Repeat,
 } from "lucide-react";
 
 const sourceIcons: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -20,6 +31,7 @@ const sourceIcons: Record<string, React.ComponentType<{ className?: string }>> =
   gitlab: GitMerge,
   telegram: Send,
   manual: PenLine,
+  recurring: Repeat,
 };
 
 const sourceLabels: Record<string, string> = {
@@ -29,6 +41,7 @@ const sourceLabels: Record<string, string> = {
   gitlab: "GitLab",
   telegram: "Telegram",
   manual: "Manual",
+  recurring: "Recurring",
 };
 
 export { type ProcessingLog };
@@ -46,15 +59,30 @@ interface CardDetailPanelProps {
   repos?: { id: string; name: string; path: string }[];
   defaultRepoId?: string | null;
   onRepoChange?: (repoId: string) => void;
+  users?: User[];
+  onAssign?: (assigneeId: number | null) => void;
   actionQueue?: QueuedAction[];
   onRemoveFromQueue?: (id: string) => void;
   onClearQueue?: () => void;
+  labels?: Label[];
+  onLabelsChange?: (labelIds: number[]) => void;
+  onCreateLabel?: (name: string) => Promise<Label>;
+  onEdit?: (fields: UpdateCardRequest) => Promise<void>;
+  onArchive?: () => void;
+  onSnooze?: (until: Date) => Promise<void>;
+  onDelete?: () => void;
+  onChecklistChange?: (progress: ChecklistProgress) => void;
+  boardCards?: Card[];
+  onCardChange?: (card: Card) => void;
+  focusSessionId?: number | null;
 }
 
 export function CardDetailPanel({
   card, onClose, processingLogs, todos, activeQuestion, isLiveProcessing,
   onProcess, onExecuteCode, onAnswerQuestion, repos, defaultRepoId, onRepoChange,
-  actionQueue, onRemoveFromQueue, onClearQueue,
+  users, onAssign, actionQueue, onRemoveFromQueue, onClearQueue, labels, onLabelsChange, onCreateLabel,
+  onEdit, onArchive, onSnooze, onDelete, onChecklistChange, boardCards, onCardChange,
+  focusSessionId,
 }: CardDetailPanelProps) {
   const Icon = sourceIcons[card.source_type] || PenLine;
   const externalUrl = card.metadata?.url as string | undefined;
@@ -63,6 +91,12 @@ export function CardDetailPanel({
   const [answerText, setAnswerText] = useState("");
   const [width, setWidth] = useState(400);
   const [todosExpanded, setTodosExpanded] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [draftBody, setDraftBody] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+  const [tab, setTab] = useState<"details" | "timeline">("details");
   const dragging = useRef(false);
   const startX = useRef(0);
   const startWidth = useRef(0);
@@ -95,7 +129,37 @@ export function CardDetailPanel({
   const executionStatus = card.metadata?.execution_status as string | undefined;
   const hasWorktree = !!card.metadata?.worktree_path;
 
-  const planChecklist = parsePlanChecklist(card.body);
+  const startEditing = () => {
+    setDraftTitle(card.title);
+    setDraftBody(card.body || "");
+    setEditing(true);
+  };
+
+  const cardLabelIds = card.labels.map((l) => l.id);
+
+  const toggleLabel = (labelId: number) => {
+    if (!onLabelsChange) return;
+    onLabelsChange(
+      cardLabelIds.includes(labelId)
+        ? cardLabelIds.filter((id) => id !== labelId)
+        : [...cardLabelIds, labelId],
+    );
+  };
+
+  const addNewLabel = async () => {
+    const name = newLabel.trim();
+    if (!name || !onCreateLabel || !onLabelsChange) return;
+    const existing = labels?.find((l) => l.name.toLowerCase() === name.toLowerCase());
+    const label = existing ?? (await onCreateLabel(name));
+    if (!cardLabelIds.includes(label.id)) onLabelsChange([...cardLabelIds, label.id]);
+    setNewLabel("");
+  };
+
+  const saveEdit = async () => {
+    if (!onEdit || !draftTitle.trim()) return;
+    await onEdit({ title: draftTitle.trim(), body: draftBody.trim() || null });
+    setEditing(false);
+  };
 
   return (
     <div
@@ -123,21 +187,172 @@ export function CardDetailPanel({
               </Badge>
             )}
           </div>
-          <Button variant="ghost" size="icon" onClick={onClose} className="shrink-0">
-            <X className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center shrink-0">
+            {onSnooze && <SnoozeDialog onSnooze={onSnooze} />}
+            {onArchive && (
+              <Button variant="ghost" size="icon" onClick={onArchive} title="Archive">
+                <Archive className="h-4 w-4" />
+              </Button>
+            )}
+            {onDelete && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  if (confirmDelete) {
+                    onDelete();
+                  } else {
+                    setConfirmDelete(true);
+                    setTimeout(() => setConfirmDelete(false), 3000);
+                  }
+                }}
+                title={confirmDelete ? "Click again to delete" : "Delete"}
+                className={confirmDelete ? "text-destructive" : ""}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
 
-        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-          <div>
-            <h2 className="text-lg font-semibold">{card.title}</h2>
-            <div className="flex items-center gap-2 mt-1">
-              <span className="text-xs text-muted-foreground capitalize">{card.column_name.replace("_", " ")}</span>
-              <span className="text-xs text-muted-foreground">
-                {new Date(card.created_at).toLocaleString()}
-              </span>
-            </div>
+        <div className="flex gap-1 border-b px-4">
+          {(["details", "timeline"] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-2.5 py-1.5 text-xs font-medium capitalize border-b-2 transition-colors ${
+                tab === t
+                  ? "border-primary text-primary"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {t}
+            </button>
+          ))}
+        </div>
+
+        {tab === "timeline" && (
+          <div className="flex-1 overflow-y-auto p-4">
+            <Timeline cardId={card.id} refreshKey={card.updated_at} />
           </div>
+        )}
+        <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${tab === "timeline" ? "hidden" : ""}`}>
+          {editing ? (
+            <div className="space-y-2">
+              <Input
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                placeholder="Title"
+              />
+              <Textarea
+                value={draftBody}
+                onChange={(e) => setDraftBody(e.target.value)}
+                placeholder="Description"
+                rows={6}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={saveEdit} disabled={!draftTitle.trim()}>Save</Button>
+                <Button size="sm" variant="outline" onClick={() => setEditing(false)}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <div className="flex items-start justify-between gap-2">
+                <h2 className="text-lg font-semibold">{card.title}</h2>
+                {onEdit && (
+                  <Button variant="ghost" size="icon" onClick={startEditing} className="h-7 w-7 shrink-0" title="Edit">
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-center gap-2 mt-1">
+                <span className="text-xs text-muted-foreground capitalize">{card.column_name.replace("_", " ")}</span>
+                <span className="text-xs text-muted-foreground">
+                  {new Date(card.created_at).toLocaleString()}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {labels && onLabelsChange && (
+            <div>
+              <h3 className="text-sm font-medium mb-1">Labels</h3>
+              <div className="flex flex-wrap items-center gap-1">
+                {labels.map((label) => (
+                  <LabelChip
+                    key={label.id}
+                    label={label}
+                    active={cardLabelIds.includes(label.id)}
+                    onClick={() => toggleLabel(label.id)}
+                  />
+                ))}
+                {onCreateLabel && (
+                  <input
+                    type="text"
+                    value={newLabel}
+                    onChange={(e) => setNewLabel(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addNewLabel();
+                      }
+                    }}
+                    placeholder="+ label"
+                    className="w-20 bg-transparent text-xs placeholder:text-muted-foreground focus-visible:outline-none"
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
+          {onEdit && (
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <h3 className="text-sm font-medium mb-1">Priority</h3>
+                <select
+                  value={card.priority}
+                  onChange={(e) => onEdit({ priority: Number(e.target.value) as Priority })}
+                  className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                >
+                  {([1, 2, 3, 4, 0] as Priority[]).map((p) => (
+                    <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <h3 className={`text-sm font-medium mb-1 ${isOverdue(card) ? "text-destructive" : ""}`}>
+                  {isOverdue(card) ? "Overdue" : "Due"}
+                </h3>
+                <input
+                  type="datetime-local"
+                  value={toDateTimeLocal(card.due_at)}
+                  onChange={(e) =>
+                    onEdit({ due_at: e.target.value ? new Date(e.target.value).toISOString() : null })
+                  }
+                  className="w-full rounded-md border border-input bg-background px-3 py-1 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                />
+              </div>
+            </div>
+          )}
+
+          {users && onAssign && (
+            <div>
+              <h3 className="text-sm font-medium mb-1">Assignee</h3>
+              <select
+                value={card.assignee_id ?? ""}
+                onChange={(e) => onAssign(e.target.value ? Number(e.target.value) : null)}
+                className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              >
+                <option value="">Unassigned</option>
+                {users.map((u) => (
+                  <option key={u.id} value={u.id}>{u.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
 
           {repos && repos.length > 0 && onRepoChange && (
             <div>
@@ -155,7 +370,7 @@ export function CardDetailPanel({
             </div>
           )}
 
-          {card.body && (
+          {card.body && !editing && (
             <div>
               <h3 className="text-sm font-medium mb-1">
                 {card.metadata?.repo_id && card.column_name === "review" ? "Implementation Plan" : "Description"}
@@ -170,25 +385,18 @@ export function CardDetailPanel({
             </div>
           )}
 
-          {planChecklist.length > 0 && (
-            <div>
-              <h3 className="text-sm font-medium mb-2">Plan Checklist</h3>
-              <div className="space-y-1">
-                {planChecklist.map((item, i) => (
-                  <label key={i} className="flex items-start gap-2 text-sm cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={item.checked}
-                      className="mt-0.5 rounded"
-                      readOnly
-                    />
-                    <span className={item.checked ? "line-through text-muted-foreground" : ""}>{item.text}</span>
-                  </label>
-                ))}
-              </div>
-            </div>
+          <Checklist
+            cardId={card.id}
+            refreshKey={`${card.body ?? ""}|${(todos ?? []).map((t) => `${t.id}:${t.status}`).join(",")}`}
+            onProgressChange={onChecklistChange}
+          />
+
+          {boardCards && onCardChange && (
+            <Dependencies card={card} boardCards={boardCards} onChange={onCardChange} />
           )}
 
+          <NotesThread cardId={card.id} />
+
           {onProcess && (
             <div>
               <h3 className="text-sm font-medium mb-1">AI Request</h3>
@@ -332,6 +540,7 @@ export function CardDetailPanel({
             cardId={card.id}
             liveLogs={processingLogs || []}
             isLiveProcessing={!!isLiveProcessing}
+            focusSessionId={focusSessionId}
           />
 
           {card.metadata && Object.keys(card.metadata).length > 0 && (
@@ -339,7 +548,7 @@ export function CardDetailPanel({
               <h3 className="text-sm font-medium mb-1">Details</h3>
               <dl className="text-sm space-y-1">
                 {Object.entries(card.metadata).map(([key, value]) => {
-                  if (["url", "repo_id", "worktree_path", "branch_name", "session_id", "execution_status"].includes(key)) return null;
+                  if (["url", "repo_id", "worktree_path", "branch_name", "session_id", "execution_status", "action_due_at"].includes(key)) return null;
                   return (
                     <div key={key} className="flex gap-2">
                       <dt className="text-muted-foreground capitalize">{key.replace(/_/g, " ")}:</dt>
@@ -378,22 +587,3 @@ function TodoStatusIcon({ status }: { status: string }) {
       return <Circle className="h-3.5 w-3.5 text-muted-foreground shrink-0" />;
   }
 }
-
-interface ChecklistItem {
-  text: string;
-  checked: boolean;
-}
-
-function parsePlanChecklist(body: string | null): ChecklistItem[] {
-  if (!body) return [];
-  const items: ChecklistItem[] = [];
-  const regex = /^[-*]\s+\[([ xX])\]\s+(.+)$/gm;
-  let match;
-  while ((match = regex.exec(body)) !== null) {
-    items.push({
-      checked: match[1] !== " ",
-      text: match[2].trim(),
-    });
-  }
-  return items;
-}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import type { ChecklistItem, ChecklistProgress } from "@daily-kanban/shared";
+import { X } from "lucide-react";
+import { api } from "../lib/api";
+
+interface ChecklistProps {
+  cardId: number;
+  // Changes whenever the server may have touched the checklist (plan edits, execution todos)
+  refreshKey: string;
+  onProgressChange?: (progress: ChecklistProgress) => void;
+}
+
+function progressOf(items: ChecklistItem[]): ChecklistProgress {
+  return { done: items.filter((i) => i.checked).length, total: items.length };
+}
+
+export function Checklist({ cardId, refreshKey, onProgressChange }: ChecklistProps) {
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState("");
+
+  useEffect(() => {
+    api.listChecklist(cardId).then(({ items }) => setItems(items)).catch(console.error);
+  }, [cardId, refreshKey]);
+
+  const apply = (next: ChecklistItem[]) => {
+    setItems(next);
+    onProgressChange?.(progressOf(next));
+  };
+
+  const toggle = async (item: ChecklistItem) => {
+    const updated = await api.updateChecklistItem(cardId, item.id, { checked: !item.checked });
+    apply(items.map((i) => (i.id === updated.id ? updated : i)));
+  };
+
+  const remove = async (item: ChecklistItem) => {
+    await api.deleteChecklistItem(cardId, item.id);
+    apply(items.filter((i) => i.id !== item.id));
+  };
+
+  const add = async () => {
+    const text = newItem.trim();
+    if (!text) return;
+    const created = await api.addChecklistItem(cardId, text);
+    apply([...items, created]);
+    setNewItem("");
+  };
+
+  const { done, total } = progressOf(items);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">
+        Checklist
+        {total > 0 && <span className="ml-2 text-xs text-muted-foreground">{done}/{total}</span>}
+      </h3>
+      <div className="space-y-1">
+        {items.map((item) => (
+          <div key={item.id} className="group flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.checked}
+              onChange={() => toggle(item)}
+              className="mt-0.5 rounded cursor-pointer"
+            />
+            <span className={`flex-1 ${item.checked ? "line-through text-muted-foreground" : ""}`}>
+              {item.text}
+              {item.todo_id && !item.checked && (
+                <span className="ml-1 text-xs text-cyan-600 dark:text-cyan-400">(AI task)</span>
+              )}
+            </span>
+            <button
+              type="button"
+              onClick={() => remove(item)}
+              className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+              title="Remove"
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+        <input
+          type="text"
+          value={newItem}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder="+ Add item"
+          className="w-full bg-transparent text-sm placeholder:text-muted-foreground focus-visible:outline-none"
+        />
+      </div>
+    </div>
+  );
+}
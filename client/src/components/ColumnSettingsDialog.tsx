@@ -0,0 +1,159 @@
+import { useState } from "react";
+import type { BoardColumn, ColumnBehavior, UpdateColumnRequest } from "@daily-kanban/shared";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowDown, ArrowUp, Columns3, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+interface ColumnSettingsDialogProps {
+  // "today" or the board's YYYY-MM-DD date
+  boardDate: string;
+  columns: BoardColumn[];
+  onChange: (columns: BoardColumn[]) => void;
+}
+
+const behaviorLabels: Record<ColumnBehavior, string> = {
+  start_ai: "Start AI processing",
+  execute_action: "Execute proposed action",
+};
+
+export function ColumnSettingsDialog({ boardDate, columns, onChange }: ColumnSettingsDialogProps) {
+  const [newName, setNewName] = useState("");
+
+  const run = async (action: () => Promise<BoardColumn[]>) => {
+    try {
+      onChange(await action());
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to update columns");
+    }
+  };
+
+  const update = (column: BoardColumn, input: UpdateColumnRequest) =>
+    run(async () => {
+      const updated = await api.updateColumn(boardDate, column.id, input);
+      return columns.map((c) => (c.id === updated.id ? updated : c));
+    });
+
+  const remove = (column: BoardColumn) =>
+    run(async () => {
+      await api.deleteColumn(boardDate, column.id);
+      return columns.filter((c) => c.id !== column.id);
+    });
+
+  const move = (index: number, offset: number) =>
+    run(async () => {
+      const ids = columns.map((c) => c.id);
+      [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+      return (await api.reorderColumns(boardDate, ids)).columns;
+    });
+
+  const add = () => {
+    const name = newName.trim();
+    if (!name) return;
+    run(async () => [...columns, await api.createColumn(boardDate, { name })]);
+    setNewName("");
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Columns">
+          <Columns3 className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Columns</DialogTitle>
+          <DialogDescription>
+            Changes apply to this board and carry over to the boards that follow it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {columns.map((column, index) => (
+            <div key={column.id} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={column.color}
+                onChange={(e) => update(column, { color: e.target.value })}
+                className="h-6 w-6 shrink-0 rounded border-0 bg-transparent p-0"
+              />
+              <Input
+                defaultValue={column.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== column.name) update(column, { name });
+                }}
+                className="h-8 flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                placeholder="WIP"
+                title="WIP limit (empty for none)"
+                defaultValue={column.wip_limit ?? ""}
+                onBlur={(e) => {
+                  const wip_limit = e.target.value ? Number(e.target.value) : null;
+                  if (wip_limit !== column.wip_limit) update(column, { wip_limit });
+                }}
+                className="h-8 w-20"
+              />
+              <select
+                value={column.behavior ?? ""}
+                onChange={(e) => update(column, { behavior: (e.target.value || null) as ColumnBehavior | null })}
+                className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+              >
+                <option value="">No behavior</option>
+                {Object.entries(behaviorLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <Button variant="ghost" size="icon" className="h-8 w-8" disabled={index === 0} onClick={() => move(index, -1)}>
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={index === columns.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={column.system}
+                title={column.system ? "Built-in column" : "Remove column"}
+                onClick={() => remove(column)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <Input
+              placeholder="New column name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && add()}
+              className="h-8"
+            />
+            <Button size="sm" onClick={add} disabled={!newName.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
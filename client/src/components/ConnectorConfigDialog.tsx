@@ -10,6 +10,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
+import type { ConnectorConfigResponse } from "@daily-kanban/shared";
+import { apiFetch } from "../lib/api";
 
 type ConnectorType = "gmail" | "calendar" | "linear" | "gitlab" | "telegram";
 
@@ -95,7 +97,7 @@ function GoogleOAuthFlow({
 
     setAuthorizing(true);
     try {
-      const res = await fetch(`/api/connectors/${connectorType}/oauth/start`, {
+      const res = await apiFetch(`/api/connectors/${connectorType}/oauth/start`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ credentials_json: credentialsJson }),
@@ -112,7 +114,7 @@ function GoogleOAuthFlow({
       // Poll for completion
       pollingRef.current = setInterval(async () => {
         try {
-          const check = await fetch(`/api/connectors/${connectorType}`);
+          const check = await apiFetch(`/api/connectors/${connectorType}`);
           if (!check.ok) return;
           const data = await check.json();
           if (data.credentials) {
@@ -172,23 +174,23 @@ function GoogleOAuthFlow({
 function LinearTeamSelect({
   value,
   onChange,
-  apiKey,
+  hasApiKey,
 }: {
   value: string;
   onChange: (value: string) => void;
-  apiKey: string;
+  hasApiKey: boolean;
 }) {
   const [teams, setTeams] = useState<{ id: string; name: string; key: string }[]>([]);
   const [loadingTeams, setLoadingTeams] = useState(false);
 
   useEffect(() => {
-    if (!apiKey) {
+    if (!hasApiKey) {
       setTeams([]);
       return;
     }
 
     setLoadingTeams(true);
-    fetch("/api/connectors/linear/teams")
+    apiFetch("/api/connectors/linear/teams")
       .then((r) => {
         if (!r.ok) return null;
         return r.json();
@@ -202,9 +204,9 @@ function LinearTeamSelect({
         // ignore - API key might not be configured yet
       })
       .finally(() => setLoadingTeams(false));
-  }, [apiKey]);
+  }, [hasApiKey]);
 
-  if (!apiKey) return null;
+  if (!hasApiKey) return null;
 
   return (
     <div>
@@ -239,22 +241,26 @@ export function ConnectorConfigDialog({
   const [saving, setSaving] = useState(false);
   const [loading, setLoading] = useState(false);
   const [isConfigured, setIsConfigured] = useState(false);
+  // Secrets already stored; the server never sends them back
+  const [savedSecrets, setSavedSecrets] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     if (!open || !connectorType) {
       setFields({});
       setIsConfigured(false);
+      setSavedSecrets(new Set());
       return;
     }
 
     setLoading(true);
-    fetch(`/api/connectors/${connectorType}`)
+    apiFetch(`/api/connectors/${connectorType}`)
       .then((r) => {
         if (!r.ok) return null;
         return r.json();
       })
-      .then((data) => {
+      .then((data: ConnectorConfigResponse | null) => {
         const defaults: Record<string, string> = {};
+        const secrets = new Set<string>();
         for (const field of CONNECTOR_FIELDS[connectorType]) {
           defaults[field.key] = "";
         }
@@ -265,13 +271,17 @@ export function ConnectorConfigDialog({
         if (data?.credentials) {
           setIsConfigured(true);
           if (!OAUTH_CONNECTORS.has(connectorType)) {
-            Object.assign(defaults, data.credentials);
+            for (const [key, credential] of Object.entries(data.credentials)) {
+              if (credential.value !== null) defaults[key] = credential.value;
+              else if (credential.configured) secrets.add(key);
+            }
           }
         }
         if (data?.settings) {
           Object.assign(defaults, data.settings);
         }
         setFields(defaults);
+        setSavedSecrets(secrets);
       })
       .finally(() => setLoading(false));
   }, [open, connectorType]);
@@ -283,13 +293,13 @@ export function ConnectorConfigDialog({
 
   const handleSave = async () => {
     // Validate that required fields are filled
-    const empty = fieldDefs.filter((f) => !f.optional && !fields[f.key]?.trim());
+    const empty = fieldDefs.filter((f) => !f.optional && !savedSecrets.has(f.key) && !fields[f.key]?.trim());
     if (empty.length > 0) {
       toast.error(`Please fill in: ${empty.map((f) => f.label).join(", ")}`);
       return;
     }
 
-    // Split fields into credentials and settings
+    // Split fields into credentials and settings; blank saved secrets stay as they are
     const credentials: Record<string, string> = {};
     const settings: Record<string, string> = {};
     for (const field of fieldDefs) {
@@ -308,7 +318,7 @@ export function ConnectorConfigDialog({
 
     setSaving(true);
     try {
-      const res = await fetch(`/api/connectors/${connectorType}`, {
+      const res = await apiFetch(`/api/connectors/${connectorType}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -321,7 +331,7 @@ export function ConnectorConfigDialog({
       if (!res.ok) throw new Error("Failed to save");
 
       // Reload the connector on the server
-      await fetch(`/api/connectors/${connectorType}/reload`, {
+      await apiFetch(`/api/connectors/${connectorType}/reload`, {
         method: "POST",
       });
 
@@ -343,7 +353,7 @@ export function ConnectorConfigDialog({
           <DialogDescription>
             {isOAuth
               ? `Upload your Google Cloud credentials.json to authorize ${connectorType}.`
-              : `Enter the credentials for your ${connectorType} integration.`}
+              : `Enter the credentials for your ${connectorType} integration. Any field can also be a reference such as \${env:GITLAB_TOKEN} or file:/run/secrets/token.`}
           </DialogDescription>
         </DialogHeader>
 
@@ -365,7 +375,7 @@ export function ConnectorConfigDialog({
                 <label className="text-sm font-medium">{field.label}</label>
                 <Input
                   type={field.type || "text"}
-                  placeholder={field.placeholder}
+                  placeholder={savedSecrets.has(field.key) ? "Saved (leave blank to keep)" : field.placeholder}
                   value={fields[field.key] || ""}
                   onChange={(e) =>
                     setFields((prev) => ({ ...prev, [field.key]: e.target.value }))
@@ -380,7 +390,7 @@ export function ConnectorConfigDialog({
                 onChange={(value) =>
                   setFields((prev) => ({ ...prev, team_id: value }))
                 }
-                apiKey={fields.api_key || ""}
+                hasApiKey={Boolean(fields.api_key) || savedSecrets.has("api_key")}
               />
             )}
           </div>
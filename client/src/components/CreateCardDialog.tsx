@@ -1,4 +1,5 @@
 import { useState } from "react";
+import type { CardTemplate } from "@daily-kanban/shared";
 import {
   Dialog,
   DialogContent,
@@ -10,15 +11,33 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
 
 interface CreateCardDialogProps {
   onCreateCard: (title: string, body?: string) => Promise<void>;
+  onCreateFromTemplate: (templateId: number) => Promise<void>;
 }
 
-export function CreateCardDialog({ onCreateCard }: CreateCardDialogProps) {
+export function CreateCardDialog({ onCreateCard, onCreateFromTemplate }: CreateCardDialogProps) {
   const [open, setOpen] = useState(false);
   const [title, setTitle] = useState("");
   const [body, setBody] = useState("");
+  const [templates, setTemplates] = useState<CardTemplate[]>([]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) api.listTemplates().then((data) => setTemplates(data.templates)).catch(console.error);
+  };
+
+  const handleTemplate = async (templateId: number) => {
+    try {
+      await onCreateFromTemplate(templateId);
+      setOpen(false);
+    } catch {
+      toast.error("Failed to create card from template");
+    }
+  };
 
   const handleSubmit = async () => {
     if (!title.trim()) return;
@@ -29,7 +48,7 @@ export function CreateCardDialog({ onCreateCard }: CreateCardDialogProps) {
   };
 
   return (
-    <Dialog open={open} onOpenChange={setOpen}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" size="sm">
           <Plus className="h-4 w-4 mr-1" /> New Task
@@ -40,6 +59,18 @@ export function CreateCardDialog({ onCreateCard }: CreateCardDialogProps) {
           <DialogTitle>Create Task</DialogTitle>
         </DialogHeader>
         <div className="space-y-3">
+          {templates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => e.target.value && handleTemplate(Number(e.target.value))}
+              className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+            >
+              <option value="">From template…</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          )}
           <Input
             placeholder="Task title"
             value={title}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import type { AutomationCounts, StatsResponse } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+const sourceLabels: Record<string, string> = {
+  gmail: "Gmail",
+  calendar: "Calendar",
+  linear: "Linear",
+  gitlab: "GitLab",
+  telegram: "Telegram",
+  manual: "Manual",
+  recurring: "Recurring",
+};
+
+function percent(part: number, whole: number): string {
+  return whole ? `${Math.round((part / whole) * 100)}%` : "–";
+}
+
+function duration(minutes: number | null): string {
+  if (minutes === null) return "–";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h ${minutes % 60}m` : `${Math.round(hours / 24)}d`;
+}
+
+function Stat({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  );
+}
+
+// One row of the per-source table; the totals row uses it too
+function CountsRow({ label, counts }: { label: string; counts: AutomationCounts }) {
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-1.5">{label}</td>
+      <td className="text-right">{counts.cards}</td>
+      <td className="text-right">{percent(counts.evaluated, counts.cards)}</td>
+      <td className="text-right">{percent(counts.executed, counts.cards)}</td>
+      <td className="text-right">{percent(counts.succeeded, counts.executed)}</td>
+      <td className="text-right">{percent(counts.human_do, counts.cards)}</td>
+      <td className="text-right">{counts.done}</td>
+    </tr>
+  );
+}
+
+export function Dashboard() {
+  // null: the server's default range
+  const [range, setRange] = useState<{ from: string; to: string } | null>(null);
+  const [stats, setStats] = useState<StatsResponse | null>(null);
+
+  useEffect(() => {
+    api
+      .getStats(range?.from, range?.to)
+      .then(setStats)
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load stats"));
+  }, [range]);
+
+  const from = stats?.from ?? "";
+  const to = stats?.to ?? "";
+  const totals = stats?.totals;
+  const maxBucket = Math.max(1, ...(stats?.confidence.map((b) => b.evaluated) ?? []));
+
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link to="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-lg font-bold">Dashboard</h1>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <input type="date" value={from} max={to} onChange={(e) => e.target.value && setRange({ from: e.target.value, to })} className="rounded-md border bg-background px-2 py-1" />
+          <span className="text-muted-foreground">to</span>
+          <input type="date" value={to} min={from} onChange={(e) => e.target.value && setRange({ from, to: e.target.value })} className="rounded-md border bg-background px-2 py-1" />
+        </div>
+      </div>
+
+      {stats && totals && (
+        <>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <Stat label="Cards" value={totals.cards} detail={`${totals.done} done`} />
+            <Stat label="Evaluated by AI" value={percent(totals.evaluated, totals.cards)} detail={`${totals.evaluated} cards`} />
+            <Stat
+              label="Auto-executed"
+              value={percent(totals.executed, totals.cards)}
+              detail={`${percent(totals.succeeded, totals.executed)} succeeded`}
+            />
+            <Stat label="Handed to a human" value={percent(totals.human_do, totals.cards)} detail={`${totals.human_do} cards`} />
+            <Stat
+              label="Inbox to done"
+              value={duration(stats.cycle_time.median_minutes)}
+              detail={`median; average ${duration(stats.cycle_time.average_minutes)}`}
+            />
+            <Stat label="AI sessions" value={stats.sessions.total} detail={`${stats.sessions.completed} completed`} />
+            <Stat label="Failed sessions" value={stats.sessions.failed} detail={percent(stats.sessions.failed, stats.sessions.total)} />
+            <Stat label="Paused sessions" value={stats.sessions.paused} detail={`${stats.sessions.running} still running`} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By source</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground">
+                  <tr className="border-b">
+                    <th className="py-1.5 text-left font-normal">Source</th>
+                    <th className="text-right font-normal">Cards</th>
+                    <th className="text-right font-normal">Evaluated</th>
+                    <th className="text-right font-normal">Executed</th>
+                    <th className="text-right font-normal">Succeeded</th>
+                    <th className="text-right font-normal">Human do</th>
+                    <th className="text-right font-normal">Done</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.by_source.map((source) => (
+                    <CountsRow key={source.source_type} label={sourceLabels[source.source_type] ?? source.source_type} counts={source} />
+                  ))}
+                  {stats.by_source.length > 1 && <CountsRow label="All" counts={totals} />}
+                </tbody>
+              </table>
+              {stats.by_source.length === 0 && <p className="text-sm text-muted-foreground">No cards in this range.</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Confidence vs. execution</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {stats.confidence.map((bucket) => (
+                <div key={bucket.min} className="flex items-center gap-3 text-sm">
+                  <span className="w-16 text-xs text-muted-foreground">{bucket.min}–{bucket.max}%</span>
+                  <div className="relative h-4 flex-1 rounded bg-muted">
+                    <div className="absolute inset-y-0 left-0 rounded bg-blue-500/40" style={{ width: `${(bucket.evaluated / maxBucket) * 100}%` }} />
+                    <div className="absolute inset-y-0 left-0 rounded bg-green-500" style={{ width: `${(bucket.succeeded / maxBucket) * 100}%` }} />
+                  </div>
+                  <span className="w-40 text-xs text-muted-foreground">
+                    {bucket.evaluated} evaluated, {bucket.executed} run, {percent(bucket.succeeded, bucket.executed)} ok
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
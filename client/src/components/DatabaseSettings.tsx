@@ -0,0 +1,195 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import type { BackupFile, MaintenancePolicy, RestoreBackupResponse, SchemaStatus } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { DatabaseBackup, RotateCcw, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+import { useUndo } from "../hooks/useUndo";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Empty input means "keep forever"
+function parseDays(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+export function DatabaseSettings() {
+  const [schema, setSchema] = useState<SchemaStatus | null>(null);
+  const [dir, setDir] = useState("");
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [policy, setPolicy] = useState<MaintenancePolicy | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const undo = useUndo();
+
+  const refresh = useCallback(() => {
+    api.getSchemaStatus().then(setSchema).catch(console.error);
+    api
+      .listBackups()
+      .then((data) => {
+        setDir(data.dir);
+        setBackups(data.backups);
+      })
+      .catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    api.getMaintenancePolicy().then(setPolicy).catch(console.error);
+  }, [refresh]);
+
+  // Runs one database action at a time and reloads the list afterwards
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : failure);
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const restored = (result: RestoreBackupResponse) => {
+    undo.push(`Restored ${result.restored}`, async () => {
+      await api.restoreBackup(result.safety_backup.name);
+      refresh();
+    });
+  };
+
+  const backupNow = () =>
+    run(async () => {
+      const backup = await api.createBackup();
+      toast.success(`Backed up to ${backup.name}`);
+    }, "Backup failed");
+
+  const restore = (name: string) => run(async () => restored(await api.restoreBackup(name)), "Restore failed");
+
+  const upload = (file: File | undefined) => {
+    if (file) run(async () => restored(await api.restoreUpload(file)), "Restore failed");
+  };
+
+  const savePolicy = async (fields: Partial<MaintenancePolicy>) => {
+    try {
+      setPolicy(await api.updateMaintenancePolicy(fields));
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save retention");
+    }
+  };
+
+  const prune = () =>
+    run(async () => {
+      const result = await api.pruneDatabase();
+      toast.success(
+        `Removed ${result.boards} boards, ${result.cards} cards, ${result.sessions} sessions and ${result.logs} log lines`
+      );
+    }, "Prune failed");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-base">Database</CardTitle>
+          {schema && (
+            <p className="text-xs text-muted-foreground">
+              Schema version {schema.version}
+              {schema.pending.length > 0 && ` (${schema.pending.length} migrations pending)`}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={busy}>
+            <Upload className="h-4 w-4 mr-1.5" /> Restore from file
+          </Button>
+          <Button variant="outline" size="sm" onClick={backupNow} disabled={busy}>
+            <DatabaseBackup className="h-4 w-4 mr-1.5" /> Back up now
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".db,.sqlite,.sqlite3"
+            className="hidden"
+            onChange={(e) => {
+              upload(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {policy && (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Back up every (hours)</span>
+              <Input
+                type="number"
+                min={0}
+                defaultValue={policy.backup_interval_hours}
+                onBlur={(e) => savePolicy({ backup_interval_hours: Number(e.target.value) })}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Backups to keep</span>
+              <Input
+                type="number"
+                min={1}
+                defaultValue={policy.backup_keep}
+                onBlur={(e) => savePolicy({ backup_keep: Number(e.target.value) })}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Keep AI logs (days)</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="Forever"
+                defaultValue={policy.log_retention_days ?? ""}
+                onBlur={(e) => savePolicy({ log_retention_days: parseDays(e.target.value) })}
+              />
+            </label>
+            <label className="text-xs text-muted-foreground space-y-1">
+              <span>Keep boards (days)</span>
+              <Input
+                type="number"
+                min={1}
+                placeholder="Forever"
+                defaultValue={policy.board_retention_days ?? ""}
+                onBlur={(e) => savePolicy({ board_retention_days: parseDays(e.target.value) })}
+              />
+            </label>
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-muted-foreground">
+            Scheduled backups prune by these limits too. Backups live in <code>{dir}</code>.
+          </p>
+          <Button variant="ghost" size="sm" onClick={prune} disabled={busy}>
+            <Trash2 className="h-3 w-3 mr-1.5" /> Prune now
+          </Button>
+        </div>
+        <div>
+          {backups.length === 0 && <p className="text-sm text-muted-foreground">No backups yet.</p>}
+          {backups.map((backup) => (
+            <div key={backup.name} className="flex items-center justify-between py-2 border-b last:border-0">
+              <div className="min-w-0">
+                <p className="text-sm truncate">{new Date(backup.created_at).toLocaleString()}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {backup.name} · {formatSize(backup.size)}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => restore(backup.name)} disabled={busy} title="Restore">
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import type { Card } from "@daily-kanban/shared";
+import { Lock, X } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+interface DependenciesProps {
+  card: Card;
+  // Cards on the current board that can be picked as blockers
+  boardCards: Card[];
+  onChange: (card: Card) => void;
+}
+
+export function Dependencies({ card, boardCards, onChange }: DependenciesProps) {
+  const [blockedBy, setBlockedBy] = useState<Card[]>([]);
+  const [blocks, setBlocks] = useState<Card[]>([]);
+  const depsKey = `${card.dependencies.blocked_by.join(",")}|${card.dependencies.blocks.join(",")}|${card.dependencies.open_blockers.join(",")}`;
+
+  useEffect(() => {
+    api
+      .getDependencies(card.id)
+      .then((data) => {
+        setBlockedBy(data.blocked_by);
+        setBlocks(data.blocks);
+      })
+      .catch(console.error);
+  }, [card.id, depsKey]);
+
+  const candidates = boardCards.filter(
+    (c) => c.id !== card.id && !card.dependencies.blocked_by.includes(c.id),
+  );
+
+  const add = async (blockerId: number) => {
+    try {
+      onChange(await api.addDependency(card.id, blockerId));
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to add dependency");
+    }
+  };
+
+  const remove = async (blockerId: number) => {
+    try {
+      onChange(await api.removeDependency(card.id, blockerId));
+    } catch {
+      toast.error("Failed to remove dependency");
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1 flex items-center gap-1">
+        Blocked by
+        {card.dependencies.open_blockers.length > 0 && <Lock className="h-3 w-3 text-amber-500" />}
+      </h3>
+      <div className="space-y-1">
+        {blockedBy.map((blocker) => {
+          const open = card.dependencies.open_blockers.includes(blocker.id);
+          return (
+            <div key={blocker.id} className="group flex items-center gap-2 text-sm">
+              <span className={`flex-1 truncate ${open ? "" : "line-through text-muted-foreground"}`}>
+                {blocker.title}
+              </span>
+              <span className="text-xs text-muted-foreground capitalize">{blocker.column_name.replace("_", " ")}</span>
+              <button
+                type="button"
+                onClick={() => remove(blocker.id)}
+                className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground"
+                title="Remove dependency"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          );
+        })}
+        {candidates.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && add(Number(e.target.value))}
+            className="w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+          >
+            <option value="">+ Add blocker…</option>
+            {candidates.map((c) => (
+              <option key={c.id} value={c.id}>{c.title}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {blocks.length > 0 && (
+        <p className="mt-2 text-xs text-muted-foreground">
+          Blocks: {blocks.map((c) => c.title).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useRef, useState } from "react";
+import type { BoardExport, ExportFormat, ImportBoardResponse } from "@daily-kanban/shared";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ClipboardCopy, Download, FileDown, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+interface ExportDialogProps {
+  // "today" or the board's YYYY-MM-DD date
+  boardDate: string;
+  onImported: (result: ImportBoardResponse) => void;
+}
+
+const formats: { format: ExportFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+  { format: "md", label: "Markdown" },
+];
+
+export function ExportDialog({ boardDate, onImported }: ExportDialogProps) {
+  const [includeLogs, setIncludeLogs] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const copyMarkdown = async () => {
+    try {
+      await navigator.clipboard.writeText(await api.exportMarkdown(boardDate));
+      toast.success("Board copied as Markdown");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to copy board");
+    }
+  };
+
+  const importFile = async (file: File) => {
+    setImporting(true);
+    try {
+      const data = JSON.parse(await file.text()) as BoardExport;
+      const result = await api.importBoard(data);
+      toast.success(
+        `Imported ${result.imported} card${result.imported === 1 ? "" : "s"} to ${result.board.date}` +
+          (result.skipped ? ` (${result.skipped} already there)` : ""),
+      );
+      onImported(result);
+    } catch (e) {
+      toast.error(e instanceof SyntaxError ? "That file is not JSON" : e instanceof Error ? e.message : "Import failed");
+    } finally {
+      setImporting(false);
+      if (fileInput.current) fileInput.current.value = "";
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Export / import">
+          <FileDown className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export &amp; Import</DialogTitle>
+          <DialogDescription>Download this board, or bring in a board exported as JSON.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            {formats.map(({ format, label }) => (
+              <Button key={format} variant="outline" size="sm" asChild>
+                <a href={api.exportUrl(boardDate, format, includeLogs)} download>
+                  <Download className="h-3 w-3 mr-1" /> {label}
+                </a>
+              </Button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between text-sm">
+            Include execution logs
+            <Switch checked={includeLogs} onCheckedChange={setIncludeLogs} />
+          </label>
+          <Button variant="secondary" className="w-full" onClick={copyMarkdown}>
+            <ClipboardCopy className="h-4 w-4 mr-1" /> Copy Markdown for standup
+          </Button>
+          <div className="border-t pt-4">
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && importFile(e.target.files[0])}
+            />
+            <Button variant="outline" className="w-full" disabled={importing} onClick={() => fileInput.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" /> {importing ? "Importing…" : "Import JSON"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,87 @@
+import type { Label, SourceType, User } from "@daily-kanban/shared";
+import { Search, X } from "lucide-react";
+import { LabelChip } from "./LabelChip";
+import { EMPTY_FILTERS, type BoardFilters } from "../lib/filters";
+
+const SOURCES: SourceType[] = ["gmail", "calendar", "linear", "gitlab", "telegram", "manual", "recurring"];
+
+interface FilterBarProps {
+  filters: BoardFilters;
+  labels: Label[];
+  users: User[];
+  // The signed-in user, whose cards "My cards" shows
+  meId: number | null;
+  onChange: (filters: BoardFilters) => void;
+}
+
+export function FilterBar({ filters, labels, users, meId, onChange }: FilterBarProps) {
+  const isActive =
+    filters.text !== "" || filters.source !== "" || filters.labelIds.length > 0 || filters.assignee !== "";
+
+  const toggleLabel = (id: number) => {
+    const labelIds = filters.labelIds.includes(id)
+      ? filters.labelIds.filter((l) => l !== id)
+      : [...filters.labelIds, id];
+    onChange({ ...filters, labelIds });
+  };
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 border-b">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground" />
+        <input
+          type="text"
+          value={filters.text}
+          onChange={(e) => onChange({ ...filters, text: e.target.value })}
+          placeholder="Filter cards..."
+          className="w-48 rounded-md border border-input bg-background pl-7 pr-2 py-1 text-xs placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+        />
+      </div>
+      <select
+        value={filters.source}
+        onChange={(e) => onChange({ ...filters, source: e.target.value as SourceType | "" })}
+        className="rounded-md border border-input bg-background px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      >
+        <option value="">All sources</option>
+        {SOURCES.map((s) => (
+          <option key={s} value={s} className="capitalize">{s}</option>
+        ))}
+      </select>
+      <select
+        value={String(filters.assignee)}
+        onChange={(e) => {
+          const value = e.target.value;
+          onChange({ ...filters, assignee: value === "" || value === "unassigned" ? value : Number(value) });
+        }}
+        className="rounded-md border border-input bg-background px-2 py-1 text-xs focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+      >
+        <option value="">Anyone's cards</option>
+        {meId !== null && <option value={meId}>My cards</option>}
+        <option value="unassigned">Unassigned</option>
+        {users.filter((u) => u.id !== meId).map((u) => (
+          <option key={u.id} value={u.id}>{u.name}</option>
+        ))}
+      </select>
+      {labels.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {labels.map((label) => (
+            <LabelChip
+              key={label.id}
+              label={label}
+              active={filters.labelIds.length === 0 || filters.labelIds.includes(label.id)}
+              onClick={() => toggleLabel(label.id)}
+            />
+          ))}
+        </div>
+      )}
+      {isActive && (
+        <button
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <X className="h-3 w-3" /> Clear
+        </button>
+      )}
+    </div>
+  );
+}
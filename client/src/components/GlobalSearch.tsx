@@ -0,0 +1,134 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import type { SearchHit, SearchResultGroup } from "@daily-kanban/shared";
+import { Search, FileText, Terminal } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { api } from "../lib/api";
+
+// Snippets wrap matched terms in \u0002 ... \u0003
+function Snippet({ text }: { text: string }) {
+  const [before, ...rest] = text.split("\u0002");
+  return (
+    <>
+      {before}
+      {rest.map((part, i) => {
+        const [match, after] = part.split("\u0003");
+        return (
+          <span key={i}>
+            <mark className="bg-yellow-200 dark:bg-yellow-800 text-inherit rounded-sm">{match}</mark>
+            {after}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [groups, setGroups] = useState<SearchResultGroup[]>([]);
+  const [active, setActive] = useState(0);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) return;
+    const timer = setTimeout(() => {
+      api
+        .search(query)
+        .then((data) => {
+          setGroups(data.groups);
+          setActive(0);
+        })
+        .catch(console.error);
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Results of the last non-empty query stay in state; hide them once it's cleared
+  const visibleGroups = query.trim() ? groups : [];
+  const flat = visibleGroups.flatMap((g) => g.hits.map((hit) => ({ date: g.date, hit })));
+
+  const openHit = (date: string, hit: SearchHit) => {
+    const params = new URLSearchParams({ date, card: String(hit.card_id) });
+    if (hit.execution_session_id) params.set("session", String(hit.execution_session_id));
+    navigate(`/?${params}`);
+    setOpen(false);
+    setQuery("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-xl p-0 gap-0">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowDown") {
+                e.preventDefault();
+                setActive((i) => Math.min(i + 1, flat.length - 1));
+              } else if (e.key === "ArrowUp") {
+                e.preventDefault();
+                setActive((i) => Math.max(i - 1, 0));
+              } else if (e.key === "Enter" && flat[active]) {
+                e.preventDefault();
+                openHit(flat[active].date, flat[active].hit);
+              }
+            }}
+            placeholder="Search cards and execution logs…"
+            className="border-0 shadow-none focus-visible:ring-0"
+          />
+        </div>
+        <div className="max-h-[60vh] overflow-y-auto p-2">
+          {query.trim() && flat.length === 0 && (
+            <p className="p-4 text-center text-sm text-muted-foreground">No results</p>
+          )}
+          {visibleGroups.map((group) => (
+            <div key={group.date} className="mb-2">
+              <h4 className="px-2 py-1 text-xs font-medium text-muted-foreground">{group.date}</h4>
+              {group.hits.map((hit) => {
+                const index = flat.findIndex((f) => f.hit === hit);
+                const Icon = hit.kind === "log" ? Terminal : FileText;
+                return (
+                  <button
+                    key={`${hit.kind}-${hit.log_id ?? hit.card_id}`}
+                    type="button"
+                    onClick={() => openHit(group.date, hit)}
+                    onMouseEnter={() => setActive(index)}
+                    className={`w-full flex items-start gap-2 rounded-md px-2 py-1.5 text-left ${
+                      index === active ? "bg-accent" : ""
+                    }`}
+                  >
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{hit.card_title}</div>
+                      <div className="text-xs text-muted-foreground line-clamp-2">
+                        <Snippet text={hit.snippet} />
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
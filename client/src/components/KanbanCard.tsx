@@ -3,7 +3,9 @@ import type { Card } from "@daily-kanban/shared";
 import { Card as ShadcnCard, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Draggable } from "@hello-pangea/dnd";
-import { Mail, Calendar, GitMerge, Send, ListTodo, PenLine } from "lucide-react";
+import { Mail, Calendar, GitMerge, Send, ListTodo, PenLine, Clock, SquareCheck, Lock, Repeat } from "lucide-react";
+import { LabelChip } from "./LabelChip";
+import { PRIORITY_LABELS, formatDue, isOverdue } from "../lib/urgency";
 
 const sourceIcons: Record<string, React.ComponentType<{ className?: string }>> = {
   gmail: Mail,
@@ -12,23 +14,42 @@ const sourceIcons: Record<string, React.ComponentType<{ className?: string }>> =
   gitlab: GitMerge,
   telegram: Send,
   manual: PenLine,
+  recurring: Repeat,
+};
+
+const priorityColors: Record<number, string> = {
+  1: "bg-red-500/15 text-red-600 dark:text-red-400",
+  2: "bg-orange-500/15 text-orange-600 dark:text-orange-400",
+  3: "bg-yellow-500/15 text-yellow-700 dark:text-yellow-400",
+  4: "bg-slate-500/15 text-slate-600 dark:text-slate-400",
 };
 
 interface KanbanCardProps {
   card: Card;
   index: number;
   selected?: boolean;
+  // Part of the multi-selection that bulk actions and multi-drag apply to
+  checked?: boolean;
+  // How many cards move with this one when it's dragged
+  dragCount?: number;
   isProcessing?: boolean;
-  onClick?: (card: Card) => void;
+  onClick?: (card: Card, event: React.PointerEvent) => void;
+  assigneeName?: string;
 }
 
-export function KanbanCard({ card, index, selected, isProcessing, onClick }: KanbanCardProps) {
+function initials(name: string): string {
+  return name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join("");
+}
+
+export function KanbanCard({ card, index, selected, checked, dragCount, isProcessing, onClick, assigneeName }: KanbanCardProps) {
   const Icon = sourceIcons[card.source_type] || PenLine;
   const pointerStart = useRef<{ x: number; y: number } | null>(null);
+  const overdue = isOverdue(card);
+  const blocked = card.dependencies.open_blockers.length > 0;
 
   return (
     <Draggable draggableId={String(card.id)} index={index}>
-      {(provided) => (
+      {(provided, snapshot) => (
         <div
           ref={provided.innerRef}
           {...provided.draggableProps}
@@ -42,12 +63,17 @@ export function KanbanCard({ card, index, selected, isProcessing, onClick }: Kan
             const dx = e.clientX - pointerStart.current.x;
             const dy = e.clientY - pointerStart.current.y;
             if (Math.abs(dx) < 5 && Math.abs(dy) < 5) {
-              onClick?.(card);
+              onClick?.(card, e);
             }
             pointerStart.current = null;
           }}
         >
-          <ShadcnCard className={`relative overflow-hidden shadow-sm cursor-pointer transition-colors hover:bg-accent/50 ${selected ? "ring-2 ring-ring" : ""}`}>
+          <ShadcnCard className={`relative overflow-hidden shadow-sm cursor-pointer transition-colors hover:bg-accent/50 ${selected ? "ring-2 ring-ring" : ""} ${checked ? "ring-2 ring-primary bg-primary/5" : ""} ${overdue ? "border-red-500/70 bg-red-500/5" : ""} ${blocked ? "opacity-70" : ""}`}>
+            {snapshot.isDragging && dragCount !== undefined && dragCount > 1 && (
+              <span className="absolute right-2 top-2 z-10 rounded-full bg-primary px-2 py-0.5 text-xs font-semibold text-primary-foreground">
+                {dragCount}
+              </span>
+            )}
             {isProcessing && (
               <div className="absolute inset-x-0 top-0 h-0.5 bg-gradient-to-r from-cyan-500 via-blue-500 to-purple-500 animate-shimmer" />
             )}
@@ -66,11 +92,21 @@ export function KanbanCard({ card, index, selected, isProcessing, onClick }: Kan
                     {card.title}
                   </CardTitle>
                 </div>
-                {card.confidence !== null && (
-                  <Badge variant={card.confidence >= 80 ? "default" : "secondary"}>
-                    {card.confidence}%
-                  </Badge>
-                )}
+                <div className="flex items-center gap-1">
+                  {assigneeName && (
+                    <span
+                      className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-muted text-[10px] font-semibold text-muted-foreground"
+                      title={`Assigned to ${assigneeName}`}
+                    >
+                      {initials(assigneeName)}
+                    </span>
+                  )}
+                  {card.confidence !== null && (
+                    <Badge variant={card.confidence >= 80 ? "default" : "secondary"}>
+                      {card.confidence}%
+                    </Badge>
+                  )}
+                </div>
               </div>
             </CardHeader>
             <CardContent className="p-3 pt-1">
@@ -79,18 +115,65 @@ export function KanbanCard({ card, index, selected, isProcessing, onClick }: Kan
                   {card.body}
                 </CardDescription>
               )}
+              {card.labels.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-2">
+                  {card.labels.map((label) => (
+                    <LabelChip key={label.id} label={label} />
+                  ))}
+                </div>
+              )}
               {card.proposed_action && (
                 <p className="text-xs text-blue-600 dark:text-blue-400 mb-2">
                   AI: {card.proposed_action}
                 </p>
               )}
               <div className="flex items-center justify-between">
-                <span className="text-xs text-muted-foreground">
-                  {new Date(card.created_at).toLocaleTimeString([], {
-                    hour: "2-digit",
-                    minute: "2-digit",
-                  })}
-                </span>
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(card.created_at).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </span>
+                  {card.priority !== 0 && (
+                    <span className={`text-[10px] font-medium rounded px-1.5 py-0.5 ${priorityColors[card.priority]}`}>
+                      {PRIORITY_LABELS[card.priority]}
+                    </span>
+                  )}
+                  {blocked && (
+                    <span
+                      className="flex items-center gap-0.5 text-xs text-amber-600 dark:text-amber-400 font-medium"
+                      title={`Waiting on ${card.dependencies.open_blockers.length} card(s)`}
+                    >
+                      <Lock className="h-3 w-3" />
+                      Blocked
+                    </span>
+                  )}
+                  {card.checklist.total > 0 && (
+                    <span
+                      className={`flex items-center gap-0.5 text-xs ${
+                        card.checklist.done === card.checklist.total
+                          ? "text-green-600 dark:text-green-400"
+                          : "text-muted-foreground"
+                      }`}
+                      title="Checklist"
+                    >
+                      <SquareCheck className="h-3 w-3" />
+                      {card.checklist.done}/{card.checklist.total}
+                    </span>
+                  )}
+                  {card.due_at && (
+                    <span
+                      className={`flex items-center gap-0.5 text-xs ${
+                        overdue ? "text-red-600 dark:text-red-400 font-medium" : "text-muted-foreground"
+                      }`}
+                      title={new Date(card.due_at).toLocaleString()}
+                    >
+                      <Clock className="h-3 w-3" />
+                      {overdue ? "Overdue" : formatDue(card.due_at)}
+                    </span>
+                  )}
+                </div>
                 {isProcessing && (
                   <span className="text-xs text-cyan-600 dark:text-cyan-400 animate-pulse">
                     Processing...
@@ -1,45 +1,60 @@
-import type { Card, ColumnName } from "@daily-kanban/shared";
+import type { BoardColumn, Card } from "@daily-kanban/shared";
 import { Droppable } from "@hello-pangea/dnd";
+import { ArrowDownWideNarrow } from "lucide-react";
 import { KanbanCard } from "./KanbanCard";
 
-const columnLabels: Record<ColumnName, string> = {
-  inbox: "Inbox",
-  in_process: "In Process",
-  review: "Review",
-  ai_do: "AI Do",
-  human_do: "Human Do",
-  done: "Done",
-};
-
-const columnColors: Record<ColumnName, string> = {
-  inbox: "border-t-blue-500",
-  in_process: "border-t-cyan-500",
-  review: "border-t-yellow-500",
-  ai_do: "border-t-purple-500",
-  human_do: "border-t-orange-500",
-  done: "border-t-green-500",
-};
-
 interface KanbanColumnProps {
-  column: ColumnName;
+  column: BoardColumn;
   cards: Card[];
+  // Cards in the column before filters, which is what the WIP limit counts
+  total: number;
   selectedCardId?: number | null;
+  checkedCardIds?: Set<number>;
   processingCardId?: number | null;
-  onCardClick?: (card: Card) => void;
+  onCardClick?: (card: Card, event: React.PointerEvent) => void;
+  sortByUrgency?: boolean;
+  onToggleSort?: () => void;
+  // Assignee names by user id, for the badge on each card
+  assignees?: Map<number, string>;
 }
 
-export function KanbanColumn({ column, cards, selectedCardId, processingCardId, onCardClick }: KanbanColumnProps) {
+export function KanbanColumn({
+  column, cards, total, selectedCardId, checkedCardIds, processingCardId, onCardClick, sortByUrgency, onToggleSort, assignees,
+}: KanbanColumnProps) {
+  const atLimit = column.wip_limit !== null && total >= column.wip_limit;
+
   return (
     <div
-      className={`flex flex-col w-72 min-w-[18rem] min-h-0 bg-muted/50 rounded-lg border-t-4 ${columnColors[column]}`}
+      className="flex flex-col w-72 min-w-[18rem] min-h-0 bg-muted/50 rounded-lg border-t-4"
+      style={{ borderTopColor: column.color }}
     >
       <div className="flex items-center justify-between p-3 pb-2">
-        <h2 className="text-sm font-semibold">{columnLabels[column]}</h2>
-        <span className="text-xs text-muted-foreground bg-muted rounded-full px-2 py-0.5">
-          {cards.length}
-        </span>
+        <h2 className="text-sm font-semibold">{column.name}</h2>
+        <div className="flex items-center gap-1">
+          {onToggleSort && (
+            <button
+              type="button"
+              onClick={onToggleSort}
+              title={sortByUrgency ? "Sorted by urgency (click for manual order)" : "Sort by urgency"}
+              className={`rounded p-0.5 transition-colors hover:bg-muted ${
+                sortByUrgency ? "text-foreground" : "text-muted-foreground/50"
+              }`}
+            >
+              <ArrowDownWideNarrow className="h-3.5 w-3.5" />
+            </button>
+          )}
+          <span
+            className={`text-xs rounded-full px-2 py-0.5 ${
+              atLimit ? "bg-destructive/10 text-destructive" : "text-muted-foreground bg-muted"
+            }`}
+            title={column.wip_limit !== null ? `WIP limit: ${column.wip_limit}` : undefined}
+          >
+            {cards.length}
+            {column.wip_limit !== null && ` / ${column.wip_limit}`}
+          </span>
+        </div>
       </div>
-      <Droppable droppableId={column}>
+      <Droppable droppableId={column.key}>
         {(provided, snapshot) => (
           <div
             ref={provided.innerRef}
@@ -54,8 +69,11 @@ export function KanbanColumn({ column, cards, selectedCardId, processingCardId,
                 card={card}
                 index={index}
                 selected={selectedCardId === card.id}
+                checked={checkedCardIds?.has(card.id)}
+                dragCount={checkedCardIds?.has(card.id) ? checkedCardIds.size : undefined}
                 isProcessing={processingCardId === card.id}
                 onClick={onCardClick}
+                assigneeName={card.assignee_id !== null ? assignees?.get(card.assignee_id) : undefined}
               />
             ))}
             {provided.placeholder}
@@ -0,0 +1,21 @@
+import type { Label } from "@daily-kanban/shared";
+
+interface LabelChipProps {
+  label: Label;
+  active?: boolean;
+  onClick?: () => void;
+}
+
+export function LabelChip({ label, active = true, onClick }: LabelChipProps) {
+  return (
+    <span
+      onClick={onClick}
+      className={`inline-flex items-center rounded-full px-1.5 py-0.5 text-[10px] font-medium leading-none border ${
+        onClick ? "cursor-pointer" : ""
+      } ${active ? "" : "opacity-40"}`}
+      style={{ color: label.color, borderColor: `${label.color}66`, backgroundColor: `${label.color}1a` }}
+    >
+      {label.name}
+    </span>
+  );
+}
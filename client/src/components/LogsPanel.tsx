@@ -118,12 +118,15 @@ interface LogsPanelProps {
   cardId: number;
   liveLogs: ProcessingLog[];
   isLiveProcessing: boolean;
+  // Session to open in the history tab, e.g. when arriving from search
+  focusSessionId?: number | null;
 }
 
-export function LogsPanel({ cardId, liveLogs, isLiveProcessing }: LogsPanelProps) {
-  const [tab, setTab] = useState<"live" | "history">(isLiveProcessing ? "live" : "live");
+export function LogsPanel({ cardId, liveLogs, isLiveProcessing, focusSessionId }: LogsPanelProps) {
+  const [tab, setTab] = useState<"live" | "history">(focusSessionId ? "history" : "live");
   const [sessions, setSessions] = useState<ExecutionSession[]>([]);
-  const [selectedSessionId, setSelectedSessionId] = useState<number | null>(null);
+  const [selectedSessionId, setSelectedSessionId] = useState<number | null>(focusSessionId ?? null);
+  const [prevFocusSessionId, setPrevFocusSessionId] = useState(focusSessionId);
   const [sessionLogs, setSessionLogs] = useState<ProcessingLog[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [showJumpButton, setShowJumpButton] = useState(false);
@@ -131,6 +134,14 @@ export function LogsPanel({ cardId, liveLogs, isLiveProcessing }: LogsPanelProps
   const logsContainerRef = useRef<HTMLDivElement>(null);
   const bottomSentinelRef = useRef<HTMLDivElement>(null);
 
+  if (focusSessionId !== prevFocusSessionId) {
+    setPrevFocusSessionId(focusSessionId);
+    if (focusSessionId) {
+      setTab("history");
+      setSelectedSessionId(focusSessionId);
+    }
+  }
+
   // Auto-switch to live tab when processing starts
   useEffect(() => {
     if (isLiveProcessing) setTab("live");
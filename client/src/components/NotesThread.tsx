@@ -0,0 +1,110 @@
+import { useState, useEffect } from "react";
+import type { CardComment } from "@daily-kanban/shared";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { api } from "../lib/api";
+
+interface NotesThreadProps {
+  cardId: number;
+}
+
+export function NotesThread({ cardId }: NotesThreadProps) {
+  const [comments, setComments] = useState<CardComment[]>([]);
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editText, setEditText] = useState("");
+
+  useEffect(() => {
+    api.listComments(cardId).then(({ comments }) => setComments(comments)).catch(console.error);
+  }, [cardId]);
+
+  const add = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    const created = await api.addComment(cardId, body);
+    setComments((prev) => [...prev, created]);
+    setDraft("");
+  };
+
+  const saveEdit = async () => {
+    if (editingId === null || !editText.trim()) return;
+    const updated = await api.updateComment(cardId, editingId, editText.trim());
+    setComments((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+    setEditingId(null);
+  };
+
+  const remove = async (commentId: number) => {
+    await api.deleteComment(cardId, commentId);
+    setComments((prev) => prev.filter((c) => c.id !== commentId));
+  };
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-2">
+        Notes
+        {comments.length > 0 && <span className="ml-2 text-xs text-muted-foreground">{comments.length}</span>}
+      </h3>
+      <div className="space-y-2">
+        {comments.map((comment) => (
+          <div key={comment.id} className="group rounded-md bg-muted/50 px-3 py-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-muted-foreground">
+                {new Date(comment.created_at).toLocaleString()}
+                {comment.updated_at !== comment.created_at && " (edited)"}
+              </span>
+              <div className="flex gap-1 opacity-0 group-hover:opacity-100">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingId(comment.id);
+                    setEditText(comment.body);
+                  }}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Edit"
+                >
+                  <Pencil className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(comment.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Delete"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </div>
+            </div>
+            {editingId === comment.id ? (
+              <div className="mt-1 space-y-1">
+                <Textarea value={editText} onChange={(e) => setEditText(e.target.value)} rows={3} />
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={saveEdit} disabled={!editText.trim()}>Save</Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>Cancel</Button>
+                </div>
+              </div>
+            ) : (
+              <p className="mt-1 text-sm whitespace-pre-wrap">{comment.body}</p>
+            )}
+          </div>
+        ))}
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder="Add a note… (Ctrl+Enter to save)"
+          rows={2}
+          className="text-sm"
+        />
+        {draft.trim() && (
+          <Button size="sm" onClick={add}>Add note</Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import Markdown from "react-markdown";
+import type { BoardReport } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ClipboardCopy, FileText, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+// End-of-day report for ?date= (today's board without it)
+export function Report() {
+  const [searchParams] = useSearchParams();
+  const date = searchParams.get("date") ?? "today";
+  const [report, setReport] = useState<BoardReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    api
+      .getReport(date)
+      .then((data) => setReport(data.report))
+      .catch((e) => toast.error(e instanceof Error ? e.message : "Failed to load report"))
+      .finally(() => setLoading(false));
+  }, [date]);
+
+  const generate = async (useAi: boolean) => {
+    setGenerating(true);
+    try {
+      const generated = await api.generateReport(date, { use_ai: useAi });
+      setReport(generated);
+      if (useAi && generated.generator === "template") toast.warning("AI was unavailable; built the report from the board instead");
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to generate report");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!report) return;
+    await navigator.clipboard.writeText(report.content);
+    toast.success("Report copied");
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Link to={date === "today" ? "/" : `/?date=${date}`}>
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <h1 className="text-lg font-bold">Daily Report</h1>
+          {report && <span className="text-sm text-muted-foreground">{report.date}</span>}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" disabled={generating} onClick={() => generate(false)}>
+            <FileText className="h-4 w-4 mr-1" /> From board only
+          </Button>
+          <Button size="sm" disabled={generating} onClick={() => generate(true)}>
+            <Sparkles className="h-4 w-4 mr-1" /> {generating ? "Writing…" : report ? "Regenerate" : "Generate"}
+          </Button>
+        </div>
+      </div>
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading…</p>
+      ) : report ? (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant={report.generator === "ai" ? "default" : "secondary"}>
+                {report.generator === "ai" ? "AI summary" : "Template"}
+              </Badge>
+              Updated {new Date(report.updated_at).toLocaleString()}
+            </div>
+            <Button variant="ghost" size="sm" onClick={copy}>
+              <ClipboardCopy className="h-4 w-4 mr-1" /> Copy
+            </Button>
+          </div>
+          <div className="prose prose-sm dark:prose-invert max-w-none rounded-md border p-4">
+            <Markdown>{report.content}</Markdown>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No report for this board yet. Generate one to sum up what got done, what the AI automated and what is still open.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,11 @@ import { ArrowLeft, RefreshCw, ChevronDown, Trash2 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { toast } from "sonner";
 import { ConnectorConfigDialog } from "./ConnectorConfigDialog";
+import { TemplateSettings } from "./TemplateSettings";
+import { DatabaseSettings } from "./DatabaseSettings";
+import { UserSettings } from "./UserSettings";
+import { apiFetch } from "../lib/api";
+import type { Label } from "@daily-kanban/shared";
 
 type ConnectorType = "gmail" | "calendar" | "linear" | "gitlab" | "telegram";
 
@@ -19,9 +24,13 @@ interface ConnectorConfigUI {
 
 const CONNECTOR_TYPES: ConnectorType[] = ["gmail", "calendar", "linear", "gitlab", "telegram"];
 
+const TIMEZONES: string[] = Intl.supportedValuesOf("timeZone");
+
 export function Settings() {
   const [threshold, setThreshold] = useState(80);
   const [pollInterval, setPollInterval] = useState(5);
+  const [timezone, setTimezone] = useState("");
+  const [dayStartHour, setDayStartHour] = useState(0);
   const [connectors, setConnectors] = useState<ConnectorConfigUI[]>([]);
   const [dialogType, setDialogType] = useState<ConnectorType | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -32,9 +41,10 @@ export function Settings() {
   const [defaultRepoId, setDefaultRepoId] = useState<string | null>(null);
   const [newRepoName, setNewRepoName] = useState("");
   const [newRepoPath, setNewRepoPath] = useState("");
+  const [labels, setLabels] = useState<Label[]>([]);
 
   const fetchConnectors = useCallback(() => {
-    fetch("/api/connectors")
+    apiFetch("/api/connectors")
       .then((r) => r.json())
       .then((data: ConnectorConfigUI[]) => {
         setConnectors(data);
@@ -54,35 +64,46 @@ export function Settings() {
   }, []);
 
   useEffect(() => {
-    fetch("/api/settings")
+    apiFetch("/api/settings")
       .then((r) => r.json())
       .then((data) => {
         setThreshold(data.confidence_threshold);
         setPollInterval(data.poll_interval_ms / 60000);
+        setTimezone(data.timezone);
+        setDayStartHour(data.day_start_hour);
       });
-    fetch("/api/repos")
+    apiFetch("/api/repos")
       .then((r) => r.json())
       .then((data) => {
         setRepos(data.repos);
         setDefaultRepoId(data.default_repo_id);
       });
+    apiFetch("/api/labels")
+      .then((r) => r.json())
+      .then((data) => setLabels(data.labels));
     fetchConnectors();
   }, [fetchConnectors]);
 
   const saveSettings = async () => {
-    await fetch("/api/settings", {
+    const res = await apiFetch("/api/settings", {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         confidence_threshold: threshold,
         poll_interval_ms: pollInterval * 60000,
+        timezone,
+        day_start_hour: dayStartHour,
       }),
     });
+    if (!res.ok) {
+      const err = await res.json();
+      toast.error(err.error || "Failed to save settings");
+    }
   };
 
   const handleToggle = async (type: string, enabled: boolean) => {
     try {
-      const res = await fetch(`/api/connectors/${type}`, {
+      const res = await apiFetch(`/api/connectors/${type}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ enabled }),
@@ -97,7 +118,7 @@ export function Settings() {
   const handlePollAll = async () => {
     setPolling(true);
     try {
-      const res = await fetch("/api/connectors/poll", { method: "POST" });
+      const res = await apiFetch("/api/connectors/poll", { method: "POST" });
       if (!res.ok) throw new Error("Poll failed");
       toast.success("Poll cycle completed");
     } catch {
@@ -109,7 +130,7 @@ export function Settings() {
 
   const handleSaveAiRules = async (type: string) => {
     try {
-      const res = await fetch(`/api/connectors/${type}/ai-rules`, {
+      const res = await apiFetch(`/api/connectors/${type}/ai-rules`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ ai_rules: aiRules[type] || "" }),
@@ -124,7 +145,7 @@ export function Settings() {
   const handleAddRepo = async () => {
     if (!newRepoName || !newRepoPath) return;
     try {
-      const res = await fetch("/api/repos", {
+      const res = await apiFetch("/api/repos", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ name: newRepoName, path: newRepoPath }),
@@ -146,7 +167,7 @@ export function Settings() {
 
   const handleDeleteRepo = async (id: string) => {
     try {
-      await fetch(`/api/repos/${id}`, { method: "DELETE" });
+      await apiFetch(`/api/repos/${id}`, { method: "DELETE" });
       setRepos((prev) => prev.filter((r) => r.id !== id));
       if (defaultRepoId === id) setDefaultRepoId(null);
       toast.success("Repository removed");
@@ -157,7 +178,7 @@ export function Settings() {
 
   const handleSetDefaultRepo = async (repoId: string) => {
     const value = repoId || null;
-    await fetch("/api/repos/default", {
+    await apiFetch("/api/repos/default", {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ repo_id: value }),
@@ -165,6 +186,31 @@ export function Settings() {
     setDefaultRepoId(value);
   };
 
+  const handleUpdateLabel = async (id: number, fields: { name?: string; color?: string }) => {
+    const res = await apiFetch(`/api/labels/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(fields),
+    });
+    if (!res.ok) {
+      const err = await res.json();
+      toast.error(err.error || "Failed to update label");
+      return;
+    }
+    const updated: Label = await res.json();
+    setLabels((prev) => prev.map((l) => (l.id === id ? updated : l)));
+  };
+
+  const handleDeleteLabel = async (id: number) => {
+    try {
+      await apiFetch(`/api/labels/${id}`, { method: "DELETE" });
+      setLabels((prev) => prev.filter((l) => l.id !== id));
+      toast.success("Label removed");
+    } catch {
+      toast.error("Failed to remove label");
+    }
+  };
+
   const handleConfigure = (type: ConnectorType) => {
     setDialogType(type);
     setDialogOpen(true);
@@ -206,6 +252,32 @@ export function Settings() {
               onChange={(e) => setPollInterval(Number(e.target.value))}
             />
           </div>
+          <div>
+            <label className="text-sm font-medium">Timezone</label>
+            <Input
+              list="timezones"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+            />
+            <datalist id="timezones">
+              {TIMEZONES.map((tz) => (
+                <option key={tz} value={tz} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Day Starts At (hour)</label>
+            <Input
+              type="number"
+              min={0}
+              max={23}
+              value={dayStartHour}
+              onChange={(e) => setDayStartHour(Number(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Items arriving before this hour still land on the previous day's board.
+            </p>
+          </div>
           <Button onClick={saveSettings}>Save</Button>
         </CardContent>
       </Card>
@@ -268,9 +340,50 @@ export function Settings() {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Labels</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {labels.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No labels yet. Add them from a card's detail panel, or let connectors create them.
+            </p>
+          )}
+          {labels.map((label) => (
+            <div key={label.id} className="flex items-center gap-2 py-1 border-b last:border-0">
+              <input
+                type="color"
+                value={label.color}
+                onChange={(e) => handleUpdateLabel(label.id, { color: e.target.value })}
+                className="h-6 w-6 rounded border-0 bg-transparent p-0"
+              />
+              <Input
+                defaultValue={label.name}
+                onBlur={(e) => {
+                  const name = e.target.value.trim();
+                  if (name && name !== label.name) handleUpdateLabel(label.id, { name });
+                }}
+                className="h-8 flex-1"
+              />
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteLabel(label.id)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <TemplateSettings repos={repos} labels={labels} />
+
+      <UserSettings />
+
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
-          <CardTitle className="text-base">Connectors</CardTitle>
+          <div>
+            <CardTitle className="text-base">Connectors</CardTitle>
+            <p className="text-xs text-muted-foreground">Yours alone; their cards are assigned to you</p>
+          </div>
           <Button variant="outline" size="sm" onClick={handlePollAll} disabled={polling}>
             <RefreshCw className={`h-4 w-4 mr-1.5 ${polling ? "animate-spin" : ""}`} />
             {polling ? "Polling..." : "Refresh All"}
@@ -327,6 +440,8 @@ export function Settings() {
         </CardContent>
       </Card>
 
+      <DatabaseSettings />
+
       <ConnectorConfigDialog
         connectorType={dialogType}
         open={dialogOpen}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlarmClockPlus } from "lucide-react";
+import { snoozePresets } from "../lib/snooze";
+
+interface SnoozeDialogProps {
+  onSnooze: (until: Date) => Promise<void>;
+}
+
+export function SnoozeDialog({ onSnooze }: SnoozeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState("");
+
+  const snooze = async (until: Date) => {
+    await onSnooze(until);
+    setOpen(false);
+    setCustom("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Snooze">
+          <AlarmClockPlus className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Snooze</DialogTitle>
+          <DialogDescription>
+            The card leaves the board and comes back to the inbox of that day's board.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          {snoozePresets().map((preset) => (
+            <Button key={preset.label} variant="outline" className="w-full justify-between" onClick={() => snooze(preset.until)}>
+              {preset.label}
+              <span className="text-xs text-muted-foreground">
+                {preset.until.toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })}
+              </span>
+            </Button>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <Input type="datetime-local" value={custom} onChange={(e) => setCustom(e.target.value)} className="h-9" />
+            <Button disabled={!custom} onClick={() => snooze(new Date(custom))}>
+              Snooze
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
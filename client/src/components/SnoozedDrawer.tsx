@@ -0,0 +1,71 @@
+import { useState } from "react";
+import type { Card } from "@daily-kanban/shared";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlarmClock } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+import { formatSnoozedUntil } from "../lib/snooze";
+
+interface SnoozedDrawerProps {
+  onWake: (card: Card) => void;
+}
+
+// Everything that's snoozed, across boards, soonest to return first
+export function SnoozedDrawer({ onWake }: SnoozedDrawerProps) {
+  const [cards, setCards] = useState<Card[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) api.listSnoozedCards().then((data) => setCards(data.cards)).catch(console.error);
+  };
+
+  const wake = async (card: Card) => {
+    try {
+      const woken = await api.wakeCard(card.id);
+      setCards((prev) => prev.filter((c) => c.id !== card.id));
+      onWake(woken);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to wake card");
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Snoozed cards">
+          <AlarmClock className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Snoozed</DialogTitle>
+          <DialogDescription>These cards come back to the inbox at the time shown.</DialogDescription>
+        </DialogHeader>
+        {cards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing is snoozed.</p>
+        ) : (
+          <div className="max-h-96 space-y-1 overflow-y-auto">
+            {cards.map((card) => (
+              <div key={card.id} className="flex items-center gap-2 border-b py-2 last:border-0">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{card.title}</p>
+                  <p className="text-xs text-muted-foreground">{formatSnoozedUntil(card.snoozed_until!)}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => wake(card)}>
+                  Wake now
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState, useEffect } from "react";
+import type { CardTemplate, CardTemplateRequest, Label, Priority, Recurrence, RecurrenceKind } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+import { PRIORITY_LABELS } from "../lib/urgency";
+
+interface TemplateSettingsProps {
+  repos: { id: string; name: string }[];
+  labels: Label[];
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const selectClass =
+  "w-full rounded-md border border-input bg-background px-3 py-1.5 text-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring";
+
+function describeRecurrence(recurrence: Recurrence | null): string {
+  if (!recurrence) return "Used by hand";
+  switch (recurrence.kind) {
+    case "daily":
+      return "Every day";
+    case "weekdays":
+      return "Every weekday";
+    case "weekly":
+      return `Every ${(recurrence.weekdays ?? []).map((d) => WEEKDAYS[d]).join(", ")}`;
+    case "cron":
+      return `Cron: ${recurrence.cron}`;
+  }
+}
+
+export function TemplateSettings({ repos, labels }: TemplateSettingsProps) {
+  const [templates, setTemplates] = useState<CardTemplate[]>([]);
+  // null: dialog closed; "new": creating; otherwise the template being edited
+  const [editing, setEditing] = useState<CardTemplate | "new" | null>(null);
+
+  useEffect(() => {
+    api.listTemplates().then((data) => setTemplates(data.templates)).catch(console.error);
+  }, []);
+
+  const save = async (input: CardTemplateRequest) => {
+    try {
+      if (editing === "new") {
+        const created = await api.createTemplate(input);
+        setTemplates((prev) => [...prev, created].sort((a, b) => a.name.localeCompare(b.name)));
+      } else if (editing) {
+        const updated = await api.updateTemplate(editing.id, input);
+        setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+      }
+      setEditing(null);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to save template");
+    }
+  };
+
+  const toggle = async (template: CardTemplate, enabled: boolean) => {
+    try {
+      const updated = await api.updateTemplate(template.id, { enabled });
+      setTemplates((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+    } catch {
+      toast.error("Failed to update template");
+    }
+  };
+
+  const remove = async (id: number) => {
+    try {
+      await api.deleteTemplate(id);
+      setTemplates((prev) => prev.filter((t) => t.id !== id));
+    } catch {
+      toast.error("Failed to delete template");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-base">Templates</CardTitle>
+        <Button variant="outline" size="sm" onClick={() => setEditing("new")}>
+          <Plus className="h-4 w-4 mr-1" /> New Template
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {templates.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Templates prefill new tasks; give one a schedule and it lands on the board by itself.
+          </p>
+        )}
+        {templates.map((template) => (
+          <div key={template.id} className="flex items-center justify-between py-2 border-b last:border-0">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{template.name}</p>
+              <p className="text-xs text-muted-foreground">{describeRecurrence(template.recurrence)}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(template)}>
+                <Pencil className="h-3 w-3" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => remove(template.id)}>
+                <Trash2 className="h-3 w-3" />
+              </Button>
+              <Switch
+                checked={template.enabled}
+                onCheckedChange={(checked) => toggle(template, checked)}
+                title={template.enabled ? "Scheduled" : "Paused"}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      {editing && (
+        <TemplateDialog
+          template={editing === "new" ? null : editing}
+          repos={repos}
+          labels={labels}
+          onSave={save}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </Card>
+  );
+}
+
+interface TemplateDialogProps {
+  template: CardTemplate | null;
+  repos: { id: string; name: string }[];
+  labels: Label[];
+  onSave: (input: CardTemplateRequest) => void;
+  onClose: () => void;
+}
+
+function TemplateDialog({ template, repos, labels, onSave, onClose }: TemplateDialogProps) {
+  const [name, setName] = useState(template?.name ?? "");
+  const [title, setTitle] = useState(template?.title ?? "");
+  const [body, setBody] = useState(template?.body ?? "");
+  const [repoId, setRepoId] = useState(template?.repo_id ?? "");
+  const [labelIds, setLabelIds] = useState<number[]>(template?.labels.map((l) => l.id) ?? []);
+  const [aiToggle, setAiToggle] = useState(template?.ai_toggle ?? false);
+  const [aiRules, setAiRules] = useState(template?.ai_rules ?? "");
+  const [priority, setPriority] = useState<Priority>(template?.priority ?? 0);
+  const [kind, setKind] = useState<RecurrenceKind | "">(template?.recurrence?.kind ?? "");
+  const [weekdays, setWeekdays] = useState<number[]>(template?.recurrence?.weekdays ?? [1]);
+  const [cron, setCron] = useState(template?.recurrence?.cron ?? "0 9 * * 1-5");
+
+  const submit = () => {
+    if (!title.trim()) return;
+    let recurrence: Recurrence | null = null;
+    if (kind === "weekly") recurrence = { kind, weekdays };
+    else if (kind === "cron") recurrence = { kind, cron };
+    else if (kind) recurrence = { kind };
+    onSave({
+      name: name.trim() || title.trim(),
+      title: title.trim(),
+      body: body.trim() || null,
+      repo_id: repoId || null,
+      label_ids: labelIds,
+      ai_toggle: aiToggle,
+      ai_rules: aiRules.trim() || null,
+      priority,
+      recurrence,
+    });
+  };
+
+  const toggleIn = <T,>(list: T[], value: T) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{template ? "Edit Template" : "New Template"}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3">
+          <Input placeholder="Template name (defaults to the title)" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="Card title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          <Textarea placeholder="Description (optional)" value={body} onChange={(e) => setBody(e.target.value)} rows={3} />
+          <div className="flex gap-2">
+            <select value={priority} onChange={(e) => setPriority(Number(e.target.value) as Priority)} className={selectClass}>
+              {([0, 1, 2, 3, 4] as const).map((p) => (
+                <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>
+              ))}
+            </select>
+            {repos.length > 0 && (
+              <select value={repoId} onChange={(e) => setRepoId(e.target.value)} className={selectClass}>
+                <option value="">No repo</option>
+                {repos.map((r) => (
+                  <option key={r.id} value={r.id}>{r.name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {labels.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {labels.map((label) => (
+                <button
+                  key={label.id}
+                  type="button"
+                  onClick={() => setLabelIds((prev) => toggleIn(prev, label.id))}
+                  className={`rounded-full border px-2 py-0.5 text-xs ${labelIds.includes(label.id) ? "text-white" : "text-muted-foreground"}`}
+                  style={labelIds.includes(label.id) ? { backgroundColor: label.color, borderColor: label.color } : undefined}
+                >
+                  {label.name}
+                </button>
+              ))}
+            </div>
+          )}
+          <label className="flex items-center justify-between text-sm">
+            AI processing
+            <Switch checked={aiToggle} onCheckedChange={setAiToggle} />
+          </label>
+          <Textarea
+            placeholder="AI rules for cards from this template (optional)"
+            value={aiRules}
+            onChange={(e) => setAiRules(e.target.value)}
+            rows={2}
+          />
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Repeat</label>
+            <select value={kind} onChange={(e) => setKind(e.target.value as RecurrenceKind | "")} className={selectClass}>
+              <option value="">Never (use by hand)</option>
+              <option value="daily">Every day</option>
+              <option value="weekdays">Every weekday</option>
+              <option value="weekly">Weekly on…</option>
+              <option value="cron">Cron expression</option>
+            </select>
+            {kind === "weekly" && (
+              <div className="flex gap-1">
+                {WEEKDAYS.map((day, i) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={weekdays.includes(i) ? "default" : "outline"}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setWeekdays((prev) => toggleIn(prev, i).sort())}
+                  >
+                    {day}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {kind === "cron" && (
+              <>
+                <Input value={cron} onChange={(e) => setCron(e.target.value)} className="font-mono" />
+                <p className="text-xs text-muted-foreground">
+                  The day fields pick the boards; the card appears when that day's board starts.
+                </p>
+              </>
+            )}
+          </div>
+          <Button onClick={submit} disabled={!title.trim()} className="w-full">
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState, useEffect } from "react";
+import type { CardActor, CardEvent } from "@daily-kanban/shared";
+import { Badge } from "@/components/ui/badge";
+import { api } from "../lib/api";
+import { formatSnoozedUntil } from "../lib/snooze";
+
+interface TimelineProps {
+  cardId: number;
+  // Changes whenever the card is written, so new events are picked up
+  refreshKey: string;
+}
+
+const actorLabels: Record<CardActor, string> = {
+  user: "You",
+  scheduler: "Scheduler",
+  ai: "AI",
+  connector: "Connector",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "none";
+  if (typeof value === "string") return value.length > 60 ? `${value.slice(0, 60)}…` : value;
+  return JSON.stringify(value);
+}
+
+function column(value: unknown): string {
+  return String(value).replace("_", " ");
+}
+
+function describe(event: CardEvent): string {
+  const before = event.old_value ?? {};
+  const after = event.new_value ?? {};
+  switch (event.type) {
+    case "created":
+      return `Created from ${after.source_type ?? "unknown source"}`;
+    case "moved":
+      return "column_name" in after
+        ? `Moved from ${column(before.column_name)} to ${column(after.column_name)}`
+        : "Reordered";
+    case "ai_toggled":
+      return after.ai_toggle ? "Turned AI on" : "Turned AI off";
+    case "ai_evaluated":
+      return `Evaluated at ${after.confidence ?? before.confidence}%: ${formatValue(after.proposed_action ?? before.proposed_action)}`;
+    case "execution_result":
+      return `Result: ${formatValue(after.execution_result)}`;
+    case "carried_over":
+      return `Carried over from ${before.board}`;
+    case "deleted":
+      return "Deleted";
+    case "archived":
+      return "Archived";
+    case "restored":
+      return "Restored";
+    case "snoozed":
+      return `Snoozed until ${formatSnoozedUntil(String(after.snoozed_until))}`;
+    case "woke":
+      return "Woke from snooze";
+    case "updated":
+      return `Changed ${Object.keys(after).map((key) => key.replace(/_/g, " ")).join(", ")}`;
+  }
+}
+
+export function Timeline({ cardId, refreshKey }: TimelineProps) {
+  const [events, setEvents] = useState<CardEvent[]>([]);
+
+  useEffect(() => {
+    api.listCardEvents(cardId).then(({ events }) => setEvents(events)).catch(console.error);
+  }, [cardId, refreshKey]);
+
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  // Newest first
+  return (
+    <ol className="space-y-3 border-l pl-4">
+      {[...events].reverse().map((event) => (
+        <li key={event.id} className="relative text-sm">
+          <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground/50" />
+          <div className="flex items-center gap-2">
+            <span className="flex-1">{describe(event)}</span>
+            <Badge variant={event.actor === "user" ? "outline" : "secondary"} className="text-[10px] px-1.5 py-0">
+              {actorLabels[event.actor] ?? event.actor}
+            </Badge>
+          </div>
+          {event.type === "updated" && event.new_value && (
+            <dl className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+              {Object.entries(event.new_value).map(([key, value]) => (
+                <div key={key} className="flex gap-1 min-w-0">
+                  <dt className="shrink-0">{key.replace(/_/g, " ")}:</dt>
+                  <dd className="truncate">
+                    <span className="line-through">{formatValue(event.old_value?.[key])}</span>
+                    {" → "}
+                    {formatValue(value)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          <span className="text-xs text-muted-foreground">{new Date(event.created_at).toLocaleString()}</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
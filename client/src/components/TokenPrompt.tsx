@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { UNAUTHORIZED_EVENT, getApiToken, setApiToken } from "../lib/api";
+
+// Asks for the API token when none is stored or the server rejects it
+export function TokenPrompt() {
+  const [open, setOpen] = useState(() => !getApiToken());
+  const [token, setToken] = useState("");
+
+  useEffect(() => {
+    const onUnauthorized = () => setOpen(true);
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+  }, []);
+
+  const save = () => {
+    if (!token.trim()) return;
+    setApiToken(token);
+    // Everything loaded so far failed without it
+    window.location.reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>API token</DialogTitle>
+          <DialogDescription>
+            The server printed a token the first time it started and keeps it in <code>daily-kanban.token</code> next to
+            the database; teammates use the token the owner created for them. Paste it here once; this browser
+            remembers it.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          type="password"
+          autoFocus
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && save()}
+          placeholder="API token"
+        />
+        <DialogFooter>
+          <Button onClick={save} disabled={!token.trim()}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect, useCallback } from "react";
+import type { User } from "@daily-kanban/shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { api } from "../lib/api";
+
+// Everyone shares the boards; each user signs in with their own token and
+// sets up their own connectors
+export function UserSettings() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [me, setMe] = useState<User | null>(null);
+  const [newName, setNewName] = useState("");
+  // Shown once, right after the user is created
+  const [newToken, setNewToken] = useState<{ name: string; token: string } | null>(null);
+  const [removing, setRemoving] = useState<User | null>(null);
+
+  const refresh = useCallback(() => {
+    api.listUsers().then((data) => setUsers(data.users)).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    api.getMe().then(setMe).catch(console.error);
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    try {
+      const { user, token } = await api.createUser(name);
+      setNewToken({ name: user.name, token });
+      setNewName("");
+      refresh();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to add user");
+    }
+  };
+
+  const handleRename = async (user: User, name: string) => {
+    try {
+      const updated = await api.updateUser(user.id, name);
+      if (updated.id === me?.id) setMe(updated);
+      refresh();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to rename user");
+    }
+  };
+
+  const handleDelete = async (user: User) => {
+    setRemoving(null);
+    try {
+      await api.deleteUser(user.id);
+      refresh();
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Failed to remove user");
+    }
+  };
+
+  const copyToken = async (token: string) => {
+    await navigator.clipboard.writeText(token);
+    toast.success("Token copied");
+  };
+
+  const isOwner = me?.is_owner ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Users</CardTitle>
+        {me && <p className="text-xs text-muted-foreground">Signed in as {me.name}</p>}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {users.map((user) => (
+          <div key={user.id} className="flex items-center gap-2 py-1 border-b last:border-0">
+            <Input
+              defaultValue={user.name}
+              disabled={!isOwner && user.id !== me?.id}
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== user.name) handleRename(user, name);
+              }}
+              className="h-8 flex-1"
+            />
+            {user.is_owner ? (
+              <span className="text-xs text-muted-foreground px-2">Owner</span>
+            ) : (
+              isOwner && (
+                <Button variant="ghost" size="sm" onClick={() => setRemoving(user)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              )
+            )}
+          </div>
+        ))}
+        {newToken && (
+          <div className="rounded-md border bg-muted/50 p-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {newToken.name}'s token. Send it to them now; it is not shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate text-xs">{newToken.token}</code>
+              <Button variant="outline" size="sm" onClick={() => copyToken(newToken.token)}>
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        )}
+        {isOwner && (
+          <div className="flex gap-2 pt-2">
+            <Input
+              placeholder="Name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              className="h-8"
+            />
+            <Button size="sm" onClick={handleCreate} disabled={!newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" /> Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove {removing?.name}?</DialogTitle>
+            <DialogDescription>
+              Their token stops working, their cards become unassigned and their connectors are deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRemoving(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => removing && handleDelete(removing)}>
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from "react";
 import type { Card, TodoItem, QuestionEvent, ExecutionLog } from "@daily-kanban/shared";
+import { toast } from "sonner";
 import { api } from "../lib/api";
 
 export interface ProcessingLog {
@@ -58,6 +59,22 @@ export function useAiProcessing() {
         });
       }
 
+      // High-confidence actions wait out a grace period on the server
+      if (event.step === "action_pending" && event.data) {
+        const cardId = event.data.card_id as number;
+        toast(event.message, {
+          action: {
+            label: "Cancel",
+            onClick: () => {
+              api
+                .cancelExecution(cardId)
+                .then(onCardUpdate)
+                .catch(() => toast.error("The action has already run"));
+            },
+          },
+        });
+      }
+
       if (event.step === "done" && event.card) {
         onCardUpdate(event.card);
         setProcessingCardId(null);
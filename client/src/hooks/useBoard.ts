@@ -1,43 +1,103 @@
 // client/src/hooks/useBoard.ts
 import { useState, useEffect, useCallback } from "react";
-import type { Board, Card, ColumnName } from "@daily-kanban/shared";
-import { api } from "../lib/api";
+import type {
+  Board, BoardColumn, BoardEvent, BoardSummary, BulkCardAction, Card, ColumnName, ReorderCardResponse, UpdateCardRequest,
+} from "@daily-kanban/shared";
+import { api, type CardNeighbors } from "../lib/api";
+import { applyBoardEvent } from "../lib/board-events";
 
-export function useBoard() {
+const RECONNECT_DELAY_MS = 3000;
+
+// `date` selects a past board (YYYY-MM-DD); omit it to follow today's board.
+export function useBoard(date?: string) {
   const [board, setBoard] = useState<Board | null>(null);
+  const [boards, setBoards] = useState<BoardSummary[]>([]);
   const [cards, setCards] = useState<Card[]>([]);
+  const [columns, setColumns] = useState<BoardColumn[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const refresh = useCallback(async () => {
     try {
-      const data = await api.getBoard();
+      const [data, history] = await Promise.all([api.getBoard(date), api.listBoards()]);
       setBoard(data.board);
       setCards(data.cards);
+      setColumns(data.columns);
+      setBoards(history.boards);
       setError(null);
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to load board");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [date]);
 
   useEffect(() => {
     refresh();
-    const interval = setInterval(refresh, 30_000);
-    return () => clearInterval(interval);
   }, [refresh]);
 
-  const moveCard = useCallback(async (cardId: number, column: ColumnName, position: number) => {
-    // Optimistic update
+  // Card changes are pushed by the server. Anything missed while the stream
+  // was down is picked up by refetching the board once it reconnects.
+  const boardId = board?.id;
+  useEffect(() => {
+    if (boardId === undefined) return;
+    let source: EventSource | null = null;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let connectedBefore = false;
+
+    const connect = () => {
+      source = api.boardEvents();
+      source.onopen = () => {
+        if (connectedBefore) refresh();
+        connectedBefore = true;
+      };
+      source.onmessage = (message) => {
+        const event = JSON.parse(message.data) as BoardEvent;
+        if (event.board_id === boardId) {
+          setCards((prev) => applyBoardEvent(prev, event));
+        } else if (!date && event.type === "created") {
+          // New cards only land on today's board, so the day has rolled over
+          refresh();
+        }
+      };
+      source.onerror = () => {
+        // EventSource retries on its own unless the connection was closed for good
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        retry = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retry);
+      source?.close();
+    };
+  }, [boardId, date, refresh]);
+
+  // Rejects (after reloading the board) when the server refuses the move,
+  // e.g. because the target column is at its WIP limit
+  const moveCard = useCallback(async (cardId: number, column: ColumnName, neighbors: CardNeighbors) => {
+    // Optimistic update; the position comes back from the server
+    setCards((prev) => prev.map((c) => (c.id === cardId ? { ...c, column_name: column } : c)));
+
+    let result: ReorderCardResponse;
+    try {
+      result = await api.reorderCard(cardId, column, neighbors);
+    } catch (e) {
+      await refresh();
+      throw e;
+    }
+    const positions = new Map(result.positions.map((p) => [p.id, p.position]));
     setCards((prev) =>
-      prev.map((c) => (c.id === cardId ? { ...c, column_name: column, position } : c))
+      prev.map((c) => {
+        if (c.id === result.card.id) return result.card;
+        const position = positions.get(c.id);
+        return position === undefined ? c : { ...c, position };
+      })
     );
 
-    const updated = await api.moveCard(cardId, column, position);
-    setCards((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
-
-    if (column === "ai_do") {
+    if (columns.find((c) => c.key === column)?.behavior === "execute_action") {
       try {
         const executed = await api.executeCard(cardId);
         setCards((prev) => prev.map((c) => (c.id === executed.id ? executed : c)));
@@ -45,35 +105,104 @@ export function useBoard() {
         await refresh();
       }
     }
-  }, [refresh]);
+  }, [refresh, columns]);
+
+  // Archived and deleted cards drop off the board; returns the changed cards
+  const bulkUpdate = useCallback(async (cardIds: number[], action: BulkCardAction) => {
+    const { cards: changed } = await api.bulkCards(cardIds, action);
+    const byId = new Map(changed.map((c) => [c.id, c]));
+    setCards((prev) =>
+      prev.flatMap((c) => {
+        const updated = byId.get(c.id);
+        if (!updated) return [c];
+        return updated.archived_at || updated.deleted_at ? [] : [updated];
+      })
+    );
+
+    if (action.type === "move" && columns.find((c) => c.key === action.column_name)?.behavior === "execute_action") {
+      for (const card of changed) {
+        try {
+          const executed = await api.executeCard(card.id);
+          setCards((prev) => prev.map((c) => (c.id === executed.id ? executed : c)));
+        } catch {
+          await refresh();
+        }
+      }
+    }
+    return changed;
+  }, [refresh, columns]);
 
   const createCard = useCallback(async (title: string, body?: string) => {
     const card = await api.createCard(title, body);
     setCards((prev) => [...prev, card]);
   }, []);
 
+  const createCardFromTemplate = useCallback(async (templateId: number) => {
+    const card = await api.createCardFromTemplate(templateId);
+    // The board stream may have delivered it already
+    setCards((prev) => (prev.some((c) => c.id === card.id) ? prev : [...prev, card]));
+  }, []);
+
+  // Returns the ids of the soft-deleted cards so the purge can be undone
   const purgeBoard = useCallback(async () => {
-    await api.purgeBoard();
+    const { card_ids } = await api.purgeBoard();
     setCards([]);
+    return card_ids;
+  }, []);
+
+  const restoreCards = useCallback(async (cardIds: number[]) => {
+    const data = await api.restoreBoardCards(cardIds);
+    setCards(data.cards);
+    setColumns(data.columns);
+  }, []);
+
+  const snoozeCard = useCallback(async (cardId: number, until: string) => {
+    await api.snoozeCard(cardId, until);
+    setCards((prev) => prev.filter((c) => c.id !== cardId));
   }, []);
 
   const updateCard = useCallback((card: Card) => {
     setCards((prev) => prev.map((c) => (c.id === card.id ? card : c)));
   }, []);
 
+  const editCard = useCallback(async (cardId: number, fields: UpdateCardRequest) => {
+    const updated = await api.updateCard(cardId, fields);
+    setCards((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+  }, []);
+
+  const deleteCard = useCallback(async (cardId: number) => {
+    await api.deleteCard(cardId);
+    setCards((prev) => prev.filter((c) => c.id !== cardId));
+  }, []);
+
+  const archiveCard = useCallback(async (cardId: number) => {
+    await api.archiveCard(cardId);
+    setCards((prev) => prev.filter((c) => c.id !== cardId));
+  }, []);
+
   const cardsByColumn = (column: ColumnName) =>
     cards.filter((c) => c.column_name === column).sort((a, b) => a.position - b.position);
 
   return {
     board,
+    boards,
     cards,
+    columns,
+    setColumns,
     loading,
     error,
     refresh,
     moveCard,
+    bulkUpdate,
     createCard,
+    createCardFromTemplate,
     purgeBoard,
+    restoreCards,
     cardsByColumn,
     updateCard,
+    snoozeCard,
+    editCard,
+    deleteCard,
+    archiveCard,
   };
 }
@@ -0,0 +1,57 @@
+// client/src/hooks/useUndo.ts
+import { useRef, useCallback, useEffect } from "react";
+import { toast } from "sonner";
+
+interface UndoEntry {
+  label: string;
+  undo: () => Promise<void>;
+}
+
+const MAX_ENTRIES = 20;
+
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+// Undo stack for board actions. Each push shows a toast with an Undo button;
+// Ctrl/Cmd+Z undoes the most recent entry (outside of text fields).
+export function useUndo() {
+  const stack = useRef<UndoEntry[]>([]);
+
+  const run = useCallback(async (entry: UndoEntry) => {
+    const index = stack.current.indexOf(entry);
+    if (index === -1) return; // already undone
+    stack.current.splice(index, 1);
+    try {
+      await entry.undo();
+      toast.success(`Undone: ${entry.label}`);
+    } catch (e) {
+      toast.error(e instanceof Error ? e.message : "Undo failed");
+    }
+  }, []);
+
+  const push = useCallback((label: string, undo: () => Promise<void>) => {
+    const entry = { label, undo };
+    stack.current = [...stack.current, entry].slice(-MAX_ENTRIES);
+    toast(label, { action: { label: "Undo", onClick: () => run(entry) } });
+  }, [run]);
+
+  const undoLast = useCallback(() => {
+    const entry = stack.current[stack.current.length - 1];
+    if (entry) run(entry);
+  }, [run]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.key.toLowerCase() !== "z") return;
+      if (isEditable(e.target)) return;
+      e.preventDefault();
+      undoLast();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undoLast]);
+
+  return { push, undoLast };
+}
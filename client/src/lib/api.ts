@@ -1,19 +1,76 @@
 // client/src/lib/api.ts
-import type { Board, Card, ColumnName, ExecutionSession, DiffResult } from "@daily-kanban/shared";
+import type {
+  BoardSummary, Card, CardComment, CardEvent, ChecklistItem, ColumnName, ExecutionSession, DiffResult, Label, UpdateCardRequest,
+  UpdateChecklistItemRequest, SearchResponse, PurgeBoardResponse, BoardResponse, BoardColumn, CreateColumnRequest,
+  UpdateColumnRequest, ReorderCardRequest, ReorderCardResponse, BulkCardAction, BulkCardResponse,
+  CardTemplate, CardTemplateRequest, BoardExport, ExportFormat, ImportBoardResponse,
+  BoardReport, GenerateReportRequest, StatsResponse, SchemaStatus, BackupFile, BackupsResponse, RestoreBackupResponse,
+  MaintenancePolicy, PruneResult, User, CreateUserResponse,
+} from "@daily-kanban/shared";
+
+export type CardNeighbors = Omit<ReorderCardRequest, "column_name">;
 
 const BASE = "/api";
+const TOKEN_KEY = "daily-kanban.api-token";
+// Dispatched on window when the server rejects the token
+export const UNAUTHORIZED_EVENT = "daily-kanban:unauthorized";
+
+// The server prints the token on first run and keeps it in daily-kanban.token
+export function getApiToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setApiToken(token: string): void {
+  localStorage.setItem(TOKEN_KEY, token.trim());
+}
+
+// Saves a `?token=` from the page URL and removes it from the address bar,
+// so the link the server prints on first run signs the browser in
+export function adoptTokenFromUrl(): void {
+  const url = new URL(window.location.href);
+  const token = url.searchParams.get("token");
+  if (!token) return;
+  setApiToken(token);
+  url.searchParams.delete("token");
+  window.history.replaceState(null, "", url);
+}
+
+// fetch with the API token attached
+export async function apiFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(options.headers);
+  const token = getApiToken();
+  if (token) headers.set("Authorization", `Bearer ${token}`);
+  const res = await fetch(url, { ...options, headers });
+  if (res.status === 401) window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  return res;
+}
+
+// EventSource and download links cannot send headers, so GET URLs carry the token
+function withToken(url: string): string {
+  const token = getApiToken();
+  return token ? `${url}${url.includes("?") ? "&" : "?"}token=${encodeURIComponent(token)}` : url;
+}
+
+// Prefer the server's `{ error }` message (e.g. why a card was refused)
+async function errorMessage(res: Response): Promise<string> {
+  const body = await res.json().catch(() => null);
+  return body?.error ?? `API error: ${res.status}`;
+}
 
 async function fetchJson<T>(url: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(`${BASE}${url}`, {
-    headers: { "Content-Type": "application/json" },
+  const res = await apiFetch(`${BASE}${url}`, {
     ...options,
+    headers: { "Content-Type": "application/json", ...options?.headers },
   });
-  if (!res.ok) throw new Error(`API error: ${res.status}`);
+  if (!res.ok) throw new Error(await errorMessage(res));
   return res.json();
 }
 
 export const api = {
-  getBoard: () => fetchJson<{ board: Board; cards: Card[] }>("/board/today"),
+  getBoard: (date?: string) =>
+    fetchJson<BoardResponse>(`/board/${date ?? "today"}`),
+
+  listBoards: () => fetchJson<{ boards: BoardSummary[] }>("/board"),
 
   createCard: (title: string, body?: string) =>
     fetchJson<Card>("/cards", {
@@ -21,24 +78,253 @@ export const api = {
       body: JSON.stringify({ title, body }),
     }),
 
-  moveCard: (id: number, column_name: ColumnName, position: number) =>
-    fetchJson<Card>(`/cards/${id}/move`, {
+  updateCard: (id: number, fields: UpdateCardRequest) =>
+    fetchJson<Card>(`/cards/${id}`, {
       method: "PATCH",
-      body: JSON.stringify({ column_name, position }),
+      body: JSON.stringify(fields),
     }),
 
+  deleteCard: (id: number) =>
+    fetchJson<{ success: boolean }>(`/cards/${id}`, { method: "DELETE" }),
+
+  archiveCard: (id: number) =>
+    fetchJson<Card>(`/cards/${id}/archive`, { method: "POST" }),
+
+  restoreCard: (id: number) =>
+    fetchJson<Card>(`/cards/${id}/restore`, { method: "POST" }),
+
+  // The server works out the position from the neighbors and may renumber
+  // the rest of the column; `positions` lists every card that moved
+  reorderCard: (id: number, column_name: ColumnName, neighbors: CardNeighbors) =>
+    fetchJson<ReorderCardResponse>(`/cards/${id}/reorder`, {
+      method: "PATCH",
+      body: JSON.stringify({ column_name, ...neighbors }),
+    }),
+
+  // All-or-nothing: the server refuses the whole batch if any card can't take the action
+  bulkCards: (card_ids: number[], action: BulkCardAction) =>
+    fetchJson<BulkCardResponse>("/cards/bulk", {
+      method: "POST",
+      body: JSON.stringify({ card_ids, action }),
+    }),
+
+  snoozeCard: (id: number, until: string) =>
+    fetchJson<Card>(`/cards/${id}/snooze`, {
+      method: "POST",
+      body: JSON.stringify({ until }),
+    }),
+
+  // Brings a snoozed card back into today's inbox now
+  wakeCard: (id: number) =>
+    fetchJson<Card>(`/cards/${id}/wake`, { method: "POST" }),
+
+  listSnoozedCards: () => fetchJson<{ cards: Card[] }>("/cards/snoozed"),
+
   toggleAi: (id: number, ai_toggle: boolean) =>
     fetchJson<Card>(`/cards/${id}/ai-toggle`, {
       method: "PATCH",
       body: JSON.stringify({ ai_toggle }),
     }),
 
+  setCardLabels: (cardId: number, label_ids: number[]) =>
+    fetchJson<Card>(`/cards/${cardId}/labels`, {
+      method: "PUT",
+      body: JSON.stringify({ label_ids }),
+    }),
+
+  assignCard: (id: number, assignee_id: number | null) =>
+    fetchJson<Card>(`/cards/${id}/assignee`, {
+      method: "PATCH",
+      body: JSON.stringify({ assignee_id }),
+    }),
+
+  listLabels: () => fetchJson<{ labels: Label[] }>("/labels"),
+
+  listTemplates: () => fetchJson<{ templates: CardTemplate[] }>("/templates"),
+
+  createTemplate: (input: CardTemplateRequest) =>
+    fetchJson<CardTemplate>("/templates", {
+      method: "POST",
+      body: JSON.stringify(input),
+    }),
+
+  updateTemplate: (id: number, input: CardTemplateRequest) =>
+    fetchJson<CardTemplate>(`/templates/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    }),
+
+  deleteTemplate: (id: number) =>
+    fetchJson<{ success: boolean }>(`/templates/${id}`, { method: "DELETE" }),
+
+  // Puts a card made from the template on today's board right away
+  createCardFromTemplate: (id: number) =>
+    fetchJson<Card>(`/templates/${id}/cards`, { method: "POST" }),
+
+  // For download links; `date` is "today" or YYYY-MM-DD
+  exportUrl: (date: string, format: ExportFormat, includeLogs = false) =>
+    withToken(`${BASE}/board/${date}/export?format=${format}${includeLogs ? "&include_logs=true" : ""}`),
+
+  exportMarkdown: async (date: string) => {
+    const res = await apiFetch(api.exportUrl(date, "md"));
+    if (!res.ok) throw new Error(await errorMessage(res));
+    return res.text();
+  },
+
+  // Recreates the export's cards on its date; cards already there are skipped
+  importBoard: (data: BoardExport) =>
+    fetchJson<ImportBoardResponse>("/board/import", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  // `report` is null until one has been generated for the board
+  getReport: (date: string) =>
+    fetchJson<{ report: BoardReport | null }>(`/board/${date}/report`),
+
+  generateReport: (date: string, input: GenerateReportRequest) =>
+    fetchJson<BoardReport>(`/board/${date}/report`, {
+      method: "POST",
+      body: JSON.stringify(input),
+    }),
+
+  // Both ends inclusive; the server defaults to the last 30 days
+  getStats: (from?: string, to?: string) => {
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return fetchJson<StatsResponse>(`/stats?${params}`);
+  },
+
+  getSchemaStatus: () => fetchJson<SchemaStatus>("/admin/schema"),
+
+  listBackups: () => fetchJson<BackupsResponse>("/admin/backups"),
+
+  createBackup: () => fetchJson<BackupFile>("/admin/backup", { method: "POST" }),
+
+  // Overwrites the live database; the response names the backup taken first
+  restoreBackup: (name: string) =>
+    fetchJson<RestoreBackupResponse>("/admin/restore", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    }),
+
+  restoreUpload: (file: File) =>
+    fetchJson<RestoreBackupResponse>("/admin/restore/upload", {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: file,
+    }),
+
+  getMaintenancePolicy: () => fetchJson<MaintenancePolicy>("/admin/maintenance"),
+
+  updateMaintenancePolicy: (policy: Partial<MaintenancePolicy>) =>
+    fetchJson<MaintenancePolicy>("/admin/maintenance", {
+      method: "PATCH",
+      body: JSON.stringify(policy),
+    }),
+
+  pruneDatabase: () => fetchJson<PruneResult>("/admin/prune", { method: "POST" }),
+
+  getMe: () => fetchJson<User>("/users/me"),
+
+  listUsers: () => fetchJson<{ users: User[] }>("/users"),
+
+  // The new user's token is only in this response
+  createUser: (name: string) =>
+    fetchJson<CreateUserResponse>("/users", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    }),
+
+  updateUser: (id: number, name: string) =>
+    fetchJson<User>(`/users/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ name }),
+    }),
+
+  deleteUser: (id: number) =>
+    fetchJson<{ success: boolean }>(`/users/${id}`, { method: "DELETE" }),
+
+  createLabel: (name: string, color?: string) =>
+    fetchJson<Label>("/labels", {
+      method: "POST",
+      body: JSON.stringify({ name, color }),
+    }),
+
+  updateLabel: (id: number, fields: { name?: string; color?: string }) =>
+    fetchJson<Label>(`/labels/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(fields),
+    }),
+
+  deleteLabel: (id: number) =>
+    fetchJson<{ success: boolean }>(`/labels/${id}`, { method: "DELETE" }),
+
+  listChecklist: (cardId: number) =>
+    fetchJson<{ items: ChecklistItem[] }>(`/cards/${cardId}/checklist`),
+
+  addChecklistItem: (cardId: number, text: string) =>
+    fetchJson<ChecklistItem>(`/cards/${cardId}/checklist`, {
+      method: "POST",
+      body: JSON.stringify({ text }),
+    }),
+
+  updateChecklistItem: (cardId: number, itemId: number, fields: UpdateChecklistItemRequest) =>
+    fetchJson<ChecklistItem>(`/cards/${cardId}/checklist/${itemId}`, {
+      method: "PATCH",
+      body: JSON.stringify(fields),
+    }),
+
+  deleteChecklistItem: (cardId: number, itemId: number) =>
+    fetchJson<{ success: boolean }>(`/cards/${cardId}/checklist/${itemId}`, { method: "DELETE" }),
+
+  listCardEvents: (cardId: number) =>
+    fetchJson<{ events: CardEvent[] }>(`/cards/${cardId}/events`),
+
+  listComments: (cardId: number) =>
+    fetchJson<{ comments: CardComment[] }>(`/cards/${cardId}/comments`),
+
+  addComment: (cardId: number, body: string) =>
+    fetchJson<CardComment>(`/cards/${cardId}/comments`, {
+      method: "POST",
+      body: JSON.stringify({ body }),
+    }),
+
+  updateComment: (cardId: number, commentId: number, body: string) =>
+    fetchJson<CardComment>(`/cards/${cardId}/comments/${commentId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ body }),
+    }),
+
+  deleteComment: (cardId: number, commentId: number) =>
+    fetchJson<{ success: boolean }>(`/cards/${cardId}/comments/${commentId}`, { method: "DELETE" }),
+
+  getDependencies: (cardId: number) =>
+    fetchJson<{ blocked_by: Card[]; blocks: Card[] }>(`/cards/${cardId}/dependencies`),
+
+  addDependency: (cardId: number, blocker_id: number) =>
+    fetchJson<Card>(`/cards/${cardId}/dependencies`, {
+      method: "POST",
+      body: JSON.stringify({ blocker_id }),
+    }),
+
+  removeDependency: (cardId: number, blockerId: number) =>
+    fetchJson<Card>(`/cards/${cardId}/dependencies/${blockerId}`, { method: "DELETE" }),
+
+  search: (q: string) =>
+    fetchJson<SearchResponse>(`/search?q=${encodeURIComponent(q)}`),
+
   evaluateCard: (cardId: number) =>
     fetchJson<Card>(`/ai/evaluate/${cardId}`, { method: "POST" }),
 
+  // Queues the card's connector action; it fires after a short grace period
   executeCard: (cardId: number) =>
     fetchJson<Card>(`/ai/execute/${cardId}`, { method: "POST" }),
 
+  cancelExecution: (cardId: number) =>
+    fetchJson<Card>(`/ai/execute/${cardId}/cancel`, { method: "POST" }),
+
   getRepos: () =>
     fetchJson<{ repos: { id: string; name: string; path: string }[]; default_repo_id: string | null }>("/repos"),
 
@@ -71,13 +357,13 @@ export const api = {
 
     (async () => {
       try {
-        const res = await fetch(`${BASE}/ai/execute-code/${cardId}`, {
+        const res = await apiFetch(`${BASE}/ai/execute-code/${cardId}`, {
           method: "POST",
           signal: controller.signal,
         });
 
         if (!res.ok || !res.body) {
-          onEvent({ step: "error", message: `API error: ${res.status}` });
+          onEvent({ step: "error", message: await errorMessage(res) });
           onEvent({ step: "done", message: "Execution failed" });
           return;
         }
@@ -117,10 +403,41 @@ export const api = {
   },
 
   purgeBoard: () =>
-    fetchJson<{ success: boolean; deleted: number }>("/board/today", {
+    fetchJson<PurgeBoardResponse>("/board/today", {
       method: "DELETE",
     }),
 
+  // `date` is "today" or YYYY-MM-DD
+  createColumn: (date: string, input: CreateColumnRequest) =>
+    fetchJson<BoardColumn>(`/board/${date}/columns`, {
+      method: "POST",
+      body: JSON.stringify(input),
+    }),
+
+  updateColumn: (date: string, id: number, input: UpdateColumnRequest) =>
+    fetchJson<BoardColumn>(`/board/${date}/columns/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    }),
+
+  deleteColumn: (date: string, id: number) =>
+    fetchJson<{ success: boolean }>(`/board/${date}/columns/${id}`, { method: "DELETE" }),
+
+  reorderColumns: (date: string, ids: number[]) =>
+    fetchJson<{ columns: BoardColumn[] }>(`/board/${date}/columns/order`, {
+      method: "PUT",
+      body: JSON.stringify({ ids }),
+    }),
+
+  // Stream of BoardEvent messages for every board
+  boardEvents: () => new EventSource(withToken(`${BASE}/board/events`)),
+
+  restoreBoardCards: (card_ids: number[]) =>
+    fetchJson<BoardResponse>("/board/today/restore", {
+      method: "POST",
+      body: JSON.stringify({ card_ids }),
+    }),
+
   processCardStream: (
     cardId: number,
     onEvent: (event: { step: string; message: string; card?: Card }) => void,
@@ -130,7 +447,7 @@ export const api = {
 
     (async () => {
       try {
-        const res = await fetch(`${BASE}/ai/process-stream/${cardId}`, {
+        const res = await apiFetch(`${BASE}/ai/process-stream/${cardId}`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ customRequest }),
@@ -138,7 +455,7 @@ export const api = {
         });
 
         if (!res.ok || !res.body) {
-          onEvent({ step: "error", message: `API error: ${res.status}` });
+          onEvent({ step: "error", message: await errorMessage(res) });
           onEvent({ step: "done", message: "Processing failed" });
           return;
         }
@@ -198,7 +515,7 @@ export const api = {
 
     (async () => {
       try {
-        const res = await fetch(`${BASE}/ai/answer/${cardId}`, {
+        const res = await apiFetch(`${BASE}/ai/answer/${cardId}`, {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ answer }),
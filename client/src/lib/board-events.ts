@@ -0,0 +1,14 @@
+// client/src/lib/board-events.ts
+import type { BoardEvent, Card } from "@daily-kanban/shared";
+
+// Applies one pushed change to the cards of the board it belongs to.
+// Deleted and archived cards drop off; anything else is inserted or replaced.
+export function applyBoardEvent(cards: Card[], event: BoardEvent): Card[] {
+  const card = event.card;
+  if (!card || card.deleted_at || card.archived_at) {
+    return cards.filter((c) => c.id !== event.card_id);
+  }
+  return cards.some((c) => c.id === card.id)
+    ? cards.map((c) => (c.id === card.id ? card : c))
+    : [...cards, card];
+}
@@ -0,0 +1,27 @@
+// client/src/lib/filters.ts
+import type { Card, SourceType } from "@daily-kanban/shared";
+
+export interface BoardFilters {
+  text: string;
+  source: SourceType | "";
+  labelIds: number[];
+  // A user id ("my cards" is the signed-in user's), or cards nobody has
+  assignee: number | "unassigned" | "";
+}
+
+export const EMPTY_FILTERS: BoardFilters = { text: "", source: "", labelIds: [], assignee: "" };
+
+// A card matches when it has any of the selected labels, the selected source
+// and assignee, and the text in its title, body or proposed action.
+export function matchesFilters(card: Card, filters: BoardFilters): boolean {
+  if (filters.source && card.source_type !== filters.source) return false;
+  if (filters.assignee === "unassigned" && card.assignee_id !== null) return false;
+  if (typeof filters.assignee === "number" && card.assignee_id !== filters.assignee) return false;
+  if (filters.labelIds.length > 0 && !card.labels.some((l) => filters.labelIds.includes(l.id))) return false;
+  if (filters.text) {
+    const needle = filters.text.toLowerCase();
+    const haystack = [card.title, card.body, card.proposed_action].filter(Boolean).join(" ").toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,27 @@
+// client/src/lib/snooze.ts
+
+export interface SnoozePreset {
+  label: string;
+  until: Date;
+}
+
+// Quick picks for the snooze dialog, in local time
+export function snoozePresets(now: Date = new Date()): SnoozePreset[] {
+  const at = (daysAhead: number, hour: number) => {
+    const d = new Date(now);
+    d.setDate(d.getDate() + daysAhead);
+    d.setHours(hour, 0, 0, 0);
+    return d;
+  };
+  // Days until next Monday; a Monday goes to the one after
+  const toMonday = ((8 - now.getDay()) % 7) || 7;
+  return [
+    { label: "In 3 hours", until: new Date(now.getTime() + 3 * 60 * 60 * 1000) },
+    { label: "Tomorrow morning", until: at(1, 9) },
+    { label: "Next week", until: at(toMonday, 9) },
+  ];
+}
+
+export function formatSnoozedUntil(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
@@ -0,0 +1,42 @@
+// client/src/lib/urgency.ts
+import type { Card, Priority } from "@daily-kanban/shared";
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  0: "No priority",
+  1: "Urgent",
+  2: "High",
+  3: "Medium",
+  4: "Low",
+};
+
+export function isOverdue(card: Card, now: Date = new Date()): boolean {
+  return card.due_at !== null && card.column_name !== "done" && new Date(card.due_at) < now;
+}
+
+// Mirrors the server's urgency order: overdue first, then priority
+// (unprioritized last), then soonest due date, then manual position.
+export function compareByUrgency(a: Card, b: Card, now: Date = new Date()): number {
+  const overdue = Number(isOverdue(b, now)) - Number(isOverdue(a, now));
+  if (overdue !== 0) return overdue;
+  const rank = (c: Card) => (c.priority === 0 ? 5 : c.priority);
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+  const due = (c: Card) => (c.due_at ? new Date(c.due_at).getTime() : Infinity);
+  if (due(a) !== due(b)) return due(a) - due(b);
+  return a.position - b.position;
+}
+
+export function formatDue(dueAt: string): string {
+  const due = new Date(dueAt);
+  const sameDay = due.toDateString() === new Date().toDateString();
+  return sameDay
+    ? due.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : due.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+// `<input type="datetime-local">` wants local wall-clock time without a zone
+export function toDateTimeLocal(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
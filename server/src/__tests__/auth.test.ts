@@ -0,0 +1,101 @@
+// server/src/__tests__/auth.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { allowedOrigins, currentUserId, loadApiToken, requireAuth } from "../auth.js";
+import { migrate } from "../db/migrate.js";
+import { UserRepo } from "../db/user-repo.js";
+
+const TOKEN = "test-token";
+const ORIGIN = "http://localhost:5173";
+
+describe("requireAuth", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let users: UserRepo;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    users = new UserRepo(db);
+    app = express();
+    app.use(express.json());
+    app.use("/api", requireAuth(TOKEN, [ORIGIN], users));
+    app.get("/api/users/me", (_req, res) => res.json({ id: currentUserId(res) }));
+    app.get("/api/health", (_req, res) => res.json({ status: "ok" }));
+    app.get("/api/connectors/oauth/callback", (_req, res) => res.send("ok"));
+    app.get("/api/board/events", (_req, res) => res.json({ ok: true }));
+    app.post("/api/ai/execute-code/1", (_req, res) => res.json({ ran: true }));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("lets health checks and the OAuth callback through", async () => {
+    expect((await request(app).get("/api/health")).status).toBe(200);
+    expect((await request(app).get("/api/connectors/oauth/callback?code=x&state=y")).status).toBe(200);
+  });
+
+  it("requires the token as a bearer header", async () => {
+    expect((await request(app).post("/api/ai/execute-code/1")).status).toBe(401);
+    expect((await request(app).post("/api/ai/execute-code/1").set("Authorization", "Bearer wrong")).status).toBe(401);
+    const res = await request(app).post("/api/ai/execute-code/1").set("Authorization", `Bearer ${TOKEN}`);
+    expect(res.status).toBe(200);
+  });
+
+  it("signs users in with their own tokens", async () => {
+    const { user, token } = users.create("Sam");
+    const me = (t: string) => request(app).get("/api/users/me").set("Authorization", `Bearer ${t}`);
+    expect((await me(TOKEN)).body).toEqual({ id: 1 });
+    expect((await me(token)).body).toEqual({ id: user.id });
+    users.delete(user.id);
+    expect((await me(token)).status).toBe(401);
+  });
+
+  it("accepts ?token= on GET requests only", async () => {
+    expect((await request(app).get(`/api/board/events?token=${TOKEN}`)).status).toBe(200);
+    expect((await request(app).post(`/api/ai/execute-code/1?token=${TOKEN}`)).status).toBe(401);
+  });
+
+  it("refuses mutating requests from other origins", async () => {
+    const post = () => request(app).post("/api/ai/execute-code/1").set("Authorization", `Bearer ${TOKEN}`);
+    expect((await post().set("Origin", "https://evil.example")).status).toBe(403);
+    expect((await post().set("Sec-Fetch-Site", "cross-site")).status).toBe(403);
+    expect((await post().set("Origin", ORIGIN)).status).toBe(200);
+  });
+});
+
+describe("loadApiToken / allowedOrigins", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "daily-kanban-token-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("generates a private token file on first run and reuses it", () => {
+    const file = join(dir, "daily-kanban.token");
+    const token = loadApiToken(file, {});
+    expect(token.length).toBeGreaterThanOrEqual(40);
+    expect(readFileSync(file, "utf-8").trim()).toBe(token);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(loadApiToken(file, {})).toBe(token);
+    expect(loadApiToken(file, { API_TOKEN: "from-env" })).toBe("from-env");
+  });
+
+  it("defaults to the local dev origins", () => {
+    expect(allowedOrigins(3001, {})).toContain("http://localhost:5173");
+    expect(allowedOrigins(3001, { ALLOWED_ORIGINS: "https://kanban.example, http://x" })).toEqual([
+      "https://kanban.example",
+      "http://x",
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+// server/src/__tests__/board-day.test.ts
+import { describe, it, expect } from "vitest";
+import { resolveBoardDay, isValidTimezone } from "../board-day.js";
+
+describe("resolveBoardDay", () => {
+  it("uses the calendar date in the configured timezone", () => {
+    // 23:30 UTC is already the next day in UTC+2
+    const now = new Date("2026-03-10T23:30:00Z");
+    expect(resolveBoardDay(now, { timezone: "UTC", dayStartHour: 0 }).date).toBe("2026-03-10");
+    expect(resolveBoardDay(now, { timezone: "Africa/Cairo", dayStartHour: 0 }).date).toBe("2026-03-11");
+    expect(resolveBoardDay(now, { timezone: "America/Bogota", dayStartHour: 0 }).date).toBe("2026-03-10");
+  });
+
+  it("keeps the previous board until the day start hour", () => {
+    const now = new Date("2026-03-11T03:00:00Z");
+    const day = resolveBoardDay(now, { timezone: "UTC", dayStartHour: 4 });
+    expect(day.date).toBe("2026-03-10");
+    expect(day.start.toISOString()).toBe("2026-03-10T04:00:00.000Z");
+    expect(day.end.toISOString()).toBe("2026-03-11T04:00:00.000Z");
+  });
+
+  it("computes day bounds in the configured timezone", () => {
+    const day = resolveBoardDay(new Date("2026-03-10T12:00:00Z"), { timezone: "America/Bogota", dayStartHour: 0 });
+    expect(day.start.toISOString()).toBe("2026-03-10T05:00:00.000Z");
+    expect(day.end.toISOString()).toBe("2026-03-11T05:00:00.000Z");
+  });
+
+  it("handles days that cross a DST change", () => {
+    // Europe/Berlin springs forward on 2026-03-29, so that day is 23 hours long
+    const day = resolveBoardDay(new Date("2026-03-29T12:00:00Z"), { timezone: "Europe/Berlin", dayStartHour: 0 });
+    expect(day.start.toISOString()).toBe("2026-03-28T23:00:00.000Z");
+    expect(day.end.toISOString()).toBe("2026-03-29T22:00:00.000Z");
+  });
+
+  it("validates timezone names", () => {
+    expect(isValidTimezone("Europe/Berlin")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+// server/src/__tests__/credentials.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import crypto from "crypto";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  CredentialCipher,
+  loadCredentialsKey,
+  maskCredentials,
+  mergeCredentials,
+  resolveReferences,
+} from "../credentials.js";
+
+describe("CredentialCipher", () => {
+  const cipher = new CredentialCipher(crypto.randomBytes(32));
+
+  it("round-trips credentials without leaving them readable", () => {
+    const stored = cipher.encrypt({ token: "glpat-secret" });
+    expect(stored).toMatch(/^enc:v1:/);
+    expect(stored).not.toContain("glpat-secret");
+    expect(cipher.decrypt(stored)).toEqual({ token: "glpat-secret" });
+  });
+
+  it("reads plain JSON saved before encryption", () => {
+    expect(cipher.decrypt('{"api_key":"lin_api_1"}')).toEqual({ api_key: "lin_api_1" });
+  });
+
+  it("refuses tampered data and other keys", () => {
+    const stored = cipher.encrypt({ token: "x" });
+    expect(() => new CredentialCipher(crypto.randomBytes(32)).decrypt(stored)).toThrow();
+    const tampered = stored.slice(0, -4) + (stored.endsWith("AAAA") ? "BBBB" : "AAAA");
+    expect(() => cipher.decrypt(tampered)).toThrow();
+  });
+});
+
+describe("loadCredentialsKey", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "daily-kanban-key-"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("creates a private key file once and reuses it", () => {
+    const file = join(dir, "daily-kanban.key");
+    const key = loadCredentialsKey(file, {});
+    expect(key).toHaveLength(32);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(loadCredentialsKey(file, {})).toEqual(key);
+  });
+
+  it("prefers CREDENTIALS_KEY and validates its length", () => {
+    const hex = crypto.randomBytes(32).toString("hex");
+    expect(loadCredentialsKey(join(dir, "unused.key"), { CREDENTIALS_KEY: hex })).toEqual(Buffer.from(hex, "hex"));
+    expect(() => loadCredentialsKey(join(dir, "unused.key"), { CREDENTIALS_KEY: "too-short" })).toThrow(/32 bytes/);
+  });
+});
+
+describe("resolveReferences", () => {
+  it("reads env variables and secret files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "daily-kanban-secret-"));
+    const secret = join(dir, "telegram");
+    writeFileSync(secret, "123:abc\n");
+    try {
+      expect(
+        resolveReferences(
+          { token: "${env:GITLAB_TOKEN}", bot_token: `file:${secret}`, base_url: "https://gitlab.com" },
+          { GITLAB_TOKEN: "glpat-env" },
+        )
+      ).toEqual({ token: "glpat-env", bot_token: "123:abc", base_url: "https://gitlab.com" });
+      expect(readFileSync(secret, "utf-8")).toBe("123:abc\n");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails loudly when the target is missing", () => {
+    expect(() => resolveReferences({ token: "${env:MISSING_TOKEN}" }, {})).toThrow(/MISSING_TOKEN is not set/);
+    expect(() => resolveReferences({ token: "file:/nonexistent/secret" }, {})).toThrow(/does not exist/);
+  });
+});
+
+describe("maskCredentials / mergeCredentials", () => {
+  it("only shows references and public fields", () => {
+    expect(maskCredentials({ base_url: "https://gitlab.example.com", token: "glpat-1", api_key: "${env:LINEAR_KEY}" })).toEqual({
+      base_url: { configured: true, value: "https://gitlab.example.com" },
+      token: { configured: true, value: null },
+      api_key: { configured: true, value: "${env:LINEAR_KEY}" },
+    });
+  });
+
+  it("keeps stored secrets for blank fields", () => {
+    expect(mergeCredentials({ base_url: "https://a", token: "old" }, { base_url: "https://b", token: "" })).toEqual({
+      base_url: "https://b",
+      token: "old",
+    });
+    expect(mergeCredentials(null, { token: "" })).toEqual({ token: "" });
+  });
+});
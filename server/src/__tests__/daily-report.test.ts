@@ -0,0 +1,76 @@
+// server/src/__tests__/daily-report.test.ts
+import { describe, it, expect } from "vitest";
+import type { BoardColumn, Card, CardEvent, ExecutionSession } from "@daily-kanban/shared";
+import { collectReportFacts, formatDuration, renderReport } from "../daily-report.js";
+
+const columns = [
+  { key: "inbox", name: "Inbox" },
+  { key: "in_process", name: "In Process" },
+  { key: "done", name: "Done" },
+] as BoardColumn[];
+
+function card(id: number, title: string, column_name: string, fields: Partial<Card> = {}): Card {
+  return { id, title, column_name, execution_result: null, proposed_action: null, ...fields } as Card;
+}
+
+function event(type: string, column_name: string, created_at: string): CardEvent {
+  return { type, new_value: { column_name }, created_at } as unknown as CardEvent;
+}
+
+const window = { start: new Date("2026-10-19T00:00:00Z"), end: new Date("2026-10-19T12:00:00Z") };
+
+describe("collectReportFacts", () => {
+  const facts = collectReportFacts({
+    date: "2026-10-19",
+    columns,
+    cards: [
+      card(1, "Fix login", "done", { execution_result: "PR: https://github.com/acme/app/pull/42" }),
+      card(2, "Answer Sam", "in_process", { proposed_action: "Reply with the dates" }),
+    ],
+    sessions: new Map([
+      [1, [{ type: "execution", status: "completed", summary: "PR: https://github.com/acme/app/pull/42" }] as ExecutionSession[]],
+    ]),
+    events: new Map([
+      [1, [
+        event("created", "inbox", "2026-10-19 09:00:00"),
+        event("moved", "in_process", "2026-10-19 09:30:00"),
+        event("moved", "done", "2026-10-19 10:45:00"),
+      ]],
+      // Carried over from yesterday: only today's part counts
+      [2, [event("created", "inbox", "2026-10-18 17:00:00"), event("moved", "in_process", "2026-10-19 11:00:00")]],
+    ]),
+    window,
+  });
+
+  it("splits done, automated and open cards", () => {
+    expect(facts.done).toEqual([{ title: "Fix login", pr_urls: ["https://github.com/acme/app/pull/42"] }]);
+    expect(facts.automated).toEqual([
+      expect.objectContaining({ title: "Fix login", sessions: [{ type: "execution", status: "completed" }] }),
+    ]);
+    expect(facts.open).toEqual([{ title: "Answer Sam", column: "In Process", proposed_action: "Reply with the dates" }]);
+  });
+
+  it("adds up time per column inside the window, leaving out done", () => {
+    expect(facts.column_time).toEqual([
+      { column: "Inbox", cards: 2, minutes: 30 + 11 * 60 },
+      { column: "In Process", cards: 2, minutes: 75 + 60 },
+    ]);
+  });
+
+  it("renders Markdown with every section", () => {
+    const report = renderReport(facts);
+    expect(report).toContain("# Daily report 2026-10-19");
+    expect(report).toContain("- Fix login ([PR](https://github.com/acme/app/pull/42))");
+    expect(report).toContain("- **Fix login**: PR: https://github.com/acme/app/pull/42");
+    expect(report).toContain("- Answer Sam _(In Process)_");
+    expect(report).toContain("| In Process | 2 | 2h 15m |");
+  });
+});
+
+describe("formatDuration", () => {
+  it("formats minutes and hours", () => {
+    expect(formatDuration(0.4)).toBe("<1m");
+    expect(formatDuration(45)).toBe("45m");
+    expect(formatDuration(65)).toBe("1h 05m");
+  });
+});
@@ -5,6 +5,8 @@ import Database from "better-sqlite3";
 import { migrate } from "../db/migrate.js";
 import { BoardRepo } from "../db/board-repo.js";
 import { CardRepo } from "../db/card-repo.js";
+import { ColumnRepo } from "../db/column-repo.js";
+import { LabelRepo } from "../db/label-repo.js";
 import { createBoardRouter } from "../routes/board.js";
 import { createCardsRouter } from "../routes/cards.js";
 
@@ -17,10 +19,11 @@ describe("E2E: Board workflow", () => {
     migrate(db);
     const boardRepo = new BoardRepo(db);
     const cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
     app = express();
     app.use(express.json());
-    app.use("/api/board", createBoardRouter(boardRepo, cardRepo));
-    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo));
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, new LabelRepo(db), columnRepo));
   });
 
   afterEach(() => {
@@ -0,0 +1,38 @@
+// server/src/__tests__/recurrence.test.ts
+import { describe, it, expect } from "vitest";
+import { occursOn, validateRecurrence } from "../recurrence.js";
+
+// 2026-10-19 is a Monday
+describe("occursOn", () => {
+  it("handles daily, weekday and weekly rules", () => {
+    expect(occursOn({ kind: "daily" }, "2026-10-18")).toBe(true);
+    expect(occursOn({ kind: "weekdays" }, "2026-10-19")).toBe(true);
+    expect(occursOn({ kind: "weekdays" }, "2026-10-18")).toBe(false);
+    expect(occursOn({ kind: "weekly", weekdays: [1, 5] }, "2026-10-19")).toBe(true);
+    expect(occursOn({ kind: "weekly", weekdays: [1, 5] }, "2026-10-21")).toBe(false);
+  });
+
+  it("matches cron day fields", () => {
+    expect(occursOn({ kind: "cron", cron: "0 9 * * 1-5" }, "2026-10-19")).toBe(true);
+    expect(occursOn({ kind: "cron", cron: "0 9 * * 1-5" }, "2026-10-25")).toBe(false);
+    expect(occursOn({ kind: "cron", cron: "0 0 1 * *" }, "2026-11-01")).toBe(true);
+    expect(occursOn({ kind: "cron", cron: "0 0 1 * *" }, "2026-11-02")).toBe(false);
+    expect(occursOn({ kind: "cron", cron: "0 0 * */2 7" }, "2026-11-01")).toBe(true);
+    // Day of month and day of week together mean either one
+    expect(occursOn({ kind: "cron", cron: "0 0 15 * 1" }, "2026-10-19")).toBe(true);
+    expect(occursOn({ kind: "cron", cron: "0 0 15 * 1" }, "2026-10-15")).toBe(true);
+    expect(occursOn({ kind: "cron", cron: "0 0 15 * 1" }, "2026-10-16")).toBe(false);
+  });
+});
+
+describe("validateRecurrence", () => {
+  it("rejects malformed rules", () => {
+    expect(validateRecurrence({ kind: "daily" })).toBeNull();
+    expect(validateRecurrence({ kind: "cron", cron: "*/5 9-17 * * 1,3,5" })).toBeNull();
+    expect(validateRecurrence({ kind: "hourly" as "daily" })).toContain("kind");
+    expect(validateRecurrence({ kind: "weekly", weekdays: [] })).toContain("weekdays");
+    expect(validateRecurrence({ kind: "weekly", weekdays: [7] })).toContain("weekdays");
+    expect(validateRecurrence({ kind: "cron", cron: "0 9 * *" })).toContain("cron");
+    expect(validateRecurrence({ kind: "cron", cron: "0 25 * * *" })).toContain("cron");
+  });
+});
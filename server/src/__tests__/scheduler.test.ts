@@ -6,6 +6,7 @@ import { Scheduler } from "../scheduler.js";
 import { ConnectorRegistry } from "../connectors/registry.js";
 import { BoardRepo } from "../db/board-repo.js";
 import { CardRepo } from "../db/card-repo.js";
+import { TemplateRepo } from "../db/template-repo.js";
 import type { Connector } from "../connectors/types.js";
 
 describe("Scheduler", () => {
@@ -53,6 +54,7 @@ describe("Scheduler", () => {
     const cards = cardRepo.listByBoard(board.id);
     expect(cards).toHaveLength(2);
     expect(cards[0].title).toBe("Item 1");
+    expect(cardRepo.listEvents(cards[0].id)[0]).toMatchObject({ type: "created", actor: "connector" });
   });
 
   it("skips disabled connectors", async () => {
@@ -134,4 +136,54 @@ describe("Scheduler", () => {
     const cards = cardRepo.listByBoard(board.id);
     expect(cards).toHaveLength(1);
   });
+
+  it("materializes recurring templates once per day", async () => {
+    const templateRepo = new TemplateRepo(db);
+    const label = db.prepare("INSERT INTO labels (name, color) VALUES ('standup', '#3b82f6')").run();
+    const template = templateRepo.create({
+      name: "Standup",
+      title: "Write standup notes",
+      repo_id: "web",
+      ai_toggle: true,
+      label_ids: [Number(label.lastInsertRowid)],
+      recurrence: { kind: "daily" },
+    });
+    templateRepo.create({ name: "By hand", title: "Only on demand", recurrence: null });
+    templateRepo.create({ name: "Paused", title: "Paused", recurrence: { kind: "daily" }, enabled: false });
+
+    const scheduler = new Scheduler(registry, boardRepo, cardRepo, db, templateRepo);
+    await scheduler.pollAll();
+    await scheduler.pollAll();
+
+    const board = boardRepo.getOrCreateToday();
+    const cards = cardRepo.listByBoard(board.id);
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toMatchObject({
+      title: "Write standup notes",
+      source_type: "recurring",
+      source_id: `template:${template.id}:${board.date}`,
+      ai_toggle: true,
+      metadata: { template_id: template.id, repo_id: "web" },
+    });
+    expect(cards[0].labels.map((l) => l.name)).toEqual(["standup"]);
+
+    // A deleted card stays deleted
+    cardRepo.softDelete(cards[0].id);
+    await scheduler.pollAll();
+    expect(cardRepo.listByBoard(board.id)).toHaveLength(0);
+  });
+
+  it("wakes snoozed cards into today's inbox", async () => {
+    const board = boardRepo.getOrCreateToday();
+    const due = cardRepo.create({ board_id: board.id, source_id: null, source_type: "manual", title: "Due", body: null, metadata: null });
+    const later = cardRepo.create({ board_id: board.id, source_id: null, source_type: "manual", title: "Later", body: null, metadata: null });
+    cardRepo.snooze(due.id, new Date(Date.now() - 1000).toISOString());
+    cardRepo.snooze(later.id, new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+    const scheduler = new Scheduler(registry, boardRepo, cardRepo, db);
+    await scheduler.pollAll();
+
+    expect(cardRepo.listByBoard(board.id).map((c) => c.title)).toEqual(["Due"]);
+    expect(cardRepo.listSnoozed().map((c) => c.title)).toEqual(["Later"]);
+  });
 });
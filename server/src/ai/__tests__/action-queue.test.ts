@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ActionQueue } from "../action-queue.js";
+
+describe("ActionQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("runs an action once its grace period has passed", () => {
+    const queue = new ActionQueue(5000);
+    const run = vi.fn().mockResolvedValue(undefined);
+    queue.schedule(1, run);
+
+    vi.advanceTimersByTime(4999);
+    expect(run).not.toHaveBeenCalled();
+    expect(queue.isPending(1)).toBe(true);
+
+    vi.advanceTimersByTime(1);
+    expect(run).toHaveBeenCalledOnce();
+    expect(queue.isPending(1)).toBe(false);
+  });
+
+  it("cancels a pending action", () => {
+    const queue = new ActionQueue(5000);
+    const run = vi.fn().mockResolvedValue(undefined);
+    queue.schedule(1, run);
+
+    expect(queue.cancel(1)).toBe(true);
+    vi.advanceTimersByTime(10_000);
+    expect(run).not.toHaveBeenCalled();
+    expect(queue.cancel(1)).toBe(false);
+  });
+
+  it("replaces an action already queued for the same card", () => {
+    const queue = new ActionQueue(5000);
+    const first = vi.fn().mockResolvedValue(undefined);
+    const second = vi.fn().mockResolvedValue(undefined);
+    queue.schedule(1, first);
+    queue.schedule(1, second);
+
+    vi.advanceTimersByTime(5000);
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledOnce();
+  });
+});
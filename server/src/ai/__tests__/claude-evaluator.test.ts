@@ -1,6 +1,7 @@
 // server/src/ai/__tests__/claude-evaluator.test.ts
 import { describe, it, expect } from "vitest";
-import { parseClaudeResponse } from "../claude-evaluator.js";
+import type { Card, CardComment } from "@daily-kanban/shared";
+import { ClaudeEvaluator, parseClaudeResponse } from "../claude-evaluator.js";
 
 describe("parseClaudeResponse", () => {
   it("parses a valid JSON response", () => {
@@ -29,3 +30,36 @@ describe("parseClaudeResponse", () => {
     expect(result.confidence).toBe(0);
   });
 });
+
+describe("ClaudeEvaluator prompts", () => {
+  const card = {
+    id: 1,
+    title: "Fix login",
+    body: "Users get logged out",
+    source_type: "manual",
+    metadata: null,
+  } as Card;
+  const comments = [
+    { id: 1, card_id: 1, body: "Only on Safari", created_at: "2026-02-15 09:00:00", updated_at: "2026-02-15 09:00:00" },
+  ] as CardComment[];
+
+  it("includes comments in the evaluation prompt", () => {
+    const evaluator = new ClaudeEvaluator();
+    expect(evaluator.buildPrompt(card, [])).not.toContain("Notes from the user");
+    expect(evaluator.buildPrompt(card, [], undefined, undefined, comments)).toContain("Only on Safari");
+  });
+
+  it("includes comments in the plan prompt", () => {
+    const evaluator = new ClaudeEvaluator();
+    const prompt = evaluator.buildPlanPrompt(card, "web", "/src/web", undefined, undefined, comments);
+    expect(prompt).toContain("Notes from the user:\n- (2026-02-15 09:00:00) Only on Safari");
+  });
+
+  it("gives the report prompt the facts and the draft", () => {
+    const evaluator = new ClaudeEvaluator();
+    const facts = { date: "2026-10-19", done: [{ title: "Fix login", pr_urls: [] }], automated: [], open: [], column_time: [] };
+    const prompt = evaluator.buildReportPrompt(facts, "# Daily report 2026-10-19");
+    expect(prompt).toContain('"title": "Fix login"');
+    expect(prompt).toContain("Plain draft built from the same facts:\n# Daily report 2026-10-19");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { TodoTracker } from "../todo-tracker.js";
+
+describe("TodoTracker", () => {
+  it("keys created tasks by the id in their result and reuses their subject on update", () => {
+    const todos = new TodoTracker();
+    todos.toolStarted("toolu_1");
+    expect(todos.toolCompleted("TaskCreate", { subject: "Add unit tests", description: "..." })).toBeNull();
+    expect(todos.toolResult("toolu_1", "Task #1 created successfully: Add unit tests")).toEqual({
+      id: "1",
+      subject: "Add unit tests",
+      status: "pending",
+    });
+
+    todos.toolStarted("toolu_2");
+    expect(todos.toolCompleted("TaskUpdate", { taskId: "1", status: "completed" })).toEqual({
+      id: "1",
+      subject: "Add unit tests",
+      status: "completed",
+    });
+  });
+
+  it("leaves the subject empty for tasks it never saw created", () => {
+    const todos = new TodoTracker();
+    todos.toolStarted("toolu_1");
+    expect(todos.toolCompleted("TaskUpdate", { taskId: "4", status: "in_progress" })).toEqual({
+      id: "4",
+      subject: "",
+      status: "in_progress",
+    });
+    expect(todos.toolCompleted("TaskUpdate", { status: "completed" })).toBeNull();
+  });
+
+  it("numbers tasks in order when a result does not name the id", () => {
+    const todos = new TodoTracker();
+    todos.toolStarted("toolu_1");
+    todos.toolCompleted("TaskCreate", { subject: "First" });
+    todos.toolStarted("toolu_2");
+    todos.toolCompleted("TaskCreate", { subject: "Second" });
+    expect(todos.toolResult("toolu_1", "created")?.id).toBe("1");
+    expect(todos.toolResult("toolu_2", "created")?.id).toBe("2");
+    expect(todos.toolResult("toolu_3", "unrelated output")).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+// server/src/ai/action-queue.ts
+
+// Connector actions (sending a reply, closing an issue...) can't be taken
+// back once they reach the outside world, so they wait here for a short
+// grace period during which the user can still cancel them.
+interface PendingAction {
+  timer: ReturnType<typeof setTimeout>;
+  executeAt: Date;
+}
+
+export class ActionQueue {
+  private pending = new Map<number, PendingAction>();
+
+  constructor(private graceMs: number = 10_000) {}
+
+  // Replaces any action already waiting for the card. Returns when it will fire.
+  schedule(cardId: number, run: () => Promise<void>): Date {
+    this.cancel(cardId);
+    const executeAt = new Date(Date.now() + this.graceMs);
+    const timer = setTimeout(() => {
+      this.pending.delete(cardId);
+      run().catch((err) => console.error(`Queued action for card ${cardId} failed:`, err));
+    }, this.graceMs);
+    this.pending.set(cardId, { timer, executeAt });
+    return executeAt;
+  }
+
+  cancel(cardId: number): boolean {
+    const action = this.pending.get(cardId);
+    if (!action) return false;
+    clearTimeout(action.timer);
+    this.pending.delete(cardId);
+    return true;
+  }
+
+  isPending(cardId: number): boolean {
+    return this.pending.has(cardId);
+  }
+}
@@ -2,10 +2,16 @@
 import { execFile, spawn } from "child_process";
 import { promisify } from "util";
 import { StreamJsonParser, type ParsedEvent } from "./stream-json-parser.js";
-import type { Card, AiEvaluation } from "@daily-kanban/shared";
+import type { Card, AiEvaluation, CardComment } from "@daily-kanban/shared";
+import type { ReportFacts } from "../daily-report.js";
 
 const execFileAsync = promisify(execFile);
 
+// User notes on a card, oldest first, as a prompt section
+function formatComments(comments: CardComment[]): string {
+  return comments.map((c) => `- (${c.created_at}) ${c.body.replace(/\n/g, "\n  ")}`).join("\n");
+}
+
 export function parseClaudeResponse(raw: string): AiEvaluation {
   // First, try parsing the entire string as JSON
   try {
@@ -64,8 +70,9 @@ export class ClaudeEvaluator {
     availableActions: string[],
     customRequest?: string,
     connectorRules?: string,
+    comments: CardComment[] = [],
   ): Promise<AiEvaluation> {
-    const prompt = this.buildPrompt(card, availableActions, customRequest, connectorRules);
+    const prompt = this.buildPrompt(card, availableActions, customRequest, connectorRules, comments);
 
     try {
       const { stdout } = await execFileAsync(
@@ -100,8 +107,9 @@ export class ClaudeEvaluator {
     onChunk: (text: string) => void,
     customRequest?: string,
     connectorRules?: string,
+    comments: CardComment[] = [],
   ): Promise<AiEvaluation> {
-    const prompt = this.buildPrompt(card, availableActions, customRequest, connectorRules);
+    const prompt = this.buildPrompt(card, availableActions, customRequest, connectorRules, comments);
 
     return new Promise((resolve) => {
       const child = spawn("claude", ["-p", prompt, "--output-format", "json"], {
@@ -164,21 +172,9 @@ export class ClaudeEvaluator {
     onChunk: (text: string) => void,
     customRequest?: string,
     connectorRules?: string,
+    comments: CardComment[] = [],
   ): Promise<string> {
-    let prompt = `Create a detailed implementation plan for this task.
-
-Task: ${card.title}
-Description: ${card.body || "(no description)"}
-Repository: ${repoName} (${repoPath})`;
-
-    if (connectorRules) {
-      prompt += `\n\nDefault rules:\n${connectorRules}`;
-    }
-    if (customRequest) {
-      prompt += `\n\nUser request: ${customRequest}`;
-    }
-
-    prompt += `\n\nReturn ONLY a detailed markdown plan listing the files to change and what to do in each. No JSON wrapping.`;
+    const prompt = this.buildPlanPrompt(card, repoName, repoPath, customRequest, connectorRules, comments);
 
     return new Promise((resolve) => {
       const child = spawn("claude", ["-p", prompt], {
@@ -233,7 +229,79 @@ Repository: ${repoName} (${repoPath})`;
     });
   }
 
-  buildPrompt(card: Card, availableActions: string[], customRequest?: string, connectorRules?: string): string {
+  // Resolves to null when the CLI fails, so callers can fall back to the
+  // template report
+  async generateReport(facts: ReportFacts, draft: string): Promise<string | null> {
+    try {
+      const { stdout } = await execFileAsync(
+        "claude",
+        ["-p", this.buildReportPrompt(facts, draft), "--output-format", "json"],
+        { timeout: this.timeoutMs },
+      );
+
+      let report = stdout.trim();
+      try {
+        const wrapper = JSON.parse(report);
+        if (wrapper.result) report = wrapper.result;
+      } catch {
+        // stdout is already the raw text
+      }
+      return report.trim() || null;
+    } catch (err) {
+      console.error("Claude CLI report failed:", err);
+      return null;
+    }
+  }
+
+  buildReportPrompt(facts: ReportFacts, draft: string): string {
+    return `Write an end-of-day report for the board of ${facts.date}.
+
+Facts (JSON):
+${JSON.stringify(facts, null, 2)}
+
+Plain draft built from the same facts:
+${draft}
+
+Keep the draft's sections (Done, Automated by AI, Still open, Time per column) but summarize: group related work, say what the AI runs achieved, and keep every PR URL. Do not invent work that is not in the facts.
+
+Return ONLY the Markdown report. No JSON wrapping.`;
+  }
+
+  buildPlanPrompt(
+    card: Card,
+    repoName: string,
+    repoPath: string,
+    customRequest?: string,
+    connectorRules?: string,
+    comments: CardComment[] = [],
+  ): string {
+    let prompt = `Create a detailed implementation plan for this task.
+
+Task: ${card.title}
+Description: ${card.body || "(no description)"}
+Repository: ${repoName} (${repoPath})`;
+
+    if (comments.length > 0) {
+      prompt += `\n\nNotes from the user:\n${formatComments(comments)}`;
+    }
+    if (connectorRules) {
+      prompt += `\n\nDefault rules:\n${connectorRules}`;
+    }
+    if (customRequest) {
+      prompt += `\n\nUser request: ${customRequest}`;
+    }
+
+    prompt += `\n\nReturn ONLY a detailed markdown plan listing the files to change and what to do in each. No JSON wrapping.`;
+    return prompt;
+  }
+
+  buildPrompt(
+    card: Card,
+    availableActions: string[],
+    customRequest?: string,
+    connectorRules?: string,
+    comments: CardComment[] = [],
+  ): string {
     let prompt = `You are evaluating a task item to determine if it can be automated.
 
 Source: ${card.source_type}
@@ -243,6 +311,10 @@ Metadata: ${JSON.stringify(card.metadata || {})}
 
 Available actions for this source type: ${availableActions.join(", ")}`;
 
+    if (comments.length > 0) {
+      prompt += `\n\nNotes from the user (take these into account):\n${formatComments(comments)}`;
+    }
+
     if (connectorRules) {
       prompt += `\n\nDefault rules for this connector (always apply these unless the user request says otherwise):\n${connectorRules}`;
     }
@@ -0,0 +1,63 @@
+// server/src/ai/todo-tracker.ts
+import type { TodoItem } from "@daily-kanban/shared";
+
+const STATUSES: TodoItem["status"][] = ["pending", "in_progress", "completed"];
+
+function isStatus(value: unknown): value is TodoItem["status"] {
+  return STATUSES.includes(value as TodoItem["status"]);
+}
+
+// Follows one execution's TaskCreate/TaskUpdate calls. A TaskCreate's task id
+// only arrives in its tool result ("Task #3 created ..."), and a TaskUpdate
+// names just that id, so todos are keyed by it and updates reuse the subject
+// they were created with.
+export class TodoTracker {
+  private todos = new Map<string, TodoItem>();
+  // TaskCreate calls waiting for their result, by tool use id
+  private pendingCreates = new Map<string, TodoItem>();
+  private currentToolId: string | null = null;
+  private created = 0;
+
+  toolStarted(toolId: string): void {
+    this.currentToolId = toolId;
+  }
+
+  // Returns the todo a TaskUpdate changed; a TaskCreate waits for its result
+  toolCompleted(toolName: string, input: Record<string, unknown>): TodoItem | null {
+    if (toolName === "TaskCreate") {
+      if (this.currentToolId && typeof input.subject === "string" && input.subject.trim()) {
+        this.pendingCreates.set(this.currentToolId, {
+          id: "",
+          subject: input.subject.trim(),
+          status: isStatus(input.status) ? input.status : "pending",
+        });
+      }
+      return null;
+    }
+    if (toolName !== "TaskUpdate" || (typeof input.taskId !== "string" && typeof input.taskId !== "number")) return null;
+
+    const id = String(input.taskId);
+    const known = this.todos.get(id);
+    const todo: TodoItem = {
+      id,
+      // Empty when the task was created before this tracker saw it
+      subject: typeof input.subject === "string" && input.subject.trim() ? input.subject.trim() : known?.subject ?? "",
+      status: isStatus(input.status) ? input.status : known?.status ?? "pending",
+    };
+    this.todos.set(id, todo);
+    return todo;
+  }
+
+  // Returns the todo a TaskCreate made, now that its id is known
+  toolResult(toolUseId: string, content: string): TodoItem | null {
+    const pending = this.pendingCreates.get(toolUseId);
+    if (!pending) return null;
+    this.pendingCreates.delete(toolUseId);
+    this.created++;
+    // Task ids count up from 1 per session, should the result not say which it got
+    const id = /#(\d+)/.exec(content)?.[1] ?? String(this.created);
+    const todo: TodoItem = { ...pending, id };
+    this.todos.set(id, todo);
+    return todo;
+  }
+}
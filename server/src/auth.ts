@@ -0,0 +1,94 @@
+// server/src/auth.ts
+import crypto from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { RequestHandler, Response } from "express";
+import type { User } from "@daily-kanban/shared";
+import { OWNER_USER_ID, type UserRepo } from "./db/user-repo.js";
+
+// Reachable without a token: the health probe, and Google's OAuth redirect,
+// which is matched against a pending `state` instead
+const PUBLIC_ROUTES = new Set(["GET /api/health", "GET /api/connectors/oauth/callback"]);
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// API_TOKEN, or else the token in `tokenFile`, which is generated and
+// printed the first time so it can be pasted into the web app
+export function loadApiToken(tokenFile: string, env: NodeJS.ProcessEnv = process.env): string {
+  if (env.API_TOKEN) return env.API_TOKEN.trim();
+  if (!existsSync(tokenFile)) {
+    const token = crypto.randomBytes(32).toString("base64url");
+    writeFileSync(tokenFile, token + "\n", { mode: 0o600 });
+    console.log(
+      `Created an API token in ${tokenFile}:\n\n  ${token}\n\n` +
+        `Paste it when the web app asks, or open http://localhost:5173/?token=${token}`
+    );
+  }
+  const token = readFileSync(tokenFile, "utf-8").trim();
+  if (!token) throw new Error(`${tokenFile} is empty`);
+  return token;
+}
+
+// The web app's own origins: ALLOWED_ORIGINS (comma-separated), or the Vite
+// dev server and the API itself on localhost
+export function allowedOrigins(port: number, env: NodeJS.ProcessEnv = process.env): string[] {
+  if (env.ALLOWED_ORIGINS) return env.ALLOWED_ORIGINS.split(",").map((o) => o.trim()).filter(Boolean);
+  return [5173, port].flatMap((p) => [`http://localhost:${p}`, `http://127.0.0.1:${p}`]);
+}
+
+function sameToken(given: string, token: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// The signed-in user's id. Routers mounted without requireAuth (as in tests)
+// act as the owner.
+export function currentUserId(res: Response): number {
+  return (res.locals.user as User | undefined)?.id ?? OWNER_USER_ID;
+}
+
+// For routes that change the whole installation (database, settings, repos):
+// teammates get 403
+export const requireOwner: RequestHandler = (_req, res, next) => {
+  if (currentUserId(res) !== OWNER_USER_ID) {
+    res.status(403).json({ error: "Only the owner can do this" });
+    return;
+  }
+  next();
+};
+
+// Every /api request needs `Authorization: Bearer <token>`: the server's
+// token signs in as the owner, a user's own token as that user. GET requests
+// may pass `?token=` instead, for EventSource and download links that cannot
+// set headers. Mutating requests from a browser must also come from an
+// allowed origin, so another site cannot replay them even with a leaked
+// query token.
+export function requireAuth(token: string, origins: string[], users: UserRepo): RequestHandler {
+  return (req, res, next) => {
+    if (PUBLIC_ROUTES.has(`${req.method} ${req.baseUrl}${req.path}`)) {
+      next();
+      return;
+    }
+
+    if (!SAFE_METHODS.has(req.method)) {
+      const origin = req.get("Origin");
+      if ((origin && !origins.includes(origin)) || (!origin && req.get("Sec-Fetch-Site") === "cross-site")) {
+        res.status(403).json({ error: "Cross-origin request refused" });
+        return;
+      }
+    }
+
+    const header = req.get("Authorization");
+    const given = header?.startsWith("Bearer ")
+      ? header.slice("Bearer ".length)
+      : SAFE_METHODS.has(req.method) && typeof req.query.token === "string"
+        ? req.query.token
+        : null;
+    const user = given && (sameToken(given, token) ? users.getById(OWNER_USER_ID) : users.getByToken(given));
+    if (!user) {
+      res.status(401).json({ error: "Missing or invalid API token" });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+}
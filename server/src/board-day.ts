@@ -0,0 +1,104 @@
+// server/src/board-day.ts
+import type { SettingsRepo } from "./db/settings-repo.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface BoardDay {
+  date: string; // YYYY-MM-DD
+  start: Date;
+  end: Date;
+  boundary: DayBoundary;
+}
+
+export interface DayBoundary {
+  timezone: string;
+  dayStartHour: number;
+}
+
+export function defaultTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getDayBoundary(settingsRepo: SettingsRepo): DayBoundary {
+  return {
+    timezone: settingsRepo.get<string>("timezone", defaultTimezone()),
+    dayStartHour: settingsRepo.get<number>("day_start_hour", 0),
+  };
+}
+
+// Wall-clock fields of `instant` as seen in `timezone`.
+function zonedParts(instant: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+function offsetMs(instant: Date, timezone: string): number {
+  const p = zonedParts(instant, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Converts a wall-clock time in `timezone` to the matching instant.
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timezone: string): Date {
+  const guess = Date.UTC(year, month - 1, day, hour);
+  const first = guess - offsetMs(new Date(guess), timezone);
+  // Re-check the offset at the candidate in case it lands across a DST change
+  return new Date(guess - offsetMs(new Date(first), timezone));
+}
+
+// The board day for `date`: from `dayStartHour` local time until the same
+// hour on the next calendar day.
+export function boardDayOf(date: string, boundary: DayBoundary): BoardDay {
+  const [year, month, day] = date.split("-").map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return {
+    date,
+    boundary,
+    start: zonedTimeToUtc(year, month, day, boundary.dayStartHour, boundary.timezone),
+    end: zonedTimeToUtc(
+      next.getUTCFullYear(),
+      next.getUTCMonth() + 1,
+      next.getUTCDate(),
+      boundary.dayStartHour,
+      boundary.timezone,
+    ),
+  };
+}
+
+// The board day containing `now`
+export function resolveBoardDay(now: Date, boundary: DayBoundary): BoardDay {
+  const shifted = new Date(now.getTime() - boundary.dayStartHour * HOUR_MS);
+  const p = zonedParts(shifted, boundary.timezone);
+  const date = `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+  return boardDayOf(date, boundary);
+}
+
+export function getBoardDay(settingsRepo: SettingsRepo, now: Date = new Date()): BoardDay {
+  return resolveBoardDay(now, getDayBoundary(settingsRepo));
+}
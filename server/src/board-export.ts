@@ -0,0 +1,103 @@
+// server/src/board-export.ts
+import type { BoardColumn, BoardExport, Card, ExecutionLog, ExportedCard } from "@daily-kanban/shared";
+
+// Cards without a source_id (manual ones) get one made from the board date
+// and card id, so importing the same file twice doesn't duplicate them
+export function exportCard(card: Card, date: string, logs?: ExecutionLog[]): ExportedCard {
+  return {
+    source_id: card.source_id ?? `import:${date}:${card.id}`,
+    source_type: card.source_type,
+    column_name: card.column_name,
+    position: card.position,
+    title: card.title,
+    body: card.body,
+    metadata: card.metadata,
+    priority: card.priority,
+    due_at: card.due_at,
+    labels: card.labels.map((l) => l.name),
+    ai_toggle: card.ai_toggle,
+    confidence: card.confidence,
+    proposed_action: card.proposed_action,
+    action_payload: card.action_payload,
+    execution_result: card.execution_result,
+    created_at: card.created_at,
+    ...(logs
+      ? { logs: logs.map(({ step, message, data, created_at }) => ({ step, message, data, created_at })) }
+      : {}),
+  };
+}
+
+export function toJson(date: string, columns: BoardColumn[], cards: ExportedCard[]): BoardExport {
+  return {
+    version: 1,
+    exported_at: new Date().toISOString(),
+    date,
+    columns: columns.map(({ key, name, color }) => ({ key, name, color })),
+    cards,
+  };
+}
+
+// RFC 4180: quote fields holding a comma, quote or line break
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  "column", "position", "title", "body", "source_type", "source_id", "priority", "due_at", "labels",
+  "ai_toggle", "confidence", "proposed_action", "action_payload", "execution_result", "created_at",
+] as const;
+
+export function toCsv(columns: BoardColumn[], cards: ExportedCard[], includeLogs: boolean): string {
+  const names = new Map(columns.map((c) => [c.key, c.name]));
+  const header = includeLogs ? [...CSV_COLUMNS, "logs"] : [...CSV_COLUMNS];
+  const rows = cards.map((card) => {
+    const fields: unknown[] = [
+      names.get(card.column_name) ?? card.column_name,
+      card.position,
+      card.title,
+      card.body,
+      card.source_type,
+      card.source_id,
+      card.priority,
+      card.due_at,
+      card.labels.join("; "),
+      card.ai_toggle,
+      card.confidence,
+      card.proposed_action,
+      card.action_payload,
+      card.execution_result,
+      card.created_at,
+    ];
+    if (includeLogs) fields.push((card.logs ?? []).map((l) => `[${l.step}] ${l.message}`).join("\n"));
+    return fields.map(csvField).join(",");
+  });
+  return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// Indents every line of a multi-line value under its bullet
+function indent(text: string, prefix: string): string {
+  return text.trim().split("\n").join(`\n${prefix}`);
+}
+
+// One section per column, done cards checked off: ready to paste into standup notes
+export function toMarkdown(date: string, columns: BoardColumn[], cards: ExportedCard[]): string {
+  const lines = [`# Board ${date}`];
+  for (const column of columns) {
+    const inColumn = cards.filter((c) => c.column_name === column.key);
+    if (inColumn.length === 0) continue;
+    lines.push("", `## ${column.name} (${inColumn.length})`, "");
+    for (const card of inColumn) {
+      const labels = card.labels.length ? ` ${card.labels.map((l) => `\`${l}\``).join(" ")}` : "";
+      lines.push(`- [${column.key === "done" ? "x" : " "}] ${card.title}${labels}`);
+      if (card.proposed_action) {
+        const confidence = card.confidence !== null ? ` (${card.confidence}%)` : "";
+        lines.push(`  - AI: ${card.proposed_action}${confidence}`);
+      }
+      if (card.execution_result) lines.push(`  - Result: ${indent(card.execution_result, "    ")}`);
+      for (const log of card.logs ?? []) lines.push(`  - \`${log.step}\` ${indent(log.message, "    ")}`);
+    }
+  }
+  return lines.join("\n") + "\n";
+}
@@ -2,6 +2,8 @@
 import { describe, it, expect } from "vitest";
 import { CalendarConnector } from "../calendar.js";
 
+const UTC = { timezone: "UTC", dayStartHour: 0 };
+
 describe("CalendarConnector", () => {
   it("transforms calendar events to KanbanItems", () => {
     const connector = new CalendarConnector();
@@ -13,7 +15,7 @@ describe("CalendarConnector", () => {
         end: { dateTime: "2026-02-15T10:30:00Z" },
         description: "Daily sync",
       },
-    ]);
+    ], UTC);
 
     expect(items).toHaveLength(1);
     expect(items[0].source_id).toBe("calendar:evt_1");
@@ -24,4 +26,27 @@ describe("CalendarConnector", () => {
       end: "2026-02-15T10:30:00Z",
     });
   });
+
+  it("uses the event start as the due date", () => {
+    const connector = new CalendarConnector();
+    const items = connector.transformEvents([
+      { id: "evt_2", summary: "Timed", start: { dateTime: "2026-02-15T10:00:00+02:00" } },
+      { id: "evt_3", summary: "All day", start: { date: "2026-02-16" } },
+      { id: "evt_4", summary: "No start" },
+    ], UTC);
+
+    expect(items[0].due_at).toBe("2026-02-15T08:00:00.000Z");
+    expect(items[1].due_at).toBe("2026-02-17T00:00:00.000Z");
+    expect(items[2].due_at).toBeNull();
+  });
+
+  it("makes all-day events due at the end of that board day in the board's timezone", () => {
+    const connector = new CalendarConnector();
+    const event = { id: "evt_5", summary: "All day", start: { date: "2026-02-16" } };
+
+    const [berlin] = connector.transformEvents([event], { timezone: "Europe/Berlin", dayStartHour: 0 });
+    expect(berlin.due_at).toBe("2026-02-16T23:00:00.000Z");
+    const [newYork] = connector.transformEvents([event], { timezone: "America/New_York", dayStartHour: 4 });
+    expect(newYork.due_at).toBe("2026-02-17T09:00:00.000Z");
+  });
 });
@@ -112,4 +112,32 @@ describe("GitLabConnector", () => {
     expect(connector.name).toBe("gitlab");
     expect(connector.icon).toBe("gitlab");
   });
+
+  it("derives priority from merge request age", () => {
+    const connector = new GitLabConnector();
+    const now = new Date("2026-02-15T12:00:00Z");
+    const mr = (id: number, created_at?: string) => ({
+      id,
+      iid: id,
+      title: `MR ${id}`,
+      description: null,
+      web_url: `https://gitlab.com/${id}`,
+      source_branch: `branch-${id}`,
+      author: { name: "A" },
+      created_at,
+    });
+
+    const items = connector.transformMergeRequests(
+      [
+        mr(1, "2026-02-01T12:00:00Z"),
+        mr(2, "2026-02-11T12:00:00Z"),
+        mr(3, "2026-02-13T12:00:00Z"),
+        mr(4, "2026-02-15T08:00:00Z"),
+        mr(5),
+      ],
+      now,
+    );
+
+    expect(items.map((i) => i.priority)).toEqual([1, 2, 3, 4, 0]);
+  });
 });
@@ -27,4 +27,20 @@ describe("GmailConnector", () => {
       messageId: "msg_123",
     });
   });
+
+  it("maps user labels and categories into metadata.labels", () => {
+    const connector = new GmailConnector();
+    const items = connector.transformMessages(
+      [
+        {
+          id: "msg_456",
+          labelIds: ["INBOX", "UNREAD", "Label_7", "CATEGORY_UPDATES"],
+          payload: { headers: [{ name: "Subject", value: "Invoice" }] },
+        },
+      ],
+      { Label_7: "Finance" },
+    );
+
+    expect(items[0].metadata.labels).toEqual(["Finance", "Updates"]);
+  });
 });
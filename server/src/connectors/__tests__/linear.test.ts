@@ -98,4 +98,47 @@ describe("LinearConnector", () => {
     expect(connector.name).toBe("linear");
     expect(connector.icon).toBe("linear");
   });
+
+  it("passes issue labels through metadata.labels", () => {
+    const connector = new LinearConnector();
+    const items = connector.transformIssues([
+      {
+        id: "issue_5",
+        identifier: "ENG-5",
+        title: "Labelled",
+        description: undefined,
+        url: "https://linear.app/team/issue/ENG-5",
+        labels: ["Bug", "Backend"],
+      },
+    ]);
+
+    expect(items[0].metadata.labels).toEqual(["Bug", "Backend"]);
+  });
+
+  it("maps Linear priority and due date", () => {
+    const connector = new LinearConnector();
+    const items = connector.transformIssues([
+      {
+        id: "issue_6",
+        identifier: "ENG-6",
+        title: "Urgent",
+        description: undefined,
+        url: "https://linear.app/team/issue/ENG-6",
+        priority: 1,
+        dueDate: "2026-03-01",
+      },
+      {
+        id: "issue_7",
+        identifier: "ENG-7",
+        title: "Whenever",
+        description: undefined,
+        url: "https://linear.app/team/issue/ENG-7",
+      },
+    ]);
+
+    expect(items[0].priority).toBe(1);
+    expect(items[0].due_at).toBe("2026-03-01T23:59:59.000Z");
+    expect(items[1].priority).toBe(0);
+    expect(items[1].due_at).toBeNull();
+  });
 });
@@ -2,6 +2,7 @@
 import { google } from "googleapis";
 import type { Connector } from "./types.js";
 import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
+import { boardDayOf, type BoardDay, type DayBoundary } from "../board-day.js";
 
 interface CalendarEvent {
   id: string;
@@ -11,6 +12,16 @@ interface CalendarEvent {
   description?: string;
 }
 
+// When the event is due: its start, or for an all-day event (which only
+// carries a date) the end of that board day
+function eventDue(evt: CalendarEvent, boundary: DayBoundary): string | null {
+  if (evt.start?.date && !evt.start.dateTime) {
+    return /^\d{4}-\d{2}-\d{2}$/.test(evt.start.date) ? boardDayOf(evt.start.date, boundary).end.toISOString() : null;
+  }
+  const time = Date.parse(evt.start?.dateTime ?? "");
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
 export class CalendarConnector implements Connector {
   name = "Calendar";
   icon = "calendar";
@@ -20,7 +31,7 @@ export class CalendarConnector implements Connector {
     this.auth = auth;
   }
 
-  transformEvents(events: CalendarEvent[]): KanbanItem[] {
+  transformEvents(events: CalendarEvent[], boundary: DayBoundary): KanbanItem[] {
     return events.map((evt) => ({
       source_id: `calendar:${evt.id}`,
       source_type: "calendar" as const,
@@ -31,26 +42,24 @@ export class CalendarConnector implements Connector {
         start: evt.start?.dateTime || evt.start?.date || "",
         end: evt.end?.dateTime || evt.end?.date || "",
       },
+      due_at: eventDue(evt, boundary),
     }));
   }
 
-  async fetchItems(): Promise<KanbanItem[]> {
+  async fetchItems(day: BoardDay): Promise<KanbanItem[]> {
     if (!this.auth) return [];
 
     const calendar = google.calendar({ version: "v3", auth: this.auth });
-    const now = new Date();
-    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
 
     const res = await calendar.events.list({
       calendarId: "primary",
-      timeMin: startOfDay.toISOString(),
-      timeMax: endOfDay.toISOString(),
+      timeMin: day.start.toISOString(),
+      timeMax: day.end.toISOString(),
       singleEvents: true,
       orderBy: "startTime",
     });
 
-    return this.transformEvents((res.data.items || []) as CalendarEvent[]);
+    return this.transformEvents((res.data.items || []) as CalendarEvent[], day.boundary);
   }
 
   async executeAction(_item: KanbanItem, _action: ActionPayload): Promise<ActionResult> {
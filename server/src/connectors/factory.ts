@@ -0,0 +1,25 @@
+// server/src/connectors/factory.ts
+import type { Connector } from "./types.js";
+import { GmailConnector } from "./gmail.js";
+import { CalendarConnector } from "./calendar.js";
+import { LinearConnector } from "./linear.js";
+import { GitLabConnector } from "./gitlab.js";
+import { TelegramConnector } from "./telegram.js";
+
+// A fresh, unconfigured connector of the given type, or null for unknown types
+export function createConnector(type: string): Connector | null {
+  switch (type) {
+    case "gmail":
+      return new GmailConnector();
+    case "calendar":
+      return new CalendarConnector();
+    case "linear":
+      return new LinearConnector();
+    case "gitlab":
+      return new GitLabConnector();
+    case "telegram":
+      return new TelegramConnector();
+    default:
+      return null;
+  }
+}
@@ -1,5 +1,5 @@
 // server/src/connectors/gitlab.ts
-import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
+import type { KanbanItem, ActionPayload, ActionResult, Priority } from "@daily-kanban/shared";
 import type { Connector } from "./types.js";
 
 export interface GitLabMergeRequestData {
@@ -10,6 +10,20 @@ export interface GitLabMergeRequestData {
   web_url: string;
   source_branch: string;
   author: { name: string };
+  created_at?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reviews get more urgent the longer an MR has been waiting
+function priorityFromAge(createdAt: string | undefined, now: Date): Priority {
+  if (!createdAt) return 0;
+  const ageDays = (now.getTime() - new Date(createdAt).getTime()) / DAY_MS;
+  if (Number.isNaN(ageDays)) return 0;
+  if (ageDays > 7) return 1;
+  if (ageDays > 3) return 2;
+  if (ageDays > 1) return 3;
+  return 4;
 }
 
 export class GitLabConnector implements Connector {
@@ -24,7 +38,7 @@ export class GitLabConnector implements Connector {
     this.token = token;
   }
 
-  transformMergeRequests(mrs: GitLabMergeRequestData[]): KanbanItem[] {
+  transformMergeRequests(mrs: GitLabMergeRequestData[], now: Date = new Date()): KanbanItem[] {
     return mrs.map((mr) => ({
       source_id: `gitlab:${mr.id}`,
       source_type: "gitlab" as const,
@@ -36,6 +50,7 @@ export class GitLabConnector implements Connector {
         author: mr.author.name,
         iid: mr.iid,
       },
+      priority: priorityFromAge(mr.created_at, now),
     }));
   }
 
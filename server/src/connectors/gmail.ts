@@ -2,15 +2,25 @@
 import { google } from "googleapis";
 import type { Connector } from "./types.js";
 import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
+import type { BoardDay } from "../board-day.js";
 
 interface GmailMessage {
   id: string;
+  labelIds?: string[];
   payload?: {
     headers?: { name: string; value: string }[];
   };
   snippet?: string;
 }
 
+// Gmail category ids worth surfacing as board labels (CATEGORY_PERSONAL is the default bucket)
+const CATEGORY_LABELS: Record<string, string> = {
+  CATEGORY_SOCIAL: "Social",
+  CATEGORY_PROMOTIONS: "Promotions",
+  CATEGORY_UPDATES: "Updates",
+  CATEGORY_FORUMS: "Forums",
+};
+
 export class GmailConnector implements Connector {
   name = "Gmail";
   icon = "mail";
@@ -20,31 +30,37 @@ export class GmailConnector implements Connector {
     this.auth = auth;
   }
 
-  transformMessages(messages: GmailMessage[]): KanbanItem[] {
+  // userLabelNames maps Gmail label ids to names for user-created labels
+  transformMessages(messages: GmailMessage[], userLabelNames: Record<string, string> = {}): KanbanItem[] {
     return messages.map((msg) => {
       const headers = msg.payload?.headers || [];
       const subject = headers.find((h) => h.name === "Subject")?.value || "(no subject)";
       const from = headers.find((h) => h.name === "From")?.value || "unknown";
+      const labels = (msg.labelIds || [])
+        .map((id) => userLabelNames[id] ?? CATEGORY_LABELS[id])
+        .filter((name): name is string => Boolean(name));
 
       return {
         source_id: `gmail:${msg.id}`,
         source_type: "gmail",
         title: subject,
         body: msg.snippet || null,
-        metadata: { from, messageId: msg.id },
+        metadata: { from, messageId: msg.id, ...(labels.length > 0 ? { labels } : {}) },
       };
     });
   }
 
-  async fetchItems(): Promise<KanbanItem[]> {
+  async fetchItems(day: BoardDay): Promise<KanbanItem[]> {
     if (!this.auth) return [];
 
     const gmail = google.gmail({ version: "v1", auth: this.auth });
-    const today = new Date().toISOString().split("T")[0].replace(/-/g, "/");
+    // Gmail accepts epoch seconds for after/before, which avoids its own timezone guess
+    const after = Math.floor(day.start.getTime() / 1000);
+    const before = Math.floor(day.end.getTime() / 1000);
 
     const res = await gmail.users.messages.list({
       userId: "me",
-      q: `is:unread after:${today}`,
+      q: `is:unread after:${after} before:${before}`,
       maxResults: 50,
     });
 
@@ -61,7 +77,13 @@ export class GmailConnector implements Connector {
       messages.push(full.data as GmailMessage);
     }
 
-    return this.transformMessages(messages);
+    const labelRes = await gmail.users.labels.list({ userId: "me" });
+    const userLabelNames: Record<string, string> = {};
+    for (const label of labelRes.data.labels || []) {
+      if (label.type === "user" && label.id && label.name) userLabelNames[label.id] = label.name;
+    }
+
+    return this.transformMessages(messages, userLabelNames);
   }
 
   async executeAction(item: KanbanItem, action: ActionPayload): Promise<ActionResult> {
@@ -1,6 +1,6 @@
 // server/src/connectors/linear.ts
 import { LinearClient } from "@linear/sdk";
-import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
+import type { KanbanItem, ActionPayload, ActionResult, Priority } from "@daily-kanban/shared";
 import type { Connector } from "./types.js";
 
 export interface LinearIssueData {
@@ -9,6 +9,9 @@ export interface LinearIssueData {
   title: string;
   description: string | undefined;
   url: string;
+  labels?: string[];
+  priority?: number; // Linear scale, 0 = none ... 4 = low
+  dueDate?: string | null; // YYYY-MM-DD
 }
 
 export class LinearConnector implements Connector {
@@ -48,7 +51,11 @@ export class LinearConnector implements Connector {
       metadata: {
         url: issue.url,
         identifier: issue.identifier,
+        ...(issue.labels && issue.labels.length > 0 ? { labels: issue.labels } : {}),
       },
+      priority: (issue.priority ?? 0) as Priority,
+      // Linear due dates have no time; treat them as due at the end of that day
+      due_at: issue.dueDate ? `${issue.dueDate}T23:59:59.000Z` : null,
     }));
   }
 
@@ -69,13 +76,21 @@ export class LinearConnector implements Connector {
     }
     const issues = await me.assignedIssues({ filter });
 
-    const issueData: LinearIssueData[] = issues.nodes.map((issue) => ({
-      id: issue.id,
-      identifier: issue.identifier,
-      title: issue.title,
-      description: issue.description ?? undefined,
-      url: issue.url,
-    }));
+    const issueData: LinearIssueData[] = await Promise.all(
+      issues.nodes.map(async (issue) => {
+        const labels = await issue.labels();
+        return {
+          id: issue.id,
+          identifier: issue.identifier,
+          title: issue.title,
+          description: issue.description ?? undefined,
+          url: issue.url,
+          labels: labels.nodes.map((l) => l.name),
+          priority: issue.priority,
+          dueDate: issue.dueDate ?? null,
+        };
+      }),
+    );
 
     return this.transformIssues(issueData);
   }
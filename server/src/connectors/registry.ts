@@ -1,4 +1,16 @@
 import type { Connector } from "./types.js";
+import { OWNER_USER_ID } from "../db/user-repo.js";
+
+// Connectors are registered per owner: the owner's under the bare type, as
+// they always were, and a teammate's as "<type>:<user id>"
+export function connectorKey(type: string, ownerId: number): string {
+  return ownerId === OWNER_USER_ID ? type : `${type}:${ownerId}`;
+}
+
+export function parseConnectorKey(key: string): { type: string; ownerId: number } {
+  const [type, owner] = key.split(":");
+  return { type, ownerId: owner ? Number(owner) : OWNER_USER_ID };
+}
 
 export class ConnectorRegistry {
   private connectors = new Map<string, Connector>();
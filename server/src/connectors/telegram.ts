@@ -4,6 +4,7 @@ import type { Connector } from "./types.js";
 import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
 import type { CardRepo } from "../db/card-repo.js";
 import type { BoardRepo } from "../db/board-repo.js";
+import { OWNER_USER_ID } from "../db/user-repo.js";
 
 interface TelegramMessage {
   message_id: number;
@@ -19,10 +20,13 @@ export class TelegramConnector implements Connector {
   private bot: TelegramBot | null = null;
   private boardRepo: BoardRepo | null = null;
   private cardRepo: CardRepo | null = null;
+  private ownerId = OWNER_USER_ID;
 
-  configure(token: string, boardRepo: BoardRepo, cardRepo: CardRepo) {
+  // Messages become cards assigned to the user who set up the bot
+  configure(token: string, boardRepo: BoardRepo, cardRepo: CardRepo, ownerId: number = OWNER_USER_ID) {
     this.boardRepo = boardRepo;
     this.cardRepo = cardRepo;
+    this.ownerId = ownerId;
     this.bot = new TelegramBot(token, { polling: true });
 
     this.bot.on("message", async (msg) => {
@@ -56,6 +60,8 @@ export class TelegramConnector implements Connector {
       title: item.title,
       body: item.body,
       metadata: item.metadata,
+      assignee_id: this.ownerId,
+      source_user_id: this.ownerId,
     });
   }
 
@@ -1,8 +1,9 @@
 import type { KanbanItem, ActionPayload, ActionResult } from "@daily-kanban/shared";
+import type { BoardDay } from "../board-day.js";
 
 export interface Connector {
   name: string;
   icon: string;
-  fetchItems(): Promise<KanbanItem[]>;
+  fetchItems(day: BoardDay): Promise<KanbanItem[]>;
   executeAction(item: KanbanItem, action: ActionPayload): Promise<ActionResult>;
 }
@@ -0,0 +1,123 @@
+// server/src/credentials.ts
+import crypto from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type Database from "better-sqlite3";
+import type { MaskedCredential } from "@daily-kanban/shared";
+
+export type Credentials = Record<string, string>;
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "enc:v1:";
+const ENV_REFERENCE = /^\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}$/;
+const FILE_REFERENCE = /^file:(\/.+)$/;
+// Not secret, so the API shows them for editing
+const PUBLIC_FIELDS = new Set(["base_url", "client_id"]);
+
+function parseKey(text: string): Buffer | null {
+  const trimmed = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  return key.length === 32 ? key : null;
+}
+
+// The 32-byte key from CREDENTIALS_KEY (hex or base64), or else from
+// `keyFile`, which is generated the first time. Losing the key means
+// entering every connector's credentials again.
+export function loadCredentialsKey(keyFile: string, env: NodeJS.ProcessEnv = process.env): Buffer {
+  if (env.CREDENTIALS_KEY) {
+    const key = parseKey(env.CREDENTIALS_KEY);
+    if (!key) throw new Error("CREDENTIALS_KEY must be 32 bytes, written as 64 hex characters or base64");
+    return key;
+  }
+  if (!existsSync(keyFile)) {
+    writeFileSync(keyFile, crypto.randomBytes(32).toString("base64") + "\n", { mode: 0o600 });
+    console.log(`Created credentials key at ${keyFile}`);
+  }
+  const key = parseKey(readFileSync(keyFile, "utf-8"));
+  if (!key) throw new Error(`${keyFile} does not hold a 32-byte key`);
+  return key;
+}
+
+// AES-256-GCM for connector_configs.credentials. Stored values look like
+// enc:v1:<iv>:<tag>:<ciphertext>; plain JSON from before encryption still
+// decrypts so old rows keep working until they are re-encrypted.
+export class CredentialCipher {
+  constructor(private key: Buffer) {}
+
+  encrypt(credentials: Credentials): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(credentials), "utf-8"), cipher.final()]);
+    return PREFIX + [iv, cipher.getAuthTag(), data].map((b) => b.toString("base64")).join(":");
+  }
+
+  decrypt(stored: string): Credentials {
+    if (!this.isEncrypted(stored)) return JSON.parse(stored);
+    const [iv, tag, data] = stored.slice(PREFIX.length).split(":").map((part) => Buffer.from(part, "base64"));
+    const decipher = crypto.createDecipheriv(ALGORITHM, this.key, iv);
+    decipher.setAuthTag(tag);
+    return JSON.parse(Buffer.concat([decipher.update(data), decipher.final()]).toString("utf-8"));
+  }
+
+  isEncrypted(stored: string): boolean {
+    return stored.startsWith(PREFIX);
+  }
+}
+
+// Encrypts credentials saved before encryption existed; returns how many rows changed
+export function encryptStoredCredentials(db: Database.Database, cipher: CredentialCipher): number {
+  const rows = db
+    .prepare("SELECT id, credentials FROM connector_configs WHERE credentials IS NOT NULL")
+    .all() as { id: number; credentials: string }[];
+  const update = db.prepare("UPDATE connector_configs SET credentials = ? WHERE id = ?");
+  let changed = 0;
+  for (const row of rows) {
+    if (cipher.isEncrypted(row.credentials)) continue;
+    update.run(cipher.encrypt(JSON.parse(row.credentials)), row.id);
+    changed++;
+  }
+  return changed;
+}
+
+export function isReference(value: string): boolean {
+  return ENV_REFERENCE.test(value) || FILE_REFERENCE.test(value);
+}
+
+// Swaps `${env:NAME}` and `file:/path` values for what they point to; a
+// file's trailing newline is dropped. Throws when the target is missing.
+export function resolveReferences(credentials: Credentials, env: NodeJS.ProcessEnv = process.env): Credentials {
+  const resolved: Credentials = {};
+  for (const [field, value] of Object.entries(credentials)) {
+    const envMatch = ENV_REFERENCE.exec(value);
+    const fileMatch = FILE_REFERENCE.exec(value);
+    if (envMatch) {
+      const fromEnv = env[envMatch[1]];
+      if (fromEnv === undefined) throw new Error(`${field}: environment variable ${envMatch[1]} is not set`);
+      resolved[field] = fromEnv;
+    } else if (fileMatch) {
+      if (!existsSync(fileMatch[1])) throw new Error(`${field}: ${fileMatch[1]} does not exist`);
+      resolved[field] = readFileSync(fileMatch[1], "utf-8").replace(/\r?\n$/, "");
+    } else {
+      resolved[field] = value;
+    }
+  }
+  return resolved;
+}
+
+export function maskCredentials(credentials: Credentials): Record<string, MaskedCredential> {
+  const masked: Record<string, MaskedCredential> = {};
+  for (const [field, value] of Object.entries(credentials)) {
+    const shown = PUBLIC_FIELDS.has(field) || isReference(value);
+    masked[field] = { configured: value !== "", value: shown ? value : null };
+  }
+  return masked;
+}
+
+// Secrets never leave the server, so a form sends blanks for the ones it
+// does not change: those keep their stored value.
+export function mergeCredentials(stored: Credentials | null, update: Credentials): Credentials {
+  const merged: Credentials = { ...stored };
+  for (const [field, value] of Object.entries(update)) {
+    if (value !== "" || !(field in merged)) merged[field] = value;
+  }
+  return merged;
+}
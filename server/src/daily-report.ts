@@ -0,0 +1,122 @@
+// server/src/daily-report.ts
+import type { BoardColumn, Card, CardEvent, ExecutionSession } from "@daily-kanban/shared";
+
+export interface ReportFacts {
+  date: string;
+  done: { title: string; pr_urls: string[] }[];
+  automated: { title: string; result: string | null; pr_urls: string[]; sessions: { type: string; status: string }[] }[];
+  open: { title: string; column: string; proposed_action: string | null }[];
+  // Done is left out: time there is not time spent
+  column_time: { column: string; cards: number; minutes: number }[];
+}
+
+export interface ReportInput {
+  date: string;
+  cards: Card[];
+  columns: BoardColumn[];
+  sessions: Map<number, ExecutionSession[]>;
+  events: Map<number, CardEvent[]>;
+  // Column time is only counted inside this window (the board day, up to now)
+  window: { start: Date; end: Date };
+}
+
+const PR_URL = /https?:\/\/\S+?\/(?:pull|merge_requests)\/\d+/g;
+
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker
+export function parseTimestamp(value: string): Date {
+  return new Date(/[zZ]|[+-]\d\d:\d\d$/.test(value) ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function prUrls(...texts: (string | null)[]): string[] {
+  const urls = texts.flatMap((text) => text?.match(PR_URL) ?? []);
+  return [...new Set(urls)];
+}
+
+// Minutes each column held the card inside the window, from the columns its
+// created/moved events put it in
+function columnMinutes(events: CardEvent[], window: ReportInput["window"]): Map<string, number> {
+  const steps = events
+    .filter((e) => (e.type === "created" || e.type === "moved") && typeof e.new_value?.column_name === "string")
+    .map((e) => ({ at: parseTimestamp(e.created_at).getTime(), column: e.new_value!.column_name as string }));
+  const minutes = new Map<string, number>();
+  steps.forEach((step, i) => {
+    const from = Math.max(step.at, window.start.getTime());
+    const to = Math.min(steps[i + 1]?.at ?? Infinity, window.end.getTime());
+    if (to > from) minutes.set(step.column, (minutes.get(step.column) ?? 0) + (to - from) / 60_000);
+  });
+  return minutes;
+}
+
+export function collectReportFacts(input: ReportInput): ReportFacts {
+  const names = new Map(input.columns.map((c) => [c.key, c.name]));
+  const facts: ReportFacts = { date: input.date, done: [], automated: [], open: [], column_time: [] };
+  const time = new Map<string, { cards: number; minutes: number }>();
+
+  for (const card of input.cards) {
+    const sessions = input.sessions.get(card.id) ?? [];
+    const urls = prUrls(card.execution_result, ...sessions.map((s) => s.summary));
+
+    if (card.column_name === "done") facts.done.push({ title: card.title, pr_urls: urls });
+    else facts.open.push({ title: card.title, column: names.get(card.column_name) ?? card.column_name, proposed_action: card.proposed_action });
+
+    if (card.execution_result || sessions.length > 0) {
+      facts.automated.push({
+        title: card.title,
+        result: card.execution_result,
+        pr_urls: urls,
+        sessions: sessions.map(({ type, status }) => ({ type, status })),
+      });
+    }
+
+    for (const [column, minutes] of columnMinutes(input.events.get(card.id) ?? [], input.window)) {
+      if (column === "done") continue;
+      const entry = time.get(column) ?? { cards: 0, minutes: 0 };
+      time.set(column, { cards: entry.cards + 1, minutes: entry.minutes + minutes });
+    }
+  }
+
+  // Board order, not insertion order
+  for (const column of input.columns) {
+    const entry = time.get(column.key);
+    if (entry) facts.column_time.push({ column: column.name, cards: entry.cards, minutes: Math.round(entry.minutes) });
+  }
+  return facts;
+}
+
+export function formatDuration(minutes: number): string {
+  if (minutes < 1) return "<1m";
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours ? `${hours}h ${String(rest).padStart(2, "0")}m` : `${rest}m`;
+}
+
+function links(urls: string[]): string {
+  return urls.length ? ` (${urls.map((url) => `[PR](${url})`).join(", ")})` : "";
+}
+
+// The no-AI report; also the fallback when Claude fails
+export function renderReport(facts: ReportFacts): string {
+  const lines = [`# Daily report ${facts.date}`, "", `## Done (${facts.done.length})`, ""];
+  if (facts.done.length === 0) lines.push("_Nothing finished._");
+  for (const card of facts.done) lines.push(`- ${card.title}${links(card.pr_urls)}`);
+
+  lines.push("", `## Automated by AI (${facts.automated.length})`, "");
+  if (facts.automated.length === 0) lines.push("_No AI runs._");
+  for (const card of facts.automated) {
+    const result = card.result?.split("\n")[0];
+    lines.push(`- **${card.title}**${result ? `: ${result}` : ""}`);
+    const failed = card.sessions.filter((s) => s.status === "failed").length;
+    if (failed) lines.push(`  - ${failed} of ${card.sessions.length} session${card.sessions.length === 1 ? "" : "s"} failed`);
+    for (const url of card.pr_urls) if (!result?.includes(url)) lines.push(`  - ${url}`);
+  }
+
+  lines.push("", `## Still open (${facts.open.length})`, "");
+  if (facts.open.length === 0) lines.push("_All clear._");
+  for (const card of facts.open) lines.push(`- ${card.title} _(${card.column})_`);
+
+  if (facts.column_time.length > 0) {
+    lines.push("", "## Time per column", "", "| Column | Cards | Time |", "| --- | ---: | ---: |");
+    for (const row of facts.column_time) lines.push(`| ${row.column} | ${row.cards} | ${formatDuration(row.minutes)} |`);
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { migrate } from "../migrate.js";
+import { BackupManager } from "../backup-manager.js";
+import { BoardRepo } from "../board-repo.js";
+import { CardRepo } from "../card-repo.js";
+import { SessionRepo } from "../session-repo.js";
+import { SettingsRepo } from "../settings-repo.js";
+
+describe("BackupManager", () => {
+  let dir: string;
+  let db: Database.Database;
+  let manager: BackupManager;
+  let boardRepo: BoardRepo;
+  let cardRepo: CardRepo;
+
+  const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+  const addCard = (boardId: number, title: string) =>
+    cardRepo.create({ board_id: boardId, source_id: null, source_type: "manual", title, body: null, metadata: null });
+
+  beforeEach(() => {
+    // Restores write over the database file, so these tests need a real one
+    dir = mkdtempSync(join(tmpdir(), "daily-kanban-backup-"));
+    db = new Database(join(dir, "live.db"));
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    migrate(db);
+    boardRepo = new BoardRepo(db);
+    cardRepo = new CardRepo(db);
+    manager = new BackupManager(db, new SettingsRepo(db), join(dir, "backups"));
+  });
+
+  afterEach(() => {
+    manager.stop();
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("keeps only the newest backup_keep backups", async () => {
+    manager.setPolicy({ backup_keep: 2 });
+    const first = await manager.backup();
+    const second = await manager.backup();
+    const third = await manager.backup();
+    expect(manager.list().map((b) => b.name)).toEqual([third.name, second.name]);
+    expect(manager.has(first.name)).toBe(false);
+    expect(third.size).toBeGreaterThan(0);
+  });
+
+  it("restores a backup over the live database", async () => {
+    const board = boardRepo.getOrCreateToday();
+    addCard(board.id, "Before");
+    const backup = await manager.backup();
+    addCard(board.id, "After");
+
+    expect(manager.check(backup.name)).toBeNull();
+    const result = await manager.restore(backup.name);
+
+    expect(cardRepo.listByBoard(board.id).map((c) => c.title)).toEqual(["Before"]);
+    expect(manager.has(result.safety_backup.name)).toBe(true);
+    expect(result.schema_version).toBeGreaterThan(0);
+  });
+
+  it("refuses files that are not a board database", async () => {
+    mkdirSync(join(dir, "backups"));
+    writeFileSync(join(dir, "backups", "daily-kanban-garbage.db"), "not sqlite");
+    expect(manager.check("daily-kanban-garbage.db")).toMatch(/cannot be opened|damaged/);
+
+    const empty = new Database(join(dir, "backups", "daily-kanban-empty.db"));
+    empty.exec("CREATE TABLE t (x)");
+    empty.close();
+    expect(manager.check("daily-kanban-empty.db")).toMatch(/not a daily-kanban database/);
+
+    expect(manager.has("../live.db")).toBe(false);
+  });
+
+  it("prunes old session logs and boards but keeps recent and snoozed ones", () => {
+    const today = boardRepo.getOrCreateToday();
+    const old = boardRepo.getOrCreate("2020-01-01", { carryOver: false });
+    const snoozedOld = boardRepo.getOrCreate("2020-01-02", { carryOver: false });
+    const oldCard = addCard(old.id, "Old");
+    cardRepo.snooze(addCard(snoozedOld.id, "Later").id, "2999-01-01T00:00:00.000Z");
+    const recent = addCard(today.id, "Recent");
+
+    const sessionRepo = new SessionRepo(db);
+    const stale = sessionRepo.create(recent.id);
+    sessionRepo.updateStatus(stale.id, "completed");
+    db.prepare("UPDATE execution_sessions SET finished_at = datetime('now', '-40 days') WHERE id = ?").run(stale.id);
+    sessionRepo.updateStatus(sessionRepo.create(recent.id).id, "completed");
+    sessionRepo.create(oldCard.id);
+
+    manager.setPolicy({ log_retention_days: 30, board_retention_days: 90 });
+    const result = manager.prune();
+
+    expect(result).toMatchObject({ sessions: 1, boards: 1, cards: 1 });
+    expect(boardRepo.getById(old.id)).toBeNull();
+    expect(boardRepo.getById(snoozedOld.id)).not.toBeNull();
+    expect(count("execution_sessions")).toBe(1);
+  });
+
+  it("leaves everything alone without a retention policy", () => {
+    addCard(boardRepo.getOrCreate("2020-01-01", { carryOver: false }).id, "Old");
+    expect(manager.prune()).toEqual({ logs: 0, sessions: 0, boards: 0, cards: 0 });
+    expect(count("cards")).toBe(1);
+  });
+
+  it("runs a scheduled backup only when the last one is older than the interval", async () => {
+    manager.setPolicy({ backup_interval_hours: 24 });
+    expect(await manager.runScheduled()).toBe(true);
+    expect(await manager.runScheduled()).toBe(false);
+    expect(await manager.runScheduled(new Date(Date.now() + 25 * 3600_000))).toBe(true);
+
+    manager.setPolicy({ backup_interval_hours: 0 });
+    expect(await manager.runScheduled(new Date(Date.now() + 100 * 3600_000))).toBe(false);
+    expect(manager.list()).toHaveLength(2);
+  });
+});
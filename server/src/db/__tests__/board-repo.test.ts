@@ -19,7 +19,7 @@ describe("BoardRepo", () => {
 
   it("getOrCreateToday creates a board for today", () => {
     const board = repo.getOrCreateToday();
-    expect(board.date).toBe(new Date().toISOString().split("T")[0]);
+    expect(board.date).toBe(repo.today().date);
   });
 
   it("getOrCreateToday returns existing board if already created", () => {
@@ -27,4 +27,49 @@ describe("BoardRepo", () => {
     const board2 = repo.getOrCreateToday();
     expect(board1.id).toBe(board2.id);
   });
+
+  it("getByDate returns null for a missing board", () => {
+    expect(repo.getByDate("2020-01-01")).toBeNull();
+  });
+
+  it("carries unfinished cards from the previous board into today's board", () => {
+    const prev = db.prepare("INSERT INTO boards (date) VALUES ('2020-01-01')").run();
+    const prevId = Number(prev.lastInsertRowid);
+    const insertCard = db.prepare(
+      "INSERT INTO cards (board_id, source_type, title, column_name) VALUES (?, 'manual', ?, ?)"
+    );
+    const open = insertCard.run(prevId, "Open task", "human_do");
+    insertCard.run(prevId, "Finished task", "done");
+    db.prepare("INSERT INTO execution_sessions (card_id, type) VALUES (?, 'planning')").run(open.lastInsertRowid);
+
+    const today = repo.getOrCreateToday();
+
+    const carried = db.prepare("SELECT * FROM cards WHERE board_id = ?").all(today.id) as { id: number; title: string; metadata: string }[];
+    expect(carried).toHaveLength(1);
+    expect(carried[0].title).toBe("Open task");
+    expect(JSON.parse(carried[0].metadata).carried_over_from).toBe("2020-01-01");
+
+    const sessions = db.prepare("SELECT * FROM execution_sessions WHERE card_id = ?").all(carried[0].id);
+    expect(sessions).toHaveLength(1);
+
+    const left = db.prepare("SELECT title FROM cards WHERE board_id = ?").all(prevId) as { title: string }[];
+    expect(left.map((c) => c.title)).toEqual(["Finished task"]);
+
+    const events = db.prepare("SELECT * FROM card_events WHERE card_id = ?").all(carried[0].id) as { type: string; actor: string; new_value: string }[];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "carried_over", actor: "scheduler" });
+    expect(JSON.parse(events[0].new_value)).toEqual({ board: today.date });
+  });
+
+  it("lists boards newest first with card counts", () => {
+    const prev = db.prepare("INSERT INTO boards (date) VALUES ('2020-01-01')").run();
+    db.prepare("INSERT INTO cards (board_id, source_type, title, column_name) VALUES (?, 'manual', 'Done', 'done')").run(prev.lastInsertRowid);
+    repo.getOrCreateToday();
+
+    const boards = repo.list();
+    expect(boards).toHaveLength(2);
+    expect(boards[1].date).toBe("2020-01-01");
+    expect(boards[1].card_count).toBe(1);
+    expect(boards[1].done_count).toBe(1);
+  });
 });
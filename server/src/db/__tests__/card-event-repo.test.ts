@@ -0,0 +1,81 @@
+// server/src/db/__tests__/card-event-repo.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { migrate } from "../migrate.js";
+import { CardRepo } from "../card-repo.js";
+import { diffFields } from "../card-event-repo.js";
+
+describe("card events", () => {
+  let db: Database.Database;
+  let repo: CardRepo;
+  let boardId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    repo = new CardRepo(db);
+    const result = db.prepare("INSERT INTO boards (date) VALUES ('2026-02-15')").run();
+    boardId = Number(result.lastInsertRowid);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const createCard = () =>
+    repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "Task", body: null, metadata: null });
+
+  it("records creation and each mutation with its actor", () => {
+    const card = createCard();
+    repo.moveToColumn(card.id, "in_process", undefined, "ai");
+    repo.setAiToggle(card.id, true);
+    repo.setAiEvaluation(card.id, { confidence: 90, proposed_action: "Reply", action_payload: null });
+    repo.setExecutionResult(card.id, "Sent");
+    repo.archive(card.id, "scheduler");
+    repo.restore(card.id);
+
+    const events = repo.listEvents(card.id);
+    expect(events.map((e) => [e.type, e.actor])).toEqual([
+      ["created", "user"],
+      ["moved", "ai"],
+      ["ai_toggled", "user"],
+      ["ai_evaluated", "ai"],
+      ["execution_result", "ai"],
+      ["archived", "scheduler"],
+      ["restored", "user"],
+    ]);
+    expect(events[1].old_value).toEqual({ column_name: "inbox" });
+    expect(events[1].new_value).toEqual({ column_name: "in_process" });
+  });
+
+  it("keeps only changed fields and skips writes that change nothing", () => {
+    const card = createCard();
+    repo.update(card.id, { title: "Task", priority: 2 });
+    repo.update(card.id, { priority: 2 });
+    repo.setMetadataField(card.id, "execution_status", "running", "ai");
+
+    const events = repo.listEvents(card.id).slice(1);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({ type: "updated", old_value: { priority: 0 }, new_value: { priority: 2 } });
+    expect(events[1]).toMatchObject({
+      actor: "ai",
+      old_value: { execution_status: null },
+      new_value: { execution_status: "running" },
+    });
+  });
+
+  it("tags connector upserts and drops events with the card", () => {
+    const card = repo.upsertFromConnector({
+      board_id: boardId, source_id: "gmail:1", source_type: "gmail", title: "Mail", body: null, metadata: null,
+    })!;
+    expect(repo.listEvents(card.id)[0]).toMatchObject({ type: "created", actor: "connector" });
+
+    repo.hardDelete(card.id);
+    expect(repo.listEvents(card.id)).toEqual([]);
+  });
+
+  it("diffFields returns nulls when nothing changed", () => {
+    expect(diffFields({ a: 1 }, { a: 1 })).toEqual([null, null]);
+    expect(diffFields({ a: 1, b: [1] }, { a: 1, b: [2] })).toEqual([{ b: [1] }, { b: [2] }]);
+  });
+});
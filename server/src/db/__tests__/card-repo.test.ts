@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import Database from "better-sqlite3";
 import { migrate } from "../migrate.js";
 import { CardRepo } from "../card-repo.js";
+import { DependencyRepo } from "../dependency-repo.js";
 import type { ColumnName } from "@daily-kanban/shared";
 
 describe("CardRepo", () => {
@@ -50,6 +51,76 @@ describe("CardRepo", () => {
     expect(updated?.column_name).toBe("human_do");
   });
 
+  it("appends moved cards to the end of the target column", () => {
+    const a = repo.create({ board_id: boardId, source_id: "a", source_type: "gmail", title: "A", body: null, metadata: null });
+    const b = repo.create({ board_id: boardId, source_id: "b", source_type: "gmail", title: "B", body: null, metadata: null });
+    const c = repo.create({ board_id: boardId, source_id: "c", source_type: "gmail", title: "C", body: null, metadata: null });
+    repo.moveToColumn(c.id, "human_do");
+    repo.moveToColumn(a.id, "human_do");
+    expect(repo.getById(c.id)?.position).toBe(1);
+    expect(repo.getById(a.id)?.position).toBe(2);
+    expect(repo.getById(b.id)?.position).toBe(2);
+  });
+
+  it("reorders a card between its neighbors", () => {
+    const [a, b, c] = ["a", "b", "c"].map((id) =>
+      repo.create({ board_id: boardId, source_id: id, source_type: "gmail", title: id, body: null, metadata: null })
+    );
+    const order = () => repo.listByBoard(boardId).map((card) => card.title);
+
+    expect(repo.reorder(c.id, "inbox", { afterId: a.id })).toEqual([{ id: c.id, position: 1.5 }]);
+    expect(order()).toEqual(["a", "c", "b"]);
+
+    repo.reorder(a.id, "inbox", { beforeId: b.id });
+    expect(order()).toEqual(["c", "a", "b"]);
+
+    repo.reorder(c.id, "inbox", {});
+    expect(order()).toEqual(["a", "b", "c"]);
+
+    repo.reorder(b.id, "done", {});
+    expect(repo.getById(b.id)).toMatchObject({ column_name: "done", position: 1 });
+  });
+
+  it("renumbers the column when the gap between neighbors runs out", () => {
+    const [a, b, c] = ["a", "b", "c"].map((id) =>
+      repo.create({ board_id: boardId, source_id: id, source_type: "gmail", title: id, body: null, metadata: null })
+    );
+    db.prepare("UPDATE cards SET position = ? WHERE id = ?").run(1 + 1e-9, b.id);
+
+    const positions = repo.reorder(c.id, "inbox", { afterId: a.id, beforeId: b.id });
+    expect(positions).toEqual([
+      { id: c.id, position: 2 },
+      { id: b.id, position: 3 },
+    ]);
+    expect(repo.listByBoard(boardId).map((card) => [card.title, card.position])).toEqual([
+      ["a", 1],
+      ["c", 2],
+      ["b", 3],
+    ]);
+    // Only the card the user moved gets a timeline entry
+    expect(repo.listEvents(b.id).filter((e) => e.type === "moved")).toHaveLength(0);
+  });
+
+  it("hides snoozed cards until they wake into the inbox", () => {
+    const card = repo.create({ board_id: boardId, source_id: "a", source_type: "gmail", title: "Later", body: null, metadata: null });
+    repo.moveToColumn(card.id, "human_do");
+    repo.snooze(card.id, "2026-02-16T09:00:00.000Z");
+
+    expect(repo.listByBoard(boardId)).toHaveLength(0);
+    expect(repo.listSnoozed().map((c) => c.id)).toEqual([card.id]);
+    expect(repo.listDueSnoozed(new Date("2026-02-16T08:59:00Z"))).toEqual([]);
+    expect(repo.listDueSnoozed(new Date("2026-02-16T09:00:00Z"))).toEqual([card.id]);
+
+    const next = Number(db.prepare("INSERT INTO boards (date) VALUES ('2026-02-16')").run().lastInsertRowid);
+    repo.wake(card.id, next, "scheduler");
+    expect(repo.getById(card.id)).toMatchObject({ board_id: next, column_name: "inbox", snoozed_until: null });
+    expect(repo.listSnoozed()).toHaveLength(0);
+    expect(repo.listEvents(card.id).slice(-2).map((e) => [e.type, e.actor])).toEqual([
+      ["snoozed", "user"],
+      ["woke", "scheduler"],
+    ]);
+  });
+
   it("updates AI evaluation fields", () => {
     const card = repo.create({ board_id: boardId, source_id: "a", source_type: "gmail", title: "Card A", body: null, metadata: null });
     repo.setAiEvaluation(card.id, {
@@ -85,4 +156,130 @@ describe("CardRepo", () => {
     const updated = repo.getById(card.id);
     expect(updated?.ai_toggle).toBe(true);
   });
+
+  it("updates title, body and merges metadata", () => {
+    const card = repo.create({ board_id: boardId, source_id: "a", source_type: "gmail", title: "Card A", body: "Old", metadata: { from: "x", keep: 1 } });
+    repo.update(card.id, { title: "Renamed", body: null, metadata: { from: null, extra: true } });
+    const updated = repo.getById(card.id);
+    expect(updated?.title).toBe("Renamed");
+    expect(updated?.body).toBeNull();
+    expect(updated?.metadata).toEqual({ keep: 1, extra: true });
+  });
+
+  it("hides soft-deleted and archived cards from the board until restored", () => {
+    const a = repo.create({ board_id: boardId, source_id: "a", source_type: "manual", title: "A", body: null, metadata: null });
+    const b = repo.create({ board_id: boardId, source_id: "b", source_type: "manual", title: "B", body: null, metadata: null });
+    repo.softDelete(a.id);
+    repo.archive(b.id);
+    expect(repo.listByBoard(boardId)).toHaveLength(0);
+    expect(repo.listByBoard(boardId, { includeArchived: true }).map((c) => c.id)).toEqual([b.id]);
+
+    repo.restore(a.id);
+    expect(repo.listByBoard(boardId).map((c) => c.id)).toEqual([a.id]);
+  });
+
+  it("cancels open sessions when a card is soft-deleted", () => {
+    const card = repo.create({ board_id: boardId, source_id: "a", source_type: "manual", title: "A", body: null, metadata: null });
+    db.prepare("INSERT INTO execution_sessions (card_id, status) VALUES (?, 'paused')").run(card.id);
+    repo.softDelete(card.id);
+    const session = db.prepare("SELECT status FROM execution_sessions WHERE card_id = ?").get(card.id) as { status: string };
+    expect(session.status).toBe("cancelled");
+  });
+
+  it("hard delete removes sessions and logs", () => {
+    const card = repo.create({ board_id: boardId, source_id: "a", source_type: "manual", title: "A", body: null, metadata: null });
+    const session = db.prepare("INSERT INTO execution_sessions (card_id) VALUES (?)").run(card.id);
+    db.prepare("INSERT INTO execution_logs (card_id, step, message, execution_session_id) VALUES (?, 'start', 'go', ?)").run(card.id, session.lastInsertRowid);
+
+    expect(repo.hardDelete(card.id)).toBe(true);
+    expect(repo.getById(card.id)).toBeNull();
+    expect(db.prepare("SELECT COUNT(*) AS n FROM execution_logs").get()).toEqual({ n: 0 });
+    expect(db.prepare("SELECT COUNT(*) AS n FROM execution_sessions").get()).toEqual({ n: 0 });
+  });
+
+  it("sorts by urgency: overdue, then priority, then due date", () => {
+    const make = (title: string, priority: 0 | 1 | 2 | 3 | 4, due_at: string | null) =>
+      repo.create({ board_id: boardId, source_id: title, source_type: "manual", title, body: null, metadata: null, priority, due_at });
+    const none = make("none", 0, null);
+    const low = make("low", 4, null);
+    const urgentLater = make("urgent-later", 1, "2999-01-02T00:00:00.000Z");
+    const urgentSoon = make("urgent-soon", 1, "2999-01-01T00:00:00.000Z");
+    const overdue = make("overdue", 3, "2000-01-01T00:00:00.000Z");
+
+    expect(repo.listByBoard(boardId).map((c) => c.id)).toEqual([none.id, low.id, urgentLater.id, urgentSoon.id, overdue.id]);
+    expect(repo.listByBoard(boardId, { sort: "urgency" }).map((c) => c.id)).toEqual([
+      overdue.id,
+      urgentSoon.id,
+      urgentLater.id,
+      low.id,
+      none.id,
+    ]);
+  });
+
+  it("updates priority and due date", () => {
+    const card = repo.create({ board_id: boardId, source_id: "a", source_type: "manual", title: "A", body: null, metadata: null });
+    expect(card.priority).toBe(0);
+    expect(card.due_at).toBeNull();
+
+    repo.update(card.id, { priority: 2, due_at: "2026-02-16T09:00:00.000Z" });
+    expect(repo.getById(card.id)).toMatchObject({ priority: 2, due_at: "2026-02-16T09:00:00.000Z" });
+
+    repo.update(card.id, { due_at: null });
+    expect(repo.getById(card.id)).toMatchObject({ priority: 2, due_at: null });
+  });
+
+  it("notifies subscribers about created, moved, updated and deleted cards", () => {
+    const events: { type: string; card_id: number; board_id: number; title?: string }[] = [];
+    const unsubscribe = repo.subscribe((e) => events.push({ type: e.type, card_id: e.card_id, board_id: e.board_id, title: e.card?.title }));
+
+    const card = repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "A", body: null, metadata: null });
+    repo.moveToColumn(card.id, "review");
+    repo.update(card.id, { title: "B" });
+    repo.hardDelete(card.id);
+    unsubscribe();
+    repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "C", body: null, metadata: null });
+
+    expect(events).toEqual([
+      { type: "created", card_id: card.id, board_id: boardId, title: "A" },
+      { type: "moved", card_id: card.id, board_id: boardId, title: "A" },
+      { type: "updated", card_id: card.id, board_id: boardId, title: "B" },
+      { type: "deleted", card_id: card.id, board_id: boardId, title: undefined },
+    ]);
+  });
+
+  it("announces bulk changes only once their transaction has committed", () => {
+    const a = repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "A", body: null, metadata: null });
+    const b = repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "B", body: null, metadata: null });
+    const events: { card_id: number; column?: ColumnName; inTransaction: boolean }[] = [];
+    repo.subscribe((e) => events.push({ card_id: e.card_id, column: e.card?.column_name, inTransaction: db.inTransaction }));
+
+    repo.applyBulk([a.id, b.id], { type: "move", column_name: "done" });
+    expect(events).toEqual([
+      { card_id: a.id, column: "done", inTransaction: false },
+      { card_id: b.id, column: "done", inTransaction: false },
+    ]);
+
+    events.length = 0;
+    expect(() => repo.applyBulk([a.id, b.id], { type: "add_label", label_id: 999 })).toThrow();
+    expect(events).toEqual([]);
+  });
+
+  it("tells dependents' boards when their blocker enters or leaves done", () => {
+    const otherBoardId = Number(db.prepare("INSERT INTO boards (date) VALUES ('2026-02-16')").run().lastInsertRowid);
+    const blocker = repo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "Blocker", body: null, metadata: null });
+    const blocked = repo.create({ board_id: otherBoardId, source_id: null, source_type: "manual", title: "Blocked", body: null, metadata: null });
+    new DependencyRepo(db).add(blocker.id, blocked.id);
+    const events: { type: string; card_id: number; board_id: number; open_blockers?: number[] }[] = [];
+    repo.subscribe((e) => events.push({ type: e.type, card_id: e.card_id, board_id: e.board_id, open_blockers: e.card?.dependencies.open_blockers }));
+
+    repo.moveToColumn(blocker.id, "done");
+    repo.moveToColumn(blocker.id, "done");
+    repo.reorder(blocker.id, "inbox", {});
+    repo.archive(blocker.id);
+    expect(events.filter((e) => e.card_id === blocked.id)).toEqual([
+      { type: "updated", card_id: blocked.id, board_id: otherBoardId, open_blockers: [] },
+      { type: "updated", card_id: blocked.id, board_id: otherBoardId, open_blockers: [blocker.id] },
+      { type: "updated", card_id: blocked.id, board_id: otherBoardId, open_blockers: [] },
+    ]);
+  });
 });
@@ -0,0 +1,126 @@
+// server/src/db/__tests__/checklist-repo.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { migrate } from "../migrate.js";
+import { CardRepo } from "../card-repo.js";
+import { ChecklistRepo, parseChecklist, textsMatch } from "../checklist-repo.js";
+
+const PLAN = `## Plan
+- [ ] Add the migration
+- [x] Write the repository
+* [ ] Wire up the API route
+`;
+
+describe("ChecklistRepo", () => {
+  let db: Database.Database;
+  let repo: ChecklistRepo;
+  let cardRepo: CardRepo;
+  let cardId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    repo = new ChecklistRepo(db);
+    cardRepo = new CardRepo(db, undefined, repo);
+    const board = db.prepare("INSERT INTO boards (date) VALUES ('2026-02-15')").run();
+    cardId = cardRepo.create({
+      board_id: Number(board.lastInsertRowid),
+      source_id: null,
+      source_type: "manual",
+      title: "Feature",
+      body: null,
+      metadata: null,
+    }).id;
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("parses markdown task lists", () => {
+    expect(parseChecklist(PLAN)).toEqual([
+      { text: "Add the migration", checked: false },
+      { text: "Write the repository", checked: true },
+      { text: "Wire up the API route", checked: false },
+    ]);
+    expect(parseChecklist(null)).toEqual([]);
+  });
+
+  it("creates plan items when the card body is set", () => {
+    cardRepo.setBody(cardId, PLAN);
+
+    const items = repo.listByCard(cardId);
+    expect(items.map((i) => [i.text, i.checked, i.source])).toEqual([
+      ["Add the migration", false, "plan"],
+      ["Write the repository", true, "plan"],
+      ["Wire up the API route", false, "plan"],
+    ]);
+    expect(cardRepo.getById(cardId)!.checklist).toEqual({ done: 1, total: 3 });
+  });
+
+  it("keeps checked state and manual items when the plan is regenerated", () => {
+    cardRepo.setBody(cardId, PLAN);
+    const manual = repo.create(cardId, "Tell the team");
+    const first = repo.listByCard(cardId)[0];
+    repo.update(first.id, { checked: true });
+
+    cardRepo.setBody(cardId, "- [ ] Add the migration\n- [ ] Update the docs");
+
+    const items = repo.listByCard(cardId);
+    expect(items.map((i) => i.text)).toEqual(["Add the migration", "Update the docs", "Tell the team"]);
+    expect(items[0]).toMatchObject({ id: first.id, checked: true });
+    expect(items[2].id).toBe(manual.id);
+  });
+
+  it("links execution todos to matching plan items and ticks them off", () => {
+    cardRepo.setBody(cardId, PLAN);
+
+    repo.applyTodo(cardId, { id: "1", subject: "Wire up API route", status: "in_progress" });
+    let route = repo.listByCard(cardId).find((i) => i.text === "Wire up the API route")!;
+    expect(route).toMatchObject({ todo_id: "1", checked: false });
+
+    repo.applyTodo(cardId, { id: "1", subject: "", status: "completed" });
+    route = repo.getById(route.id)!;
+    expect(route.checked).toBe(true);
+  });
+
+  it("never matches an update without a subject by text", () => {
+    cardRepo.setBody(cardId, "- [ ] Add unit tests\n- [ ] Update task list docs");
+    repo.applyTodo(cardId, { id: "1", subject: "Add unit tests", status: "pending" });
+
+    expect(repo.applyTodo(cardId, { id: "2", subject: "", status: "completed" })).toBeNull();
+    repo.applyTodo(cardId, { id: "1", subject: "", status: "completed" });
+    expect(repo.listByCard(cardId).map((i) => [i.text, i.checked])).toEqual([
+      ["Add unit tests", true],
+      ["Update task list docs", false],
+    ]);
+  });
+
+  it("doesn't let a new execution's task ids reach an earlier run's items", () => {
+    cardRepo.setBody(cardId, "- [ ] Add unit tests\n- [ ] Update task list docs");
+    repo.applyTodo(cardId, { id: "1", subject: "Add unit tests", status: "in_progress" });
+
+    repo.unlinkTodos(cardId);
+    repo.applyTodo(cardId, { id: "1", subject: "Update task list docs", status: "pending" });
+    repo.applyTodo(cardId, { id: "1", subject: "", status: "completed" });
+    expect(repo.listByCard(cardId).map((i) => [i.text, i.todo_id, i.checked])).toEqual([
+      ["Add unit tests", null, false],
+      ["Update task list docs", "1", true],
+    ]);
+  });
+
+  it("adds unmatched todos as their own items", () => {
+    cardRepo.setBody(cardId, PLAN);
+
+    const item = repo.applyTodo(cardId, { id: "t2", subject: "Run the linter", status: "completed" });
+    expect(item).toMatchObject({ text: "Run the linter", source: "todo", checked: true });
+    expect(repo.applyTodo(cardId, { id: "t3", subject: "", status: "pending" })).toBeNull();
+    expect(repo.listByCard(cardId)).toHaveLength(4);
+  });
+
+  it("matches texts loosely", () => {
+    expect(textsMatch("Add the migration", "add migration")).toBe(true);
+    expect(textsMatch("Update README.md", "update readme md")).toBe(true);
+    expect(textsMatch("Add the migration", "Deploy to production")).toBe(false);
+  });
+});
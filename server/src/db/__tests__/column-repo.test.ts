@@ -0,0 +1,84 @@
+// server/src/db/__tests__/column-repo.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { migrate } from "../migrate.js";
+import { ColumnRepo } from "../column-repo.js";
+
+describe("ColumnRepo", () => {
+  let db: Database.Database;
+  let repo: ColumnRepo;
+
+  const createBoard = (date: string) => Number(db.prepare("INSERT INTO boards (date) VALUES (?)").run(date).lastInsertRowid);
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    repo = new ColumnRepo(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("seeds the built-in columns with their behaviors", () => {
+    const columns = repo.listByBoard(createBoard("2026-02-15"));
+    expect(columns.map((c) => c.key)).toEqual(["inbox", "in_process", "review", "ai_do", "human_do", "done"]);
+    expect(columns.find((c) => c.key === "in_process")?.behavior).toBe("start_ai");
+    expect(columns.find((c) => c.key === "ai_do")?.behavior).toBe("execute_action");
+    expect(columns.filter((c) => c.system).map((c) => c.key)).toEqual(["inbox", "review", "done"]);
+  });
+
+  it("copies the latest board's layout onto a new board", () => {
+    const first = createBoard("2026-02-14");
+    repo.listByBoard(first);
+    const blocked = repo.create(first, { name: "Waiting on others", wip_limit: 3 });
+    expect(blocked.key).toBe("waiting_on_others");
+
+    const columns = repo.listByBoard(createBoard("2026-02-15"));
+    expect(columns.find((c) => c.key === "waiting_on_others")).toMatchObject({ name: "Waiting on others", wip_limit: 3 });
+  });
+
+  it("moves hidden cards out of a deleted column into the inbox", () => {
+    const boardId = createBoard("2026-02-15");
+    repo.listByBoard(boardId);
+    const blocked = repo.create(boardId, { name: "Blocked" });
+    const insert = db.prepare(
+      "INSERT INTO cards (board_id, source_type, column_name, title, position, archived_at, snoozed_until) VALUES (?, 'manual', ?, ?, 1, ?, ?)"
+    );
+    insert.run(boardId, "inbox", "Live", null, null);
+    insert.run(boardId, "blocked", "Archived", "2026-02-15 10:00:00", null);
+    insert.run(boardId, "blocked", "Snoozed", null, "2026-02-20T09:00:00.000Z");
+
+    expect(repo.delete(blocked.id)).toBe(true);
+    const rows = db.prepare("SELECT title, column_name, position FROM cards ORDER BY id").all();
+    expect(rows).toEqual([
+      { title: "Live", column_name: "inbox", position: 1 },
+      { title: "Archived", column_name: "inbox", position: 2 },
+      { title: "Snoozed", column_name: "inbox", position: 3 },
+    ]);
+    const moves = db.prepare("SELECT type, actor, old_value, new_value FROM card_events ORDER BY id").all();
+    expect(moves).toEqual([
+      { type: "moved", actor: "user", old_value: '{"column_name":"blocked","position":1}', new_value: '{"column_name":"inbox","position":2}' },
+      { type: "moved", actor: "user", old_value: '{"column_name":"blocked","position":1}', new_value: '{"column_name":"inbox","position":3}' },
+    ]);
+    expect(repo.delete(blocked.id)).toBe(false);
+  });
+
+  it("adds a column for cards whose column is missing from the layout", () => {
+    const boardId = createBoard("2026-02-15");
+    db.prepare("INSERT INTO cards (board_id, source_type, title, column_name) VALUES (?, 'manual', 'x', 'someday')").run(boardId);
+    expect(repo.listByBoard(boardId).map((c) => c.key)).toContain("someday");
+  });
+
+  it("gives new columns unique keys and reorders them", () => {
+    const boardId = createBoard("2026-02-15");
+    const a = repo.create(boardId, { name: "Later" });
+    const b = repo.create(boardId, { name: "Later" });
+    expect(b.key).toBe("later_2");
+
+    const ids = repo.listByBoard(boardId).map((c) => c.id).reverse();
+    repo.reorder(boardId, ids);
+    expect(repo.listByBoard(boardId)[0].id).toBe(b.id);
+    expect(repo.listByBoard(boardId)[1].id).toBe(a.id);
+  });
+});
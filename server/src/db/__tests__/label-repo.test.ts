@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { migrate } from "../migrate.js";
+import { LabelRepo } from "../label-repo.js";
+import { CardRepo } from "../card-repo.js";
+
+describe("LabelRepo", () => {
+  let db: Database.Database;
+  let repo: LabelRepo;
+  let cardRepo: CardRepo;
+  let boardId: number;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    repo = new LabelRepo(db);
+    cardRepo = new CardRepo(db, repo);
+    const result = db.prepare("INSERT INTO boards (date) VALUES ('2026-02-15')").run();
+    boardId = Number(result.lastInsertRowid);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("creates labels with a default color", () => {
+    const label = repo.create("urgent");
+    expect(label.name).toBe("urgent");
+    expect(label.color).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it("ensure reuses labels case-insensitively", () => {
+    const a = repo.ensure("Bug");
+    const b = repo.ensure("bug");
+    expect(b.id).toBe(a.id);
+    expect(repo.list()).toHaveLength(1);
+  });
+
+  it("attaches labels to cards", () => {
+    const card = cardRepo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "A", body: null, metadata: null });
+    const bug = repo.create("bug", "#ef4444");
+    const ui = repo.create("ui", "#3b82f6");
+
+    repo.setCardLabels(card.id, [bug.id, ui.id]);
+    expect(cardRepo.getById(card.id)?.labels.map((l) => l.name)).toEqual(["bug", "ui"]);
+
+    repo.removeFromCard(card.id, bug.id);
+    expect(cardRepo.getById(card.id)?.labels.map((l) => l.name)).toEqual(["ui"]);
+  });
+
+  it("deleting a label detaches it from cards", () => {
+    const card = cardRepo.create({ board_id: boardId, source_id: null, source_type: "manual", title: "A", body: null, metadata: null });
+    const bug = repo.create("bug");
+    repo.setCardLabels(card.id, [bug.id]);
+
+    expect(repo.delete(bug.id)).toBe(true);
+    expect(cardRepo.getById(card.id)?.labels).toEqual([]);
+  });
+
+  it("applies connector labels from metadata", () => {
+    const card = cardRepo.upsertFromConnector({
+      board_id: boardId,
+      source_id: "linear:1",
+      source_type: "linear",
+      title: "Issue",
+      body: null,
+      metadata: { labels: ["Bug", "Frontend"] },
+    });
+    expect(card?.labels.map((l) => l.name)).toEqual(["Bug", "Frontend"]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { getSchemaStatus, getSchemaVersion, listMigrations, migrate } from "../migrate.js";
+
+const latest = listMigrations().at(-1)!.version;
+
+function tables(db: Database.Database): string[] {
+  const rows = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name").all() as { name: string }[];
+  return rows.map((r) => r.name);
+}
+
+describe("migrate", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    db.pragma("foreign_keys = ON");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("applies every migration once and records it", () => {
+    migrate(db);
+    const status = getSchemaStatus(db);
+    expect(status.version).toBe(latest);
+    expect(status.latest).toBe(latest);
+    expect(status.applied.map((m) => m.version)).toEqual(listMigrations().map((m) => m.version));
+    expect(status.pending).toEqual([]);
+
+    migrate(db);
+    expect(getSchemaStatus(db).applied).toHaveLength(latest);
+  });
+
+  it("rolls back to a version and up again", () => {
+    migrate(db);
+    db.prepare("INSERT INTO boards (date) VALUES ('2026-10-19')").run();
+
+    migrate(db, 3);
+    expect(getSchemaVersion(db)).toBe(3);
+    expect(tables(db)).not.toContain("card_events");
+    expect(getSchemaStatus(db).pending[0]).toEqual({ version: 4, name: "sessions" });
+    expect(db.prepare("SELECT COUNT(*) AS n FROM boards").get()).toEqual({ n: 1 });
+
+    migrate(db);
+    expect(getSchemaVersion(db)).toBe(latest);
+    expect(tables(db)).toContain("card_events");
+  });
+
+  it("rolls back everything with version 0", () => {
+    migrate(db);
+    migrate(db, 0);
+    expect(getSchemaVersion(db)).toBe(0);
+    expect(tables(db)).toEqual(["schema_migrations", "sqlite_sequence"]);
+  });
+
+  it("leaves the schema untouched when a migration fails", () => {
+    migrate(db, 1);
+    db.exec("CREATE TABLE execution_logs (id INTEGER PRIMARY KEY)");
+    expect(() => migrate(db)).toThrow();
+    expect(getSchemaVersion(db)).toBe(1);
+  });
+
+  it("baselines a database created before schema_migrations", () => {
+    // What the old runner left behind: the first ten migrations, unrecorded
+    for (const m of listMigrations().filter((m) => m.version <= 10)) db.exec(m.up);
+    db.prepare("INSERT INTO boards (date) VALUES ('2026-10-19')").run();
+
+    expect(getSchemaVersion(db)).toBe(0);
+    migrate(db);
+    expect(getSchemaVersion(db)).toBe(latest);
+    expect(tables(db)).toContain("board_reports");
+    expect(db.prepare("SELECT COUNT(*) AS n FROM boards").get()).toEqual({ n: 1 });
+  });
+});
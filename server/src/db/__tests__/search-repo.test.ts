@@ -0,0 +1,78 @@
+// server/src/db/__tests__/search-repo.test.ts
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import { migrate } from "../migrate.js";
+import { CardRepo } from "../card-repo.js";
+import { LogRepo } from "../log-repo.js";
+import { SessionRepo } from "../session-repo.js";
+import { SearchRepo, toFtsQuery } from "../search-repo.js";
+
+describe("SearchRepo", () => {
+  let db: Database.Database;
+  let cardRepo: CardRepo;
+  let repo: SearchRepo;
+
+  const boardFor = (date: string) =>
+    Number(db.prepare("INSERT INTO boards (date) VALUES (?)").run(date).lastInsertRowid);
+  const card = (boardId: number, title: string, body: string | null = null) =>
+    cardRepo.create({ board_id: boardId, source_id: null, source_type: "manual", title, body, metadata: null });
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    cardRepo = new CardRepo(db);
+    repo = new SearchRepo(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("builds prefix queries and ignores FTS syntax", () => {
+    expect(toFtsQuery("deploy api")).toBe('"deploy"* "api"*');
+    expect(toFtsQuery('foo" OR bar*')).toBe('"foo"* "OR"* "bar"*');
+    expect(toFtsQuery("  -- ")).toBeNull();
+  });
+
+  it("finds cards by title, body and proposed action, grouped by board date", () => {
+    const older = boardFor("2026-02-14");
+    const newer = boardFor("2026-02-15");
+    const a = card(older, "Deploy the billing service");
+    const b = card(newer, "Review MR", "Needed before the billing deploy");
+    const c = card(newer, "Email from Dana");
+    cardRepo.setAiEvaluation(c.id, { confidence: 90, proposed_action: "Reply about billing", action_payload: null });
+
+    const groups = repo.search("billing");
+    expect(groups.map((g) => g.date)).toEqual(["2026-02-15", "2026-02-14"]);
+    expect(groups[0].hits.map((h) => h.card_id).sort()).toEqual([b.id, c.id].sort());
+    expect(groups[1].hits[0]).toMatchObject({ kind: "card", card_id: a.id, card_title: "Deploy the billing service" });
+    expect(groups[1].hits[0].snippet).toContain("\u0002billing\u0003");
+  });
+
+  it("keeps the index in sync with edits and deletes", () => {
+    const boardId = boardFor("2026-02-15");
+    const a = card(boardId, "Old title");
+
+    cardRepo.update(a.id, { title: "New title" });
+    expect(repo.search("old")).toEqual([]);
+    expect(repo.search("new")).toHaveLength(1);
+
+    cardRepo.softDelete(a.id);
+    expect(repo.search("new")).toEqual([]);
+
+    cardRepo.hardDelete(a.id);
+    expect(db.prepare("SELECT COUNT(*) AS n FROM cards_fts WHERE cards_fts MATCH 'new'").get()).toEqual({ n: 0 });
+  });
+
+  it("finds execution log messages with their session", () => {
+    const boardId = boardFor("2026-02-15");
+    const a = card(boardId, "Fix login");
+    const session = new SessionRepo(db).create(a.id, "execution", "run");
+    const log = new LogRepo(db).insert(a.id, "ai_output", "Patched the tokenizer module", null, null, session.id);
+
+    const groups = repo.search("tokeni");
+    expect(groups[0].hits).toEqual([
+      expect.objectContaining({ kind: "log", card_id: a.id, log_id: log.id, execution_session_id: session.id }),
+    ]);
+  });
+});
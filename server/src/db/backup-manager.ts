@@ -0,0 +1,212 @@
+// server/src/db/backup-manager.ts
+import Database from "better-sqlite3";
+import { existsSync, mkdirSync, readdirSync, statSync, unlinkSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import type { BackupFile, MaintenancePolicy, PruneResult } from "@daily-kanban/shared";
+import type { SettingsRepo } from "./settings-repo.js";
+import { getSchemaVersion, migrate } from "./migrate.js";
+
+const FILE_PATTERN = /^daily-kanban-[\dTZ-]+\.db$/;
+// How often the timer checks whether a scheduled backup is due
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+export const DEFAULT_POLICY: MaintenancePolicy = {
+  backup_interval_hours: 24,
+  backup_keep: 7,
+  log_retention_days: null,
+  board_retention_days: null,
+};
+
+function isWholeNumber(value: unknown, min: number): boolean {
+  return Number.isInteger(value) && (value as number) >= min;
+}
+
+// Returns an error message, or null when every given field is valid
+export function validatePolicy(input: Partial<MaintenancePolicy>): string | null {
+  if (input.backup_interval_hours !== undefined && !isWholeNumber(input.backup_interval_hours, 0)) {
+    return "backup_interval_hours must be a whole number of hours (0 turns it off)";
+  }
+  if (input.backup_keep !== undefined && !isWholeNumber(input.backup_keep, 1)) {
+    return "backup_keep must be at least 1";
+  }
+  for (const key of ["log_retention_days", "board_retention_days"] as const) {
+    const days = input[key];
+    if (days !== undefined && days !== null && !isWholeNumber(days, 1)) {
+      return `${key} must be at least 1 day, or null to keep everything`;
+    }
+  }
+  return null;
+}
+
+// Online backups of the live database into `dir`, restores from them, and
+// retention pruning. Backups go through SQLite's backup API, so they are
+// consistent even while the server keeps writing.
+export class BackupManager {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private db: Database.Database,
+    private settingsRepo: SettingsRepo,
+    readonly dir: string,
+  ) {}
+
+  getPolicy(): MaintenancePolicy {
+    return { ...DEFAULT_POLICY, ...this.settingsRepo.get<Partial<MaintenancePolicy>>("maintenance_policy", {}) };
+  }
+
+  setPolicy(input: Partial<MaintenancePolicy>): MaintenancePolicy {
+    const policy = { ...this.getPolicy(), ...input };
+    this.settingsRepo.set("maintenance_policy", policy);
+    return policy;
+  }
+
+  list(): BackupFile[] {
+    if (!existsSync(this.dir)) return [];
+    return readdirSync(this.dir)
+      .filter((name) => FILE_PATTERN.test(name))
+      .sort()
+      .reverse()
+      .map((name) => this.describe(name));
+  }
+
+  has(name: string): boolean {
+    return basename(name) === name && FILE_PATTERN.test(name) && existsSync(join(this.dir, name));
+  }
+
+  // Writes a new backup and drops the oldest ones beyond `backup_keep`
+  async backup(): Promise<BackupFile> {
+    const file = await this.write();
+    this.rotate();
+    return file;
+  }
+
+  // Stores an uploaded database file next to the backups so it can be
+  // checked and restored like one
+  save(data: Buffer): BackupFile {
+    const name = this.nextName();
+    writeFileSync(join(this.dir, name), data);
+    return this.describe(name);
+  }
+
+  remove(name: string): void {
+    unlinkSync(join(this.dir, name));
+  }
+
+  // Returns an error message, or null when the backup can be restored
+  check(name: string): string | null {
+    let source: Database.Database | null = null;
+    try {
+      source = new Database(join(this.dir, name), { readonly: true, fileMustExist: true });
+      const result = source.pragma("quick_check", { simple: true });
+      if (result !== "ok") return `${name} is damaged: ${result}`;
+      const boards = source.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'boards'").get();
+      return boards ? null : `${name} is not a daily-kanban database`;
+    } catch (err) {
+      return `${name} cannot be opened: ${(err as Error).message}`;
+    } finally {
+      source?.close();
+    }
+  }
+
+  // Copies a backup over the live database, after backing up the current
+  // state. Older backups are migrated up to the current schema.
+  async restore(name: string): Promise<{ safety_backup: BackupFile; schema_version: number }> {
+    const safety = await this.write();
+    const source = new Database(join(this.dir, name), { readonly: true, fileMustExist: true });
+    try {
+      await source.backup(this.db.name);
+    } finally {
+      source.close();
+    }
+    migrate(this.db);
+    return { safety_backup: safety, schema_version: getSchemaVersion(this.db) };
+  }
+
+  // Deletes AI session logs and whole boards older than the policy allows,
+  // then VACUUMs to give the space back. Running sessions, today's board
+  // and boards still holding snoozed cards are kept.
+  prune(): PruneResult {
+    const { log_retention_days, board_retention_days } = this.getPolicy();
+    const result: PruneResult = { logs: 0, sessions: 0, boards: 0, cards: 0 };
+
+    this.db.transaction(() => {
+      if (log_retention_days) {
+        const offset = `-${log_retention_days} days`;
+        const expiredSessions = `SELECT id FROM execution_sessions
+           WHERE status != 'running' AND COALESCE(finished_at, started_at) < datetime('now', ?)`;
+        result.logs = this.db
+          .prepare(
+            `DELETE FROM execution_logs
+             WHERE created_at < datetime('now', ?) OR execution_session_id IN (${expiredSessions})`
+          )
+          .run(offset, offset).changes;
+        result.sessions = this.db
+          .prepare(`DELETE FROM execution_sessions WHERE id IN (${expiredSessions})`)
+          .run(offset).changes;
+      }
+
+      if (board_retention_days) {
+        const expiredBoards = `SELECT b.id FROM boards b
+           WHERE b.date < date('now', ?)
+             AND NOT EXISTS (SELECT 1 FROM cards c WHERE c.board_id = b.id AND c.snoozed_until IS NOT NULL)`;
+        const offset = `-${board_retention_days} days`;
+        // Comments, logs, sessions, columns and reports cascade
+        result.cards = this.db.prepare(`DELETE FROM cards WHERE board_id IN (${expiredBoards})`).run(offset).changes;
+        result.boards = this.db.prepare(`DELETE FROM boards WHERE id IN (${expiredBoards})`).run(offset).changes;
+      }
+    })();
+
+    this.db.exec("VACUUM");
+    return result;
+  }
+
+  // Backs up and prunes whenever the newest backup is older than
+  // `backup_interval_hours`; checked every 15 minutes
+  async runScheduled(now: Date = new Date()): Promise<boolean> {
+    const { backup_interval_hours } = this.getPolicy();
+    if (backup_interval_hours === 0) return false;
+    const latest = this.list()[0];
+    if (latest && now.getTime() - new Date(latest.created_at).getTime() < backup_interval_hours * 3600_000) {
+      return false;
+    }
+    await this.backup();
+    this.prune();
+    return true;
+  }
+
+  start(): void {
+    const tick = () => {
+      this.runScheduled().catch((err) => console.error("Scheduled backup failed:", err));
+    };
+    tick();
+    this.timer = setInterval(tick, CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private nextName(): string {
+    mkdirSync(this.dir, { recursive: true });
+    return `daily-kanban-${new Date().toISOString().replace(/[:.]/g, "-")}.db`;
+  }
+
+  private async write(): Promise<BackupFile> {
+    const name = this.nextName();
+    await this.db.backup(join(this.dir, name));
+    return this.describe(name);
+  }
+
+  private rotate(): void {
+    const { backup_keep } = this.getPolicy();
+    for (const stale of this.list().slice(backup_keep)) {
+      this.remove(stale.name);
+    }
+  }
+
+  private describe(name: string): BackupFile {
+    const stats = statSync(join(this.dir, name));
+    return { name, size: stats.size, created_at: stats.mtime.toISOString() };
+  }
+}
@@ -1,24 +1,99 @@
 import Database from "better-sqlite3";
-import type { Board } from "@daily-kanban/shared";
+import type { Board, BoardSummary } from "@daily-kanban/shared";
+import { SettingsRepo } from "./settings-repo.js";
+import { boardDayOf, getBoardDay, getDayBoundary, type BoardDay } from "../board-day.js";
 
 export class BoardRepo {
-  constructor(private db: Database.Database) {}
+  constructor(
+    private db: Database.Database,
+    private settingsRepo: SettingsRepo = new SettingsRepo(db),
+  ) {}
 
-  getOrCreateToday(): Board {
-    const today = new Date().toISOString().split("T")[0];
+  // The current board day, honoring the timezone and day-start settings
+  today(): BoardDay {
+    return getBoardDay(this.settingsRepo);
+  }
 
-    const existing = this.db
-      .prepare("SELECT * FROM boards WHERE date = ?")
-      .get(today) as Board | undefined;
+  // Start and end of the board day for `date`
+  dayOf(date: string): BoardDay {
+    return boardDayOf(date, getDayBoundary(this.settingsRepo));
+  }
 
+  getOrCreateToday(): Board {
+    return this.getOrCreate(this.today().date);
+  }
+
+  // Imported boards skip the carry-over: they bring their own cards, and an
+  // older date must not pull unfinished work back into the past.
+  getOrCreate(date: string, options: { carryOver?: boolean } = {}): Board {
+    const existing = this.getByDate(date);
     if (existing) return existing;
 
-    const result = this.db
-      .prepare("INSERT INTO boards (date) VALUES (?)")
-      .run(today);
+    return this.db.transaction(() => {
+      const result = this.db
+        .prepare("INSERT INTO boards (date) VALUES (?)")
+        .run(date);
+      const board = this.getById(Number(result.lastInsertRowid))!;
+      if (options.carryOver !== false) this.carryOver(board);
+      return board;
+    })();
+  }
 
-    return this.db
+  getById(id: number): Board | null {
+    const row = this.db
       .prepare("SELECT * FROM boards WHERE id = ?")
-      .get(result.lastInsertRowid) as Board;
+      .get(id) as Board | undefined;
+    return row ?? null;
+  }
+
+  getByDate(date: string): Board | null {
+    const row = this.db
+      .prepare("SELECT * FROM boards WHERE date = ?")
+      .get(date) as Board | undefined;
+    return row ?? null;
+  }
+
+  list(): BoardSummary[] {
+    return this.db
+      .prepare(
+        `SELECT b.*,
+                COUNT(c.id) AS card_count,
+                COALESCE(SUM(CASE WHEN c.column_name = 'done' THEN 1 ELSE 0 END), 0) AS done_count
+         FROM boards b
+         LEFT JOIN cards c ON c.board_id = b.id AND c.deleted_at IS NULL
+         GROUP BY b.id
+         ORDER BY b.date DESC`
+      )
+      .all() as BoardSummary[];
+  }
+
+  // Moves unfinished cards from the most recent earlier board onto `board`.
+  // Cards keep their id, so execution sessions and logs stay attached.
+  carryOver(board: Board): number {
+    const previous = this.db
+      .prepare("SELECT * FROM boards WHERE date < ? ORDER BY date DESC LIMIT 1")
+      .get(board.date) as Board | undefined;
+    if (!previous) return 0;
+
+    const unfinished = `board_id = ? AND column_name != 'done'
+           AND deleted_at IS NULL AND archived_at IS NULL`;
+    return this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT INTO card_events (card_id, type, actor, old_value, new_value)
+           SELECT id, 'carried_over', 'scheduler', json_object('board', ?), json_object('board', ?)
+           FROM cards WHERE ${unfinished}`
+        )
+        .run(previous.date, board.date, previous.id);
+      return this.db
+        .prepare(
+          `UPDATE cards
+           SET board_id = ?,
+               metadata = json_set(COALESCE(metadata, '{}'), '$.carried_over_from', ?),
+               updated_at = CURRENT_TIMESTAMP
+           WHERE ${unfinished}`
+        )
+        .run(board.id, previous.date, previous.id).changes;
+    })();
   }
 }
@@ -0,0 +1,56 @@
+// server/src/db/card-event-repo.ts
+import Database from "better-sqlite3";
+import type { CardActor, CardEvent, CardEventType } from "@daily-kanban/shared";
+
+type EventValue = Record<string, unknown> | null;
+
+function rowToEvent(row: Record<string, unknown>): CardEvent {
+  return {
+    ...row,
+    old_value: row.old_value ? JSON.parse(row.old_value as string) : null,
+    new_value: row.new_value ? JSON.parse(row.new_value as string) : null,
+  } as CardEvent;
+}
+
+// Keeps only the keys whose value differs between `before` and `after`
+export function diffFields(before: object, after: Record<string, unknown>): [EventValue, EventValue] {
+  const previous = before as Record<string, unknown>;
+  const oldValue: Record<string, unknown> = {};
+  const newValue: Record<string, unknown> = {};
+  for (const key of Object.keys(after)) {
+    if (JSON.stringify(previous[key] ?? null) === JSON.stringify(after[key] ?? null)) continue;
+    oldValue[key] = previous[key] ?? null;
+    newValue[key] = after[key] ?? null;
+  }
+  return Object.keys(newValue).length > 0 ? [oldValue, newValue] : [null, null];
+}
+
+export class CardEventRepo {
+  constructor(private db: Database.Database) {}
+
+  record(cardId: number, type: CardEventType, actor: CardActor, oldValue: EventValue, newValue: EventValue): void {
+    this.db
+      .prepare(
+        `INSERT INTO card_events (card_id, type, actor, old_value, new_value)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        cardId,
+        type,
+        actor,
+        oldValue ? JSON.stringify(oldValue) : null,
+        newValue ? JSON.stringify(newValue) : null,
+      );
+  }
+
+  listByCard(cardId: number): CardEvent[] {
+    const rows = this.db
+      .prepare("SELECT * FROM card_events WHERE card_id = ? ORDER BY created_at ASC, id ASC")
+      .all(cardId) as Record<string, unknown>[];
+    return rows.map(rowToEvent);
+  }
+
+  deleteByCard(cardId: number): void {
+    this.db.prepare("DELETE FROM card_events WHERE card_id = ?").run(cardId);
+  }
+}
@@ -1,16 +1,50 @@
 // server/src/db/card-repo.ts
+import { EventEmitter } from "node:events";
 import Database from "better-sqlite3";
-import type { Card, ColumnName } from "@daily-kanban/shared";
+import type { BoardEvent, BoardEventType, BulkCardAction, Card, CardActor, CardEvent, CardPosition, CardSort, ColumnName, Priority } from "@daily-kanban/shared";
+import { LabelRepo } from "./label-repo.js";
+import { ChecklistRepo } from "./checklist-repo.js";
+import { DependencyRepo } from "./dependency-repo.js";
+import { CardEventRepo, diffFields } from "./card-event-repo.js";
 
-interface CreateCardInput {
+export interface CreateCardInput {
   board_id: number;
   source_id: string | null;
   source_type: string;
   title: string;
   body: string | null;
   metadata: Record<string, unknown> | null;
+  priority?: Priority;
+  due_at?: string | null;
+  ai_toggle?: boolean;
+  label_ids?: number[];
+  assignee_id?: number | null;
+  // The user whose connector brought the card in
+  source_user_id?: number | null;
+  // Imports place cards directly; everything else starts at the end of the inbox
+  column_name?: ColumnName;
+  position?: number;
 }
 
+interface UpdateCardInput {
+  title?: string;
+  body?: string | null;
+  metadata?: Record<string, unknown>;
+  priority?: Priority;
+  due_at?: string | null;
+}
+
+// Overdue (unfinished) cards first, then by priority (unprioritized last), then soonest due
+const URGENCY_ORDER = `
+  CASE WHEN column_name != 'done' AND julianday(due_at) < julianday('now') THEN 0 ELSE 1 END,
+  CASE WHEN priority = 0 THEN 5 ELSE priority END,
+  due_at IS NULL,
+  julianday(due_at),
+  position ASC`;
+
+// Below this, midpoints start running out of float precision
+const MIN_POSITION_GAP = 1e-6;
+
 interface AiEvaluationInput {
   confidence: number;
   proposed_action: string;
@@ -27,110 +61,613 @@ function rowToCard(row: Record<string, unknown>): Card {
 }
 
 export class CardRepo {
-  constructor(private db: Database.Database) {}
+  // One listener per open board stream, so no listener cap
+  private emitter = new EventEmitter().setMaxListeners(0);
+  // Changes made inside a batchedTransaction, announced once it commits
+  private deferred: Parameters<CardRepo["notify"]>[] | null = null;
 
-  create(input: CreateCardInput): Card {
+  constructor(
+    private db: Database.Database,
+    private labelRepo: LabelRepo = new LabelRepo(db),
+    private checklistRepo: ChecklistRepo = new ChecklistRepo(db),
+    private dependencyRepo: DependencyRepo = new DependencyRepo(db),
+    private eventRepo: CardEventRepo = new CardEventRepo(db),
+  ) {}
+
+  // Every mutation below records a card_events row naming the actor; callers
+  // outside user-facing routes pass "ai", "scheduler" or "connector".
+  create(input: CreateCardInput, actor: CardActor = "user"): Card {
+    const columnName = input.column_name ?? "inbox";
     const maxPos = this.db
-      .prepare("SELECT COALESCE(MAX(position), 0) as max_pos FROM cards WHERE board_id = ?")
-      .get(input.board_id) as { max_pos: number };
-    const position = maxPos.max_pos + 1;
+      .prepare("SELECT COALESCE(MAX(position), 0) as max_pos FROM cards WHERE board_id = ? AND column_name = ?")
+      .get(input.board_id, columnName) as { max_pos: number };
+    const position = input.position ?? maxPos.max_pos + 1;
 
-    const result = this.db
-      .prepare(
-        `INSERT INTO cards (board_id, source_id, source_type, title, body, metadata, position)
-         VALUES (?, ?, ?, ?, ?, ?, ?)`
-      )
-      .run(
-        input.board_id,
-        input.source_id,
-        input.source_type,
-        input.title,
-        input.body,
-        input.metadata ? JSON.stringify(input.metadata) : null,
-        position
-      );
+    const id = this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `INSERT INTO cards (board_id, source_id, source_type, column_name, title, body, metadata, position, priority, due_at, ai_toggle, assignee_id, source_user_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          input.board_id,
+          input.source_id,
+          input.source_type,
+          columnName,
+          input.title,
+          input.body,
+          input.metadata ? JSON.stringify(input.metadata) : null,
+          position,
+          input.priority ?? 0,
+          input.due_at ?? null,
+          input.ai_toggle ? 1 : 0,
+          input.assignee_id ?? null,
+          input.source_user_id ?? null
+        );
+      const id = Number(result.lastInsertRowid);
+      if (input.label_ids?.length) this.labelRepo.addToCard(id, input.label_ids);
+      this.eventRepo.record(id, "created", actor, null, {
+        title: input.title,
+        source_type: input.source_type,
+        column_name: columnName,
+      });
+      return id;
+    })();
 
-    return this.getById(Number(result.lastInsertRowid))!;
+    this.checklistRepo.syncFromPlan(id, input.body);
+    this.notify("created", id);
+    return this.getById(id)!;
   }
 
-  upsertFromConnector(input: CreateCardInput): Card | null {
-    const existing = this.db
+  getBySourceId(boardId: number, sourceId: string): Card | null {
+    const row = this.db
       .prepare("SELECT id FROM cards WHERE board_id = ? AND source_id = ?")
-      .get(input.board_id, input.source_id);
+      .get(boardId, sourceId) as { id: number } | undefined;
+    return row ? this.getById(row.id) : null;
+  }
 
-    if (existing) return null;
-    return this.create(input);
+  upsertFromConnector(input: CreateCardInput, actor: CardActor = "connector"): Card | null {
+    if (input.source_id && this.getBySourceId(input.board_id, input.source_id)) return null;
+    const card = this.create(input, actor);
+
+    // Connectors can tag items by putting label names in metadata.labels
+    const labelNames = input.metadata?.labels;
+    if (Array.isArray(labelNames) && labelNames.length > 0) {
+      const labels = labelNames
+        .filter((name): name is string => typeof name === "string" && name.trim() !== "")
+        .map((name) => this.labelRepo.ensure(name.trim()));
+      this.setLabels(card.id, labels.map((l) => l.id), actor);
+      return this.getById(card.id);
+    }
+    return card;
   }
 
   getById(id: number): Card | null {
     const row = this.db.prepare("SELECT * FROM cards WHERE id = ?").get(id) as Record<string, unknown> | undefined;
-    return row ? rowToCard(row) : null;
+    return row ? this.withRelations([rowToCard(row)])[0] : null;
   }
 
-  listByBoard(boardId: number): Card[] {
+  // `assignee` narrows to one user's cards, or to unassigned ones when null
+  listByBoard(
+    boardId: number,
+    options: { includeArchived?: boolean; sort?: CardSort; assignee?: number | null } = {},
+  ): Card[] {
+    const archivedFilter = options.includeArchived ? "" : "AND archived_at IS NULL";
+    const assigneeFilter =
+      options.assignee === undefined ? "" : options.assignee === null ? "AND assignee_id IS NULL" : "AND assignee_id = ?";
+    const order = options.sort === "urgency" ? URGENCY_ORDER : "position ASC, created_at ASC";
+    const params = typeof options.assignee === "number" ? [boardId, options.assignee] : [boardId];
     const rows = this.db
-      .prepare("SELECT * FROM cards WHERE board_id = ? ORDER BY position ASC, created_at ASC")
-      .all(boardId) as Record<string, unknown>[];
-    return rows.map(rowToCard);
+      .prepare(
+        `SELECT * FROM cards WHERE board_id = ? AND deleted_at IS NULL AND snoozed_until IS NULL ${archivedFilter} ${assigneeFilter}
+         ORDER BY ${order}`
+      )
+      .all(...params) as Record<string, unknown>[];
+    return this.withRelations(rows.map(rowToCard));
   }
 
-  moveToColumn(id: number, column: ColumnName, position?: number): void {
+  private withRelations(cards: Card[]): Card[] {
+    const ids = cards.map((c) => c.id);
+    const labels = this.labelRepo.listForCards(ids);
+    const checklists = this.checklistRepo.progressForCards(ids);
+    const dependencies = this.dependencyRepo.listForCards(ids);
+    return cards.map((c) => ({
+      ...c,
+      labels: labels.get(c.id) ?? [],
+      checklist: checklists.get(c.id) ?? { done: 0, total: 0 },
+      dependencies: dependencies.get(c.id) ?? { blocked_by: [], blocks: [], open_blockers: [] },
+    }));
+  }
+
+  // Partial update of user-editable fields. Metadata keys are merged into the
+  // existing object; a null value removes the key.
+  update(id: number, input: UpdateCardInput, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
+
+    let metadata = card.metadata;
+    if (input.metadata) {
+      metadata = { ...(card.metadata || {}) };
+      for (const [key, value] of Object.entries(input.metadata)) {
+        if (value === null) delete metadata[key];
+        else metadata[key] = value;
+      }
+    }
+
+    const next = {
+      title: input.title ?? card.title,
+      body: input.body !== undefined ? input.body : card.body,
+      metadata,
+      priority: input.priority ?? card.priority,
+      due_at: input.due_at !== undefined ? input.due_at : card.due_at,
+    };
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE cards SET title = ?, body = ?, metadata = ?, priority = ?, due_at = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .run(
+          next.title,
+          next.body,
+          metadata ? JSON.stringify(metadata) : null,
+          next.priority,
+          next.due_at,
+          id
+        );
+      this.recordChange(id, "updated", actor, card, next);
+    })();
+    if (input.body !== undefined) this.checklistRepo.syncFromPlan(id, input.body);
+    this.notify("updated", id);
+  }
+
+  moveToColumn(id: number, column: ColumnName, position?: number, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
     if (position === undefined) {
       const maxPos = this.db
-        .prepare("SELECT COALESCE(MAX(position), 0) as max_pos FROM cards WHERE board_id = (SELECT board_id FROM cards WHERE id = ?)")
-        .get(id) as { max_pos: number };
+        .prepare("SELECT COALESCE(MAX(position), 0) as max_pos FROM cards WHERE board_id = ? AND column_name = ?")
+        .get(card.board_id, column) as { max_pos: number };
       position = maxPos.max_pos + 1;
     }
-    this.db
-      .prepare("UPDATE cards SET column_name = ?, position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
-      .run(column, position, id);
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET column_name = ?, position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(column, position, id);
+      this.recordChange(id, "moved", actor, card, { column_name: column, position });
+    })();
+    this.notify("moved", id);
+    if (column !== card.column_name) this.notifyDependents(id);
   }
 
-  setAiToggle(id: number, value: boolean): void {
-    this.db
-      .prepare("UPDATE cards SET ai_toggle = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
-      .run(value ? 1 : 0, id);
-  }
-
-  setAiEvaluation(id: number, input: AiEvaluationInput): void {
-    this.db
+  // Places a card between two neighbors of the target column: after `afterId`
+  // and/or before `beforeId`, or at the end when neither is given. Positions
+  // are midpoints, so when a gap gets too narrow the whole column is spaced
+  // out again. Returns every position that changed, the moved card included.
+  reorder(
+    id: number,
+    column: ColumnName,
+    neighbors: { beforeId?: number | null; afterId?: number | null },
+    actor: CardActor = "user",
+  ): CardPosition[] {
+    const card = this.getById(id);
+    if (!card) return [];
+    const siblings = this.db
       .prepare(
-        `UPDATE cards SET confidence = ?, proposed_action = ?, action_payload = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        `SELECT id, position FROM cards
+         WHERE board_id = ? AND column_name = ? AND id != ? AND deleted_at IS NULL AND archived_at IS NULL
+           AND snoozed_until IS NULL
+         ORDER BY position ASC, id ASC`
       )
-      .run(
-        input.confidence,
-        input.proposed_action,
-        input.action_payload ? JSON.stringify(input.action_payload) : null,
-        id
-      );
+      .all(card.board_id, column, id) as CardPosition[];
+
+    let index = siblings.length;
+    if (neighbors.afterId != null) {
+      index = siblings.findIndex((c) => c.id === neighbors.afterId) + 1;
+    } else if (neighbors.beforeId != null) {
+      index = siblings.findIndex((c) => c.id === neighbors.beforeId);
+    }
+    // A neighbor that has since left the column puts the card at the end
+    if (index < 0) index = siblings.length;
+
+    const lower = siblings[index - 1]?.position;
+    const upper = siblings[index]?.position;
+    let position: number;
+    if (lower !== undefined && upper !== undefined) position = (lower + upper) / 2;
+    else if (lower !== undefined) position = lower + 1;
+    else if (upper !== undefined) position = upper - 1;
+    else position = 1;
+
+    const renumbered: CardPosition[] = [];
+    if (lower !== undefined && upper !== undefined && upper - lower < MIN_POSITION_GAP) {
+      const ordered = [...siblings.slice(0, index), { id, position }, ...siblings.slice(index)];
+      ordered.forEach((c, i) => {
+        if (c.id === id) position = i + 1;
+        else if (c.position !== i + 1) renumbered.push({ id: c.id, position: i + 1 });
+      });
+    }
+
+    this.db.transaction(() => {
+      const update = this.db.prepare("UPDATE cards SET position = ? WHERE id = ?");
+      for (const c of renumbered) update.run(c.position, c.id);
+      this.db
+        .prepare("UPDATE cards SET column_name = ?, position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(column, position, id);
+      this.recordChange(id, "moved", actor, card, { column_name: column, position });
+    })();
+    // Renumbering isn't a user-visible change, so it gets no timeline entry,
+    // but open boards still need the new order
+    for (const c of renumbered) this.notify("moved", c.id, card.board_id);
+    this.notify("moved", id, card.board_id);
+    if (column !== card.column_name) this.notifyDependents(id);
+    return [{ id, position }, ...renumbered];
   }
 
-  setExecutionResult(id: number, result: string): void {
-    this.db
-      .prepare("UPDATE cards SET execution_result = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
-      .run(result, id);
+  // Returns false when the user does not exist; null unassigns
+  assign(id: number, assigneeId: number | null, actor: CardActor = "user"): boolean {
+    const card = this.getById(id);
+    if (!card) return false;
+    if (assigneeId !== null && !this.db.prepare("SELECT 1 FROM users WHERE id = ?").get(assigneeId)) return false;
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET assignee_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(assigneeId, id);
+      this.recordChange(id, "updated", actor, card, { assignee_id: assigneeId });
+    })();
+    this.notify("updated", id);
+    return true;
   }
 
-  setBody(id: number, body: string): void {
-    this.db
-      .prepare("UPDATE cards SET body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
-      .run(body, id);
+  // Replaces the card's labels
+  setLabels(id: number, labelIds: number[], actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    this.db.transaction(() => {
+      this.labelRepo.setCardLabels(id, labelIds);
+      const labels = this.labelRepo.listForCards([id]).get(id) ?? [];
+      this.recordChange(id, "updated", actor, { labels: card.labels.map((l) => l.name) }, { labels: labels.map((l) => l.name) });
+    })();
+    this.notify("updated", id);
   }
 
-  setMetadataField(id: number, key: string, value: unknown): void {
+  // Takes the label off every card that carries it, then deletes it
+  deleteLabel(labelId: number, actor: CardActor = "user"): boolean {
+    return this.batchedTransaction(() => {
+      const rows = this.db.prepare("SELECT card_id FROM card_labels WHERE label_id = ?").all(labelId) as { card_id: number }[];
+      for (const { card_id } of rows) {
+        const card = this.getById(card_id)!;
+        this.setLabels(card_id, card.labels.filter((l) => l.id !== labelId).map((l) => l.id), actor);
+      }
+      return this.labelRepo.delete(labelId);
+    });
+  }
+
+  setAiToggle(id: number, value: boolean, actor: CardActor = "user"): void {
     const card = this.getById(id);
     if (!card) return;
-    const metadata = card.metadata || {};
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET ai_toggle = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(value ? 1 : 0, id);
+      this.recordChange(id, "ai_toggled", actor, card, { ai_toggle: value });
+    })();
+    this.notify("updated", id);
+  }
+
+  setAiEvaluation(id: number, input: AiEvaluationInput, actor: CardActor = "ai"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE cards SET confidence = ?, proposed_action = ?, action_payload = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`
+        )
+        .run(
+          input.confidence,
+          input.proposed_action,
+          input.action_payload ? JSON.stringify(input.action_payload) : null,
+          id
+        );
+      this.recordChange(id, "ai_evaluated", actor, card, { ...input });
+    })();
+    this.notify("updated", id);
+  }
+
+  setExecutionResult(id: number, result: string, actor: CardActor = "ai"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET execution_result = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(result, id);
+      this.recordChange(id, "execution_result", actor, card, { execution_result: result });
+    })();
+    this.notify("updated", id);
+  }
+
+  // Task list lines in the body (e.g. an AI plan) become checklist items
+  setBody(id: number, body: string, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(body, id);
+      this.recordChange(id, "updated", actor, card, { body });
+    })();
+    this.checklistRepo.syncFromPlan(id, body);
+    this.notify("updated", id);
+  }
+
+  setMetadataField(id: number, key: string, value: unknown, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    const metadata = { ...(card.metadata || {}) };
     metadata[key] = value;
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET metadata = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(JSON.stringify(metadata), id);
+      this.recordChange(id, "updated", actor, { [key]: card.metadata?.[key] }, { [key]: value });
+    })();
+    this.notify("updated", id);
+  }
+
+  // Soft delete and archive hide the card from its board but keep its
+  // sessions and logs; any session still running or paused is closed out.
+  softDelete(id: number, actor: CardActor = "user"): void {
+    const changed = this.db.transaction(() => {
+      const changed = this.db
+        .prepare("UPDATE cards SET deleted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(id).changes;
+      this.cancelOpenSessions(id);
+      if (changed) this.eventRepo.record(id, "deleted", actor, null, null);
+      return changed;
+    })();
+    if (changed) {
+      this.notify("deleted", id);
+      this.notifyDependents(id);
+    }
+  }
+
+  archive(id: number, actor: CardActor = "user"): void {
+    const changed = this.db.transaction(() => {
+      const changed = this.db
+        .prepare("UPDATE cards SET archived_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(id).changes;
+      this.cancelOpenSessions(id);
+      if (changed) this.eventRepo.record(id, "archived", actor, null, null);
+      return changed;
+    })();
+    // Archived cards leave the board just like deleted ones
+    if (changed) {
+      this.notify("deleted", id);
+      this.notifyDependents(id);
+    }
+  }
+
+  restore(id: number, actor: CardActor = "user"): void {
+    const changed = this.db.transaction(() => {
+      const changed = this.db
+        .prepare("UPDATE cards SET deleted_at = NULL, archived_at = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(id).changes;
+      if (changed) this.eventRepo.record(id, "restored", actor, null, null);
+      return changed;
+    })();
+    if (changed) {
+      this.notify("updated", id);
+      this.notifyDependents(id);
+    }
+  }
+
+  // Permanently removes a card together with its execution history
+  hardDelete(id: number): boolean {
+    const boardId = this.boardIdOf(id);
+    const dependents = this.dependentsOf(id);
+    const deleted = this.db.transaction(() => {
+      this.db.prepare("DELETE FROM execution_logs WHERE card_id = ?").run(id);
+      this.db.prepare("DELETE FROM execution_sessions WHERE card_id = ?").run(id);
+      this.db.prepare("DELETE FROM card_checklist_items WHERE card_id = ?").run(id);
+      this.db.prepare("DELETE FROM card_comments WHERE card_id = ?").run(id);
+      this.dependencyRepo.deleteByCard(id);
+      this.eventRepo.deleteByCard(id);
+      return this.db.prepare("DELETE FROM cards WHERE id = ?").run(id).changes > 0;
+    })();
+    if (deleted) {
+      this.notify("deleted", id, boardId);
+      this.notifyDependents(id, dependents);
+    }
+    return deleted;
+  }
+
+  // Live feed of board changes (see GET /api/board/events). Returns an
+  // unsubscribe function.
+  subscribe(listener: (event: BoardEvent) => void): () => void {
+    this.emitter.on("change", listener);
+    return () => this.emitter.off("change", listener);
+  }
+
+  private notify(type: BoardEventType, id: number, knownBoardId?: number | null): void {
+    if (this.emitter.listenerCount("change") === 0) return;
+    if (this.deferred) {
+      this.deferred.push([type, id, knownBoardId]);
+      return;
+    }
+    const boardId = knownBoardId ?? this.boardIdOf(id);
+    if (boardId === null) return;
+    const event: BoardEvent = {
+      type,
+      card_id: id,
+      board_id: boardId,
+      card: type === "deleted" ? null : this.getById(id),
+    };
+    this.emitter.emit("change", event);
+  }
+
+  // The cards `id` blocks list it in open_blockers, so their boards need to
+  // hear whenever it enters or leaves done or the board
+  private notifyDependents(id: number, dependents = this.dependentsOf(id)): void {
+    for (const blockedId of dependents) this.notify("updated", blockedId);
+  }
+
+  private dependentsOf(id: number): number[] {
+    if (this.emitter.listenerCount("change") === 0) return [];
+    return this.dependencyRepo.listForCards([id]).get(id)?.blocks ?? [];
+  }
+
+  private boardIdOf(id: number): number | null {
+    const row = this.db.prepare("SELECT board_id FROM cards WHERE id = ?").get(id) as { board_id: number } | undefined;
+    return row?.board_id ?? null;
+  }
+
+  listEvents(cardId: number): CardEvent[] {
+    return this.eventRepo.listByCard(cardId);
+  }
+
+  // Records only the fields that actually changed; a no-op write leaves no event
+  private recordChange(
+    id: number,
+    type: "updated" | "moved" | "ai_toggled" | "ai_evaluated" | "execution_result",
+    actor: CardActor,
+    before: object,
+    after: Record<string, unknown>,
+  ): void {
+    const [oldValue, newValue] = diffFields(before, after);
+    if (newValue) this.eventRepo.record(id, type, actor, oldValue, newValue);
+  }
+  private cancelOpenSessions(cardId: number): void {
     this.db
-      .prepare("UPDATE cards SET metadata = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
-      .run(JSON.stringify(metadata), id);
+      .prepare(
+        `UPDATE execution_sessions SET status = 'cancelled', finished_at = CURRENT_TIMESTAMP
+         WHERE card_id = ? AND status IN ('running', 'paused')`
+      )
+      .run(cardId);
+  }
+
+  // Hides a card until `until` (ISO timestamp); the scheduler wakes it with wake()
+  snooze(id: number, until: string, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card) return;
+    this.db.transaction(() => {
+      this.db
+        .prepare("UPDATE cards SET snoozed_until = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+        .run(until, id);
+      this.cancelOpenSessions(id);
+      this.eventRepo.record(id, "snoozed", actor, null, { snoozed_until: until });
+    })();
+    // Snoozed cards leave the board until they wake
+    this.notify("deleted", id, card.board_id);
+  }
+
+  // Puts a snoozed card back at the end of the inbox on `boardId`
+  wake(id: number, boardId: number, actor: CardActor = "user"): void {
+    const card = this.getById(id);
+    if (!card || card.snoozed_until === null) return;
+    const maxPos = this.db
+      .prepare("SELECT COALESCE(MAX(position), 0) as max_pos FROM cards WHERE board_id = ? AND column_name = 'inbox'")
+      .get(boardId) as { max_pos: number };
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE cards SET snoozed_until = NULL, board_id = ?, column_name = 'inbox', position = ?,
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .run(boardId, maxPos.max_pos + 1, id);
+      this.eventRepo.record(id, "woke", actor, { snoozed_until: card.snoozed_until }, null);
+    })();
+    this.notify("moved", id, boardId);
+    if (card.column_name !== "inbox") this.notifyDependents(id);
+  }
+
+  // Snoozed cards that are still around, soonest to wake first
+  listSnoozed(): Card[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM cards WHERE snoozed_until IS NOT NULL AND deleted_at IS NULL AND archived_at IS NULL
+         ORDER BY snoozed_until ASC`
+      )
+      .all() as Record<string, unknown>[];
+    return this.withRelations(rows.map(rowToCard));
+  }
+
+  // Ids of snoozed cards whose time has come
+  listDueSnoozed(now: Date = new Date()): number[] {
+    return (this.db
+      .prepare(
+        `SELECT id FROM cards WHERE snoozed_until IS NOT NULL AND snoozed_until <= ?
+           AND deleted_at IS NULL AND archived_at IS NULL`
+      )
+      .all(now.toISOString()) as { id: number }[]).map((row) => row.id);
+  }
+
+  // Clears a board by soft-deleting its visible cards so the purge can be
+  // undone with restoreMany. Returns the ids that were deleted.
+  softDeleteAllByBoard(boardId: number, actor: CardActor = "user"): number[] {
+    const ids = (this.db
+      .prepare(
+        "SELECT id FROM cards WHERE board_id = ? AND deleted_at IS NULL AND archived_at IS NULL AND snoozed_until IS NULL"
+      )
+      .all(boardId) as { id: number }[]).map((row) => row.id);
+    this.db.transaction(() => {
+      for (const id of ids) this.softDelete(id, actor);
+    })();
+    return ids;
+  }
+
+  restoreMany(ids: number[], actor: CardActor = "user"): void {
+    this.db.transaction(() => {
+      for (const id of ids) this.restore(id, actor);
+    })();
   }
 
-  deleteAllByBoard(boardId: number): number {
-    const result = this.db
-      .prepare("DELETE FROM cards WHERE board_id = ?")
-      .run(boardId);
-    return result.changes;
+  // Applies one action to every card in a single transaction; moved cards
+  // keep their relative order at the end of the target column
+  applyBulk(ids: number[], action: BulkCardAction, actor: CardActor = "user"): void {
+    this.batchedTransaction(() => {
+      for (const id of ids) {
+        switch (action.type) {
+          case "move":
+            this.moveToColumn(id, action.column_name, undefined, actor);
+            break;
+          case "archive":
+            this.archive(id, actor);
+            break;
+          case "delete":
+            this.softDelete(id, actor);
+            break;
+          case "toggle_ai":
+            this.setAiToggle(id, action.ai_toggle, actor);
+            break;
+          case "set_repo":
+            this.setMetadataField(id, "repo_id", action.repo_id, actor);
+            break;
+          case "add_label":
+          case "remove_label": {
+            const card = this.getById(id);
+            if (!card) break;
+            const others = card.labels.map((l) => l.id).filter((labelId) => labelId !== action.label_id);
+            this.setLabels(id, action.type === "add_label" ? [...others, action.label_id] : others, actor);
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  // Runs `fn` in one transaction and only tells subscribers about the cards
+  // it changed once that transaction has committed
+  private batchedTransaction<T>(fn: () => T): T {
+    const changes: Parameters<CardRepo["notify"]>[] = [];
+    this.deferred = changes;
+    let result: T;
+    try {
+      result = this.db.transaction(fn)();
+    } finally {
+      this.deferred = null;
+    }
+    for (const change of changes) this.notify(...change);
+    return result;
   }
 }
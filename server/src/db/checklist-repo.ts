@@ -0,0 +1,179 @@
+// server/src/db/checklist-repo.ts
+import Database from "better-sqlite3";
+import type { ChecklistItem, ChecklistProgress, ChecklistSource, TodoItem } from "@daily-kanban/shared";
+
+function rowToItem(row: Record<string, unknown>): ChecklistItem {
+  return { ...row, checked: Boolean(row.checked) } as ChecklistItem;
+}
+
+// Markdown task list lines: "- [ ] do this" / "* [x] done that"
+export function parseChecklist(body: string | null): { text: string; checked: boolean }[] {
+  if (!body) return [];
+  const items: { text: string; checked: boolean }[] = [];
+  const regex = /^\s*[-*]\s+\[([ xX])\]\s+(.+)$/gm;
+  let match;
+  while ((match = regex.exec(body)) !== null) {
+    items.push({ checked: match[1] !== " ", text: match[2].trim() });
+  }
+  return items;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// Loose match between a plan step and a todo subject: the same words, one
+// containing the other, or most of the shorter one's words in common.
+export function textsMatch(a: string, b: string): boolean {
+  const na = normalize(a);
+  const nb = normalize(b);
+  if (!na || !nb) return false;
+  if (na === nb || na.includes(nb) || nb.includes(na)) return true;
+
+  const wordsA = new Set(na.split(" "));
+  const wordsB = new Set(nb.split(" "));
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return shared / Math.min(wordsA.size, wordsB.size) >= 0.6;
+}
+
+export class ChecklistRepo {
+  constructor(private db: Database.Database) {}
+
+  listByCard(cardId: number): ChecklistItem[] {
+    const rows = this.db
+      .prepare("SELECT * FROM card_checklist_items WHERE card_id = ? ORDER BY position ASC, id ASC")
+      .all(cardId) as Record<string, unknown>[];
+    return rows.map(rowToItem);
+  }
+
+  getById(id: number): ChecklistItem | null {
+    const row = this.db
+      .prepare("SELECT * FROM card_checklist_items WHERE id = ?")
+      .get(id) as Record<string, unknown> | undefined;
+    return row ? rowToItem(row) : null;
+  }
+
+  create(
+    cardId: number,
+    text: string,
+    options: { source?: ChecklistSource; checked?: boolean; todoId?: string | null } = {},
+  ): ChecklistItem {
+    const maxPos = this.db
+      .prepare("SELECT MAX(position) as max_pos FROM card_checklist_items WHERE card_id = ?")
+      .get(cardId) as { max_pos: number | null };
+
+    const result = this.db
+      .prepare(
+        `INSERT INTO card_checklist_items (card_id, text, checked, position, source, todo_id)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        cardId,
+        text,
+        options.checked ? 1 : 0,
+        Math.max(maxPos.max_pos ?? 0, 0) + 1,
+        options.source ?? "manual",
+        options.todoId ?? null,
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(id: number, input: { text?: string; checked?: boolean }): void {
+    const item = this.getById(id);
+    if (!item) return;
+    this.db
+      .prepare("UPDATE card_checklist_items SET text = ?, checked = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(input.text ?? item.text, (input.checked ?? item.checked) ? 1 : 0, id);
+  }
+
+  delete(id: number): boolean {
+    return this.db.prepare("DELETE FROM card_checklist_items WHERE id = ?").run(id).changes > 0;
+  }
+
+  progressForCards(cardIds: number[]): Map<number, ChecklistProgress> {
+    const byCard = new Map<number, ChecklistProgress>();
+    if (cardIds.length === 0) return byCard;
+
+    const rows = this.db
+      .prepare(
+        `SELECT card_id, COUNT(*) AS total, SUM(checked) AS done FROM card_checklist_items
+         WHERE card_id IN (SELECT value FROM json_each(?))
+         GROUP BY card_id`
+      )
+      .all(JSON.stringify(cardIds)) as { card_id: number; total: number; done: number }[];
+
+    for (const row of rows) byCard.set(row.card_id, { done: row.done, total: row.total });
+    return byCard;
+  }
+
+  // Mirrors the task list in a card body into "plan" items. Items whose text
+  // is unchanged keep their id and checked state; "[x]" in the body checks an
+  // item but an unchecked box never unticks one that was completed here.
+  syncFromPlan(cardId: number, body: string | null): void {
+    const parsed = parseChecklist(body);
+    this.db.transaction(() => {
+      const existing = this.db
+        .prepare("SELECT * FROM card_checklist_items WHERE card_id = ? AND source = 'plan'")
+        .all(cardId)
+        .map((row) => rowToItem(row as Record<string, unknown>));
+      const unused = new Map(existing.map((item) => [item.id, item]));
+      // Plan items take negative positions so they sort ahead of manual and todo items
+      const position = (i: number) => i - parsed.length;
+
+      parsed.forEach((entry, i) => {
+        const match = [...unused.values()].find((item) => normalize(item.text) === normalize(entry.text));
+        if (match) {
+          unused.delete(match.id);
+          this.db
+            .prepare(
+              `UPDATE card_checklist_items SET text = ?, position = ?, checked = MAX(checked, ?), updated_at = CURRENT_TIMESTAMP
+               WHERE id = ?`
+            )
+            .run(entry.text, position(i), entry.checked ? 1 : 0, match.id);
+        } else {
+          this.db
+            .prepare(
+              `INSERT INTO card_checklist_items (card_id, text, checked, position, source)
+               VALUES (?, ?, ?, ?, 'plan')`
+            )
+            .run(cardId, entry.text, entry.checked ? 1 : 0, position(i));
+        }
+      });
+
+      const remove = this.db.prepare("DELETE FROM card_checklist_items WHERE id = ?");
+      for (const id of unused.keys()) remove.run(id);
+    })();
+  }
+
+  // Task ids restart at 1 with every execution, so a new one must not reach
+  // the items an earlier run's tasks were linked to
+  unlinkTodos(cardId: number): void {
+    this.db.prepare("UPDATE card_checklist_items SET todo_id = NULL WHERE card_id = ?").run(cardId);
+  }
+
+  // Records an execution todo: links it to the matching plan item (or an item
+  // it was linked to earlier) and ticks that item off once the todo completes.
+  // Todos that match nothing become their own "todo" items. A todo without a
+  // subject (an update naming only its task id) only reaches linked items.
+  applyTodo(cardId: number, todo: TodoItem): ChecklistItem | null {
+    const items = this.listByCard(cardId);
+    const checked = todo.status === "completed";
+
+    const linked =
+      items.find((item) => item.todo_id !== null && item.todo_id === todo.id) ??
+      (todo.subject ? items.find((item) => item.todo_id === null && textsMatch(item.text, todo.subject)) : undefined);
+
+    if (linked) {
+      this.db
+        .prepare(
+          `UPDATE card_checklist_items SET todo_id = ?, checked = MAX(checked, ?), updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .run(todo.id, checked ? 1 : 0, linked.id);
+      return this.getById(linked.id);
+    }
+
+    if (!todo.subject) return null;
+    return this.create(cardId, todo.subject, { source: "todo", checked, todoId: todo.id });
+  }
+}
@@ -0,0 +1,190 @@
+// server/src/db/column-repo.ts
+import Database from "better-sqlite3";
+import type { BoardColumn, CardActor, ColumnBehavior, ColumnName } from "@daily-kanban/shared";
+import { CardEventRepo } from "./card-event-repo.js";
+
+// The server itself moves cards into these (new items, AI results, finished
+// work), so they can be renamed or recolored but never removed.
+const SYSTEM_COLUMNS: ColumnName[] = ["inbox", "review", "done"];
+
+const DEFAULT_COLUMNS: { key: ColumnName; name: string; color: string; behavior: ColumnBehavior | null }[] = [
+  { key: "inbox", name: "Inbox", color: "#3b82f6", behavior: null },
+  { key: "in_process", name: "In Process", color: "#06b6d4", behavior: "start_ai" },
+  { key: "review", name: "Review", color: "#eab308", behavior: null },
+  { key: "ai_do", name: "AI Do", color: "#a855f7", behavior: "execute_action" },
+  { key: "human_do", name: "Human Do", color: "#f97316", behavior: null },
+  { key: "done", name: "Done", color: "#22c55e", behavior: null },
+];
+
+function rowToColumn(row: Record<string, unknown>): BoardColumn {
+  return { ...row, system: SYSTEM_COLUMNS.includes(row.key as ColumnName) } as BoardColumn;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "column";
+}
+
+export class ColumnRepo {
+  constructor(
+    private db: Database.Database,
+    private eventRepo: CardEventRepo = new CardEventRepo(db),
+  ) {}
+
+  // A board without columns of its own starts from the most recent board's
+  // layout, or the built-in defaults for the very first board.
+  listByBoard(boardId: number): BoardColumn[] {
+    const select = this.db.prepare("SELECT * FROM board_columns WHERE board_id = ? ORDER BY position ASC, id ASC");
+    let rows = select.all(boardId) as Record<string, unknown>[];
+    if (rows.length === 0) {
+      this.seed(boardId);
+      rows = select.all(boardId) as Record<string, unknown>[];
+    }
+    return rows.map(rowToColumn);
+  }
+
+  getById(id: number): BoardColumn | null {
+    const row = this.db.prepare("SELECT * FROM board_columns WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+    return row ? rowToColumn(row) : null;
+  }
+
+  getByKey(boardId: number, key: ColumnName): BoardColumn | null {
+    return this.listByBoard(boardId).find((c) => c.key === key) ?? null;
+  }
+
+  create(
+    boardId: number,
+    input: { name: string; color?: string; wip_limit?: number | null; behavior?: ColumnBehavior | null },
+  ): BoardColumn {
+    const existing = this.listByBoard(boardId);
+    const keys = new Set(existing.map((c) => c.key));
+    const base = slugify(input.name);
+    let key = base;
+    for (let n = 2; keys.has(key); n++) key = `${base}_${n}`;
+
+    const result = this.db
+      .prepare(
+        `INSERT INTO board_columns (board_id, key, name, color, position, wip_limit, behavior)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        boardId,
+        key,
+        input.name,
+        input.color ?? "#64748b",
+        Math.max(0, ...existing.map((c) => c.position)) + 1,
+        input.wip_limit ?? null,
+        input.behavior ?? null,
+      );
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(
+    id: number,
+    input: { name?: string; color?: string; wip_limit?: number | null; behavior?: ColumnBehavior | null },
+  ): void {
+    const column = this.getById(id);
+    if (!column) return;
+    this.db
+      .prepare("UPDATE board_columns SET name = ?, color = ?, wip_limit = ?, behavior = ? WHERE id = ?")
+      .run(
+        input.name ?? column.name,
+        input.color ?? column.color,
+        input.wip_limit !== undefined ? input.wip_limit : column.wip_limit,
+        input.behavior !== undefined ? input.behavior : column.behavior,
+        id,
+      );
+  }
+
+  // Live cards have to be moved out first; archived, snoozed and deleted
+  // ones still carrying the key go to the end of the inbox, so they don't
+  // come back into a column that no longer exists
+  delete(id: number, actor: CardActor = "user"): boolean {
+    const column = this.getById(id);
+    if (!column) return false;
+    this.db.transaction(() => {
+      const cards = this.db
+        .prepare("SELECT id, position FROM cards WHERE board_id = ? AND column_name = ? ORDER BY position ASC, id ASC")
+        .all(column.board_id, column.key) as { id: number; position: number }[];
+      const { max_pos } = this.db
+        .prepare("SELECT COALESCE(MAX(position), 0) AS max_pos FROM cards WHERE board_id = ? AND column_name = 'inbox'")
+        .get(column.board_id) as { max_pos: number };
+      const move = this.db.prepare(
+        "UPDATE cards SET column_name = 'inbox', position = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+      );
+      cards.forEach((card, i) => {
+        move.run(max_pos + i + 1, card.id);
+        this.eventRepo.record(
+          card.id,
+          "moved",
+          actor,
+          { column_name: column.key, position: card.position },
+          { column_name: "inbox", position: max_pos + i + 1 },
+        );
+      });
+      this.db.prepare("DELETE FROM board_columns WHERE id = ?").run(id);
+    })();
+    return true;
+  }
+
+  // `ids` lists the board's columns in their new order
+  reorder(boardId: number, ids: number[]): void {
+    const update = this.db.prepare("UPDATE board_columns SET position = ? WHERE id = ? AND board_id = ?");
+    this.db.transaction(() => {
+      ids.forEach((id, i) => update.run(i + 1, id, boardId));
+    })();
+  }
+
+  // Cards that count toward the WIP limit: everything still on the board
+  countCards(boardId: number, key: ColumnName, excludeCardId?: number): number {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS n FROM cards
+         WHERE board_id = ? AND column_name = ? AND id != ?
+           AND deleted_at IS NULL AND archived_at IS NULL AND snoozed_until IS NULL`
+      )
+      .get(boardId, key, excludeCardId ?? -1) as { n: number };
+    return row.n;
+  }
+
+  private seed(boardId: number): void {
+    const source = this.db
+      .prepare(
+        `SELECT bc.board_id FROM board_columns bc JOIN boards b ON b.id = bc.board_id
+         WHERE bc.board_id != ? ORDER BY b.date DESC LIMIT 1`
+      )
+      .get(boardId) as { board_id: number } | undefined;
+
+    const insert = this.db.prepare(
+      `INSERT OR IGNORE INTO board_columns (board_id, key, name, color, position, wip_limit, behavior)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    this.db.transaction(() => {
+      if (source) {
+        const rows = this.db
+          .prepare("SELECT * FROM board_columns WHERE board_id = ? ORDER BY position ASC, id ASC")
+          .all(source.board_id) as BoardColumn[];
+        rows.forEach((c, i) => insert.run(boardId, c.key, c.name, c.color, i + 1, c.wip_limit, c.behavior));
+      } else {
+        DEFAULT_COLUMNS.forEach((c, i) => insert.run(boardId, c.key, c.name, c.color, i + 1, null, c.behavior));
+      }
+
+      // Keep cards visible even if the layout no longer has their column
+      const orphans = this.db
+        .prepare(
+          `SELECT DISTINCT column_name FROM cards
+           WHERE board_id = ? AND column_name NOT IN (SELECT key FROM board_columns WHERE board_id = ?)`
+        )
+        .all(boardId, boardId) as { column_name: string }[];
+      const last = (this.db
+        .prepare("SELECT COALESCE(MAX(position), 0) AS max_pos FROM board_columns WHERE board_id = ?")
+        .get(boardId) as { max_pos: number }).max_pos;
+      orphans.forEach(({ column_name }, i) => {
+        const builtin = DEFAULT_COLUMNS.find((c) => c.key === column_name);
+        insert.run(
+          boardId, column_name, builtin?.name ?? column_name, builtin?.color ?? "#64748b",
+          last + i + 1, null, builtin?.behavior ?? null,
+        );
+      });
+    })();
+  }
+}
@@ -0,0 +1,35 @@
+// server/src/db/comment-repo.ts
+import Database from "better-sqlite3";
+import type { CardComment } from "@daily-kanban/shared";
+
+export class CommentRepo {
+  constructor(private db: Database.Database) {}
+
+  listByCard(cardId: number): CardComment[] {
+    return this.db
+      .prepare("SELECT * FROM card_comments WHERE card_id = ? ORDER BY created_at ASC, id ASC")
+      .all(cardId) as CardComment[];
+  }
+
+  getById(id: number): CardComment | null {
+    const row = this.db.prepare("SELECT * FROM card_comments WHERE id = ?").get(id) as CardComment | undefined;
+    return row ?? null;
+  }
+
+  create(cardId: number, body: string): CardComment {
+    const result = this.db
+      .prepare("INSERT INTO card_comments (card_id, body) VALUES (?, ?)")
+      .run(cardId, body);
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  update(id: number, body: string): void {
+    this.db
+      .prepare("UPDATE card_comments SET body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(body, id);
+  }
+
+  delete(id: number): boolean {
+    return this.db.prepare("DELETE FROM card_comments WHERE id = ?").run(id).changes > 0;
+  }
+}
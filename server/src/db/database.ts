@@ -4,7 +4,12 @@ import { fileURLToPath } from "url";
 import { migrate } from "./migrate.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const DB_PATH = process.env.DB_PATH || join(__dirname, "..", "..", "daily-kanban.db");
+export const DB_PATH = process.env.DB_PATH || join(__dirname, "..", "..", "daily-kanban.db");
+// Encrypts connector credentials unless CREDENTIALS_KEY is set; created on first run
+export const CREDENTIALS_KEY_FILE = process.env.CREDENTIALS_KEY_FILE || join(dirname(DB_PATH), "daily-kanban.key");
+// Every API request must carry this token unless API_TOKEN is set; created on first run
+export const API_TOKEN_FILE = process.env.API_TOKEN_FILE || join(dirname(DB_PATH), "daily-kanban.token");
+export const BACKUP_DIR = process.env.BACKUP_DIR || join(dirname(DB_PATH), "backups");
 
 let db: Database.Database | null = null;
 
@@ -0,0 +1,90 @@
+// server/src/db/dependency-repo.ts
+import Database from "better-sqlite3";
+import type { CardDependencies } from "@daily-kanban/shared";
+
+// A blocker stops blocking once it is done, deleted or archived, so cards
+// unblock on their own without anything having to clear the relation.
+const OPEN_BLOCKER = "c.column_name != 'done' AND c.deleted_at IS NULL AND c.archived_at IS NULL";
+
+export class DependencyRepo {
+  constructor(private db: Database.Database) {}
+
+  add(blockerId: number, blockedId: number): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO card_dependencies (blocker_id, blocked_id) VALUES (?, ?)")
+      .run(blockerId, blockedId);
+  }
+
+  remove(blockerId: number, blockedId: number): boolean {
+    return this.db
+      .prepare("DELETE FROM card_dependencies WHERE blocker_id = ? AND blocked_id = ?")
+      .run(blockerId, blockedId).changes > 0;
+  }
+
+  // True when `blockedId` already (transitively) blocks `blockerId`, i.e.
+  // adding blockerId -> blockedId would close a cycle.
+  wouldCycle(blockerId: number, blockedId: number): boolean {
+    if (blockerId === blockedId) return true;
+    const row = this.db
+      .prepare(
+        `WITH RECURSIVE downstream(id) AS (
+           SELECT blocked_id FROM card_dependencies WHERE blocker_id = ?
+           UNION
+           SELECT d.blocked_id FROM card_dependencies d JOIN downstream ON d.blocker_id = downstream.id
+         )
+         SELECT 1 FROM downstream WHERE id = ?`
+      )
+      .get(blockedId, blockerId);
+    return row !== undefined;
+  }
+
+  // Ids of the cards still holding `cardId` up
+  openBlockers(cardId: number): number[] {
+    const rows = this.db
+      .prepare(
+        `SELECT d.blocker_id FROM card_dependencies d
+         JOIN cards c ON c.id = d.blocker_id
+         WHERE d.blocked_id = ? AND ${OPEN_BLOCKER}
+         ORDER BY d.blocker_id`
+      )
+      .all(cardId) as { blocker_id: number }[];
+    return rows.map((r) => r.blocker_id);
+  }
+
+  listForCards(cardIds: number[]): Map<number, CardDependencies> {
+    const byCard = new Map<number, CardDependencies>();
+    if (cardIds.length === 0) return byCard;
+    const entry = (id: number) => {
+      let deps = byCard.get(id);
+      if (!deps) {
+        deps = { blocked_by: [], blocks: [], open_blockers: [] };
+        byCard.set(id, deps);
+      }
+      return deps;
+    };
+
+    const ids = JSON.stringify(cardIds);
+    const rows = this.db
+      .prepare(
+        `SELECT d.blocker_id, d.blocked_id, (${OPEN_BLOCKER}) AS open
+         FROM card_dependencies d
+         JOIN cards c ON c.id = d.blocker_id
+         WHERE d.blocker_id IN (SELECT value FROM json_each(?))
+            OR d.blocked_id IN (SELECT value FROM json_each(?))
+         ORDER BY d.blocker_id, d.blocked_id`
+      )
+      .all(ids, ids) as { blocker_id: number; blocked_id: number; open: number }[];
+
+    for (const row of rows) {
+      const blocked = entry(row.blocked_id);
+      blocked.blocked_by.push(row.blocker_id);
+      if (row.open) blocked.open_blockers.push(row.blocker_id);
+      entry(row.blocker_id).blocks.push(row.blocked_id);
+    }
+    return byCard;
+  }
+
+  deleteByCard(cardId: number): void {
+    this.db.prepare("DELETE FROM card_dependencies WHERE blocker_id = ? OR blocked_id = ?").run(cardId, cardId);
+  }
+}
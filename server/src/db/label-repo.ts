@@ -0,0 +1,93 @@
+import Database from "better-sqlite3";
+import type { Label } from "@daily-kanban/shared";
+
+// Colors handed out to labels created without one (e.g. by connectors)
+const PALETTE = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899"];
+
+function colorFor(name: string): string {
+  let hash = 0;
+  for (const ch of name.toLowerCase()) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return PALETTE[hash % PALETTE.length];
+}
+
+export class LabelRepo {
+  constructor(private db: Database.Database) {}
+
+  list(): Label[] {
+    return this.db.prepare("SELECT * FROM labels ORDER BY name COLLATE NOCASE ASC").all() as Label[];
+  }
+
+  getById(id: number): Label | null {
+    const row = this.db.prepare("SELECT * FROM labels WHERE id = ?").get(id) as Label | undefined;
+    return row ?? null;
+  }
+
+  getByName(name: string): Label | null {
+    const row = this.db.prepare("SELECT * FROM labels WHERE name = ?").get(name) as Label | undefined;
+    return row ?? null;
+  }
+
+  create(name: string, color?: string): Label {
+    const result = this.db
+      .prepare("INSERT INTO labels (name, color) VALUES (?, ?)")
+      .run(name, color || colorFor(name));
+    return this.getById(Number(result.lastInsertRowid))!;
+  }
+
+  // Finds a label by name (case-insensitive) or creates it
+  ensure(name: string): Label {
+    return this.getByName(name) ?? this.create(name);
+  }
+
+  update(id: number, input: { name?: string; color?: string }): void {
+    const label = this.getById(id);
+    if (!label) return;
+    this.db
+      .prepare("UPDATE labels SET name = ?, color = ? WHERE id = ?")
+      .run(input.name ?? label.name, input.color ?? label.color, id);
+  }
+
+  delete(id: number): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare("DELETE FROM card_labels WHERE label_id = ?").run(id);
+      return this.db.prepare("DELETE FROM labels WHERE id = ?").run(id).changes > 0;
+    })();
+  }
+
+  setCardLabels(cardId: number, labelIds: number[]): void {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM card_labels WHERE card_id = ?").run(cardId);
+      this.addToCard(cardId, labelIds);
+    })();
+  }
+
+  addToCard(cardId: number, labelIds: number[]): void {
+    const insert = this.db.prepare("INSERT OR IGNORE INTO card_labels (card_id, label_id) VALUES (?, ?)");
+    for (const labelId of labelIds) insert.run(cardId, labelId);
+  }
+
+  removeFromCard(cardId: number, labelId: number): void {
+    this.db.prepare("DELETE FROM card_labels WHERE card_id = ? AND label_id = ?").run(cardId, labelId);
+  }
+
+  listForCards(cardIds: number[]): Map<number, Label[]> {
+    const byCard = new Map<number, Label[]>();
+    if (cardIds.length === 0) return byCard;
+
+    const rows = this.db
+      .prepare(
+        `SELECT cl.card_id, l.* FROM card_labels cl
+         JOIN labels l ON l.id = cl.label_id
+         WHERE cl.card_id IN (SELECT value FROM json_each(?))
+         ORDER BY l.name COLLATE NOCASE ASC`
+      )
+      .all(JSON.stringify(cardIds)) as (Label & { card_id: number })[];
+
+    for (const { card_id, ...label } of rows) {
+      const list = byCard.get(card_id) ?? [];
+      list.push(label);
+      byCard.set(card_id, list);
+    }
+    return byCard;
+  }
+}
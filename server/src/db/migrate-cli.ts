@@ -0,0 +1,35 @@
+// server/src/db/migrate-cli.ts
+// npm run migrate -- [status | up [version] | down <version>]
+import Database from "better-sqlite3";
+import { DB_PATH } from "./database.js";
+import { getSchemaStatus, migrate } from "./migrate.js";
+
+const [command = "status", arg] = process.argv.slice(2);
+const db = new Database(DB_PATH);
+db.pragma("foreign_keys = ON");
+
+function printStatus(): void {
+  const status = getSchemaStatus(db);
+  console.log(`${DB_PATH}: schema version ${status.version} (latest ${status.latest})`);
+  for (const m of status.pending) console.log(`  pending ${String(m.version).padStart(3, "0")} ${m.name}`);
+}
+
+try {
+  if (command === "status") {
+    printStatus();
+  } else if (command === "up" || command === "down") {
+    const target = arg === undefined ? undefined : Number(arg);
+    if ((command === "down" && target === undefined) || (target !== undefined && !Number.isInteger(target))) {
+      throw new Error(`Usage: migrate ${command} ${command === "down" ? "<version>" : "[version]"}`);
+    }
+    migrate(db, target);
+    printStatus();
+  } else {
+    throw new Error(`Unknown command "${command}"; use status, up or down`);
+  }
+} catch (err) {
+  console.error((err as Error).message);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
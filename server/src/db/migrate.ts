@@ -1,27 +1,138 @@
 import Database from "better-sqlite3";
-import { readFileSync } from "fs";
+import { readdirSync, readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import type { SchemaStatus } from "@daily-kanban/shared";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
+const MIGRATIONS_DIR = join(__dirname, "migrations");
 
-export function migrate(db: Database.Database): void {
-  const sql1 = readFileSync(join(__dirname, "migrations", "001_initial.sql"), "utf-8");
-  db.exec(sql1);
-  const sql2 = readFileSync(join(__dirname, "migrations", "002_execution_logs.sql"), "utf-8");
-  db.exec(sql2);
-  // 003: Add position column to cards (idempotent)
-  const cardCols = db.pragma("table_info(cards)") as { name: string }[];
-  if (!cardCols.some((c) => c.name === "position")) {
-    db.exec("ALTER TABLE cards ADD COLUMN position REAL DEFAULT 0");
-    db.exec("UPDATE cards SET position = id WHERE position = 0");
+// NNN_name.sql upgrades; an optional NNN_name.down.sql undoes it
+const FILE_PATTERN = /^(\d{3})_(\w+?)(\.down)?\.sql$/;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+}
+
+function hasTable(db: Database.Database, name: string): boolean {
+  return !!db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?").get(name);
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  return (db.pragma(`table_info(${table})`) as { name: string }[]).some((c) => c.name === column);
+}
+
+// Databases from before schema_migrations ran every migration on each boot,
+// checking columns by hand. These tell which versions such a database
+// already has, so upgrading it only runs what is missing.
+const LEGACY_PROBES: Record<number, (db: Database.Database) => boolean> = {
+  1: (db) => hasTable(db, "boards"),
+  2: (db) => hasTable(db, "execution_logs"),
+  3: (db) => hasColumn(db, "cards", "position"),
+  4: (db) => hasColumn(db, "execution_logs", "execution_session_id"),
+  5: (db) => hasColumn(db, "cards", "archived_at"),
+  6: (db) => hasTable(db, "card_labels"),
+  7: (db) => hasColumn(db, "cards", "due_at"),
+  8: (db) => hasTable(db, "card_checklist_items"),
+  9: (db) => hasTable(db, "card_comments"),
+  10: (db) => hasTable(db, "card_dependencies"),
+  11: (db) => hasTable(db, "cards_fts"),
+  12: (db) => hasTable(db, "card_events"),
+  13: (db) => hasTable(db, "board_columns"),
+  14: (db) => hasTable(db, "card_template_runs"),
+  15: (db) => hasColumn(db, "cards", "snoozed_until"),
+  16: (db) => hasTable(db, "board_reports"),
+};
+
+export function listMigrations(): Migration[] {
+  const migrations = new Map<number, Migration>();
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) continue;
+    const version = Number(match[1]);
+    const sql = readFileSync(join(MIGRATIONS_DIR, file), "utf-8");
+    const migration = migrations.get(version) ?? { version, name: match[2], up: "", down: null };
+    if (match[3]) migration.down = sql;
+    else migration.up = sql;
+    migrations.set(version, migration);
   }
-  const sql4 = readFileSync(join(__dirname, "migrations", "004_sessions.sql"), "utf-8");
-  db.exec(sql4);
+  return [...migrations.values()].sort((a, b) => a.version - b.version);
+}
+
+function ensureMigrationsTable(db: Database.Database, migrations: Migration[]): void {
+  if (hasTable(db, "schema_migrations")) return;
+  const legacy = hasTable(db, "boards");
+  db.transaction(() => {
+    db.exec(
+      `CREATE TABLE schema_migrations (
+         version INTEGER PRIMARY KEY,
+         name TEXT NOT NULL,
+         applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+       )`
+    );
+    if (!legacy) return;
+    const record = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+    for (const m of migrations) {
+      if (LEGACY_PROBES[m.version]?.(db)) record.run(m.version, m.name);
+    }
+  })();
+}
 
-  // Add execution_session_id column to execution_logs if missing
-  const columns = db.pragma("table_info(execution_logs)") as { name: string }[];
-  if (!columns.some((c) => c.name === "execution_session_id")) {
-    db.exec("ALTER TABLE execution_logs ADD COLUMN execution_session_id INTEGER REFERENCES execution_sessions(id)");
+function appliedVersions(db: Database.Database): Set<number> {
+  const rows = db.prepare("SELECT version FROM schema_migrations").all() as { version: number }[];
+  return new Set(rows.map((r) => r.version));
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  if (!hasTable(db, "schema_migrations")) return 0;
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_migrations").get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+export function getSchemaStatus(db: Database.Database): SchemaStatus {
+  const migrations = listMigrations();
+  const applied = hasTable(db, "schema_migrations")
+    ? (db.prepare("SELECT * FROM schema_migrations ORDER BY version ASC").all() as SchemaStatus["applied"])
+    : [];
+  const done = new Set(applied.map((m) => m.version));
+  return {
+    version: getSchemaVersion(db),
+    latest: migrations.at(-1)?.version ?? 0,
+    applied,
+    pending: migrations.filter((m) => !done.has(m.version)).map(({ version, name }) => ({ version, name })),
+  };
+}
+
+// Brings the schema to `target` (the newest migration by default): applies
+// missing migrations up to it in order, or rolls back the ones above it,
+// newest first. Each step runs in its own transaction and is recorded in
+// schema_migrations, so a failed step leaves the earlier ones in place.
+export function migrate(db: Database.Database, target?: number): void {
+  const migrations = listMigrations();
+  ensureMigrationsTable(db, migrations);
+  const goal = target ?? migrations.at(-1)?.version ?? 0;
+  const applied = appliedVersions(db);
+
+  for (const m of migrations) {
+    if (m.version > goal || applied.has(m.version)) continue;
+    db.transaction(() => {
+      db.exec(m.up);
+      db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(m.version, m.name);
+    })();
+  }
+
+  const rollbacks = [...migrations].reverse().filter((m) => m.version > goal && applied.has(m.version));
+  const irreversible = rollbacks.find((m) => m.down === null);
+  if (irreversible) {
+    throw new Error(`Migration ${irreversible.version} (${irreversible.name}) has no down migration`);
+  }
+  for (const m of rollbacks) {
+    db.transaction(() => {
+      db.exec(m.down!);
+      db.prepare("DELETE FROM schema_migrations WHERE version = ?").run(m.version);
+    })();
   }
 }
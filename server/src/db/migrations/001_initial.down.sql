@@ -0,0 +1,4 @@
+DROP TABLE IF EXISTS settings;
+DROP TABLE IF EXISTS connector_configs;
+DROP TABLE IF EXISTS cards;
+DROP TABLE IF EXISTS boards;
@@ -0,0 +1,18 @@
+-- The session column has a foreign key, which DROP COLUMN refuses, so
+-- execution_logs is rebuilt without it
+CREATE TABLE execution_logs_old (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  session_id TEXT,
+  step TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data JSON,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO execution_logs_old (id, card_id, session_id, step, message, data, created_at)
+  SELECT id, card_id, session_id, step, message, data, created_at FROM execution_logs;
+DROP TABLE execution_logs;
+ALTER TABLE execution_logs_old RENAME TO execution_logs;
+CREATE INDEX IF NOT EXISTS idx_execution_logs_card_id ON execution_logs(card_id);
+
+DROP TABLE IF EXISTS execution_sessions;
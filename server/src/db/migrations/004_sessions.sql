@@ -10,6 +10,4 @@ CREATE TABLE IF NOT EXISTS execution_sessions (
 
 CREATE INDEX IF NOT EXISTS idx_execution_sessions_card_id ON execution_sessions(card_id);
 
--- Add execution_session_id column to execution_logs if it doesn't exist
--- SQLite doesn't support IF NOT EXISTS for ALTER TABLE, so we use a pragma check
--- We'll handle this gracefully in the migration code
+ALTER TABLE execution_logs ADD COLUMN execution_session_id INTEGER REFERENCES execution_sessions(id);
@@ -0,0 +1,2 @@
+ALTER TABLE cards DROP COLUMN archived_at;
+ALTER TABLE cards DROP COLUMN deleted_at;
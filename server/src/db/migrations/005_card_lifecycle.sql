@@ -0,0 +1,3 @@
+-- Soft-delete and archive timestamps on cards
+ALTER TABLE cards ADD COLUMN deleted_at DATETIME;
+ALTER TABLE cards ADD COLUMN archived_at DATETIME;
@@ -0,0 +1,2 @@
+ALTER TABLE cards DROP COLUMN due_at;
+ALTER TABLE cards DROP COLUMN priority;
@@ -0,0 +1,3 @@
+-- Priority and due date on cards
+ALTER TABLE cards ADD COLUMN priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE cards ADD COLUMN due_at DATETIME;
@@ -0,0 +1,10 @@
+-- blocker_id must reach "done" before blocked_id can be worked on
+CREATE TABLE IF NOT EXISTS card_dependencies (
+  blocker_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  blocked_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id != blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_dependencies_blocked_id ON card_dependencies(blocked_id);
@@ -0,0 +1,9 @@
+DROP TRIGGER IF EXISTS execution_logs_fts_update;
+DROP TRIGGER IF EXISTS execution_logs_fts_delete;
+DROP TRIGGER IF EXISTS execution_logs_fts_insert;
+DROP TABLE IF EXISTS execution_logs_fts;
+
+DROP TRIGGER IF EXISTS cards_fts_update;
+DROP TRIGGER IF EXISTS cards_fts_delete;
+DROP TRIGGER IF EXISTS cards_fts_insert;
+DROP TABLE IF EXISTS cards_fts;
@@ -0,0 +1,47 @@
+-- Full-text indexes kept in sync with cards and execution_logs by triggers.
+-- Both are external-content tables, so they only store the index.
+CREATE VIRTUAL TABLE IF NOT EXISTS cards_fts USING fts5(
+  title, body, proposed_action,
+  content = 'cards', content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS cards_fts_insert AFTER INSERT ON cards BEGIN
+  INSERT INTO cards_fts (rowid, title, body, proposed_action)
+  VALUES (new.id, new.title, new.body, new.proposed_action);
+END;
+
+CREATE TRIGGER IF NOT EXISTS cards_fts_delete AFTER DELETE ON cards BEGIN
+  INSERT INTO cards_fts (cards_fts, rowid, title, body, proposed_action)
+  VALUES ('delete', old.id, old.title, old.body, old.proposed_action);
+END;
+
+CREATE TRIGGER IF NOT EXISTS cards_fts_update AFTER UPDATE OF title, body, proposed_action ON cards BEGIN
+  INSERT INTO cards_fts (cards_fts, rowid, title, body, proposed_action)
+  VALUES ('delete', old.id, old.title, old.body, old.proposed_action);
+  INSERT INTO cards_fts (rowid, title, body, proposed_action)
+  VALUES (new.id, new.title, new.body, new.proposed_action);
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS execution_logs_fts USING fts5(
+  message,
+  content = 'execution_logs', content_rowid = 'id',
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER IF NOT EXISTS execution_logs_fts_insert AFTER INSERT ON execution_logs BEGIN
+  INSERT INTO execution_logs_fts (rowid, message) VALUES (new.id, new.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS execution_logs_fts_delete AFTER DELETE ON execution_logs BEGIN
+  INSERT INTO execution_logs_fts (execution_logs_fts, rowid, message) VALUES ('delete', old.id, old.message);
+END;
+
+CREATE TRIGGER IF NOT EXISTS execution_logs_fts_update AFTER UPDATE OF message ON execution_logs BEGIN
+  INSERT INTO execution_logs_fts (execution_logs_fts, rowid, message) VALUES ('delete', old.id, old.message);
+  INSERT INTO execution_logs_fts (rowid, message) VALUES (new.id, new.message);
+END;
+
+-- Index rows written before the tables existed
+INSERT INTO cards_fts (cards_fts) VALUES ('rebuild');
+INSERT INTO execution_logs_fts (execution_logs_fts) VALUES ('rebuild');
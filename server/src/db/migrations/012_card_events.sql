@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS card_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  card_id INTEGER NOT NULL REFERENCES cards(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  actor TEXT NOT NULL DEFAULT 'user',
+  old_value TEXT, -- JSON
+  new_value TEXT, -- JSON
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_card_events_card_id ON card_events(card_id);
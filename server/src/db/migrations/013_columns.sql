@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS board_columns (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  board_id INTEGER NOT NULL REFERENCES boards(id) ON DELETE CASCADE,
+  key TEXT NOT NULL, -- value stored in cards.column_name
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#64748b',
+  position INTEGER NOT NULL DEFAULT 0,
+  wip_limit INTEGER,
+  behavior TEXT, -- 'start_ai' | 'execute_action'
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (board_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_columns_board_id ON board_columns(board_id);
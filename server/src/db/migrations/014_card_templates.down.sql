@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS card_template_runs;
+DROP TABLE IF EXISTS card_template_labels;
+DROP TABLE IF EXISTS card_templates;
@@ -0,0 +1,30 @@
+CREATE TABLE IF NOT EXISTS card_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  repo_id TEXT,
+  ai_toggle INTEGER NOT NULL DEFAULT 0,
+  ai_rules TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  recurrence TEXT, -- JSON, NULL when the template is only used by hand
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS card_template_labels (
+  template_id INTEGER NOT NULL REFERENCES card_templates(id) ON DELETE CASCADE,
+  label_id INTEGER NOT NULL REFERENCES labels(id) ON DELETE CASCADE,
+  PRIMARY KEY (template_id, label_id)
+);
+
+-- One row per template and board date the scheduler has materialized, so a
+-- deleted card isn't recreated on the next poll
+CREATE TABLE IF NOT EXISTS card_template_runs (
+  template_id INTEGER NOT NULL REFERENCES card_templates(id) ON DELETE CASCADE,
+  date TEXT NOT NULL, -- YYYY-MM-DD
+  card_id INTEGER REFERENCES cards(id) ON DELETE SET NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (template_id, date)
+);
@@ -0,0 +1,2 @@
+DROP INDEX IF EXISTS idx_cards_snoozed_until;
+ALTER TABLE cards DROP COLUMN snoozed_until;
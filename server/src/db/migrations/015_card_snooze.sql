@@ -0,0 +1,4 @@
+-- Snoozed cards stay hidden until this ISO timestamp
+ALTER TABLE cards ADD COLUMN snoozed_until DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_cards_snoozed_until ON cards(snoozed_until);
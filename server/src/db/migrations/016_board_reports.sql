@@ -0,0 +1,8 @@
+-- End-of-day report, one per board; regenerating replaces it
+CREATE TABLE IF NOT EXISTS board_reports (
+  board_id INTEGER PRIMARY KEY REFERENCES boards(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  generator TEXT NOT NULL DEFAULT 'template',
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
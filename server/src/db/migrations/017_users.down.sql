@@ -0,0 +1,19 @@
+-- Only the owner's connector configs fit the one-per-type table
+CREATE TABLE connector_configs_old (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL UNIQUE,
+  credentials JSON,
+  settings JSON,
+  enabled INTEGER DEFAULT 1
+);
+
+INSERT INTO connector_configs_old (id, type, credentials, settings, enabled)
+  SELECT id, type, credentials, settings, enabled FROM connector_configs WHERE owner_id = 1;
+DROP TABLE connector_configs;
+ALTER TABLE connector_configs_old RENAME TO connector_configs;
+
+DROP INDEX IF EXISTS idx_cards_assignee_id;
+ALTER TABLE cards DROP COLUMN source_user_id;
+ALTER TABLE cards DROP COLUMN assignee_id;
+
+DROP TABLE IF EXISTS users;
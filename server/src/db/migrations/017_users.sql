@@ -0,0 +1,36 @@
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE,
+  -- SHA-256 of the user's API token. NULL for the owner, who signs in with
+  -- the server's own token (daily-kanban.token or API_TOKEN).
+  token_hash TEXT UNIQUE,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Whoever ran the app before it had users owns everything made so far
+INSERT INTO users (id, name) VALUES (1, 'Owner');
+
+-- Plain columns rather than foreign keys so the down migration can drop
+-- them; UserRepo.delete clears them instead of ON DELETE SET NULL
+ALTER TABLE cards ADD COLUMN assignee_id INTEGER;
+-- Whose connector created the card; its actions go back through that account
+ALTER TABLE cards ADD COLUMN source_user_id INTEGER;
+UPDATE cards SET source_user_id = 1 WHERE source_type NOT IN ('manual', 'recurring');
+
+CREATE INDEX IF NOT EXISTS idx_cards_assignee_id ON cards(assignee_id);
+
+-- Each user keeps their own config per connector type
+CREATE TABLE connector_configs_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  type TEXT NOT NULL,
+  owner_id INTEGER NOT NULL DEFAULT 1 REFERENCES users(id) ON DELETE CASCADE,
+  credentials JSON,
+  settings JSON,
+  enabled INTEGER DEFAULT 1,
+  UNIQUE(type, owner_id)
+);
+
+INSERT INTO connector_configs_new (id, type, credentials, settings, enabled)
+  SELECT id, type, credentials, settings, enabled FROM connector_configs;
+DROP TABLE connector_configs;
+ALTER TABLE connector_configs_new RENAME TO connector_configs;
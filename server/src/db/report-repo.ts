@@ -0,0 +1,29 @@
+// server/src/db/report-repo.ts
+import Database from "better-sqlite3";
+import type { BoardReport, ReportGenerator } from "@daily-kanban/shared";
+
+export class ReportRepo {
+  constructor(private db: Database.Database) {}
+
+  getByBoard(boardId: number): BoardReport | null {
+    const row = this.db
+      .prepare(
+        `SELECT r.*, b.date FROM board_reports r JOIN boards b ON b.id = r.board_id
+         WHERE r.board_id = ?`
+      )
+      .get(boardId) as BoardReport | undefined;
+    return row ?? null;
+  }
+
+  // Replaces the board's previous report, keeping its created_at
+  save(boardId: number, content: string, generator: ReportGenerator): BoardReport {
+    this.db
+      .prepare(
+        `INSERT INTO board_reports (board_id, content, generator) VALUES (?, ?, ?)
+         ON CONFLICT(board_id) DO UPDATE SET
+           content = excluded.content, generator = excluded.generator, updated_at = CURRENT_TIMESTAMP`
+      )
+      .run(boardId, content, generator);
+    return this.getByBoard(boardId)!;
+  }
+}
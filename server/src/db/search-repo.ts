@@ -0,0 +1,62 @@
+// server/src/db/search-repo.ts
+import Database from "better-sqlite3";
+import type { SearchHit, SearchResultGroup } from "@daily-kanban/shared";
+
+// Turns free text into an FTS5 query: every word must match, as a prefix.
+// Quoting each word keeps FTS syntax characters in user input inert.
+export function toFtsQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}_]+/gu);
+  if (!words) return null;
+  return words.map((w) => `"${w}"*`).join(" ");
+}
+
+type HitRow = SearchHit & { date: string };
+
+export class SearchRepo {
+  constructor(private db: Database.Database) {}
+
+  // Matches grouped by the date of the board the card is on, newest first
+  search(text: string, limit: number = 50): SearchResultGroup[] {
+    const query = toFtsQuery(text);
+    if (!query) return [];
+
+    const cardHits = this.db
+      .prepare(
+        `SELECT 'card' AS kind, c.id AS card_id, c.title AS card_title, c.column_name, b.date,
+                snippet(cards_fts, -1, char(2), char(3), '…', 12) AS snippet,
+                NULL AS log_id, NULL AS execution_session_id
+         FROM cards_fts
+         JOIN cards c ON c.id = cards_fts.rowid
+         JOIN boards b ON b.id = c.board_id
+         WHERE cards_fts MATCH ? AND c.deleted_at IS NULL
+         ORDER BY bm25(cards_fts)
+         LIMIT ?`
+      )
+      .all(query, limit) as HitRow[];
+
+    const logHits = this.db
+      .prepare(
+        `SELECT 'log' AS kind, c.id AS card_id, c.title AS card_title, c.column_name, b.date,
+                snippet(execution_logs_fts, 0, char(2), char(3), '…', 12) AS snippet,
+                l.id AS log_id, l.execution_session_id
+         FROM execution_logs_fts
+         JOIN execution_logs l ON l.id = execution_logs_fts.rowid
+         JOIN cards c ON c.id = l.card_id
+         JOIN boards b ON b.id = c.board_id
+         WHERE execution_logs_fts MATCH ? AND c.deleted_at IS NULL
+         ORDER BY bm25(execution_logs_fts)
+         LIMIT ?`
+      )
+      .all(query, limit) as HitRow[];
+
+    const groups = new Map<string, SearchHit[]>();
+    for (const { date, ...hit } of [...cardHits, ...logHits]) {
+      const hits = groups.get(date) ?? [];
+      hits.push(hit);
+      groups.set(date, hits);
+    }
+    return [...groups.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([date, hits]) => ({ date, hits }));
+  }
+}
@@ -0,0 +1,118 @@
+// server/src/db/stats-repo.ts
+import Database from "better-sqlite3";
+import type { AutomationCounts, ConfidenceBucket, SourceStats, SourceType, StatsResponse } from "@daily-kanban/shared";
+
+interface CardRow {
+  source_type: SourceType;
+  column_name: string;
+  confidence: number | null;
+  executed: number;
+  human_do: number;
+  cycle_minutes: number | null;
+}
+
+// Confidence scores are 0-100; the last bucket takes 100 too
+const BUCKET_WIDTH = 20;
+
+function emptyCounts(): AutomationCounts {
+  return { cards: 0, evaluated: 0, executed: 0, succeeded: 0, human_do: 0, done: 0 };
+}
+
+function count(counts: AutomationCounts, row: CardRow): void {
+  const done = row.column_name === "done";
+  counts.cards++;
+  if (row.confidence !== null) counts.evaluated++;
+  if (row.executed) counts.executed++;
+  if (row.executed && done) counts.succeeded++;
+  if (row.human_do) counts.human_do++;
+  if (done) counts.done++;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export class StatsRepo {
+  constructor(private db: Database.Database) {}
+
+  // Cards (deleted ones aside) on boards dated `from`..`to`, both inclusive
+  compute(from: string, to: string): StatsResponse {
+    const rows = this.db
+      .prepare(
+        `SELECT c.source_type, c.column_name, c.confidence,
+                c.execution_result IS NOT NULL AS executed,
+                EXISTS (
+                  SELECT 1 FROM card_events e
+                  WHERE e.card_id = c.id AND e.type = 'moved' AND json_extract(e.new_value, '$.column_name') = 'human_do'
+                ) AS human_do,
+                CASE WHEN c.column_name = 'done' THEN (
+                  SELECT (julianday(MAX(e.created_at)) - julianday(c.created_at)) * 1440 FROM card_events e
+                  WHERE e.card_id = c.id AND e.type = 'moved' AND json_extract(e.new_value, '$.column_name') = 'done'
+                ) END AS cycle_minutes
+         FROM cards c JOIN boards b ON b.id = c.board_id
+         WHERE b.date BETWEEN ? AND ? AND c.deleted_at IS NULL`
+      )
+      .all(from, to) as CardRow[];
+
+    const totals = emptyCounts();
+    const bySource = new Map<SourceType, SourceStats>();
+    const confidence: ConfidenceBucket[] = Array.from({ length: 100 / BUCKET_WIDTH }, (_, i) => ({
+      min: i * BUCKET_WIDTH,
+      max: i === 100 / BUCKET_WIDTH - 1 ? 100 : (i + 1) * BUCKET_WIDTH - 1,
+      evaluated: 0,
+      executed: 0,
+      succeeded: 0,
+    }));
+    const cycleTimes: number[] = [];
+
+    for (const row of rows) {
+      count(totals, row);
+      const source = bySource.get(row.source_type) ?? { source_type: row.source_type, ...emptyCounts() };
+      count(source, row);
+      bySource.set(row.source_type, source);
+
+      if (row.confidence !== null) {
+        const bucket = confidence[Math.min(Math.floor(row.confidence / BUCKET_WIDTH), confidence.length - 1)];
+        bucket.evaluated++;
+        if (row.executed) bucket.executed++;
+        if (row.executed && row.column_name === "done") bucket.succeeded++;
+      }
+      if (row.cycle_minutes !== null) cycleTimes.push(row.cycle_minutes);
+    }
+
+    const sessions = this.db
+      .prepare(
+        `SELECT s.status, COUNT(*) AS n FROM execution_sessions s
+         JOIN cards c ON c.id = s.card_id JOIN boards b ON b.id = c.board_id
+         WHERE b.date BETWEEN ? AND ? AND c.deleted_at IS NULL
+         GROUP BY s.status`
+      )
+      .all(from, to) as { status: string; n: number }[];
+    const byStatus = new Map(sessions.map((s) => [s.status, s.n]));
+    const average = cycleTimes.length ? cycleTimes.reduce((a, b) => a + b, 0) / cycleTimes.length : null;
+    const middle = median(cycleTimes);
+
+    return {
+      from,
+      to,
+      totals,
+      by_source: [...bySource.values()].sort((a, b) => b.cards - a.cards || a.source_type.localeCompare(b.source_type)),
+      confidence,
+      cycle_time: {
+        cards: cycleTimes.length,
+        average_minutes: average === null ? null : Math.round(average),
+        median_minutes: middle === null ? null : Math.round(middle),
+      },
+      sessions: {
+        total: sessions.reduce((sum, s) => sum + s.n, 0),
+        completed: byStatus.get("completed") ?? 0,
+        failed: byStatus.get("failed") ?? 0,
+        paused: byStatus.get("paused") ?? 0,
+        running: byStatus.get("running") ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,130 @@
+// server/src/db/template-repo.ts
+import Database from "better-sqlite3";
+import type { CardTemplate, CardTemplateRequest, Label, Priority } from "@daily-kanban/shared";
+import type { CreateCardInput } from "./card-repo.js";
+
+function rowToTemplate(row: Record<string, unknown>, labels: Label[]): CardTemplate {
+  return {
+    ...row,
+    ai_toggle: Boolean(row.ai_toggle),
+    enabled: Boolean(row.enabled),
+    recurrence: row.recurrence ? JSON.parse(row.recurrence as string) : null,
+    labels,
+  } as CardTemplate;
+}
+
+// The card a template produces; `template_id` in the metadata ties the card
+// back to the template's AI rules.
+export function cardInputFromTemplate(
+  template: CardTemplate,
+  boardId: number,
+  source: { source_type: "recurring" | "manual"; source_id: string | null },
+): CreateCardInput {
+  return {
+    board_id: boardId,
+    ...source,
+    title: template.title,
+    body: template.body,
+    metadata: { template_id: template.id, ...(template.repo_id ? { repo_id: template.repo_id } : {}) },
+    priority: template.priority,
+    ai_toggle: template.ai_toggle,
+    label_ids: template.labels.map((l) => l.id),
+  };
+}
+
+export class TemplateRepo {
+  constructor(private db: Database.Database) {}
+
+  list(): CardTemplate[] {
+    const rows = this.db.prepare("SELECT * FROM card_templates ORDER BY name COLLATE NOCASE ASC").all() as Record<string, unknown>[];
+    return rows.map((row) => rowToTemplate(row, this.labelsOf(row.id as number)));
+  }
+
+  getById(id: number): CardTemplate | null {
+    const row = this.db.prepare("SELECT * FROM card_templates WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+    return row ? rowToTemplate(row, this.labelsOf(id)) : null;
+  }
+
+  create(input: CardTemplateRequest & { name: string; title: string }): CardTemplate {
+    const id = this.db.transaction(() => {
+      const result = this.db
+        .prepare(
+          `INSERT INTO card_templates (name, title, body, repo_id, ai_toggle, ai_rules, priority, recurrence, enabled)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          input.name,
+          input.title,
+          input.body ?? null,
+          input.repo_id ?? null,
+          input.ai_toggle ? 1 : 0,
+          input.ai_rules ?? null,
+          input.priority ?? 0,
+          input.recurrence ? JSON.stringify(input.recurrence) : null,
+          input.enabled === false ? 0 : 1,
+        );
+      const id = Number(result.lastInsertRowid);
+      this.setLabels(id, input.label_ids ?? []);
+      return id;
+    })();
+    return this.getById(id)!;
+  }
+
+  update(id: number, input: CardTemplateRequest): void {
+    const template = this.getById(id);
+    if (!template) return;
+    const recurrence = input.recurrence !== undefined ? input.recurrence : template.recurrence;
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE card_templates SET name = ?, title = ?, body = ?, repo_id = ?, ai_toggle = ?, ai_rules = ?,
+             priority = ?, recurrence = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .run(
+          input.name ?? template.name,
+          input.title ?? template.title,
+          input.body !== undefined ? input.body : template.body,
+          input.repo_id !== undefined ? input.repo_id : template.repo_id,
+          (input.ai_toggle ?? template.ai_toggle) ? 1 : 0,
+          input.ai_rules !== undefined ? input.ai_rules : template.ai_rules,
+          (input.priority ?? template.priority) as Priority,
+          recurrence ? JSON.stringify(recurrence) : null,
+          (input.enabled ?? template.enabled) ? 1 : 0,
+          id,
+        );
+      if (input.label_ids) this.setLabels(id, input.label_ids);
+    })();
+  }
+
+  delete(id: number): boolean {
+    return this.db.prepare("DELETE FROM card_templates WHERE id = ?").run(id).changes > 0;
+  }
+
+  hasRun(templateId: number, date: string): boolean {
+    return !!this.db
+      .prepare("SELECT 1 FROM card_template_runs WHERE template_id = ? AND date = ?")
+      .get(templateId, date);
+  }
+
+  recordRun(templateId: number, date: string, cardId: number): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO card_template_runs (template_id, date, card_id) VALUES (?, ?, ?)")
+      .run(templateId, date, cardId);
+  }
+
+  private labelsOf(templateId: number): Label[] {
+    return this.db
+      .prepare(
+        `SELECT l.* FROM card_template_labels tl JOIN labels l ON l.id = tl.label_id
+         WHERE tl.template_id = ? ORDER BY l.name COLLATE NOCASE ASC`
+      )
+      .all(templateId) as Label[];
+  }
+
+  private setLabels(templateId: number, labelIds: number[]): void {
+    this.db.prepare("DELETE FROM card_template_labels WHERE template_id = ?").run(templateId);
+    const insert = this.db.prepare("INSERT OR IGNORE INTO card_template_labels (template_id, label_id) VALUES (?, ?)");
+    for (const labelId of labelIds) insert.run(templateId, labelId);
+  }
+}
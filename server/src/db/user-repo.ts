@@ -0,0 +1,68 @@
+// server/src/db/user-repo.ts
+import crypto from "crypto";
+import Database from "better-sqlite3";
+import type { User } from "@daily-kanban/shared";
+
+// Created by migration 017; owns everything from before there were users
+export const OWNER_USER_ID = 1;
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function rowToUser(row: Record<string, unknown>): User {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    is_owner: row.id === OWNER_USER_ID,
+    created_at: row.created_at as string,
+  };
+}
+
+export class UserRepo {
+  constructor(private db: Database.Database) {}
+
+  list(): User[] {
+    const rows = this.db.prepare("SELECT * FROM users ORDER BY id ASC").all() as Record<string, unknown>[];
+    return rows.map(rowToUser);
+  }
+
+  getById(id: number): User | null {
+    const row = this.db.prepare("SELECT * FROM users WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+    return row ? rowToUser(row) : null;
+  }
+
+  getByName(name: string): User | null {
+    const row = this.db.prepare("SELECT * FROM users WHERE name = ?").get(name) as Record<string, unknown> | undefined;
+    return row ? rowToUser(row) : null;
+  }
+
+  getByToken(token: string): User | null {
+    const row = this.db
+      .prepare("SELECT * FROM users WHERE token_hash = ?")
+      .get(hashToken(token)) as Record<string, unknown> | undefined;
+    return row ? rowToUser(row) : null;
+  }
+
+  // Only the hash is stored, so the returned token cannot be shown again
+  create(name: string): { user: User; token: string } {
+    const token = crypto.randomBytes(32).toString("base64url");
+    const result = this.db
+      .prepare("INSERT INTO users (name, token_hash) VALUES (?, ?)")
+      .run(name, hashToken(token));
+    return { user: this.getById(Number(result.lastInsertRowid))!, token };
+  }
+
+  rename(id: number, name: string): void {
+    this.db.prepare("UPDATE users SET name = ? WHERE id = ?").run(name, id);
+  }
+
+  // Unassigns the user's cards; their connector configs go with them
+  delete(id: number): void {
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE cards SET assignee_id = NULL WHERE assignee_id = ?").run(id);
+      this.db.prepare("UPDATE cards SET source_user_id = NULL WHERE source_user_id = ?").run(id);
+      this.db.prepare("DELETE FROM users WHERE id = ?").run(id);
+    })();
+  }
+}
@@ -1,18 +1,43 @@
 import express from "express";
 import cors from "cors";
-import { getDb } from "./db/database.js";
+import { API_TOKEN_FILE, BACKUP_DIR, CREDENTIALS_KEY_FILE, getDb } from "./db/database.js";
 import { BoardRepo } from "./db/board-repo.js";
 import { CardRepo } from "./db/card-repo.js";
 import { SettingsRepo } from "./db/settings-repo.js";
 import { LogRepo } from "./db/log-repo.js";
 import { SessionRepo } from "./db/session-repo.js";
+import { LabelRepo } from "./db/label-repo.js";
+import { ChecklistRepo } from "./db/checklist-repo.js";
+import { CommentRepo } from "./db/comment-repo.js";
+import { DependencyRepo } from "./db/dependency-repo.js";
+import { CardEventRepo } from "./db/card-event-repo.js";
+import { ColumnRepo } from "./db/column-repo.js";
+import { SearchRepo } from "./db/search-repo.js";
+import { TemplateRepo } from "./db/template-repo.js";
+import { ReportRepo } from "./db/report-repo.js";
+import { StatsRepo } from "./db/stats-repo.js";
+import { BackupManager } from "./db/backup-manager.js";
+import { UserRepo } from "./db/user-repo.js";
 import { createBoardRouter } from "./routes/board.js";
 import { createCardsRouter } from "./routes/cards.js";
+import { createColumnsRouter } from "./routes/columns.js";
 import { createAiRouter } from "./routes/ai.js";
+import { ActionQueue } from "./ai/action-queue.js";
 import { createSettingsRouter } from "./routes/settings.js";
 import { createReposRouter } from "./routes/repos.js";
+import { createLabelsRouter } from "./routes/labels.js";
+import { createChecklistRouter } from "./routes/checklist.js";
+import { createCommentsRouter } from "./routes/comments.js";
+import { createDependenciesRouter } from "./routes/dependencies.js";
+import { createSearchRouter } from "./routes/search.js";
+import { createTemplatesRouter } from "./routes/templates.js";
+import { createExportRouter } from "./routes/export.js";
+import { createReportRouter } from "./routes/report.js";
+import { createStatsRouter } from "./routes/stats.js";
+import { createAdminRouter } from "./routes/admin.js";
+import { createUsersRouter } from "./routes/users.js";
 import { createConnectorsRouter, initializeConnector } from "./routes/connectors.js";
-import { ConnectorRegistry } from "./connectors/registry.js";
+import { ConnectorRegistry, connectorKey } from "./connectors/registry.js";
 import { GmailConnector } from "./connectors/gmail.js";
 import { CalendarConnector } from "./connectors/calendar.js";
 import { LinearConnector } from "./connectors/linear.js";
@@ -20,20 +45,38 @@ import { GitLabConnector } from "./connectors/gitlab.js";
 import { TelegramConnector } from "./connectors/telegram.js";
 import { ClaudeEvaluator } from "./ai/claude-evaluator.js";
 import { Scheduler } from "./scheduler.js";
+import { CredentialCipher, encryptStoredCredentials, loadCredentialsKey } from "./credentials.js";
+import { allowedOrigins, loadApiToken, requireAuth } from "./auth.js";
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-app.use(cors());
-app.use(express.json());
+// Routes here run Claude with shell access, so only the web app may call them
+const origins = allowedOrigins(Number(PORT));
+app.use(cors({ origin: origins }));
+// Board imports carry a whole day of cards and logs
+app.use(express.json({ limit: "10mb" }));
 
 // --- Repos ---
 const db = getDb();
-const boardRepo = new BoardRepo(db);
-const cardRepo = new CardRepo(db);
+const userRepo = new UserRepo(db);
+app.use("/api", requireAuth(loadApiToken(API_TOKEN_FILE), origins, userRepo));
 const settingsRepo = new SettingsRepo(db);
+const boardRepo = new BoardRepo(db, settingsRepo);
+const labelRepo = new LabelRepo(db);
+const checklistRepo = new ChecklistRepo(db);
+const dependencyRepo = new DependencyRepo(db);
+const cardEventRepo = new CardEventRepo(db);
+const cardRepo = new CardRepo(db, labelRepo, checklistRepo, dependencyRepo, cardEventRepo);
+const columnRepo = new ColumnRepo(db);
+const commentRepo = new CommentRepo(db);
 const logRepo = new LogRepo(db);
 const sessionRepo = new SessionRepo(db);
+const searchRepo = new SearchRepo(db);
+const templateRepo = new TemplateRepo(db);
+const reportRepo = new ReportRepo(db);
+const statsRepo = new StatsRepo(db);
+const backupManager = new BackupManager(db, settingsRepo, BACKUP_DIR);
 
 // --- Connectors ---
 const registry = new ConnectorRegistry();
@@ -44,40 +87,60 @@ registry.register("gitlab", new GitLabConnector());
 registry.register("telegram", new TelegramConnector());
 
 // --- Load saved connector configs from DB ---
+const cipher = new CredentialCipher(loadCredentialsKey(CREDENTIALS_KEY_FILE));
+const encrypted = encryptStoredCredentials(db, cipher);
+if (encrypted > 0) console.log(`Encrypted stored credentials for ${encrypted} connectors`);
+
 const savedConfigs = db.prepare(
   "SELECT * FROM connector_configs WHERE enabled = 1 AND credentials IS NOT NULL"
-).all() as { type: string; credentials: string; settings: string | null }[];
+).all() as { type: string; owner_id: number; credentials: string; settings: string | null }[];
 
 for (const config of savedConfigs) {
+  const key = connectorKey(config.type, config.owner_id);
   try {
-    const credentials = JSON.parse(config.credentials);
+    const credentials = cipher.decrypt(config.credentials);
     const settings = config.settings ? JSON.parse(config.settings) : null;
-    initializeConnector(config.type, credentials, registry, boardRepo, cardRepo, settings);
-    console.log(`Loaded saved config for connector: ${config.type}`);
+    initializeConnector(config.type, credentials, registry, boardRepo, cardRepo, settings, config.owner_id);
+    console.log(`Loaded saved config for connector: ${key}`);
   } catch (err) {
-    console.error(`Failed to load config for connector ${config.type}:`, err);
+    console.error(`Failed to load config for connector ${key}:`, err);
   }
 }
 
 // --- AI ---
 const evaluator = new ClaudeEvaluator();
+// Connector actions wait this long before firing so they can still be undone
+const actionQueue = new ActionQueue(settingsRepo.get<number>("action_grace_ms", 10_000));
 
 // --- Routes ---
 app.get("/api/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
-app.use("/api/board", createBoardRouter(boardRepo, cardRepo));
-app.use("/api/cards", createCardsRouter(cardRepo, boardRepo));
-app.use("/api/ai", createAiRouter(cardRepo, evaluator, registry, db, settingsRepo, logRepo, sessionRepo));
+app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+app.use("/api/board", createExportRouter(db, boardRepo, cardRepo, columnRepo, labelRepo, logRepo));
+app.use("/api/board", createReportRouter(boardRepo, cardRepo, columnRepo, sessionRepo, cardEventRepo, reportRepo, evaluator));
+app.use("/api/board/:date/columns", createColumnsRouter(columnRepo, boardRepo));
+app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, labelRepo, columnRepo));
+app.use("/api/cards/:cardId/checklist", createChecklistRouter(cardRepo, checklistRepo));
+app.use("/api/cards/:cardId/comments", createCommentsRouter(cardRepo, commentRepo));
+app.use("/api/cards/:cardId/dependencies", createDependenciesRouter(cardRepo, dependencyRepo));
+app.use("/api/ai", createAiRouter(cardRepo, evaluator, registry, db, settingsRepo, logRepo, sessionRepo, checklistRepo, commentRepo, actionQueue));
 app.use("/api/settings", createSettingsRouter(settingsRepo));
 app.use("/api/repos", createReposRouter(settingsRepo));
+app.use("/api/labels", createLabelsRouter(labelRepo, cardRepo));
+app.use("/api/search", createSearchRouter(searchRepo));
+app.use("/api/stats", createStatsRouter(statsRepo, boardRepo));
+app.use("/api/admin", createAdminRouter(db, backupManager));
+app.use("/api/users", createUsersRouter(userRepo));
+app.use("/api/templates", createTemplatesRouter(templateRepo, cardRepo, boardRepo, labelRepo));
 // --- Scheduler ---
 const pollInterval = settingsRepo.get<number>("poll_interval_ms", 5 * 60 * 1000);
-const scheduler = new Scheduler(registry, boardRepo, cardRepo, db);
+const scheduler = new Scheduler(registry, boardRepo, cardRepo, db, templateRepo);
 scheduler.start(pollInterval);
+backupManager.start();
 
-app.use("/api/connectors", createConnectorsRouter({ db, registry, boardRepo, cardRepo, scheduler, port: Number(PORT) }));
+app.use("/api/connectors", createConnectorsRouter({ db, registry, boardRepo, cardRepo, cipher, scheduler, port: Number(PORT) }));
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
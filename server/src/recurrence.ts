@@ -0,0 +1,81 @@
+// server/src/recurrence.ts
+import type { Recurrence, RecurrenceKind } from "@daily-kanban/shared";
+
+const KINDS: RecurrenceKind[] = ["daily", "weekdays", "weekly", "cron"];
+
+// [min, max] of each cron field: minute, hour, day of month, month, day of week
+const CRON_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+// Expands one cron field ("*", "1-5", "*/15", "1,15", "9-17/2") into the
+// values it allows, or null when the field is malformed.
+function expandField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : Number(match[2]);
+    const end = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+interface CronDays {
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron treats a restricted day-of-month and day-of-week as either/or
+  anyDay: boolean;
+}
+
+function parseCron(expression: string): CronDays | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const sets = fields.map((f, i) => expandField(f, CRON_RANGES[i]));
+  if (sets.some((s) => s === null)) return null;
+  const [, , daysOfMonth, months, daysOfWeek] = sets as Set<number>[];
+  // 7 is Sunday too
+  if (daysOfWeek.has(7)) daysOfWeek.add(0);
+  return { daysOfMonth, months, daysOfWeek, anyDay: fields[2] !== "*" && fields[4] !== "*" };
+}
+
+// Returns an error message, or null when the rule is valid
+export function validateRecurrence(recurrence: Recurrence): string | null {
+  if (!recurrence || !KINDS.includes(recurrence.kind)) {
+    return `recurrence.kind must be one of: ${KINDS.join(", ")}`;
+  }
+  if (recurrence.kind === "weekly") {
+    const days = recurrence.weekdays;
+    if (!Array.isArray(days) || days.length === 0 || !days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)) {
+      return "weekly recurrence needs weekdays from 0 (Sunday) to 6";
+    }
+  }
+  if (recurrence.kind === "cron" && (typeof recurrence.cron !== "string" || !parseCron(recurrence.cron))) {
+    return "cron must be a five-field cron expression";
+  }
+  return null;
+}
+
+// Whether the rule puts a card on the board for `date` (YYYY-MM-DD). Cron
+// rules only use their day fields: the card lands when that day's board starts.
+export function occursOn(recurrence: Recurrence, date: string): boolean {
+  const day = new Date(`${date}T00:00:00Z`);
+  const weekday = day.getUTCDay();
+  switch (recurrence.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return weekday >= 1 && weekday <= 5;
+    case "weekly":
+      return recurrence.weekdays?.includes(weekday) ?? false;
+    case "cron": {
+      const cron = recurrence.cron ? parseCron(recurrence.cron) : null;
+      if (!cron || !cron.months.has(day.getUTCMonth() + 1)) return false;
+      const dom = cron.daysOfMonth.has(day.getUTCDate());
+      const dow = cron.daysOfWeek.has(weekday);
+      return cron.anyDay ? dom || dow : dom && dow;
+    }
+  }
+}
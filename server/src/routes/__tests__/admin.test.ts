@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { listMigrations, migrate } from "../../db/migrate.js";
+import { createAdminRouter } from "../admin.js";
+import { BackupManager } from "../../db/backup-manager.js";
+import { SettingsRepo } from "../../db/settings-repo.js";
+
+describe("Admin API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let dir: string;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    dir = mkdtempSync(join(tmpdir(), "daily-kanban-admin-"));
+    app = express();
+    app.use(express.json());
+    app.use("/api/admin", createAdminRouter(db, new BackupManager(db, new SettingsRepo(db), dir)));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("GET /schema reports the schema version", async () => {
+    const latest = listMigrations().at(-1)!.version;
+    const res = await request(app).get("/api/admin/schema");
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ version: latest, latest, pending: [] });
+    expect(res.body.applied[0]).toMatchObject({ version: 1, name: "initial" });
+  });
+
+  it("POST /backup writes a backup that GET /backups lists", async () => {
+    const res = await request(app).post("/api/admin/backup");
+    expect(res.status).toBe(201);
+    expect(res.body.name).toMatch(/^daily-kanban-.*\.db$/);
+
+    const list = await request(app).get("/api/admin/backups");
+    expect(list.body).toEqual({ dir, backups: [res.body] });
+  });
+
+  it("POST /restore only takes backups from the backup directory", async () => {
+    expect((await request(app).post("/api/admin/restore").send({ name: "../daily-kanban.db" })).status).toBe(404);
+    expect((await request(app).post("/api/admin/restore").send({})).status).toBe(404);
+    expect((await request(app).post("/api/admin/restore/upload").send("x").type("text/plain")).status).toBe(400);
+  });
+
+  it("rejects an uploaded file that is not a database", async () => {
+    const res = await request(app)
+      .post("/api/admin/restore/upload")
+      .set("Content-Type", "application/octet-stream")
+      .send(Buffer.from("definitely not sqlite"));
+    expect(res.status).toBe(400);
+    expect((await request(app).get("/api/admin/backups")).body.backups).toEqual([]);
+  });
+
+  it("PATCH /maintenance validates and stores the policy", async () => {
+    expect((await request(app).patch("/api/admin/maintenance").send({ backup_keep: 0 })).status).toBe(400);
+    expect((await request(app).patch("/api/admin/maintenance").send({ log_retention_days: -1 })).status).toBe(400);
+
+    const res = await request(app).patch("/api/admin/maintenance").send({ log_retention_days: 30, backup_keep: 3 });
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ backup_interval_hours: 24, backup_keep: 3, log_retention_days: 30, board_retention_days: null });
+    expect((await request(app).get("/api/admin/maintenance")).body).toEqual(res.body);
+  });
+
+  it("POST /prune reports what it removed", async () => {
+    const res = await request(app).post("/api/admin/prune");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({ logs: 0, sessions: 0, boards: 0, cards: 0 });
+  });
+});
@@ -1,12 +1,15 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import express from "express";
 import request from "supertest";
+import type { AddressInfo } from "node:net";
 import Database from "better-sqlite3";
 import { migrate } from "../../db/migrate.js";
 import { createBoardRouter } from "../board.js";
 import { createCardsRouter } from "../cards.js";
 import { BoardRepo } from "../../db/board-repo.js";
 import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
 
 describe("Board & Cards API", () => {
   let app: express.Express;
@@ -17,11 +20,12 @@ describe("Board & Cards API", () => {
     migrate(db);
     const boardRepo = new BoardRepo(db);
     const cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
 
     app = express();
     app.use(express.json());
-    app.use("/api/board", createBoardRouter(boardRepo, cardRepo));
-    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo));
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, new LabelRepo(db), columnRepo));
   });
 
   afterEach(() => {
@@ -31,7 +35,7 @@ describe("Board & Cards API", () => {
   it("GET /api/board/today returns today's board with cards", async () => {
     const res = await request(app).get("/api/board/today");
     expect(res.status).toBe(200);
-    expect(res.body.board.date).toBe(new Date().toISOString().split("T")[0]);
+    expect(res.body.board.date).toBe(new BoardRepo(db).today().date);
     expect(res.body.cards).toEqual([]);
   });
 
@@ -73,4 +77,142 @@ describe("Board & Cards API", () => {
     expect(res.status).toBe(200);
     expect(res.body.ai_toggle).toBe(true);
   });
+
+  it("GET /api/board/:date returns a past board", async () => {
+    db.prepare("INSERT INTO boards (date) VALUES ('2020-01-01')").run();
+
+    const res = await request(app).get("/api/board/2020-01-01");
+    expect(res.status).toBe(200);
+    expect(res.body.board.date).toBe("2020-01-01");
+  });
+
+  it("GET /api/board/:date returns 404 for unknown dates and 400 for bad input", async () => {
+    expect((await request(app).get("/api/board/2020-01-01")).status).toBe(404);
+    expect((await request(app).get("/api/board/yesterday")).status).toBe(400);
+  });
+
+  it("GET /api/board lists boards", async () => {
+    db.prepare("INSERT INTO boards (date) VALUES ('2020-01-01')").run();
+
+    const res = await request(app).get("/api/board");
+    expect(res.status).toBe(200);
+    expect(res.body.boards.map((b: { date: string }) => b.date)).toContain("2020-01-01");
+  });
+
+  it("PATCH /api/cards/:id edits title and body", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+
+    const res = await request(app)
+      .patch(`/api/cards/${card.body.id}`)
+      .send({ title: "Edited", body: "New body" });
+    expect(res.status).toBe(200);
+    expect(res.body.title).toBe("Edited");
+    expect(res.body.body).toBe("New body");
+
+    const bad = await request(app).patch(`/api/cards/${card.body.id}`).send({ title: "  " });
+    expect(bad.status).toBe(400);
+  });
+
+  it("PATCH /api/cards/:id sets priority and due date", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+
+    const res = await request(app)
+      .patch(`/api/cards/${card.body.id}`)
+      .send({ priority: 1, due_at: "2026-02-16T09:00:00+02:00" });
+    expect(res.status).toBe(200);
+    expect(res.body.priority).toBe(1);
+    expect(res.body.due_at).toBe("2026-02-16T07:00:00.000Z");
+
+    expect((await request(app).patch(`/api/cards/${card.body.id}`).send({ priority: 7 })).status).toBe(400);
+    expect((await request(app).patch(`/api/cards/${card.body.id}`).send({ due_at: "soon" })).status).toBe(400);
+  });
+
+  it("GET /api/board/today?sort=urgency orders cards by urgency", async () => {
+    const low = await request(app).post("/api/cards").send({ title: "Low", priority: 4 });
+    const urgent = await request(app).post("/api/cards").send({ title: "Urgent", priority: 1 });
+
+    const manual = await request(app).get("/api/board/today");
+    expect(manual.body.cards.map((c: { id: number }) => c.id)).toEqual([low.body.id, urgent.body.id]);
+
+    const sorted = await request(app).get("/api/board/today?sort=urgency");
+    expect(sorted.body.cards.map((c: { id: number }) => c.id)).toEqual([urgent.body.id, low.body.id]);
+  });
+
+  it("DELETE /api/cards/:id soft-deletes and restore brings it back", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+
+    const del = await request(app).delete(`/api/cards/${card.body.id}`);
+    expect(del.status).toBe(200);
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(0);
+
+    await request(app).post(`/api/cards/${card.body.id}/restore`);
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(1);
+  });
+
+  it("POST /api/cards/:id/archive hides the card unless archived cards are requested", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+
+    const res = await request(app).post(`/api/cards/${card.body.id}/archive`);
+    expect(res.status).toBe(200);
+    expect(res.body.archived_at).not.toBeNull();
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(0);
+    expect((await request(app).get("/api/board/today?archived=true")).body.cards).toHaveLength(1);
+  });
+
+  it("GET /api/cards/:id/events returns the card's audit trail", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+    await request(app).patch(`/api/cards/${card.body.id}/move`).send({ column_name: "human_do" });
+    await request(app).patch(`/api/cards/${card.body.id}`).send({ title: "Renamed" });
+
+    const res = await request(app).get(`/api/cards/${card.body.id}/events`);
+    expect(res.status).toBe(200);
+    expect(res.body.events.map((e: { type: string }) => e.type)).toEqual(["created", "moved", "updated"]);
+    expect(res.body.events[2]).toMatchObject({
+      actor: "user",
+      old_value: { title: "Task" },
+      new_value: { title: "Renamed" },
+    });
+
+    expect((await request(app).get("/api/cards/999/events")).status).toBe(404);
+  });
+
+  it("DELETE /api/board/today soft-deletes every card and restore undoes it", async () => {
+    await request(app).post("/api/cards").send({ title: "One" });
+    await request(app).post("/api/cards").send({ title: "Two" });
+
+    const purged = await request(app).delete("/api/board/today");
+    expect(purged.body.deleted).toBe(2);
+    expect(purged.body.card_ids).toHaveLength(2);
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(0);
+
+    const restored = await request(app).post("/api/board/today/restore").send({ card_ids: purged.body.card_ids });
+    expect(restored.status).toBe(200);
+    expect(restored.body.cards.map((c: { title: string }) => c.title)).toEqual(["One", "Two"]);
+
+    expect((await request(app).post("/api/board/today/restore").send({ card_ids: "all" })).status).toBe(400);
+  });
+
+  it("GET /api/board/events streams card changes", async () => {
+    const server = app.listen(0);
+    const { port } = server.address() as AddressInfo;
+    const controller = new AbortController();
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/api/board/events`, { signal: controller.signal });
+      expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+      await request(app).post("/api/cards").send({ title: "Pushed" });
+      const reader = res.body!.getReader();
+      const { value } = await reader.read();
+      const event = JSON.parse(new TextDecoder().decode(value).replace(/^data: /, ""));
+      expect(event).toMatchObject({ type: "created", card: { title: "Pushed" } });
+    } finally {
+      controller.abort();
+      server.close();
+    }
+  });
+
+  it("returns 404 when editing a missing card", async () => {
+    const res = await request(app).patch("/api/cards/999").send({ title: "x" });
+    expect(res.status).toBe(404);
+  });
 });
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createBoardRouter } from "../board.js";
+import { createCardsRouter } from "../cards.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+
+describe("Bulk card API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let labelRepo: LabelRepo;
+  let cardRepo: CardRepo;
+  let ids: number[];
+
+  beforeEach(async () => {
+    db = new Database(":memory:");
+    migrate(db);
+    const boardRepo = new BoardRepo(db);
+    cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
+    labelRepo = new LabelRepo(db);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, labelRepo, columnRepo));
+
+    ids = [];
+    for (const title of ["One", "Two", "Three"]) {
+      ids.push((await request(app).post("/api/cards").send({ title })).body.id);
+    }
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const bulk = (body: object) => request(app).post("/api/cards/bulk").send(body);
+
+  it("moves cards to the end of a column in order", async () => {
+    const res = await bulk({ card_ids: [ids[2], ids[0]], action: { type: "move", column_name: "human_do" } });
+    expect(res.status).toBe(200);
+    expect(res.body.cards.map((c: { column_name: string }) => c.column_name)).toEqual(["human_do", "human_do"]);
+
+    const board = (await request(app).get("/api/board/today")).body;
+    const humanDo = board.cards.filter((c: { column_name: string }) => c.column_name === "human_do");
+    expect(humanDo.map((c: { title: string }) => c.title)).toEqual(["Three", "One"]);
+  });
+
+  it("archives, deletes, toggles AI and sets the repo", async () => {
+    await bulk({ card_ids: ids, action: { type: "toggle_ai", ai_toggle: true } });
+    const repo = await bulk({ card_ids: ids, action: { type: "set_repo", repo_id: "web" } });
+    expect(repo.body.cards.every((c: { ai_toggle: boolean; metadata: { repo_id: string } }) =>
+      c.ai_toggle && c.metadata.repo_id === "web")).toBe(true);
+
+    await bulk({ card_ids: [ids[0]], action: { type: "archive" } });
+    await bulk({ card_ids: [ids[1]], action: { type: "delete" } });
+    const board = (await request(app).get("/api/board/today")).body;
+    expect(board.cards.map((c: { title: string }) => c.title)).toEqual(["Three"]);
+  });
+
+  it("adds and removes a label", async () => {
+    const label = labelRepo.ensure("urgent");
+    const added = await bulk({ card_ids: ids, action: { type: "add_label", label_id: label.id } });
+    expect(added.body.cards.every((c: { labels: { name: string }[] }) => c.labels[0]?.name === "urgent")).toBe(true);
+
+    const removed = await bulk({ card_ids: [ids[0]], action: { type: "remove_label", label_id: label.id } });
+    expect(removed.body.cards[0].labels).toEqual([]);
+    expect((await bulk({ card_ids: ids, action: { type: "add_label", label_id: 999 } })).status).toBe(400);
+
+    const timeline = cardRepo.listEvents(ids[0]).filter((e) => e.type === "updated");
+    expect(timeline.map((e) => e.new_value)).toEqual([{ labels: ["urgent"] }, { labels: [] }]);
+  });
+
+  it("changes nothing when any card is missing or the action is invalid", async () => {
+    const missing = await bulk({ card_ids: [ids[0], 999], action: { type: "archive" } });
+    expect(missing.status).toBe(404);
+    expect((await bulk({ card_ids: [], action: { type: "archive" } })).status).toBe(400);
+    expect((await bulk({ card_ids: ids, action: { type: "explode" } })).status).toBe(400);
+    expect((await bulk({ card_ids: ids, action: { type: "move", column_name: "nowhere" } })).status).toBe(400);
+
+    const board = (await request(app).get("/api/board/today")).body;
+    expect(board.cards).toHaveLength(3);
+  });
+
+  it("refuses a move that would overflow the WIP limit", async () => {
+    const { columns } = (await request(app).get("/api/board/today")).body;
+    const humanDo = columns.find((c: { key: string }) => c.key === "human_do");
+    db.prepare("UPDATE board_columns SET wip_limit = 2 WHERE id = ?").run(humanDo.id);
+
+    const res = await bulk({ card_ids: ids, action: { type: "move", column_name: "human_do" } });
+    expect(res.status).toBe(409);
+    expect((await bulk({ card_ids: ids.slice(0, 2), action: { type: "move", column_name: "human_do" } })).status).toBe(200);
+  });
+});
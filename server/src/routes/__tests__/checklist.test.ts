@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createCardsRouter } from "../cards.js";
+import { createChecklistRouter } from "../checklist.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { ChecklistRepo } from "../../db/checklist-repo.js";
+
+describe("Checklist API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const labelRepo = new LabelRepo(db);
+    const checklistRepo = new ChecklistRepo(db);
+    const cardRepo = new CardRepo(db, labelRepo, checklistRepo);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/cards", createCardsRouter(cardRepo, new BoardRepo(db), labelRepo, new ColumnRepo(db)));
+    app.use("/api/cards/:cardId/checklist", createChecklistRouter(cardRepo, checklistRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("adds, checks and deletes items", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+    const base = `/api/cards/${card.body.id}/checklist`;
+
+    const created = await request(app).post(base).send({ text: "First step" });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ text: "First step", checked: false, source: "manual" });
+
+    const checked = await request(app).patch(`${base}/${created.body.id}`).send({ checked: true });
+    expect(checked.body.checked).toBe(true);
+
+    const list = await request(app).get(base);
+    expect(list.body.items).toHaveLength(1);
+
+    expect((await request(app).delete(`${base}/${created.body.id}`)).status).toBe(200);
+    expect((await request(app).get(base)).body.items).toHaveLength(0);
+  });
+
+  it("syncs plan items from the card body", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task", body: "- [ ] One\n- [x] Two" });
+    expect(card.body.checklist).toEqual({ done: 1, total: 2 });
+
+    const edited = await request(app).patch(`/api/cards/${card.body.id}`).send({ body: "- [ ] One" });
+    expect(edited.body.checklist).toEqual({ done: 0, total: 1 });
+  });
+
+  it("validates input and scopes items to their card", async () => {
+    const a = await request(app).post("/api/cards").send({ title: "A" });
+    const b = await request(app).post("/api/cards").send({ title: "B" });
+    const item = await request(app).post(`/api/cards/${a.body.id}/checklist`).send({ text: "Step" });
+
+    expect((await request(app).post(`/api/cards/${a.body.id}/checklist`).send({ text: " " })).status).toBe(400);
+    expect((await request(app).patch(`/api/cards/${a.body.id}/checklist/${item.body.id}`).send({ checked: "yes" })).status).toBe(400);
+    expect((await request(app).patch(`/api/cards/${b.body.id}/checklist/${item.body.id}`).send({ checked: true })).status).toBe(404);
+    expect((await request(app).get("/api/cards/999/checklist")).status).toBe(404);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createBoardRouter } from "../board.js";
+import { createCardsRouter } from "../cards.js";
+import { createColumnsRouter } from "../columns.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+
+describe("Columns API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const boardRepo = new BoardRepo(db);
+    const cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/board/:date/columns", createColumnsRouter(columnRepo, boardRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, new LabelRepo(db), columnRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("returns the board's columns with the board", async () => {
+    const res = await request(app).get("/api/board/today");
+    expect(res.body.columns).toHaveLength(6);
+    expect(res.body.columns[0]).toMatchObject({ key: "inbox", name: "Inbox", system: true });
+  });
+
+  it("creates, updates and removes a column", async () => {
+    const created = await request(app)
+      .post("/api/board/today/columns")
+      .send({ name: "Blocked", color: "#ef4444", wip_limit: 2 });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ key: "blocked", wip_limit: 2, behavior: null });
+
+    const updated = await request(app)
+      .patch(`/api/board/today/columns/${created.body.id}`)
+      .send({ name: "Waiting", behavior: "start_ai", wip_limit: null });
+    expect(updated.body).toMatchObject({ key: "blocked", name: "Waiting", behavior: "start_ai", wip_limit: null });
+
+    const removed = await request(app).delete(`/api/board/today/columns/${created.body.id}`);
+    expect(removed.status).toBe(200);
+    expect((await request(app).get("/api/board/today/columns")).body.columns).toHaveLength(6);
+  });
+
+  it("validates column fields", async () => {
+    expect((await request(app).post("/api/board/today/columns").send({ name: " " })).status).toBe(400);
+    expect((await request(app).post("/api/board/today/columns").send({ name: "X", color: "red" })).status).toBe(400);
+    expect((await request(app).post("/api/board/today/columns").send({ name: "X", wip_limit: 0 })).status).toBe(400);
+    expect((await request(app).post("/api/board/today/columns").send({ name: "X", behavior: "launch" })).status).toBe(400);
+  });
+
+  it("refuses to remove built-in columns or columns that still hold cards", async () => {
+    const { columns } = (await request(app).get("/api/board/today/columns")).body;
+    const inbox = columns.find((c: { key: string }) => c.key === "inbox");
+    expect((await request(app).delete(`/api/board/today/columns/${inbox.id}`)).status).toBe(400);
+
+    const humanDo = columns.find((c: { key: string }) => c.key === "human_do");
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+    await request(app).patch(`/api/cards/${card.body.id}/move`).send({ column_name: "human_do" });
+    expect((await request(app).delete(`/api/board/today/columns/${humanDo.id}`)).status).toBe(409);
+  });
+
+  it("reorders columns", async () => {
+    const { columns } = (await request(app).get("/api/board/today/columns")).body;
+    const ids = columns.map((c: { id: number }) => c.id).reverse();
+
+    const res = await request(app).put("/api/board/today/columns/order").send({ ids });
+    expect(res.body.columns[0].key).toBe("done");
+    expect((await request(app).put("/api/board/today/columns/order").send({ ids: ids.slice(1) })).status).toBe(400);
+  });
+
+  it("enforces WIP limits and known columns when moving cards", async () => {
+    const { columns } = (await request(app).get("/api/board/today/columns")).body;
+    const humanDo = columns.find((c: { key: string }) => c.key === "human_do");
+    await request(app).patch(`/api/board/today/columns/${humanDo.id}`).send({ wip_limit: 1 });
+
+    const first = await request(app).post("/api/cards").send({ title: "First" });
+    const second = await request(app).post("/api/cards").send({ title: "Second" });
+    expect((await request(app).patch(`/api/cards/${first.body.id}/move`).send({ column_name: "human_do" })).status).toBe(200);
+
+    const refused = await request(app).patch(`/api/cards/${second.body.id}/move`).send({ column_name: "human_do" });
+    expect(refused.status).toBe(409);
+    expect(refused.body.error).toContain("WIP limit");
+
+    // Reordering within the full column still works
+    const reorder = await request(app).patch(`/api/cards/${first.body.id}/move`).send({ column_name: "human_do", position: 5 });
+    expect(reorder.status).toBe(200);
+
+    expect((await request(app).patch(`/api/cards/${second.body.id}/move`).send({ column_name: "nowhere" })).status).toBe(400);
+    expect((await request(app).patch("/api/cards/999/move").send({ column_name: "done" })).status).toBe(404);
+  });
+
+  it("reorders cards by neighbor and returns the new positions", async () => {
+    const first = await request(app).post("/api/cards").send({ title: "First" });
+    const second = await request(app).post("/api/cards").send({ title: "Second" });
+    const third = await request(app).post("/api/cards").send({ title: "Third" });
+
+    const res = await request(app)
+      .patch(`/api/cards/${third.body.id}/reorder`)
+      .send({ column_name: "inbox", after_id: first.body.id, before_id: second.body.id });
+    expect(res.status).toBe(200);
+    expect(res.body.card).toMatchObject({ id: third.body.id, position: 1.5 });
+    expect(res.body.positions).toEqual([{ id: third.body.id, position: 1.5 }]);
+
+    const board = (await request(app).get("/api/board/today")).body;
+    expect(board.cards.map((c: { title: string }) => c.title)).toEqual(["First", "Third", "Second"]);
+
+    const misplaced = await request(app)
+      .patch(`/api/cards/${third.body.id}/reorder`)
+      .send({ column_name: "done", after_id: first.body.id });
+    expect(misplaced.status).toBe(400);
+    expect((await request(app).patch("/api/cards/999/reorder").send({ column_name: "done" })).status).toBe(404);
+  });
+});
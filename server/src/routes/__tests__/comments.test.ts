@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createCardsRouter } from "../cards.js";
+import { createCommentsRouter } from "../comments.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { CommentRepo } from "../../db/comment-repo.js";
+
+describe("Comments API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const labelRepo = new LabelRepo(db);
+    const cardRepo = new CardRepo(db, labelRepo);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/cards", createCardsRouter(cardRepo, new BoardRepo(db), labelRepo, new ColumnRepo(db)));
+    app.use("/api/cards/:cardId/comments", createCommentsRouter(cardRepo, new CommentRepo(db)));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("adds, edits and deletes comments", async () => {
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+    const base = `/api/cards/${card.body.id}/comments`;
+
+    const first = await request(app).post(base).send({ body: "Called the vendor" });
+    expect(first.status).toBe(201);
+    await request(app).post(base).send({ body: "Waiting on a quote" });
+
+    const edited = await request(app).patch(`${base}/${first.body.id}`).send({ body: "Called the vendor twice" });
+    expect(edited.body.body).toBe("Called the vendor twice");
+
+    const list = await request(app).get(base);
+    expect(list.body.comments.map((c: { body: string }) => c.body)).toEqual([
+      "Called the vendor twice",
+      "Waiting on a quote",
+    ]);
+
+    expect((await request(app).delete(`${base}/${first.body.id}`)).status).toBe(200);
+    expect((await request(app).get(base)).body.comments).toHaveLength(1);
+  });
+
+  it("returns 404 for unknown cards", async () => {
+    expect((await request(app).get("/api/cards/999/comments")).status).toBe(404);
+    expect((await request(app).post("/api/cards/999/comments").send({ body: "Note" })).status).toBe(404);
+  });
+
+  it("validates input and scopes comments to their card", async () => {
+    const a = await request(app).post("/api/cards").send({ title: "A" });
+    const b = await request(app).post("/api/cards").send({ title: "B" });
+    const comment = await request(app).post(`/api/cards/${a.body.id}/comments`).send({ body: "Note" });
+
+    expect((await request(app).post(`/api/cards/${a.body.id}/comments`).send({ body: "  " })).status).toBe(400);
+    expect((await request(app).patch(`/api/cards/${b.body.id}/comments/${comment.body.id}`).send({ body: "x" })).status).toBe(404);
+    expect((await request(app).delete(`/api/cards/${b.body.id}/comments/${comment.body.id}`)).status).toBe(404);
+  });
+});
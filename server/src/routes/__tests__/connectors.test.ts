@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import crypto from "crypto";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createConnectorsRouter } from "../connectors.js";
+import { ConnectorRegistry } from "../../connectors/registry.js";
+import { GitLabConnector } from "../../connectors/gitlab.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { UserRepo } from "../../db/user-repo.js";
+import { CredentialCipher, encryptStoredCredentials } from "../../credentials.js";
+
+describe("Connectors API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let cipher: CredentialCipher;
+  let gitlab: GitLabConnector;
+  let registry: ConnectorRegistry;
+  // Signs the request in as this user instead of the owner
+  let signedIn: number | null;
+
+  const storedCredentials = () =>
+    (db.prepare("SELECT credentials FROM connector_configs WHERE type = 'gitlab'").get() as { credentials: string }).credentials;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    cipher = new CredentialCipher(crypto.randomBytes(32));
+    signedIn = null;
+    registry = new ConnectorRegistry();
+    gitlab = new GitLabConnector();
+    registry.register("gitlab", gitlab);
+    app = express();
+    app.use(express.json());
+    app.use((_req, res, next) => {
+      if (signedIn) res.locals.user = new UserRepo(db).getById(signedIn);
+      next();
+    });
+    app.use(
+      "/api/connectors",
+      createConnectorsRouter({
+        db,
+        registry,
+        boardRepo: new BoardRepo(db),
+        cardRepo: new CardRepo(db),
+        cipher,
+        scheduler: { pollAll: async () => {} },
+        port: 3001,
+      }),
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+    delete process.env.TEST_GITLAB_TOKEN;
+  });
+
+  it("stores credentials encrypted and never returns secrets", async () => {
+    await request(app)
+      .put("/api/connectors/gitlab")
+      .send({ credentials: { base_url: "https://gitlab.example.com", token: "glpat-secret" }, enabled: true })
+      .expect(200);
+
+    expect(storedCredentials()).not.toContain("glpat-secret");
+    expect(cipher.decrypt(storedCredentials())).toEqual({ base_url: "https://gitlab.example.com", token: "glpat-secret" });
+
+    const res = await request(app).get("/api/connectors/gitlab");
+    expect(JSON.stringify(res.body)).not.toContain("glpat-secret");
+    expect(res.body.credentials).toEqual({
+      base_url: { configured: true, value: "https://gitlab.example.com" },
+      token: { configured: true, value: null },
+    });
+  });
+
+  it("keeps the stored secret when the field is sent blank", async () => {
+    const put = (token: string) =>
+      request(app).put("/api/connectors/gitlab").send({ credentials: { base_url: "https://gitlab.com", token }, enabled: true });
+    await put("glpat-secret");
+    await put("");
+    expect(cipher.decrypt(storedCredentials()).token).toBe("glpat-secret");
+  });
+
+  it("resolves env references when the connector reloads", async () => {
+    await request(app)
+      .put("/api/connectors/gitlab")
+      .send({ credentials: { base_url: "https://gitlab.com", token: "${env:TEST_GITLAB_TOKEN}" }, enabled: true });
+
+    const missing = await request(app).post("/api/connectors/gitlab/reload");
+    expect(missing.status).toBe(500);
+    expect(missing.body.error).toMatch(/TEST_GITLAB_TOKEN is not set/);
+
+    process.env.TEST_GITLAB_TOKEN = "glpat-from-env";
+    expect((await request(app).post("/api/connectors/gitlab/reload")).status).toBe(200);
+    expect((await request(app).get("/api/connectors/gitlab")).body.credentials.token.value).toBe("${env:TEST_GITLAB_TOKEN}");
+  });
+
+  it("encrypts rows saved before encryption", () => {
+    db.prepare("INSERT INTO connector_configs (type, credentials, enabled) VALUES ('linear', ?, 1)").run('{"api_key":"lin_api_1"}');
+    expect(encryptStoredCredentials(db, cipher)).toBe(1);
+    expect(encryptStoredCredentials(db, cipher)).toBe(0);
+    const row = db.prepare("SELECT credentials FROM connector_configs WHERE type = 'linear'").get() as { credentials: string };
+    expect(cipher.decrypt(row.credentials)).toEqual({ api_key: "lin_api_1" });
+  });
+
+  it("keeps each user's configs to themselves, with their own connector", async () => {
+    const sam = new UserRepo(db).create("Sam").user;
+    await request(app)
+      .put("/api/connectors/gitlab")
+      .send({ credentials: { base_url: "https://gitlab.com", token: "owner-token" }, enabled: true });
+
+    signedIn = sam.id;
+    expect((await request(app).get("/api/connectors/gitlab")).status).toBe(404);
+    expect((await request(app).get("/api/connectors")).body).toEqual([]);
+    await request(app)
+      .put("/api/connectors/gitlab")
+      .send({ credentials: { base_url: "https://gitlab.com", token: "sam-token" }, enabled: true });
+    expect((await request(app).post("/api/connectors/gitlab/reload")).status).toBe(200);
+
+    const rows = db.prepare("SELECT owner_id, credentials FROM connector_configs ORDER BY owner_id").all() as {
+      owner_id: number;
+      credentials: string;
+    }[];
+    expect(rows.map((r) => [r.owner_id, cipher.decrypt(r.credentials).token])).toEqual([
+      [1, "owner-token"],
+      [sam.id, "sam-token"],
+    ]);
+    expect(registry.get(`gitlab:${sam.id}`)).toBeInstanceOf(GitLabConnector);
+    expect(registry.get(`gitlab:${sam.id}`)).not.toBe(gitlab);
+  });
+
+  it("refuses env and file references in a teammate's credentials", async () => {
+    signedIn = new UserRepo(db).create("Sam").user.id;
+    for (const token of ["${env:API_TOKEN}", "file:/etc/passwd"]) {
+      const res = await request(app)
+        .put("/api/connectors/gitlab")
+        .send({ credentials: { base_url: "https://attacker.example.com", token }, enabled: true });
+      expect(res.status).toBe(400);
+      expect(res.body.error).toMatch(/only the owner/);
+    }
+    expect(db.prepare("SELECT COUNT(*) AS n FROM connector_configs").get()).toEqual({ n: 0 });
+
+    // Rows saved before the check still never resolve
+    db.prepare("INSERT INTO connector_configs (type, owner_id, credentials, enabled) VALUES ('gitlab', ?, ?, 1)").run(
+      signedIn,
+      cipher.encrypt({ base_url: "https://attacker.example.com", token: "${env:API_TOKEN}" }),
+    );
+    const reload = await request(app).post("/api/connectors/gitlab/reload");
+    expect(reload.status).toBe(500);
+    expect(registry.get(`gitlab:${signedIn}`)).toBeUndefined();
+  });
+});
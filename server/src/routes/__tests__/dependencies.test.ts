@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createCardsRouter } from "../cards.js";
+import { createDependenciesRouter } from "../dependencies.js";
+import { createAiRouter } from "../ai.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { ChecklistRepo } from "../../db/checklist-repo.js";
+import { CommentRepo } from "../../db/comment-repo.js";
+import { DependencyRepo } from "../../db/dependency-repo.js";
+import { SettingsRepo } from "../../db/settings-repo.js";
+import { LogRepo } from "../../db/log-repo.js";
+import { SessionRepo } from "../../db/session-repo.js";
+import { ClaudeEvaluator } from "../../ai/claude-evaluator.js";
+import { ConnectorRegistry } from "../../connectors/registry.js";
+
+describe("Dependencies API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const labelRepo = new LabelRepo(db);
+    const checklistRepo = new ChecklistRepo(db);
+    const dependencyRepo = new DependencyRepo(db);
+    const cardRepo = new CardRepo(db, labelRepo, checklistRepo, dependencyRepo);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/cards", createCardsRouter(cardRepo, new BoardRepo(db), labelRepo, new ColumnRepo(db)));
+    app.use("/api/cards/:cardId/dependencies", createDependenciesRouter(cardRepo, dependencyRepo));
+    app.use(
+      "/api/ai",
+      createAiRouter(
+        cardRepo,
+        new ClaudeEvaluator(),
+        new ConnectorRegistry(),
+        db,
+        new SettingsRepo(db),
+        new LogRepo(db),
+        new SessionRepo(db),
+        checklistRepo,
+        new CommentRepo(db),
+      ),
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("blocks a card until its blocker is done", async () => {
+    const review = await request(app).post("/api/cards").send({ title: "Review MR" });
+    const deploy = await request(app).post("/api/cards").send({ title: "Deploy" });
+
+    const added = await request(app)
+      .post(`/api/cards/${deploy.body.id}/dependencies`)
+      .send({ blocker_id: review.body.id });
+    expect(added.status).toBe(201);
+    expect(added.body.dependencies).toEqual({
+      blocked_by: [review.body.id],
+      blocks: [],
+      open_blockers: [review.body.id],
+    });
+
+    const deps = await request(app).get(`/api/cards/${review.body.id}/dependencies`);
+    expect(deps.body.blocks.map((c: { title: string }) => c.title)).toEqual(["Deploy"]);
+
+    await request(app).patch(`/api/cards/${review.body.id}/move`).send({ column_name: "done" });
+    const unblocked = await request(app).patch(`/api/cards/${deploy.body.id}`).send({});
+    expect(unblocked.body.dependencies.blocked_by).toEqual([review.body.id]);
+    expect(unblocked.body.dependencies.open_blockers).toEqual([]);
+  });
+
+  it("refuses to process or execute a blocked card", async () => {
+    const blocker = await request(app).post("/api/cards").send({ title: "Review MR" });
+    const blocked = await request(app).post("/api/cards").send({ title: "Deploy" });
+    await request(app).post(`/api/cards/${blocked.body.id}/dependencies`).send({ blocker_id: blocker.body.id });
+
+    const processed = await request(app).post(`/api/ai/process-stream/${blocked.body.id}`).send({});
+    expect(processed.status).toBe(409);
+    expect(processed.body.error).toContain("Review MR");
+    expect(processed.body.blocked_by).toEqual([blocker.body.id]);
+
+    const executed = await request(app).post(`/api/ai/execute-code/${blocked.body.id}`);
+    expect(executed.status).toBe(409);
+  });
+
+  it("rejects self-dependencies, cycles and unknown cards", async () => {
+    const a = await request(app).post("/api/cards").send({ title: "A" });
+    const b = await request(app).post("/api/cards").send({ title: "B" });
+    const c = await request(app).post("/api/cards").send({ title: "C" });
+    await request(app).post(`/api/cards/${b.body.id}/dependencies`).send({ blocker_id: a.body.id });
+    await request(app).post(`/api/cards/${c.body.id}/dependencies`).send({ blocker_id: b.body.id });
+
+    const self = await request(app).post(`/api/cards/${a.body.id}/dependencies`).send({ blocker_id: a.body.id });
+    expect(self.status).toBe(409);
+    const cycle = await request(app).post(`/api/cards/${a.body.id}/dependencies`).send({ blocker_id: c.body.id });
+    expect(cycle.status).toBe(409);
+    const missing = await request(app).post(`/api/cards/${a.body.id}/dependencies`).send({ blocker_id: 999 });
+    expect(missing.status).toBe(404);
+  });
+
+  it("removes a dependency", async () => {
+    const a = await request(app).post("/api/cards").send({ title: "A" });
+    const b = await request(app).post("/api/cards").send({ title: "B" });
+    await request(app).post(`/api/cards/${b.body.id}/dependencies`).send({ blocker_id: a.body.id });
+
+    const removed = await request(app).delete(`/api/cards/${b.body.id}/dependencies/${a.body.id}`);
+    expect(removed.status).toBe(200);
+    expect(removed.body.dependencies.open_blockers).toEqual([]);
+    expect((await request(app).delete(`/api/cards/${b.body.id}/dependencies/${a.body.id}`)).status).toBe(404);
+  });
+});
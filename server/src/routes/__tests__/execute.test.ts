@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createAiRouter } from "../ai.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ChecklistRepo } from "../../db/checklist-repo.js";
+import { CommentRepo } from "../../db/comment-repo.js";
+import { LogRepo } from "../../db/log-repo.js";
+import { SessionRepo } from "../../db/session-repo.js";
+import { SettingsRepo } from "../../db/settings-repo.js";
+import { ClaudeEvaluator } from "../../ai/claude-evaluator.js";
+import { ActionQueue } from "../../ai/action-queue.js";
+import { ConnectorRegistry } from "../../connectors/registry.js";
+import { UserRepo } from "../../db/user-repo.js";
+import { requireAuth } from "../../auth.js";
+
+describe("Connector action grace period", () => {
+  let app: express.Express;
+  let router: express.Router;
+  let registry: ConnectorRegistry;
+  let db: Database.Database;
+  let cardRepo: CardRepo;
+  let cardId: number;
+  const executeAction = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    db = new Database(":memory:");
+    migrate(db);
+    cardRepo = new CardRepo(db);
+    registry = new ConnectorRegistry();
+    registry.register("gmail", { name: "gmail", icon: "mail", fetchItems: async () => [], executeAction });
+    executeAction.mockReset().mockResolvedValue({ success: true, message: "Reply sent" });
+
+    app = express();
+    app.use(express.json());
+    router = createAiRouter(
+      cardRepo,
+      new ClaudeEvaluator(),
+      registry,
+      db,
+      new SettingsRepo(db),
+      new LogRepo(db),
+      new SessionRepo(db),
+      new ChecklistRepo(db),
+      new CommentRepo(db),
+      new ActionQueue(5000),
+    );
+    app.use("/api/ai", router);
+
+    const board = new BoardRepo(db).getOrCreateToday();
+    const card = cardRepo.create({
+      board_id: board.id, source_id: "gmail:1", source_type: "gmail", title: "Mail", body: null, metadata: null,
+    });
+    cardRepo.setAiEvaluation(card.id, { confidence: 95, proposed_action: "Reply", action_payload: { type: "reply" } });
+    cardRepo.moveToColumn(card.id, "ai_do");
+    cardId = card.id;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    db.close();
+  });
+
+  it("queues the action and only runs it after the grace period", async () => {
+    const res = await request(app).post(`/api/ai/execute/${cardId}`);
+    expect(res.status).toBe(202);
+    expect(res.body.metadata.action_due_at).toBeTruthy();
+    expect(executeAction).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(executeAction).toHaveBeenCalledOnce();
+    const card = cardRepo.getById(cardId)!;
+    expect(card.column_name).toBe("done");
+    expect(card.execution_result).toBe("Reply sent");
+    expect(card.metadata?.action_due_at).toBeNull();
+  });
+
+  it("cancels the action while it is still pending", async () => {
+    await request(app).post(`/api/ai/execute/${cardId}`);
+
+    const cancelled = await request(app).post(`/api/ai/execute/${cardId}/cancel`);
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.metadata.action_due_at).toBeNull();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(cardRepo.getById(cardId)!.column_name).toBe("ai_do");
+
+    expect((await request(app).post(`/api/ai/execute/${cardId}/cancel`)).status).toBe(409);
+  });
+
+  it("calls the action off when the card leaves its column first", async () => {
+    await request(app).post(`/api/ai/execute/${cardId}`);
+    cardRepo.moveToColumn(cardId, "inbox");
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(executeAction).not.toHaveBeenCalled();
+    expect(cardRepo.getById(cardId)!.metadata?.action_due_at).toBeNull();
+  });
+
+  it("calls the action off when the card is archived or deleted first", async () => {
+    await request(app).post(`/api/ai/execute/${cardId}`);
+    cardRepo.archive(cardId);
+    await vi.advanceTimersByTimeAsync(5000);
+
+    cardRepo.restore(cardId);
+    await request(app).post(`/api/ai/execute/${cardId}`);
+    cardRepo.softDelete(cardId);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(executeAction).not.toHaveBeenCalled();
+  });
+
+  it("records a thrown error and moves the card to review", async () => {
+    executeAction.mockRejectedValue(new Error("SMTP refused"));
+    await request(app).post(`/api/ai/execute/${cardId}`);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    const card = cardRepo.getById(cardId)!;
+    expect(card.execution_result).toBe("Failed: SMTP refused");
+    expect(card.column_name).toBe("review");
+  });
+
+  it("gives the AI the rules of the card's own connector config", async () => {
+    const evaluate = vi
+      .spyOn(ClaudeEvaluator.prototype, "evaluate")
+      .mockResolvedValue({ canAutomate: false, confidence: 10, proposedAction: "", actionPayload: null });
+    const sam = new UserRepo(db).create("Sam").user;
+    const insert = db.prepare("INSERT INTO connector_configs (type, owner_id, settings, enabled) VALUES ('gmail', ?, ?, 1)");
+    insert.run(1, JSON.stringify({ ai_rules: "Owner's rules" }));
+    insert.run(sam.id, JSON.stringify({ ai_rules: "Sam's rules" }));
+    db.prepare("UPDATE cards SET source_user_id = ? WHERE id = ?").run(sam.id, cardId);
+
+    await request(app).post(`/api/ai/evaluate/${cardId}`);
+    expect(evaluate.mock.calls[0][3]).toBe("Sam's rules");
+    evaluate.mockRestore();
+  });
+
+  it("only lets the user whose connector fetched the card run its action", async () => {
+    const users = new UserRepo(db);
+    const sam = users.create("Sam");
+    const authed = express();
+    authed.use(express.json());
+    authed.use("/api", requireAuth("owner-token", [], users));
+    authed.use("/api/ai", router);
+    const as = (token: string) => request(authed).post(`/api/ai/execute/${cardId}`).set("Authorization", `Bearer ${token}`);
+
+    const refused = await as(sam.token);
+    expect(refused.status).toBe(403);
+    expect(cardRepo.getById(cardId)!.metadata?.action_due_at).toBeUndefined();
+
+    const samsGmail = vi.fn().mockResolvedValue({ success: true, message: "Sent" });
+    registry.register(`gmail:${sam.user.id}`, { name: "gmail", icon: "mail", fetchItems: async () => [], executeAction: samsGmail });
+    db.prepare("UPDATE cards SET source_user_id = ? WHERE id = ?").run(sam.user.id, cardId);
+    expect((await as("owner-token")).status).toBe(403);
+    expect((await as(sam.token)).status).toBe(202);
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(samsGmail).toHaveBeenCalledOnce();
+    expect(executeAction).not.toHaveBeenCalled();
+  });
+});
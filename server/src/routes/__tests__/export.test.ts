@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createExportRouter } from "../export.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { LogRepo } from "../../db/log-repo.js";
+
+function createApp(db: Database.Database): express.Express {
+  const labelRepo = new LabelRepo(db);
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api/board",
+    createExportRouter(db, new BoardRepo(db), new CardRepo(db, labelRepo), new ColumnRepo(db), labelRepo, new LogRepo(db)),
+  );
+  return app;
+}
+
+describe("Board export API", () => {
+  let db: Database.Database;
+  let app: express.Express;
+  let boardRepo: BoardRepo;
+  let cardRepo: CardRepo;
+  let date: string;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    boardRepo = new BoardRepo(db);
+    cardRepo = new CardRepo(db);
+    app = createApp(db);
+
+    const board = boardRepo.getOrCreateToday();
+    date = board.date;
+    const reply = cardRepo.create({
+      board_id: board.id,
+      source_id: "gmail-1",
+      source_type: "gmail",
+      title: "Reply to Dana, re: invoice",
+      body: 'Says "thanks"\nand more',
+      metadata: { from: "dana@example.com" },
+    });
+    cardRepo.setAiEvaluation(reply.id, { confidence: 85, proposed_action: "Send a reply", action_payload: { to: "dana" } });
+    cardRepo.moveToColumn(reply.id, "review");
+    const shipped = cardRepo.create({ board_id: board.id, source_id: null, source_type: "manual", title: "Ship release", body: null, metadata: null });
+    cardRepo.setExecutionResult(shipped.id, "Tagged v1.2");
+    cardRepo.moveToColumn(shipped.id, "done");
+    new LabelRepo(db).addToCard(shipped.id, [new LabelRepo(db).ensure("release").id]);
+    new LogRepo(db).insert(shipped.id, "executed", "git tag v1.2", null, null);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("exports cards with evaluations and results as JSON", async () => {
+    const res = await request(app).get(`/api/board/${date}/export?format=json`);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-disposition"]).toContain(`board-${date}.json`);
+    const data = JSON.parse(res.text);
+    expect(data.version).toBe(1);
+    expect(data.date).toBe(date);
+    expect(data.columns.map((c: { key: string }) => c.key)).toContain("review");
+    expect(data.cards).toHaveLength(2);
+    const reply = data.cards.find((c: { source_id: string }) => c.source_id === "gmail-1");
+    expect(reply).toMatchObject({ column_name: "review", confidence: 85, proposed_action: "Send a reply", action_payload: { to: "dana" } });
+    expect(reply.logs).toBeUndefined();
+  });
+
+  it("includes session logs when asked", async () => {
+    const res = await request(app).get(`/api/board/${date}/export?include_logs=true`);
+    const shipped = JSON.parse(res.text).cards.find((c: { title: string }) => c.title === "Ship release");
+    expect(shipped.labels).toEqual(["release"]);
+    expect(shipped.logs).toEqual([expect.objectContaining({ step: "executed", message: "git tag v1.2" })]);
+  });
+
+  it("exports CSV with quoted fields", async () => {
+    const res = await request(app).get(`/api/board/${date}/export?format=csv&include_logs=true`);
+    expect(res.status).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/csv");
+    const [header] = res.text.split("\r\n");
+    expect(header.split(",")[0]).toBe("column");
+    expect(header.endsWith(",logs")).toBe(true);
+    expect(res.text).toContain('"Reply to Dana, re: invoice"');
+    expect(res.text).toContain('"Says ""thanks""\nand more"');
+  });
+
+  it("exports Markdown grouped by column with done cards checked", async () => {
+    const res = await request(app).get(`/api/board/${date}/export?format=md`);
+    expect(res.status).toBe(200);
+    expect(res.text).toContain(`# Board ${date}`);
+    expect(res.text).toContain("## Review (1)");
+    expect(res.text).toContain("- [ ] Reply to Dana, re: invoice");
+    expect(res.text).toContain("  - AI: Send a reply (85%)");
+    expect(res.text).toContain("- [x] Ship release `release`");
+    expect(res.text).toContain("  - Result: Tagged v1.2");
+    expect(res.text).not.toContain("## Inbox");
+  });
+
+  it("rejects unknown formats and missing boards", async () => {
+    expect((await request(app).get(`/api/board/${date}/export?format=pdf`)).status).toBe(400);
+    expect((await request(app).get("/api/board/yesterday/export")).status).toBe(400);
+    expect((await request(app).get("/api/board/2020-01-01/export")).status).toBe(404);
+  });
+
+  it("imports a JSON export into another database", async () => {
+    const exported = JSON.parse((await request(app).get(`/api/board/${date}/export?include_logs=true`)).text);
+
+    const other = new Database(":memory:");
+    migrate(other);
+    try {
+      const otherApp = createApp(other);
+      const res = await request(otherApp).post("/api/board/import").send(exported);
+      expect(res.status).toBe(201);
+      expect(res.body).toMatchObject({ board: { date }, imported: 2, skipped: 0 });
+
+      const cards = new CardRepo(other).listByBoard(res.body.board.id);
+      const reply = cards.find((c) => c.source_id === "gmail-1")!;
+      expect(reply).toMatchObject({ column_name: "review", confidence: 85, proposed_action: "Send a reply" });
+      // Connector cards come in inert: no connector type and nothing to execute
+      expect(reply).toMatchObject({ source_type: "manual", action_payload: null, source_user_id: null });
+      const shipped = cards.find((c) => c.title === "Ship release")!;
+      expect(shipped).toMatchObject({ column_name: "done", execution_result: "Tagged v1.2" });
+      expect(shipped.labels.map((l) => l.name)).toEqual(["release"]);
+      expect(new LogRepo(other).listByCard(shipped.id).map((l) => l.message)).toEqual(["git tag v1.2"]);
+
+      // Manual cards were exported with an id of their own, so nothing is
+      // duplicated the second time
+      expect(shipped.source_id).toMatch(/^import:\d{4}-\d{2}-\d{2}:\d+$/);
+      const again = await request(otherApp).post("/api/board/import").send(exported);
+      expect(again.body).toMatchObject({ imported: 0, skipped: 2 });
+    } finally {
+      other.close();
+    }
+  });
+
+  it("imports onto another date without carrying over unfinished cards", async () => {
+    const exported = JSON.parse((await request(app).get(`/api/board/${date}/export`)).text);
+    const res = await request(app).post("/api/board/import?date=2026-01-15").send(exported);
+    expect(res.status).toBe(201);
+    expect(res.body.imported).toBe(2);
+    expect(cardRepo.listByBoard(res.body.board.id)).toHaveLength(2);
+    expect(cardRepo.listByBoard(boardRepo.getByDate(date)!.id)).toHaveLength(2);
+  });
+
+  it("validates the import payload", async () => {
+    expect((await request(app).post("/api/board/import").send({ version: 2, date, cards: [] })).status).toBe(400);
+    expect((await request(app).post("/api/board/import").send({ version: 1, date: "March", cards: [] })).status).toBe(400);
+    const res = await request(app).post("/api/board/import").send({ version: 1, date, cards: [{ title: " " }] });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe("cards[0] needs a title");
+  });
+
+  it("rejects malformed cards before importing any of them", async () => {
+    const card = { title: "Card", source_id: "x" };
+    const errors = [];
+    for (const bad of [
+      { priority: null }, { priority: 7 }, { labels: "urgent" }, { labels: [1] }, { logs: {} }, { logs: [{ step: "run" }] },
+      { source_type: "fax" }, { metadata: "from" }, { action_payload: [] }, { execution_result: 1 }, { due_at: "soon" },
+      { position: "1" }, { ai_toggle: "yes" },
+    ]) {
+      const res = await request(app).post("/api/board/import?date=2026-01-15").send({ version: 1, date, cards: [card, { ...card, ...bad }] });
+      expect(res.status).toBe(400);
+      errors.push(res.body.error);
+    }
+    expect(errors).toEqual([
+      "cards[1] priority must be an integer from 0 to 4",
+      "cards[1] priority must be an integer from 0 to 4",
+      "cards[1] labels must be an array of names",
+      "cards[1] labels must be an array of names",
+      "cards[1] logs must be an array",
+      "cards[1] logs[0] needs a step and a message",
+      "cards[1] source_type must be one of: gmail, calendar, linear, gitlab, telegram, manual, recurring",
+      "cards[1] metadata must be an object or null",
+      "cards[1] action_payload must be an object or null",
+      "cards[1] execution_result must be a string or null",
+      "cards[1] due_at must be an ISO date string or null",
+      "cards[1] position must be a number",
+      "cards[1] ai_toggle must be true or false",
+    ]);
+    expect(boardRepo.getByDate("2026-01-15")).toBeNull();
+  });
+});
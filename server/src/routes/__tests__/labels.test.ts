@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createLabelsRouter } from "../labels.js";
+import { createCardsRouter } from "../cards.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+
+describe("Labels API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let cardRepo: CardRepo;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const labelRepo = new LabelRepo(db);
+    cardRepo = new CardRepo(db, labelRepo);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/labels", createLabelsRouter(labelRepo, cardRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, new BoardRepo(db), labelRepo, new ColumnRepo(db)));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("creates, renames and deletes a label", async () => {
+    const created = await request(app).post("/api/labels").send({ name: "bug", color: "#ef4444" });
+    expect(created.status).toBe(201);
+
+    const renamed = await request(app).patch(`/api/labels/${created.body.id}`).send({ name: "defect" });
+    expect(renamed.body.name).toBe("defect");
+
+    const list = await request(app).get("/api/labels");
+    expect(list.body.labels).toHaveLength(1);
+
+    const del = await request(app).delete(`/api/labels/${created.body.id}`);
+    expect(del.status).toBe(200);
+    expect((await request(app).get("/api/labels")).body.labels).toEqual([]);
+  });
+
+  it("rejects duplicate names and bad colors", async () => {
+    await request(app).post("/api/labels").send({ name: "bug" });
+    expect((await request(app).post("/api/labels").send({ name: "BUG" })).status).toBe(409);
+    expect((await request(app).post("/api/labels").send({ name: "x", color: "red" })).status).toBe(400);
+  });
+
+  it("PUT /api/cards/:id/labels sets a card's labels", async () => {
+    const label = await request(app).post("/api/labels").send({ name: "bug" });
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+
+    const res = await request(app)
+      .put(`/api/cards/${card.body.id}/labels`)
+      .send({ label_ids: [label.body.id] });
+    expect(res.status).toBe(200);
+    expect(res.body.labels.map((l: { name: string }) => l.name)).toEqual(["bug"]);
+
+    const bad = await request(app).put(`/api/cards/${card.body.id}/labels`).send({ label_ids: [999] });
+    expect(bad.status).toBe(400);
+  });
+
+  it("records label changes on the card's timeline and tells open boards", async () => {
+    const label = await request(app).post("/api/labels").send({ name: "bug" });
+    const card = await request(app).post("/api/cards").send({ title: "Task" });
+    const events: { type: string; labels?: string[] }[] = [];
+    cardRepo.subscribe((e) => events.push({ type: e.type, labels: e.card?.labels.map((l) => l.name) }));
+
+    await request(app).put(`/api/cards/${card.body.id}/labels`).send({ label_ids: [label.body.id] });
+    await request(app).delete(`/api/labels/${label.body.id}`);
+
+    expect(events).toEqual([
+      { type: "updated", labels: ["bug"] },
+      { type: "updated", labels: [] },
+    ]);
+    const timeline = cardRepo.listEvents(card.body.id).filter((e) => e.type === "updated");
+    expect(timeline.map((e) => [e.old_value, e.new_value])).toEqual([
+      [{ labels: [] }, { labels: ["bug"] }],
+      [{ labels: ["bug"] }, { labels: [] }],
+    ]);
+  });
+});
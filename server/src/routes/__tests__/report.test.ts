@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createReportRouter } from "../report.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { SessionRepo } from "../../db/session-repo.js";
+import { CardEventRepo } from "../../db/card-event-repo.js";
+import { ReportRepo } from "../../db/report-repo.js";
+import { ClaudeEvaluator } from "../../ai/claude-evaluator.js";
+
+describe("Report API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let evaluator: ClaudeEvaluator;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const boardRepo = new BoardRepo(db);
+    const cardRepo = new CardRepo(db);
+    const sessionRepo = new SessionRepo(db);
+    evaluator = new ClaudeEvaluator();
+
+    const board = boardRepo.getOrCreateToday();
+    const card = cardRepo.create({ board_id: board.id, source_id: null, source_type: "manual", title: "Fix login", body: null, metadata: null });
+    const session = sessionRepo.create(card.id);
+    sessionRepo.updateStatus(session.id, "completed", "PR: https://github.com/acme/app/pull/42");
+    cardRepo.setExecutionResult(card.id, "PR: https://github.com/acme/app/pull/42");
+    cardRepo.moveToColumn(card.id, "done");
+    cardRepo.create({ board_id: board.id, source_id: null, source_type: "manual", title: "Answer Sam", body: null, metadata: null });
+
+    app = express();
+    app.use(express.json());
+    app.use(
+      "/api/board",
+      createReportRouter(boardRepo, cardRepo, new ColumnRepo(db), sessionRepo, new CardEventRepo(db), new ReportRepo(db), evaluator),
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+  });
+
+  it("generates a template report without AI and stores it", async () => {
+    const generate = vi.spyOn(evaluator, "generateReport");
+    expect((await request(app).get("/api/board/today/report")).body).toEqual({ report: null });
+
+    const res = await request(app).post("/api/board/today/report").send({ use_ai: false });
+    expect(res.status).toBe(200);
+    expect(res.body.generator).toBe("template");
+    expect(res.body.content).toContain("## Done (1)");
+    expect(res.body.content).toContain("[PR](https://github.com/acme/app/pull/42)");
+    expect(res.body.content).toContain("- Answer Sam _(Inbox)_");
+    expect(generate).not.toHaveBeenCalled();
+
+    const stored = await request(app).get(`/api/board/${res.body.date}/report`);
+    expect(stored.body.report.content).toBe(res.body.content);
+  });
+
+  it("stores Claude's report and replaces the previous one", async () => {
+    await request(app).post("/api/board/today/report").send({ use_ai: false });
+    const generate = vi.spyOn(evaluator, "generateReport").mockResolvedValue("# Summary\n\nShipped the login fix.");
+
+    const res = await request(app).post("/api/board/today/report").send({});
+    expect(res.body).toMatchObject({ generator: "ai", content: "# Summary\n\nShipped the login fix." });
+    const [facts, draft] = generate.mock.calls[0];
+    expect(facts.done).toHaveLength(1);
+    expect(draft).toContain("## Still open (1)");
+    expect((await request(app).get("/api/board/today/report")).body.report.generator).toBe("ai");
+  });
+
+  it("falls back to the template when Claude fails", async () => {
+    vi.spyOn(evaluator, "generateReport").mockResolvedValue(null);
+    const res = await request(app).post("/api/board/today/report");
+    expect(res.body.generator).toBe("template");
+    expect(res.body.content).toContain("# Daily report");
+  });
+
+  it("rejects bad dates and missing boards", async () => {
+    expect((await request(app).post("/api/board/someday/report")).status).toBe(400);
+    expect((await request(app).get("/api/board/2020-01-01/report")).status).toBe(404);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createSearchRouter } from "../search.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { SearchRepo } from "../../db/search-repo.js";
+
+describe("Search API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/search", createSearchRouter(new SearchRepo(db)));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("returns matches grouped by board date", async () => {
+    const board = db.prepare("INSERT INTO boards (date) VALUES ('2026-02-15')").run();
+    new CardRepo(db).create({
+      board_id: Number(board.lastInsertRowid),
+      source_id: null,
+      source_type: "manual",
+      title: "Quarterly report",
+      body: null,
+      metadata: null,
+    });
+
+    const res = await request(app).get("/api/search").query({ q: "quarter" });
+    expect(res.status).toBe(200);
+    expect(res.body.query).toBe("quarter");
+    expect(res.body.groups).toEqual([
+      { date: "2026-02-15", hits: [expect.objectContaining({ kind: "card", card_title: "Quarterly report" })] },
+    ]);
+  });
+
+  it("requires a query", async () => {
+    expect((await request(app).get("/api/search")).status).toBe(400);
+    expect((await request(app).get("/api/search?q=%20")).status).toBe(400);
+  });
+});
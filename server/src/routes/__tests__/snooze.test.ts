@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createBoardRouter } from "../board.js";
+import { createCardsRouter } from "../cards.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+
+describe("Snooze API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const boardRepo = new BoardRepo(db);
+    const cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, new LabelRepo(db), columnRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("snoozes a card off the board and wakes it early", async () => {
+    const card = (await request(app).post("/api/cards").send({ title: "Reply next week" })).body;
+    const until = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+    const snoozed = await request(app).post(`/api/cards/${card.id}/snooze`).send({ until });
+    expect(snoozed.status).toBe(200);
+    expect(snoozed.body.snoozed_until).toBe(until);
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(0);
+    expect((await request(app).get("/api/cards/snoozed")).body.cards.map((c: { id: number }) => c.id)).toEqual([card.id]);
+
+    const woke = await request(app).post(`/api/cards/${card.id}/wake`);
+    expect(woke.body).toMatchObject({ snoozed_until: null, column_name: "inbox" });
+    expect((await request(app).get("/api/board/today")).body.cards).toHaveLength(1);
+    expect((await request(app).post(`/api/cards/${card.id}/wake`)).status).toBe(409);
+  });
+
+  it("rejects missing cards and times that aren't in the future", async () => {
+    const card = (await request(app).post("/api/cards").send({ title: "Card" })).body;
+    expect((await request(app).post(`/api/cards/${card.id}/snooze`).send({ until: "soon" })).status).toBe(400);
+    expect((await request(app).post(`/api/cards/${card.id}/snooze`).send({ until: "2020-01-01T00:00:00Z" })).status).toBe(400);
+    expect((await request(app).post("/api/cards/999/snooze").send({ until: "2099-01-01T00:00:00Z" })).status).toBe(404);
+  });
+});
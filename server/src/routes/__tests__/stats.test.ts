@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createStatsRouter } from "../stats.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { SessionRepo } from "../../db/session-repo.js";
+import { StatsRepo } from "../../db/stats-repo.js";
+
+describe("Stats API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    const boardRepo = new BoardRepo(db);
+    const cardRepo = new CardRepo(db);
+    const sessionRepo = new SessionRepo(db);
+
+    const board = boardRepo.getOrCreate("2026-03-02", { carryOver: false });
+    const card = (title: string, source_type: string, source_id: string | null = null) =>
+      cardRepo.create({ board_id: board.id, source_id, source_type, title, body: null, metadata: null });
+
+    // Sent by the AI with high confidence
+    const reply = card("Reply", "gmail", "g-1");
+    cardRepo.setAiEvaluation(reply.id, { confidence: 92, proposed_action: "Reply", action_payload: null });
+    cardRepo.setExecutionResult(reply.id, "Sent");
+    cardRepo.moveToColumn(reply.id, "done", undefined, "ai");
+    db.prepare("UPDATE cards SET created_at = datetime(CURRENT_TIMESTAMP, '-90 minutes') WHERE id = ?").run(reply.id);
+
+    // AI tried and failed, so a human took it
+    const invite = card("Invite", "gmail", "g-2");
+    cardRepo.setAiEvaluation(invite.id, { confidence: 85, proposed_action: "Accept", action_payload: null });
+    cardRepo.setExecutionResult(invite.id, "Failed: calendar offline");
+    cardRepo.moveToColumn(invite.id, "human_do");
+
+    // Low confidence, left alone
+    const issue = card("Issue", "linear", "l-1");
+    cardRepo.setAiEvaluation(issue.id, { confidence: 30, proposed_action: "Triage", action_payload: null });
+    sessionRepo.updateStatus(sessionRepo.create(issue.id).id, "failed");
+    sessionRepo.updateStatus(sessionRepo.create(issue.id).id, "paused");
+
+    // Done by hand
+    const chore = card("Chore", "manual");
+    cardRepo.moveToColumn(chore.id, "done");
+    db.prepare("UPDATE cards SET created_at = datetime(CURRENT_TIMESTAMP, '-30 minutes') WHERE id = ?").run(chore.id);
+
+    // Deleted, and on a board outside the range
+    cardRepo.softDelete(card("Gone", "manual").id);
+    const other = boardRepo.getOrCreate("2026-02-01", { carryOver: false });
+    cardRepo.create({ board_id: other.id, source_id: null, source_type: "manual", title: "Old", body: null, metadata: null });
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/stats", createStatsRouter(new StatsRepo(db), boardRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("counts automation per source over the range", async () => {
+    const res = await request(app).get("/api/stats?from=2026-03-01&to=2026-03-31");
+    expect(res.status).toBe(200);
+    expect(res.body.totals).toEqual({ cards: 4, evaluated: 3, executed: 2, succeeded: 1, human_do: 1, done: 2 });
+    expect(res.body.by_source).toEqual([
+      { source_type: "gmail", cards: 2, evaluated: 2, executed: 2, succeeded: 1, human_do: 1, done: 1 },
+      { source_type: "linear", cards: 1, evaluated: 1, executed: 0, succeeded: 0, human_do: 0, done: 0 },
+      { source_type: "manual", cards: 1, evaluated: 0, executed: 0, succeeded: 0, human_do: 0, done: 1 },
+    ]);
+  });
+
+  it("buckets confidence against execution success", async () => {
+    const res = await request(app).get("/api/stats?from=2026-03-01&to=2026-03-31");
+    expect(res.body.confidence).toEqual([
+      { min: 0, max: 19, evaluated: 0, executed: 0, succeeded: 0 },
+      { min: 20, max: 39, evaluated: 1, executed: 0, succeeded: 0 },
+      { min: 40, max: 59, evaluated: 0, executed: 0, succeeded: 0 },
+      { min: 60, max: 79, evaluated: 0, executed: 0, succeeded: 0 },
+      { min: 80, max: 100, evaluated: 2, executed: 2, succeeded: 1 },
+    ]);
+  });
+
+  it("reports cycle time and session outcomes", async () => {
+    const res = await request(app).get("/api/stats?from=2026-03-01&to=2026-03-31");
+    expect(res.body.cycle_time).toEqual({ cards: 2, average_minutes: 60, median_minutes: 60 });
+    expect(res.body.sessions).toEqual({ total: 2, completed: 0, failed: 1, paused: 1, running: 0 });
+  });
+
+  it("validates the range", async () => {
+    expect((await request(app).get("/api/stats?from=March")).status).toBe(400);
+    expect((await request(app).get("/api/stats?from=2026-03-31&to=2026-03-01")).status).toBe(400);
+    const res = await request(app).get("/api/stats?to=2026-03-02");
+    expect(res.body.from).toBe("2026-02-01");
+    expect(res.body.totals.cards).toBe(5);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { migrate } from "../../db/migrate.js";
+import { createTemplatesRouter } from "../templates.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { TemplateRepo } from "../../db/template-repo.js";
+
+describe("Templates API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let labelRepo: LabelRepo;
+  let cardRepo: CardRepo;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    labelRepo = new LabelRepo(db);
+    cardRepo = new CardRepo(db, labelRepo);
+
+    app = express();
+    app.use(express.json());
+    app.use("/api/templates", createTemplatesRouter(new TemplateRepo(db), cardRepo, new BoardRepo(db), labelRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("creates, updates and deletes a template", async () => {
+    const label = labelRepo.create("ops");
+    const created = await request(app)
+      .post("/api/templates")
+      .send({ title: "Check on-call dashboard", label_ids: [label.id], recurrence: { kind: "weekdays" } });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({
+      name: "Check on-call dashboard",
+      recurrence: { kind: "weekdays" },
+      enabled: true,
+      ai_toggle: false,
+    });
+    expect(created.body.labels).toHaveLength(1);
+
+    const updated = await request(app)
+      .patch(`/api/templates/${created.body.id}`)
+      .send({ recurrence: { kind: "weekly", weekdays: [5] }, ai_rules: "Summarize alerts", label_ids: [] });
+    expect(updated.body).toMatchObject({ recurrence: { kind: "weekly", weekdays: [5] }, ai_rules: "Summarize alerts", labels: [] });
+
+    expect((await request(app).get("/api/templates")).body.templates).toHaveLength(1);
+    expect((await request(app).delete(`/api/templates/${created.body.id}`)).status).toBe(200);
+    expect((await request(app).delete(`/api/templates/${created.body.id}`)).status).toBe(404);
+  });
+
+  it("validates templates", async () => {
+    expect((await request(app).post("/api/templates").send({ title: " " })).status).toBe(400);
+    expect((await request(app).post("/api/templates").send({ title: "x", priority: 9 })).status).toBe(400);
+    expect((await request(app).post("/api/templates").send({ title: "x", label_ids: [42] })).status).toBe(400);
+    const badCron = await request(app).post("/api/templates").send({ title: "x", recurrence: { kind: "cron", cron: "nope" } });
+    expect(badCron.status).toBe(400);
+    expect(badCron.body.error).toContain("cron");
+    expect((await request(app).patch("/api/templates/99").send({ name: "y" })).status).toBe(404);
+  });
+
+  it("creates a card from a template on today's board", async () => {
+    const template = await request(app)
+      .post("/api/templates")
+      .send({ name: "Weekly report", title: "Write the weekly report", body: "Cover shipped work", priority: 2 });
+    const res = await request(app).post(`/api/templates/${template.body.id}/cards`);
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({
+      title: "Write the weekly report",
+      body: "Cover shipped work",
+      priority: 2,
+      source_type: "manual",
+      metadata: { template_id: template.body.id },
+    });
+  });
+});
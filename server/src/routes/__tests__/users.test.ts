@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import Database from "better-sqlite3";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { migrate } from "../../db/migrate.js";
+import { requireAuth } from "../../auth.js";
+import { createUsersRouter } from "../users.js";
+import { createBoardRouter } from "../board.js";
+import { createCardsRouter } from "../cards.js";
+import { createAdminRouter } from "../admin.js";
+import { createSettingsRouter } from "../settings.js";
+import { createReposRouter } from "../repos.js";
+import { UserRepo } from "../../db/user-repo.js";
+import { BoardRepo } from "../../db/board-repo.js";
+import { CardRepo } from "../../db/card-repo.js";
+import { ColumnRepo } from "../../db/column-repo.js";
+import { LabelRepo } from "../../db/label-repo.js";
+import { SettingsRepo } from "../../db/settings-repo.js";
+import { BackupManager } from "../../db/backup-manager.js";
+
+const TOKEN = "owner-token";
+
+describe("Users API", () => {
+  let app: express.Express;
+  let db: Database.Database;
+  let users: UserRepo;
+  let cardRepo: CardRepo;
+  let boardRepo: BoardRepo;
+  let dir: string;
+
+  const as = (token: string) => ({
+    get: (url: string) => request(app).get(url).set("Authorization", `Bearer ${token}`),
+    post: (url: string) => request(app).post(url).set("Authorization", `Bearer ${token}`),
+    patch: (url: string) => request(app).patch(url).set("Authorization", `Bearer ${token}`),
+    delete: (url: string) => request(app).delete(url).set("Authorization", `Bearer ${token}`),
+  });
+
+  const addCard = (title: string) =>
+    cardRepo.create({ board_id: boardRepo.getOrCreateToday().id, source_id: null, source_type: "manual", title, body: null, metadata: null });
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+    migrate(db);
+    users = new UserRepo(db);
+    boardRepo = new BoardRepo(db);
+    cardRepo = new CardRepo(db);
+    const columnRepo = new ColumnRepo(db);
+    const settingsRepo = new SettingsRepo(db);
+    dir = mkdtempSync(join(tmpdir(), "daily-kanban-users-"));
+
+    app = express();
+    app.use(express.json());
+    app.use("/api", requireAuth(TOKEN, [], users));
+    app.use("/api/users", createUsersRouter(users));
+    app.use("/api/board", createBoardRouter(boardRepo, cardRepo, columnRepo));
+    app.use("/api/cards", createCardsRouter(cardRepo, boardRepo, new LabelRepo(db), columnRepo));
+    app.use("/api/admin", createAdminRouter(db, new BackupManager(db, settingsRepo, dir)));
+    app.use("/api/settings", createSettingsRouter(settingsRepo));
+    app.use("/api/repos", createReposRouter(settingsRepo));
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lets the owner add teammates, who sign in with the returned token", async () => {
+    const created = await as(TOKEN).post("/api/users").send({ name: "Sam" });
+    expect(created.status).toBe(201);
+    expect(created.body.user).toMatchObject({ name: "Sam", is_owner: false });
+
+    const me = await as(created.body.token).get("/api/users/me");
+    expect(me.body).toMatchObject({ id: created.body.user.id, name: "Sam" });
+    expect((await as(TOKEN).get("/api/users")).body.users.map((u: { name: string }) => u.name)).toEqual(["Owner", "Sam"]);
+  });
+
+  it("rejects blank and duplicate names", async () => {
+    expect((await as(TOKEN).post("/api/users").send({ name: " " })).status).toBe(400);
+    await as(TOKEN).post("/api/users").send({ name: "Sam" });
+    expect((await as(TOKEN).post("/api/users").send({ name: "Sam" })).status).toBe(409);
+  });
+
+  it("keeps adding, renaming others and removing users to the owner", async () => {
+    const sam = users.create("Sam");
+    const alex = users.create("Alex");
+    expect((await as(sam.token).post("/api/users").send({ name: "Kim" })).status).toBe(403);
+    expect((await as(sam.token).patch(`/api/users/${alex.user.id}`).send({ name: "Al" })).status).toBe(403);
+    expect((await as(sam.token).delete(`/api/users/${alex.user.id}`)).status).toBe(403);
+
+    const renamed = await as(sam.token).patch(`/api/users/${sam.user.id}`).send({ name: "Samantha" });
+    expect(renamed.body.name).toBe("Samantha");
+    expect((await as(TOKEN).delete("/api/users/1")).status).toBe(400);
+    expect((await as(TOKEN).delete(`/api/users/${alex.user.id}`)).status).toBe(200);
+    expect(users.getById(alex.user.id)).toBeNull();
+  });
+
+  it("assigns cards and filters the board to my cards", async () => {
+    const sam = users.create("Sam");
+    const mine = addCard("Sam's card");
+    addCard("Nobody's card");
+
+    const assigned = await as(TOKEN).patch(`/api/cards/${mine.id}/assignee`).send({ assignee_id: sam.user.id });
+    expect(assigned.status).toBe(200);
+    expect(assigned.body.assignee_id).toBe(sam.user.id);
+    expect(cardRepo.listEvents(mine.id).at(-1)!.new_value).toEqual({ assignee_id: sam.user.id });
+
+    const titles = async (token: string, assignee: string) =>
+      (await as(token).get(`/api/board/today?assignee=${assignee}`)).body.cards.map((c: { title: string }) => c.title);
+    expect(await titles(sam.token, "me")).toEqual(["Sam's card"]);
+    expect(await titles(TOKEN, "me")).toEqual([]);
+    expect(await titles(TOKEN, "none")).toEqual(["Nobody's card"]);
+    expect(await titles(TOKEN, "all")).toHaveLength(2);
+  });
+
+  it("rejects assignments to unknown users and unassigns removed ones", async () => {
+    const sam = users.create("Sam");
+    const card = addCard("Card");
+    expect((await as(TOKEN).patch(`/api/cards/${card.id}/assignee`).send({ assignee_id: 99 })).status).toBe(400);
+    expect((await as(TOKEN).patch(`/api/cards/${card.id}/assignee`).send({ assignee_id: "x" })).status).toBe(400);
+    expect((await as(TOKEN).patch("/api/cards/999/assignee").send({ assignee_id: null })).status).toBe(404);
+
+    await as(TOKEN).patch(`/api/cards/${card.id}/assignee`).send({ assignee_id: sam.user.id });
+    await as(TOKEN).delete(`/api/users/${sam.user.id}`);
+    expect(cardRepo.getById(card.id)!.assignee_id).toBeNull();
+  });
+
+  it("keeps the database, settings and repos to the owner", async () => {
+    const sam = users.create("Sam");
+    const teammate = as(sam.token);
+    for (const res of [
+      await teammate.get("/api/admin/backups"),
+      await teammate.post("/api/admin/backup"),
+      await teammate.post("/api/admin/restore").send({ name: "any.db" }),
+      await teammate.post("/api/admin/restore/upload"),
+      await teammate.post("/api/admin/prune"),
+      await teammate.patch("/api/admin/maintenance").send({ backup_keep: 1 }),
+      await teammate.patch("/api/settings").send({ confidence_threshold: 10 }),
+      await teammate.post("/api/repos").send({ name: "x", path: "/tmp" }),
+      await teammate.delete("/api/repos/abc"),
+      await teammate.patch("/api/repos/default").send({ repo_id: "abc" }),
+    ]) {
+      expect(res.status).toBe(403);
+    }
+
+    // Reading the team's settings and repos stays open
+    expect((await teammate.get("/api/settings")).status).toBe(200);
+    expect((await teammate.get("/api/repos")).status).toBe(200);
+    expect((await as(TOKEN).get("/api/admin/backups")).status).toBe(200);
+    expect((await as(TOKEN).patch("/api/settings").send({ confidence_threshold: 10 })).status).toBe(200);
+  });
+});
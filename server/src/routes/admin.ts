@@ -0,0 +1,90 @@
+import express, { Router } from "express";
+import type Database from "better-sqlite3";
+import type { MaintenancePolicy } from "@daily-kanban/shared";
+import { getSchemaStatus } from "../db/migrate.js";
+import { type BackupManager, validatePolicy } from "../db/backup-manager.js";
+import { requireOwner } from "../auth.js";
+
+export function createAdminRouter(db: Database.Database, backups: BackupManager): Router {
+  const router = Router();
+  // Restores and prunes replace or delete everyone's data
+  router.use(requireOwner);
+
+  router.get("/schema", (_req, res) => {
+    res.json(getSchemaStatus(db));
+  });
+
+  router.get("/backups", (_req, res) => {
+    res.json({ dir: backups.dir, backups: backups.list() });
+  });
+
+  router.post("/backup", async (_req, res) => {
+    try {
+      res.status(201).json(await backups.backup());
+    } catch (err) {
+      res.status(500).json({ error: `Backup failed: ${(err as Error).message}` });
+    }
+  });
+
+  router.post("/restore", async (req, res) => {
+    const { name } = req.body ?? {};
+    if (typeof name !== "string" || !backups.has(name)) {
+      res.status(404).json({ error: `Backup not found: ${name}` });
+      return;
+    }
+    const error = backups.check(name);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    try {
+      res.json({ restored: name, ...(await backups.restore(name)) });
+    } catch (err) {
+      res.status(500).json({ error: `Restore failed: ${(err as Error).message}` });
+    }
+  });
+
+  // Restores a database file sent as the raw request body
+  router.post("/restore/upload", express.raw({ type: "application/octet-stream", limit: "500mb" }), async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      res.status(400).json({ error: "Send the database file as application/octet-stream" });
+      return;
+    }
+    const uploaded = backups.save(req.body);
+    const error = backups.check(uploaded.name);
+    if (error) {
+      backups.remove(uploaded.name);
+      res.status(400).json({ error: "The uploaded file is not a usable daily-kanban database" });
+      return;
+    }
+    try {
+      res.json({ restored: uploaded.name, ...(await backups.restore(uploaded.name)) });
+    } catch (err) {
+      res.status(500).json({ error: `Restore failed: ${(err as Error).message}` });
+    }
+  });
+
+  router.get("/maintenance", (_req, res) => {
+    res.json(backups.getPolicy());
+  });
+
+  router.patch("/maintenance", (req, res) => {
+    const keys: (keyof MaintenancePolicy)[] = ["backup_interval_hours", "backup_keep", "log_retention_days", "board_retention_days"];
+    const input: Partial<MaintenancePolicy> = {};
+    for (const key of keys) {
+      if (req.body?.[key] !== undefined) input[key] = req.body[key];
+    }
+    const error = validatePolicy(input);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    res.json(backups.setPolicy(input));
+  });
+
+  router.post("/prune", (_req, res) => {
+    res.json(backups.prune());
+  });
+
+  return router;
+}
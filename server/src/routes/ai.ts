@@ -1,14 +1,20 @@
 // server/src/routes/ai.ts
-import { Router } from "express";
+import { Router, type Response } from "express";
 import type Database from "better-sqlite3";
-import type { KanbanItem, ActionPayload } from "@daily-kanban/shared";
+import type { Card, KanbanItem, ActionPayload, ActionResult, TodoItem } from "@daily-kanban/shared";
 import type { CardRepo } from "../db/card-repo.js";
 import { ClaudeEvaluator } from "../ai/claude-evaluator.js";
-import type { ConnectorRegistry } from "../connectors/registry.js";
+import { type ConnectorRegistry, connectorKey } from "../connectors/registry.js";
+import { OWNER_USER_ID } from "../db/user-repo.js";
+import { currentUserId } from "../auth.js";
 import { WorktreeManager } from "../git/worktree-manager.js";
 import type { SettingsRepo } from "../db/settings-repo.js";
 import type { LogRepo } from "../db/log-repo.js";
 import type { SessionRepo } from "../db/session-repo.js";
+import type { ChecklistRepo } from "../db/checklist-repo.js";
+import type { CommentRepo } from "../db/comment-repo.js";
+import { ActionQueue } from "../ai/action-queue.js";
+import { TodoTracker } from "../ai/todo-tracker.js";
 
 function summarizeToolInput(toolName: string, input: Record<string, unknown>): string {
   switch (toolName) {
@@ -36,12 +42,14 @@ const AVAILABLE_ACTIONS: Record<string, string[]> = {
   gitlab: ["post_review_comment", "approve"],
   telegram: [],
   manual: [],
+  recurring: [],
 };
 
-function getAiRules(db: Database.Database, sourceType: string): string | undefined {
+// The rules of the user whose connector brought the card in
+function getConnectorRules(db: Database.Database, card: Card): string | undefined {
   const row = db.prepare(
-    "SELECT settings FROM connector_configs WHERE type = ?"
-  ).get(sourceType) as { settings: string | null } | undefined;
+    "SELECT settings FROM connector_configs WHERE type = ? AND owner_id = ?"
+  ).get(card.source_type, card.source_user_id ?? OWNER_USER_ID) as { settings: string | null } | undefined;
   if (!row?.settings) return undefined;
   try {
     const settings = JSON.parse(row.settings);
@@ -51,6 +59,16 @@ function getAiRules(db: Database.Database, sourceType: string): string | undefin
   }
 }
 
+// Connector rules plus the rules of the template the card was made from
+function getAiRules(db: Database.Database, card: Card): string | undefined {
+  const templateId = card.metadata?.template_id;
+  const template = typeof templateId === "number"
+    ? db.prepare("SELECT ai_rules FROM card_templates WHERE id = ?").get(templateId) as { ai_rules: string | null } | undefined
+    : undefined;
+  const rules = [getConnectorRules(db, card), template?.ai_rules].filter(Boolean);
+  return rules.length > 0 ? rules.join("\n\n") : undefined;
+}
+
 export function createAiRouter(
   cardRepo: CardRepo,
   evaluator: ClaudeEvaluator,
@@ -59,11 +77,69 @@ export function createAiRouter(
   settingsRepo: SettingsRepo,
   logRepo: LogRepo,
   sessionRepo: SessionRepo,
+  checklistRepo: ChecklistRepo,
+  commentRepo: CommentRepo,
+  actionQueue: ActionQueue = new ActionQueue(),
   confidenceThreshold: number = 80
 ): Router {
   const worktreeManager = new WorktreeManager();
   const router = Router();
 
+  // Cards waiting on unfinished blockers can't be processed or executed yet
+  const refuseIfBlocked = (card: Card, res: Response): boolean => {
+    const blockers = card.dependencies.open_blockers;
+    if (blockers.length === 0) return false;
+    const titles = blockers.map((id) => cardRepo.getById(id)?.title ?? `#${id}`);
+    res.status(409).json({ error: `Card is blocked by: ${titles.join(", ")}`, blocked_by: blockers });
+    return true;
+  };
+
+  // Connector actions go out through the account of the user whose connector
+  // fetched the card, so nobody else may set them off
+  const ownsConnector = (card: Card, res: Response): boolean =>
+    currentUserId(res) === (card.source_user_id ?? OWNER_USER_ID);
+
+  // Hands the connector action to the grace-period queue; `action_due_at`
+  // tells the client when it fires and is cleared once it has run. The action
+  // is called off if by then the card was deleted, archived, snoozed or moved
+  // out of the column it waited in.
+  const queueAction = (card: Card, payload: ActionPayload): Date => {
+    const column = cardRepo.getById(card.id)?.column_name ?? card.column_name;
+    const executeAt = actionQueue.schedule(card.id, async () => {
+      const current = cardRepo.getById(card.id);
+      if (!current || current.deleted_at) return;
+      if (current.archived_at || current.snoozed_until || current.column_name !== column) {
+        cardRepo.setMetadataField(card.id, "action_due_at", null, "ai");
+        return;
+      }
+      const connector = registry.get(connectorKey(current.source_type, current.source_user_id ?? OWNER_USER_ID));
+      if (!connector) return;
+      const item: KanbanItem = {
+        source_id: current.source_id!,
+        source_type: current.source_type,
+        title: current.title,
+        body: current.body,
+        metadata: current.metadata || {},
+      };
+      cardRepo.setMetadataField(card.id, "action_due_at", null, "ai");
+      let result: ActionResult;
+      try {
+        result = await connector.executeAction(item, payload);
+      } catch (err) {
+        result = { success: false, message: err instanceof Error ? err.message : String(err) };
+      }
+      if (result.success) {
+        cardRepo.setExecutionResult(card.id, result.message);
+        cardRepo.moveToColumn(card.id, "done", undefined, "ai");
+      } else {
+        cardRepo.setExecutionResult(card.id, `Failed: ${result.message}`);
+        cardRepo.moveToColumn(card.id, "review", undefined, "ai");
+      }
+    });
+    cardRepo.setMetadataField(card.id, "action_due_at", executeAt.toISOString(), "ai");
+    return executeAt;
+  };
+
   router.get("/logs/:cardId", (req, res) => {
     const cardId = Number(req.params.cardId);
     const logs = logRepo.listByCard(cardId);
@@ -116,8 +192,8 @@ export function createAiRouter(
     }
 
     const actions = AVAILABLE_ACTIONS[card.source_type] || [];
-    const aiRules = getAiRules(db, card.source_type);
-    const evaluation = await evaluator.evaluate(card, actions, undefined, aiRules);
+    const aiRules = getAiRules(db, card);
+    const evaluation = await evaluator.evaluate(card, actions, undefined, aiRules, commentRepo.listByCard(cardId));
 
     if (evaluation.canAutomate && evaluation.confidence >= confidenceThreshold) {
       cardRepo.setAiEvaluation(cardId, {
@@ -125,9 +201,9 @@ export function createAiRouter(
         proposed_action: evaluation.proposedAction,
         action_payload: evaluation.actionPayload,
       });
-      cardRepo.moveToColumn(cardId, "review");
+      cardRepo.moveToColumn(cardId, "review", undefined, "ai");
     } else {
-      cardRepo.setAiToggle(cardId, false);
+      cardRepo.setAiToggle(cardId, false, "ai");
       cardRepo.setAiEvaluation(cardId, {
         confidence: evaluation.confidence,
         proposed_action: evaluation.proposedAction,
@@ -148,6 +224,7 @@ export function createAiRouter(
       res.status(404).json({ error: "Card not found" });
       return;
     }
+    if (refuseIfBlocked(card, res)) return;
 
     // Set up SSE
     res.setHeader("Content-Type", "text/event-stream");
@@ -170,7 +247,7 @@ export function createAiRouter(
       send({ step: "start", message: customRequest ? `Starting AI evaluation: "${customRequest}"` : "Starting AI evaluation..." });
 
       // Toggle AI on
-      cardRepo.setAiToggle(cardId, true);
+      cardRepo.setAiToggle(cardId, true, "ai");
 
       // Check if card has a repo assigned — if so, do code planning instead of normal eval
       const repoId = card.metadata?.repo_id as string | undefined;
@@ -189,26 +266,26 @@ export function createAiRouter(
         send({ step: "evaluating", message: `Creating worktree for ${repo.name}...` });
 
         const { worktreePath, branchName } = await worktreeManager.create(repo.path, cardId, card.title);
-        cardRepo.setMetadataField(cardId, "worktree_path", worktreePath);
-        cardRepo.setMetadataField(cardId, "branch_name", branchName);
+        cardRepo.setMetadataField(cardId, "worktree_path", worktreePath, "ai");
+        cardRepo.setMetadataField(cardId, "branch_name", branchName, "ai");
 
         send({ step: "evaluating", message: "Generating implementation plan..." });
 
-        const aiRules = getAiRules(db, card.source_type);
+        const aiRules = getAiRules(db, card);
         const plan = await evaluator.generatePlanStream(
           card, repo.name, repo.path, worktreePath, (chunk) => {
             send({ step: "ai_output", message: chunk });
-          }, customRequest, aiRules,
+          }, customRequest, aiRules, commentRepo.listByCard(cardId),
         );
 
         // Save plan to card body and move to review
-        cardRepo.setBody(cardId, plan);
+        cardRepo.setBody(cardId, plan, "ai");
         cardRepo.setAiEvaluation(cardId, {
           confidence: 100,
           proposed_action: `Code change plan for ${repo.name}`,
           action_payload: { type: "code_change", repo_id: repoId },
         });
-        cardRepo.moveToColumn(cardId, "review");
+        cardRepo.moveToColumn(cardId, "review", undefined, "ai");
 
         const updated = cardRepo.getById(cardId);
         send({ step: "done", message: "Plan ready for review", card: updated });
@@ -220,10 +297,10 @@ export function createAiRouter(
       send({ step: "evaluating", message: "Analyzing task with AI..." });
 
       const actions = AVAILABLE_ACTIONS[card.source_type] || [];
-      const aiRules = getAiRules(db, card.source_type);
+      const aiRules = getAiRules(db, card);
       const evaluation = await evaluator.evaluateStream(card, actions, (chunk) => {
         send({ step: "ai_output", message: chunk });
-      }, customRequest, aiRules);
+      }, customRequest, aiRules, commentRepo.listByCard(cardId));
 
       send({
         step: "evaluated",
@@ -238,40 +315,24 @@ export function createAiRouter(
       });
 
       if (evaluation.canAutomate && evaluation.confidence >= confidenceThreshold) {
-        cardRepo.moveToColumn(cardId, "review");
-
-        send({ step: "executing", message: "Executing action..." });
-
-        const connector = registry.get(card.source_type);
-        if (connector && card.action_payload) {
-          const item: KanbanItem = {
-            source_id: card.source_id!,
-            source_type: card.source_type,
-            title: card.title,
-            body: card.body,
-            metadata: card.metadata || {},
-          };
-
-          const result = await connector.executeAction(
-            item,
-            evaluation.actionPayload as ActionPayload,
-          );
-
-          if (result.success) {
-            cardRepo.setExecutionResult(cardId, result.message);
-            cardRepo.moveToColumn(cardId, "done");
-            send({ step: "executed", message: result.message });
-          } else {
-            cardRepo.setExecutionResult(cardId, `Failed: ${result.message}`);
-            cardRepo.moveToColumn(cardId, "review");
-            send({ step: "error", message: `Execution failed: ${result.message}` });
-          }
+        cardRepo.moveToColumn(cardId, "review", undefined, "ai");
+
+        const connector = registry.get(connectorKey(card.source_type, card.source_user_id ?? OWNER_USER_ID));
+        if (connector && evaluation.actionPayload && ownsConnector(card, res)) {
+          const executeAt = queueAction(card, evaluation.actionPayload as ActionPayload);
+          const seconds = Math.round((executeAt.getTime() - Date.now()) / 1000);
+          send({
+            step: "action_pending",
+            message: `Executing in ${seconds}s unless cancelled`,
+            data: { card_id: cardId, execute_at: executeAt.toISOString() },
+          });
         } else {
-          // High confidence but no connector or payload — just move to review
+          // High confidence but no connector, no payload or someone else's
+          // account — just move to review
           send({ step: "executed", message: "Moved to review for manual execution" });
         }
       } else {
-        cardRepo.setAiToggle(cardId, false);
+        cardRepo.setAiToggle(cardId, false, "ai");
         send({ step: "low_confidence", message: "Confidence too low for automation" });
       }
 
@@ -296,6 +357,7 @@ export function createAiRouter(
       res.status(404).json({ error: "Card not found" });
       return;
     }
+    if (refuseIfBlocked(card, res)) return;
 
     const worktreePath = card.metadata?.worktree_path as string | undefined;
     const repoId = card.metadata?.repo_id as string | undefined;
@@ -325,7 +387,9 @@ export function createAiRouter(
 
     // Create execution session instead of deleting old logs
     const execSession = sessionRepo.create(cardId, "execution", `Code execution in ${repo.name}`);
-    cardRepo.setMetadataField(cardId, "execution_status", "running");
+    cardRepo.setMetadataField(cardId, "execution_status", "running", "ai");
+    // Answers resume this run and keep its task ids; a new run starts over
+    checklistRepo.unlinkTodos(cardId);
 
     const persistAndSend = (step: string, message: string, sessionId: string | null, data: Record<string, unknown> | null, extra?: Record<string, unknown>) => {
       logRepo.insert(cardId, step, message, sessionId, data, execSession.id);
@@ -343,6 +407,14 @@ export function createAiRouter(
       let currentSessionId = existingSessionId || null;
       let textBuffer = "";
       let paused = false;
+      const todos = new TodoTracker();
+      // An update to a task from an earlier run only knows its id; the
+      // checklist item it was linked to supplies the subject
+      const recordTodo = (todo: TodoItem) => {
+        const item = checklistRepo.applyTodo(cardId, todo);
+        const subject = todo.subject || item?.text || `#${todo.id}`;
+        persistAndSend("todo", `Task: ${subject}`, currentSessionId, { ...todo, subject });
+      };
 
       const { child, promise } = evaluator.executeWithStreamJson(
         prompt,
@@ -350,7 +422,7 @@ export function createAiRouter(
         {
           onInit: (sessionId) => {
             currentSessionId = sessionId;
-            cardRepo.setMetadataField(cardId, "session_id", sessionId);
+            cardRepo.setMetadataField(cardId, "session_id", sessionId, "ai");
           },
           onText: (text) => {
             textBuffer += text;
@@ -359,7 +431,8 @@ export function createAiRouter(
               textBuffer = "";
             }
           },
-          onToolStart: (toolName) => {
+          onToolStart: (toolName, toolId) => {
+            todos.toolStarted(toolId);
             if (textBuffer) {
               persistAndSend("ai_output", textBuffer, currentSessionId, null);
               textBuffer = "";
@@ -368,12 +441,8 @@ export function createAiRouter(
           },
           onToolComplete: (toolName, input) => {
             if (toolName === "TaskCreate" || toolName === "TaskUpdate") {
-              const todoData: Record<string, unknown> = {
-                id: (input as Record<string, unknown>).subject || (input as Record<string, unknown>).taskId || "unknown",
-                subject: (input as Record<string, unknown>).subject as string || "Task",
-                status: (input as Record<string, unknown>).status as string || "pending",
-              };
-              persistAndSend("todo", `Task: ${todoData.subject}`, currentSessionId, todoData);
+              const todo = todos.toolCompleted(toolName, input);
+              if (todo) recordTodo(todo);
             } else if (toolName === "AskUserQuestion") {
               if (textBuffer) {
                 persistAndSend("ai_output", textBuffer, currentSessionId, null);
@@ -389,7 +458,7 @@ export function createAiRouter(
               };
               const logEntry = logRepo.insert(cardId, "question", questionData.question as string, currentSessionId, questionData, execSession.id);
               send({ step: "question", message: questionData.question as string, data: { ...questionData, questionId: logEntry.id } });
-              cardRepo.setMetadataField(cardId, "execution_status", "paused_question");
+              cardRepo.setMetadataField(cardId, "execution_status", "paused_question", "ai");
               sessionRepo.updateStatus(execSession.id, "paused", "Waiting for user input");
               paused = true;
               child.kill("SIGTERM");
@@ -399,7 +468,9 @@ export function createAiRouter(
               persistAndSend("tool_complete", summary, currentSessionId, { toolName, input });
             }
           },
-          onToolResult: (_toolUseId, content) => {
+          onToolResult: (toolUseId, content) => {
+            const todo = todos.toolResult(toolUseId, content);
+            if (todo) recordTodo(todo);
             // Truncate very long results for display
             const truncated = content.length > 2000 ? content.slice(0, 2000) + "\n... (truncated)" : content;
             persistAndSend("tool_result", truncated, currentSessionId, null);
@@ -407,7 +478,7 @@ export function createAiRouter(
           onResult: (_status, sessionId) => {
             if (sessionId) {
               currentSessionId = sessionId;
-              cardRepo.setMetadataField(cardId, "session_id", sessionId);
+              cardRepo.setMetadataField(cardId, "session_id", sessionId, "ai");
             }
           },
         },
@@ -445,18 +516,18 @@ export function createAiRouter(
 
       persistAndSend("executing", "Cleaning up worktree...", currentSessionId, null);
       await worktreeManager.remove(worktreePath);
-      cardRepo.setMetadataField(cardId, "worktree_path", null);
+      cardRepo.setMetadataField(cardId, "worktree_path", null, "ai");
 
       cardRepo.setExecutionResult(cardId, prUrl ? `PR: ${prUrl}` : "Code changes committed");
-      cardRepo.moveToColumn(cardId, "done");
-      cardRepo.setMetadataField(cardId, "execution_status", "completed");
+      cardRepo.moveToColumn(cardId, "done", undefined, "ai");
+      cardRepo.setMetadataField(cardId, "execution_status", "completed", "ai");
       sessionRepo.updateStatus(execSession.id, "completed", prUrl ? `PR: ${prUrl}` : "Code changes committed");
 
       const updated = cardRepo.getById(cardId);
       persistAndSend("done", prUrl ? `Done! PR: ${prUrl}` : "Done!", currentSessionId, null, { card: updated });
     } catch (err) {
       console.error("Execute-code error:", err);
-      cardRepo.setMetadataField(cardId, "execution_status", "failed");
+      cardRepo.setMetadataField(cardId, "execution_status", "failed", "ai");
       sessionRepo.updateStatus(execSession.id, "failed", (err as Error).message);
       persistAndSend("error", "Code execution failed", null, null);
       persistAndSend("done", "Execution failed", null, null, { card: cardRepo.getById(cardId) });
@@ -510,7 +581,7 @@ export function createAiRouter(
       res.write(`data: ${JSON.stringify(data)}\n\n`);
     };
 
-    cardRepo.setMetadataField(cardId, "execution_status", "running");
+    cardRepo.setMetadataField(cardId, "execution_status", "running", "ai");
 
     const persistAndSend = (step: string, message: string, sid: string | null, data: Record<string, unknown> | null, extra?: Record<string, unknown>) => {
       logRepo.insert(cardId, step, message, sid, data, execSession.id);
@@ -523,6 +594,14 @@ export function createAiRouter(
       let currentSessionId = sessionId;
       let textBuffer = "";
       let paused = false;
+      const todos = new TodoTracker();
+      // An update to a task from an earlier run only knows its id; the
+      // checklist item it was linked to supplies the subject
+      const recordTodo = (todo: TodoItem) => {
+        const item = checklistRepo.applyTodo(cardId, todo);
+        const subject = todo.subject || item?.text || `#${todo.id}`;
+        persistAndSend("todo", `Task: ${subject}`, currentSessionId, { ...todo, subject });
+      };
 
       const { child, promise } = evaluator.executeWithStreamJson(
         answer,
@@ -530,7 +609,7 @@ export function createAiRouter(
         {
           onInit: (sid) => {
             currentSessionId = sid;
-            cardRepo.setMetadataField(cardId, "session_id", sid);
+            cardRepo.setMetadataField(cardId, "session_id", sid, "ai");
           },
           onText: (text) => {
             textBuffer += text;
@@ -539,7 +618,8 @@ export function createAiRouter(
               textBuffer = "";
             }
           },
-          onToolStart: (toolName) => {
+          onToolStart: (toolName, toolId) => {
+            todos.toolStarted(toolId);
             if (textBuffer) {
               persistAndSend("ai_output", textBuffer, currentSessionId, null);
               textBuffer = "";
@@ -548,12 +628,8 @@ export function createAiRouter(
           },
           onToolComplete: (toolName, input) => {
             if (toolName === "TaskCreate" || toolName === "TaskUpdate") {
-              const todoData: Record<string, unknown> = {
-                id: (input as Record<string, unknown>).subject || (input as Record<string, unknown>).taskId || "unknown",
-                subject: (input as Record<string, unknown>).subject as string || "Task",
-                status: (input as Record<string, unknown>).status as string || "pending",
-              };
-              persistAndSend("todo", `Task: ${todoData.subject}`, currentSessionId, todoData);
+              const todo = todos.toolCompleted(toolName, input);
+              if (todo) recordTodo(todo);
             } else if (toolName === "AskUserQuestion") {
               if (textBuffer) {
                 persistAndSend("ai_output", textBuffer, currentSessionId, null);
@@ -569,7 +645,7 @@ export function createAiRouter(
               };
               const logEntry = logRepo.insert(cardId, "question", questionData.question as string, currentSessionId, questionData, execSession.id);
               send({ step: "question", message: questionData.question as string, data: { ...questionData, questionId: logEntry.id } });
-              cardRepo.setMetadataField(cardId, "execution_status", "paused_question");
+              cardRepo.setMetadataField(cardId, "execution_status", "paused_question", "ai");
               sessionRepo.updateStatus(execSession.id, "paused", "Waiting for user input");
               paused = true;
               child.kill("SIGTERM");
@@ -578,14 +654,16 @@ export function createAiRouter(
               persistAndSend("tool_complete", summary, currentSessionId, { toolName, input });
             }
           },
-          onToolResult: (_toolUseId, content) => {
+          onToolResult: (toolUseId, content) => {
+            const todo = todos.toolResult(toolUseId, content);
+            if (todo) recordTodo(todo);
             const truncated = content.length > 2000 ? content.slice(0, 2000) + "\n... (truncated)" : content;
             persistAndSend("tool_result", truncated, currentSessionId, null);
           },
           onResult: (_status, sid) => {
             if (sid) {
               currentSessionId = sid;
-              cardRepo.setMetadataField(cardId, "session_id", sid);
+              cardRepo.setMetadataField(cardId, "session_id", sid, "ai");
             }
           },
         },
@@ -621,18 +699,18 @@ export function createAiRouter(
 
       persistAndSend("executing", "Cleaning up worktree...", currentSessionId, null);
       await worktreeManager.remove(worktreePath);
-      cardRepo.setMetadataField(cardId, "worktree_path", null);
+      cardRepo.setMetadataField(cardId, "worktree_path", null, "ai");
 
       cardRepo.setExecutionResult(cardId, prUrl ? `PR: ${prUrl}` : "Code changes committed");
-      cardRepo.moveToColumn(cardId, "done");
-      cardRepo.setMetadataField(cardId, "execution_status", "completed");
+      cardRepo.moveToColumn(cardId, "done", undefined, "ai");
+      cardRepo.setMetadataField(cardId, "execution_status", "completed", "ai");
       sessionRepo.updateStatus(execSession.id, "completed", prUrl ? `PR: ${prUrl}` : "Code changes committed");
 
       const updated = cardRepo.getById(cardId);
       persistAndSend("done", prUrl ? `Done! PR: ${prUrl}` : "Done!", currentSessionId, null, { card: updated });
     } catch (err) {
       console.error("Answer/resume error:", err);
-      cardRepo.setMetadataField(cardId, "execution_status", "failed");
+      cardRepo.setMetadataField(cardId, "execution_status", "failed", "ai");
       sessionRepo.updateStatus(execSession.id, "failed", (err as Error).message);
       persistAndSend("error", "Execution failed after resume", null, null);
       persistAndSend("done", "Execution failed", null, null, { card: cardRepo.getById(cardId) });
@@ -641,7 +719,7 @@ export function createAiRouter(
     res.end();
   });
 
-  router.post("/execute/:cardId", async (req, res) => {
+  router.post("/execute/:cardId", (req, res) => {
     const cardId = Number(req.params.cardId);
     const card = cardRepo.getById(cardId);
 
@@ -655,32 +733,34 @@ export function createAiRouter(
       return;
     }
 
-    const connector = registry.get(card.source_type);
+    if (!ownsConnector(card, res)) {
+      res.status(403).json({ error: "Only the user whose connector fetched this card can run its action" });
+      return;
+    }
+
+    const connector = registry.get(connectorKey(card.source_type, card.source_user_id ?? OWNER_USER_ID));
     if (!connector) {
       res.status(400).json({ error: `No connector for ${card.source_type}` });
       return;
     }
 
-    const item: KanbanItem = {
-      source_id: card.source_id!,
-      source_type: card.source_type,
-      title: card.title,
-      body: card.body,
-      metadata: card.metadata || {},
-    };
-
-    const result = await connector.executeAction(item, card.action_payload as ActionPayload);
+    queueAction(card, card.action_payload as ActionPayload);
+    res.status(202).json(cardRepo.getById(cardId));
+  });
 
-    if (result.success) {
-      cardRepo.setExecutionResult(cardId, result.message);
-      cardRepo.moveToColumn(cardId, "done");
-    } else {
-      cardRepo.setExecutionResult(cardId, `Failed: ${result.message}`);
-      cardRepo.moveToColumn(cardId, "review");
+  // Called by undo while the action is still inside its grace period
+  router.post("/execute/:cardId/cancel", (req, res) => {
+    const cardId = Number(req.params.cardId);
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
     }
-
-    const updated = cardRepo.getById(cardId);
-    res.json(updated);
+    if (!actionQueue.cancel(cardId)) {
+      res.status(409).json({ error: "No pending action to cancel" });
+      return;
+    }
+    cardRepo.setMetadataField(cardId, "action_due_at", null);
+    res.json(cardRepo.getById(cardId));
   });
 
   return router;
@@ -1,23 +1,104 @@
-import { Router } from "express";
+import { Router, type Response } from "express";
 import type { BoardRepo } from "../db/board-repo.js";
 import type { CardRepo } from "../db/card-repo.js";
+import type { ColumnRepo } from "../db/column-repo.js";
+import type { CardSort, RestoreCardsRequest } from "@daily-kanban/shared";
+import { currentUserId } from "../auth.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// `?assignee=` takes "me", "none" or a user id; anything else shows everyone's cards
+function assigneeOption(value: unknown, res: Response): number | null | undefined {
+  if (value === "me") return currentUserId(res);
+  if (value === "none") return null;
+  return typeof value === "string" && /^\d+$/.test(value) ? Number(value) : undefined;
+}
+
+function listOptions(
+  query: Record<string, unknown>,
+  res: Response,
+): { includeArchived: boolean; sort: CardSort; assignee?: number | null } {
+  return {
+    includeArchived: query.archived === "true",
+    sort: query.sort === "urgency" ? "urgency" : "position",
+    assignee: assigneeOption(query.assignee, res),
+  };
+}
 
 export function createBoardRouter(
   boardRepo: BoardRepo,
-  cardRepo: CardRepo
+  cardRepo: CardRepo,
+  columnRepo: ColumnRepo
 ): Router {
   const router = Router();
 
-  router.get("/today", (_req, res) => {
+  router.get("/", (_req, res) => {
+    // Make sure today's board exists (and has carried over) before listing
+    boardRepo.getOrCreateToday();
+    res.json({ boards: boardRepo.list() });
+  });
+
+  router.get("/today", (req, res) => {
     const board = boardRepo.getOrCreateToday();
-    const cards = cardRepo.listByBoard(board.id);
-    res.json({ board, cards });
+    const cards = cardRepo.listByBoard(board.id, listOptions(req.query, res));
+    res.json({ board, cards, columns: columnRepo.listByBoard(board.id) });
   });
 
+  // Soft-deletes every card; the returned ids let the client undo the purge
   router.delete("/today", (_req, res) => {
     const board = boardRepo.getOrCreateToday();
-    const deleted = cardRepo.deleteAllByBoard(board.id);
-    res.json({ success: true, deleted });
+    const cardIds = cardRepo.softDeleteAllByBoard(board.id);
+    res.json({ success: true, deleted: cardIds.length, card_ids: cardIds });
+  });
+
+  router.post("/today/restore", (req, res) => {
+    const { card_ids } = req.body as RestoreCardsRequest;
+    if (!Array.isArray(card_ids) || !card_ids.every((id) => Number.isInteger(id))) {
+      res.status(400).json({ error: "card_ids must be an array of card ids" });
+      return;
+    }
+    const board = boardRepo.getOrCreateToday();
+    const ids = card_ids.filter((id) => cardRepo.getById(id)?.board_id === board.id);
+    cardRepo.restoreMany(ids);
+    res.json({ board, cards: cardRepo.listByBoard(board.id), columns: columnRepo.listByBoard(board.id) });
+  });
+
+  // Server-sent stream of card changes across all boards; clients filter by
+  // board_id and refetch the board after reconnecting.
+  router.get("/events", (req, res) => {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.flushHeaders();
+
+    const unsubscribe = cardRepo.subscribe((event) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    });
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25_000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  router.get("/:date", (req, res) => {
+    const { date } = req.params;
+    if (!DATE_PATTERN.test(date)) {
+      res.status(400).json({ error: "Date must be in YYYY-MM-DD format" });
+      return;
+    }
+
+    const today = boardRepo.getOrCreateToday();
+    const board = date === today.date ? today : boardRepo.getByDate(date);
+    if (!board) {
+      res.status(404).json({ error: "Board not found" });
+      return;
+    }
+
+    const cards = cardRepo.listByBoard(board.id, listOptions(req.query, res));
+    res.json({ board, cards, columns: columnRepo.listByBoard(board.id) });
   });
 
   return router;
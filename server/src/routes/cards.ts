@@ -1,20 +1,77 @@
 import { Router } from "express";
 import type { CardRepo } from "../db/card-repo.js";
 import type { BoardRepo } from "../db/board-repo.js";
+import type { LabelRepo } from "../db/label-repo.js";
+import type { ColumnRepo } from "../db/column-repo.js";
 import type {
+  AssignCardRequest,
+  BulkCardAction,
+  BulkCardRequest,
+  Card,
+  ColumnName,
   CreateCardRequest,
+  UpdateCardRequest,
   MoveCardRequest,
+  ReorderCardRequest,
+  SnoozeCardRequest,
   ToggleAiRequest,
+  Priority,
 } from "@daily-kanban/shared";
 
+// Returns an error message, or null when priority/due_at are valid (or absent)
+function validateUrgency(priority: unknown, dueAt: unknown): string | null {
+  if (priority !== undefined && !(Number.isInteger(priority) && (priority as number) >= 0 && (priority as number) <= 4)) {
+    return "priority must be an integer from 0 to 4";
+  }
+  if (dueAt !== undefined && dueAt !== null && (typeof dueAt !== "string" || Number.isNaN(Date.parse(dueAt)))) {
+    return "due_at must be an ISO date string or null";
+  }
+  return null;
+}
+
+function normalizeDueAt(dueAt: string | null | undefined): string | null | undefined {
+  return typeof dueAt === "string" ? new Date(dueAt).toISOString() : dueAt;
+}
+
+const BULK_ACTIONS: BulkCardAction["type"][] = [
+  "move", "archive", "delete", "toggle_ai", "set_repo", "add_label", "remove_label",
+];
+
+// Returns an error message, or null when the action is well formed
+function validateBulkAction(action: BulkCardAction | undefined): string | null {
+  if (!action || !BULK_ACTIONS.includes(action.type)) {
+    return `action.type must be one of: ${BULK_ACTIONS.join(", ")}`;
+  }
+  switch (action.type) {
+    case "move":
+      return typeof action.column_name === "string" ? null : "column_name is required";
+    case "toggle_ai":
+      return typeof action.ai_toggle === "boolean" ? null : "ai_toggle must be a boolean";
+    case "set_repo":
+      return action.repo_id === null || typeof action.repo_id === "string" ? null : "repo_id must be a string or null";
+    case "add_label":
+    case "remove_label":
+      return Number.isInteger(action.label_id) ? null : "label_id is required";
+    default:
+      return null;
+  }
+}
+
 export function createCardsRouter(
   cardRepo: CardRepo,
-  boardRepo: BoardRepo
+  boardRepo: BoardRepo,
+  labelRepo: LabelRepo,
+  columnRepo: ColumnRepo
 ): Router {
   const router = Router();
 
   router.post("/", (req, res) => {
-    const { title, body } = req.body as CreateCardRequest;
+    const { title, body, priority, due_at } = req.body as CreateCardRequest;
+    const urgencyError = validateUrgency(priority, due_at);
+    if (urgencyError) {
+      res.status(400).json({ error: urgencyError });
+      return;
+    }
     const board = boardRepo.getOrCreateToday();
 
     const card = cardRepo.create({
@@ -24,18 +81,231 @@ export function createCardsRouter(
       title,
       body: body || null,
       metadata: null,
+      priority: priority as Priority | undefined,
+      due_at: normalizeDueAt(due_at),
     });
     res.status(201).json(card);
   });
 
+  // One action across many cards; nothing changes unless every card can take it
+  router.post("/bulk", (req, res) => {
+    const { card_ids, action } = req.body as BulkCardRequest;
+    if (!Array.isArray(card_ids) || card_ids.length === 0 || !card_ids.every(Number.isInteger)) {
+      res.status(400).json({ error: "card_ids must be a non-empty list of card ids" });
+      return;
+    }
+    const actionError = validateBulkAction(action);
+    if (actionError) {
+      res.status(400).json({ error: actionError });
+      return;
+    }
+    const cards: Card[] = [];
+    for (const id of new Set(card_ids)) {
+      const card = cardRepo.getById(id);
+      if (!card) {
+        res.status(404).json({ error: `Card ${id} not found` });
+        return;
+      }
+      cards.push(card);
+    }
+
+    if (action.type === "move") {
+      for (const card of cards) {
+        const column = columnRepo.getByKey(card.board_id, action.column_name);
+        if (!column) {
+          res.status(400).json({ error: `Unknown column: ${action.column_name}` });
+          return;
+        }
+        if (column.wip_limit === null) continue;
+        const arrivals = cards.filter((c) => c.board_id === card.board_id && c.column_name !== column.key);
+        const staying = columnRepo.countCards(card.board_id, column.key);
+        if (arrivals.length > 0 && staying + arrivals.length > column.wip_limit) {
+          res.status(409).json({ error: `"${column.name}" is at its WIP limit of ${column.wip_limit}` });
+          return;
+        }
+      }
+    }
+    if ((action.type === "add_label" || action.type === "remove_label") && !labelRepo.getById(action.label_id)) {
+      res.status(400).json({ error: "Label not found" });
+      return;
+    }
+
+    cardRepo.applyBulk(cards.map((c) => c.id), action);
+    res.json({ cards: cards.map((c) => cardRepo.getById(c.id)) });
+  });
+
+  router.patch("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+
+    const { title, body, metadata, priority, due_at } = req.body as UpdateCardRequest;
+    if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+      res.status(400).json({ error: "title must be a non-empty string" });
+      return;
+    }
+    if (body !== undefined && body !== null && typeof body !== "string") {
+      res.status(400).json({ error: "body must be a string or null" });
+      return;
+    }
+    if (metadata !== undefined && (typeof metadata !== "object" || metadata === null || Array.isArray(metadata))) {
+      res.status(400).json({ error: "metadata must be an object" });
+      return;
+    }
+    const urgencyError = validateUrgency(priority, due_at);
+    if (urgencyError) {
+      res.status(400).json({ error: urgencyError });
+      return;
+    }
+
+    cardRepo.update(id, { title: title?.trim(), body, metadata, priority, due_at: normalizeDueAt(due_at) });
+    res.json(cardRepo.getById(id));
+  });
+
+  // Soft delete by default; ?permanent=true also removes sessions and logs
+  router.delete("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+
+    if (req.query.permanent === "true") {
+      cardRepo.hardDelete(id);
+    } else {
+      cardRepo.softDelete(id);
+    }
+    res.json({ success: true });
+  });
+
+  // Audit trail, oldest first
+  router.get("/:id/events", (req, res) => {
+    const id = Number(req.params.id);
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    res.json({ events: cardRepo.listEvents(id) });
+  });
+
+  router.post("/:id/archive", (req, res) => {
+    const id = Number(req.params.id);
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    cardRepo.archive(id);
+    res.json(cardRepo.getById(id));
+  });
+
+  router.post("/:id/restore", (req, res) => {
+    const id = Number(req.params.id);
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    cardRepo.restore(id);
+    res.json(cardRepo.getById(id));
+  });
+
+  router.get("/snoozed", (_req, res) => {
+    res.json({ cards: cardRepo.listSnoozed() });
+  });
+
+  router.post("/:id/snooze", (req, res) => {
+    const id = Number(req.params.id);
+    const { until } = req.body as SnoozeCardRequest;
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (typeof until !== "string" || Number.isNaN(Date.parse(until))) {
+      res.status(400).json({ error: "until must be an ISO date string" });
+      return;
+    }
+    if (Date.parse(until) <= Date.now()) {
+      res.status(400).json({ error: "until must be in the future" });
+      return;
+    }
+    cardRepo.snooze(id, new Date(until).toISOString());
+    res.json(cardRepo.getById(id));
+  });
+
+  // Wakes a snoozed card early, into today's inbox
+  router.post("/:id/wake", (req, res) => {
+    const id = Number(req.params.id);
+    const card = cardRepo.getById(id);
+    if (!card) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (card.snoozed_until === null) {
+      res.status(409).json({ error: "Card is not snoozed" });
+      return;
+    }
+    cardRepo.wake(id, boardRepo.getOrCreateToday().id);
+    res.json(cardRepo.getById(id));
+  });
+
+  // Returns an error status and message, or null when the card may go there
+  const checkTarget = (card: Card, columnName: ColumnName): { status: number; error: string } | null => {
+    const column = columnRepo.getByKey(card.board_id, columnName);
+    if (!column) return { status: 400, error: `Unknown column: ${columnName}` };
+    // Reordering inside a full column is fine; only arrivals count
+    if (
+      column.wip_limit !== null && card.column_name !== column.key &&
+      columnRepo.countCards(card.board_id, column.key, card.id) >= column.wip_limit
+    ) {
+      return { status: 409, error: `"${column.name}" is at its WIP limit of ${column.wip_limit}` };
+    }
+    return null;
+  };
+
   router.patch("/:id/move", (req, res) => {
     const id = Number(req.params.id);
     const { column_name, position } = req.body as MoveCardRequest;
+    const existing = cardRepo.getById(id);
+    if (!existing) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    const rejection = checkTarget(existing, column_name);
+    if (rejection) {
+      res.status(rejection.status).json({ error: rejection.error });
+      return;
+    }
     cardRepo.moveToColumn(id, column_name, position);
     const card = cardRepo.getById(id);
     res.json(card);
   });
 
+  router.patch("/:id/reorder", (req, res) => {
+    const id = Number(req.params.id);
+    const { column_name, before_id, after_id } = req.body as ReorderCardRequest;
+    const existing = cardRepo.getById(id);
+    if (!existing) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    const rejection = checkTarget(existing, column_name);
+    if (rejection) {
+      res.status(rejection.status).json({ error: rejection.error });
+      return;
+    }
+    for (const neighborId of [before_id, after_id]) {
+      if (neighborId === undefined || neighborId === null) continue;
+      const neighbor = cardRepo.getById(neighborId);
+      if (!neighbor || neighbor.id === id || neighbor.board_id !== existing.board_id || neighbor.column_name !== column_name) {
+        res.status(400).json({ error: `Card ${neighborId} is not in ${column_name}` });
+        return;
+      }
+    }
+    const positions = cardRepo.reorder(id, column_name, { beforeId: before_id, afterId: after_id });
+    res.json({ card: cardRepo.getById(id), positions });
+  });
+
   router.patch("/:id/ai-toggle", (req, res) => {
     const id = Number(req.params.id);
     const { ai_toggle } = req.body as ToggleAiRequest;
@@ -44,6 +314,40 @@ export function createCardsRouter(
     res.json(card);
   });
 
+  router.patch("/:id/assignee", (req, res) => {
+    const id = Number(req.params.id);
+    const { assignee_id } = req.body as AssignCardRequest;
+    if (assignee_id !== null && !Number.isInteger(assignee_id)) {
+      res.status(400).json({ error: "assignee_id must be a user id or null" });
+      return;
+    }
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (!cardRepo.assign(id, assignee_id)) {
+      res.status(400).json({ error: "User not found" });
+      return;
+    }
+    res.json(cardRepo.getById(id));
+  });
+
+  router.put("/:id/labels", (req, res) => {
+    const id = Number(req.params.id);
+    const { label_ids } = req.body as { label_ids?: number[] };
+    if (!cardRepo.getById(id)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (!Array.isArray(label_ids) || label_ids.some((l) => !labelRepo.getById(Number(l)))) {
+      res.status(400).json({ error: "label_ids must be a list of existing label ids" });
+      return;
+    }
+
+    cardRepo.setLabels(id, label_ids.map(Number));
+    res.json(cardRepo.getById(id));
+  });
+
   router.patch("/:id/repo", (req, res) => {
     const id = Number(req.params.id);
     const { repo_id } = req.body;
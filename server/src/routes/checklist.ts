@@ -0,0 +1,70 @@
+import { Router, type Request } from "express";
+import type { CardRepo } from "../db/card-repo.js";
+import type { ChecklistRepo } from "../db/checklist-repo.js";
+import type { CreateChecklistItemRequest, UpdateChecklistItemRequest } from "@daily-kanban/shared";
+
+// Mounted under /api/cards/:cardId/checklist
+function cardIdOf(req: Request): number {
+  return Number(req.params.cardId);
+}
+
+export function createChecklistRouter(cardRepo: CardRepo, checklistRepo: ChecklistRepo): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", (req, res) => {
+    const cardId = cardIdOf(req);
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    res.json({ items: checklistRepo.listByCard(cardId) });
+  });
+
+  router.post("/", (req, res) => {
+    const cardId = cardIdOf(req);
+    const { text } = req.body as CreateChecklistItemRequest;
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (typeof text !== "string" || !text.trim()) {
+      res.status(400).json({ error: "text is required" });
+      return;
+    }
+    res.status(201).json(checklistRepo.create(cardId, text.trim()));
+  });
+
+  router.patch("/:itemId", (req, res) => {
+    const cardId = cardIdOf(req);
+    const itemId = Number(req.params.itemId);
+    const { text, checked } = req.body as UpdateChecklistItemRequest;
+    if (checklistRepo.getById(itemId)?.card_id !== cardId) {
+      res.status(404).json({ error: "Checklist item not found" });
+      return;
+    }
+    if (text !== undefined && (typeof text !== "string" || !text.trim())) {
+      res.status(400).json({ error: "text must be a non-empty string" });
+      return;
+    }
+    if (checked !== undefined && typeof checked !== "boolean") {
+      res.status(400).json({ error: "checked must be a boolean" });
+      return;
+    }
+
+    checklistRepo.update(itemId, { text: text?.trim(), checked });
+    res.json(checklistRepo.getById(itemId));
+  });
+
+  router.delete("/:itemId", (req, res) => {
+    const cardId = cardIdOf(req);
+    const itemId = Number(req.params.itemId);
+    if (checklistRepo.getById(itemId)?.card_id !== cardId) {
+      res.status(404).json({ error: "Checklist item not found" });
+      return;
+    }
+    checklistRepo.delete(itemId);
+    res.json({ success: true });
+  });
+
+  return router;
+}
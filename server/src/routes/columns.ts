@@ -0,0 +1,122 @@
+import { Router, type Request } from "express";
+import type { BoardRepo } from "../db/board-repo.js";
+import type { ColumnRepo } from "../db/column-repo.js";
+import type {
+  Board,
+  ColumnBehavior,
+  CreateColumnRequest,
+  ReorderColumnsRequest,
+  UpdateColumnRequest,
+} from "@daily-kanban/shared";
+
+const BEHAVIORS: ColumnBehavior[] = ["start_ai", "execute_action"];
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+// Returns an error message, or null when every field present is valid
+function validateColumn(input: UpdateColumnRequest): string | null {
+  if (input.name !== undefined && (typeof input.name !== "string" || !input.name.trim())) {
+    return "Column name is required";
+  }
+  if (input.color !== undefined && !COLOR_PATTERN.test(input.color)) {
+    return "color must be a hex color like #3b82f6";
+  }
+  if (
+    input.wip_limit !== undefined && input.wip_limit !== null &&
+    !(Number.isInteger(input.wip_limit) && input.wip_limit > 0)
+  ) {
+    return "wip_limit must be a positive integer or null";
+  }
+  if (input.behavior !== undefined && input.behavior !== null && !BEHAVIORS.includes(input.behavior)) {
+    return `behavior must be one of: ${BEHAVIORS.join(", ")}`;
+  }
+  return null;
+}
+
+// Mounted under /api/board/:date/columns, where :date is "today" or YYYY-MM-DD
+export function createColumnsRouter(columnRepo: ColumnRepo, boardRepo: BoardRepo): Router {
+  const router = Router({ mergeParams: true });
+
+  const boardOf = (req: Request): Board | null => {
+    const date = req.params.date as string;
+    return date === "today" ? boardRepo.getOrCreateToday() : boardRepo.getByDate(date);
+  };
+
+  router.get("/", (req, res) => {
+    const board = boardOf(req);
+    if (!board) {
+      res.status(404).json({ error: "Board not found" });
+      return;
+    }
+    res.json({ columns: columnRepo.listByBoard(board.id) });
+  });
+
+  router.post("/", (req, res) => {
+    const board = boardOf(req);
+    if (!board) {
+      res.status(404).json({ error: "Board not found" });
+      return;
+    }
+    const input = req.body as CreateColumnRequest;
+    const error = validateColumn({ ...input, name: input.name ?? "" });
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const column = columnRepo.create(board.id, { ...input, name: input.name.trim() });
+    res.status(201).json(column);
+  });
+
+  router.put("/order", (req, res) => {
+    const board = boardOf(req);
+    if (!board) {
+      res.status(404).json({ error: "Board not found" });
+      return;
+    }
+    const { ids } = req.body as ReorderColumnsRequest;
+    const current = columnRepo.listByBoard(board.id).map((c) => c.id);
+    if (!Array.isArray(ids) || ids.length !== current.length || !current.every((id) => ids.includes(id))) {
+      res.status(400).json({ error: "ids must list every column of the board exactly once" });
+      return;
+    }
+    columnRepo.reorder(board.id, ids);
+    res.json({ columns: columnRepo.listByBoard(board.id) });
+  });
+
+  router.patch("/:id", (req, res) => {
+    const board = boardOf(req);
+    const column = columnRepo.getById(Number(req.params.id));
+    if (!board || !column || column.board_id !== board.id) {
+      res.status(404).json({ error: "Column not found" });
+      return;
+    }
+    const input = req.body as UpdateColumnRequest;
+    const error = validateColumn(input);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    columnRepo.update(column.id, { ...input, name: input.name?.trim() });
+    res.json(columnRepo.getById(column.id));
+  });
+
+  router.delete("/:id", (req, res) => {
+    const board = boardOf(req);
+    const column = columnRepo.getById(Number(req.params.id));
+    if (!board || !column || column.board_id !== board.id) {
+      res.status(404).json({ error: "Column not found" });
+      return;
+    }
+    if (column.system) {
+      res.status(400).json({ error: `"${column.name}" is a built-in column and can't be removed` });
+      return;
+    }
+    if (columnRepo.countCards(board.id, column.key) > 0) {
+      res.status(409).json({ error: `Move the cards out of "${column.name}" before removing it` });
+      return;
+    }
+    columnRepo.delete(column.id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,64 @@
+import { Router, type Request } from "express";
+import type { CardRepo } from "../db/card-repo.js";
+import type { CommentRepo } from "../db/comment-repo.js";
+import type { CommentRequest } from "@daily-kanban/shared";
+
+// Mounted under /api/cards/:cardId/comments
+function cardIdOf(req: Request): number {
+  return Number(req.params.cardId);
+}
+
+export function createCommentsRouter(cardRepo: CardRepo, commentRepo: CommentRepo): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", (req, res) => {
+    const cardId = cardIdOf(req);
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    res.json({ comments: commentRepo.listByCard(cardId) });
+  });
+
+  router.post("/", (req, res) => {
+    const cardId = cardIdOf(req);
+    const { body } = req.body as CommentRequest;
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (typeof body !== "string" || !body.trim()) {
+      res.status(400).json({ error: "body is required" });
+      return;
+    }
+    res.status(201).json(commentRepo.create(cardId, body.trim()));
+  });
+
+  router.patch("/:commentId", (req, res) => {
+    const commentId = Number(req.params.commentId);
+    const { body } = req.body as CommentRequest;
+    if (commentRepo.getById(commentId)?.card_id !== cardIdOf(req)) {
+      res.status(404).json({ error: "Comment not found" });
+      return;
+    }
+    if (typeof body !== "string" || !body.trim()) {
+      res.status(400).json({ error: "body is required" });
+      return;
+    }
+
+    commentRepo.update(commentId, body.trim());
+    res.json(commentRepo.getById(commentId));
+  });
+
+  router.delete("/:commentId", (req, res) => {
+    const commentId = Number(req.params.commentId);
+    if (commentRepo.getById(commentId)?.card_id !== cardIdOf(req)) {
+      res.status(404).json({ error: "Comment not found" });
+      return;
+    }
+    commentRepo.delete(commentId);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -2,7 +2,8 @@ import { Router } from "express";
 import crypto from "crypto";
 import Database from "better-sqlite3";
 import { google } from "googleapis";
-import type { ConnectorRegistry } from "../connectors/registry.js";
+import { type ConnectorRegistry, connectorKey } from "../connectors/registry.js";
+import { createConnector } from "../connectors/factory.js";
 import type { GmailConnector } from "../connectors/gmail.js";
 import type { CalendarConnector } from "../connectors/calendar.js";
 import { LinearConnector } from "../connectors/linear.js";
@@ -10,9 +11,20 @@ import type { GitLabConnector } from "../connectors/gitlab.js";
 import type { TelegramConnector } from "../connectors/telegram.js";
 import type { BoardRepo } from "../db/board-repo.js";
 import type { CardRepo } from "../db/card-repo.js";
+import { OWNER_USER_ID } from "../db/user-repo.js";
+import { currentUserId } from "../auth.js";
+import {
+  type CredentialCipher,
+  type Credentials,
+  isReference,
+  maskCredentials,
+  mergeCredentials,
+  resolveReferences,
+} from "../credentials.js";
 
 interface PendingOAuth {
   type: string;
+  owner_id: number;
   client_id: string;
   client_secret: string;
   redirect_uri: string;
@@ -25,20 +37,41 @@ interface ConnectorsRouterDeps {
   registry: ConnectorRegistry;
   boardRepo: BoardRepo;
   cardRepo: CardRepo;
+  cipher: CredentialCipher;
   scheduler: { pollAll(): Promise<void> };
   port: number;
 }
 
+// Only the owner's configs may point at the server's environment or files;
+// a teammate could otherwise send the server's secrets to a host they control
+function referenceError(credentials: Credentials, ownerId: number): string | null {
+  if (ownerId === OWNER_USER_ID) return null;
+  const field = Object.keys(credentials).find((f) => isReference(credentials[f]));
+  return field ? `${field}: only the owner can use \${env:...} and file: references` : null;
+}
+
+// `credentials` may hold `${env:NAME}` or `file:/path` references; they are
+// resolved here, each time the connector is (re)loaded. A teammate's first
+// config gets them their own instance of the connector.
 export function initializeConnector(
   type: string,
-  credentials: Record<string, string>,
+  stored: Credentials,
   registry: ConnectorRegistry,
   boardRepo: BoardRepo,
   cardRepo: CardRepo,
   settings?: Record<string, string> | null,
+  ownerId: number = OWNER_USER_ID,
 ): void {
-  const connector = registry.get(type);
+  const error = referenceError(stored, ownerId);
+  if (error) throw new Error(error);
+  const key = connectorKey(type, ownerId);
+  let connector = registry.get(key);
+  if (!connector && ownerId !== OWNER_USER_ID && registry.get(type)) {
+    connector = createConnector(type) ?? undefined;
+    if (connector) registry.register(key, connector);
+  }
   if (!connector) return;
+  const credentials = resolveReferences(stored);
 
   switch (type) {
     case "gmail":
@@ -69,13 +102,14 @@ export function initializeConnector(
         credentials.bot_token,
         boardRepo,
         cardRepo,
+        ownerId,
       );
       break;
   }
 }
 
 export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
-  const { db, registry, boardRepo, cardRepo, scheduler, port } = deps;
+  const { db, registry, boardRepo, cardRepo, cipher, scheduler, port } = deps;
   const router = Router();
 
   // Trigger a poll cycle across all enabled connectors
@@ -123,11 +157,11 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
       };
 
       db.prepare(
-        `INSERT OR REPLACE INTO connector_configs (type, credentials, settings, enabled)
-         VALUES (?, ?, ?, 1)`
-      ).run(pending.type, JSON.stringify(credentials), null);
+        `INSERT OR REPLACE INTO connector_configs (type, owner_id, credentials, settings, enabled)
+         VALUES (?, ?, ?, ?, 1)`
+      ).run(pending.type, pending.owner_id, cipher.encrypt(credentials), null);
 
-      initializeConnector(pending.type, credentials, registry, boardRepo, cardRepo);
+      initializeConnector(pending.type, credentials, registry, boardRepo, cardRepo, null, pending.owner_id);
 
       pendingOAuth.delete(state);
 
@@ -150,7 +184,7 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
 
   // --- Linear teams endpoint (must be before /:type param routes) ---
   router.get("/linear/teams", async (_req, res) => {
-    const connector = registry.get("linear");
+    const connector = registry.get(connectorKey("linear", currentUserId(res)));
     if (!connector) {
       res.status(400).json({ error: "Linear connector not registered" });
       return;
@@ -203,6 +237,7 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
 
     pendingOAuth.set(state, {
       type,
+      owner_id: currentUserId(res),
       client_id: creds.client_id,
       client_secret: creds.client_secret,
       redirect_uri,
@@ -211,9 +246,13 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
     res.json({ auth_url });
   });
 
-  // List all connectors (credentials masked)
+  // Configs below all belong to the signed-in user
+
+  // List their connectors (credentials masked)
   router.get("/", (_req, res) => {
-    const configs = db.prepare("SELECT * FROM connector_configs ORDER BY type").all();
+    const configs = db
+      .prepare("SELECT * FROM connector_configs WHERE owner_id = ? ORDER BY type")
+      .all(currentUserId(res));
     res.json(configs.map((c: any) => {
       let aiRules: string | null = null;
       if (c.settings) {
@@ -228,10 +267,12 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
     }));
   });
 
-  // Get single connector config (full credentials for editing)
+  // Get single connector config; secrets only show whether they are set
   router.get("/:type", (req, res) => {
     const { type } = req.params;
-    const config = db.prepare("SELECT * FROM connector_configs WHERE type = ?").get(type) as any;
+    const config = db
+      .prepare("SELECT * FROM connector_configs WHERE type = ? AND owner_id = ?")
+      .get(type, currentUserId(res)) as any;
 
     if (!config) {
       res.status(404).json({ error: "Connector not found" });
@@ -240,7 +281,7 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
 
     res.json({
       ...config,
-      credentials: config.credentials ? JSON.parse(config.credentials) : null,
+      credentials: config.credentials ? maskCredentials(cipher.decrypt(config.credentials)) : null,
       settings: config.settings ? JSON.parse(config.settings) : null,
       enabled: Boolean(config.enabled),
     });
@@ -251,7 +292,9 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
     const { type } = req.params;
     const { ai_rules } = req.body;
 
-    const existing = db.prepare("SELECT * FROM connector_configs WHERE type = ?").get(type) as any;
+    const existing = db
+      .prepare("SELECT * FROM connector_configs WHERE type = ? AND owner_id = ?")
+      .get(type, currentUserId(res)) as any;
 
     if (existing) {
       const settings = existing.settings ? JSON.parse(existing.settings) : {};
@@ -260,14 +303,14 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
       } else {
         delete settings.ai_rules;
       }
-      db.prepare("UPDATE connector_configs SET settings = ? WHERE type = ?").run(
-        JSON.stringify(settings), type
+      db.prepare("UPDATE connector_configs SET settings = ? WHERE id = ?").run(
+        JSON.stringify(settings), existing.id
       );
     } else {
       const settings = ai_rules ? { ai_rules } : {};
       db.prepare(
-        "INSERT INTO connector_configs (type, credentials, settings, enabled) VALUES (?, ?, ?, 0)"
-      ).run(type, null, JSON.stringify(settings));
+        "INSERT INTO connector_configs (type, owner_id, credentials, settings, enabled) VALUES (?, ?, ?, ?, 0)"
+      ).run(type, currentUserId(res), null, JSON.stringify(settings));
     }
 
     res.json({ success: true });
@@ -280,26 +323,43 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
 
     // If only toggling enabled, preserve existing credentials
     if (credentials === undefined) {
-      const existing = db.prepare("SELECT * FROM connector_configs WHERE type = ?").get(type) as any;
+      const existing = db
+        .prepare("SELECT * FROM connector_configs WHERE type = ? AND owner_id = ?")
+        .get(type, currentUserId(res)) as any;
       if (existing) {
         db.prepare(
-          "UPDATE connector_configs SET enabled = ? WHERE type = ?"
-        ).run(enabled ? 1 : 0, type);
+          "UPDATE connector_configs SET enabled = ? WHERE id = ?"
+        ).run(enabled ? 1 : 0, existing.id);
       } else {
         db.prepare(
-          `INSERT INTO connector_configs (type, credentials, settings, enabled) VALUES (?, ?, ?, ?)`
-        ).run(type, null, null, enabled ? 1 : 0);
+          `INSERT INTO connector_configs (type, owner_id, credentials, settings, enabled) VALUES (?, ?, ?, ?, ?)`
+        ).run(type, currentUserId(res), null, null, enabled ? 1 : 0);
       }
       res.json({ success: true });
       return;
     }
 
+    const error = credentials ? referenceError(credentials, currentUserId(res)) : null;
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+
+    // Blank fields keep the secret already stored
+    const existing = db
+      .prepare("SELECT credentials FROM connector_configs WHERE type = ? AND owner_id = ?")
+      .get(type, currentUserId(res)) as
+      | { credentials: string | null }
+      | undefined;
+    const stored = existing?.credentials ? cipher.decrypt(existing.credentials) : null;
+
     db.prepare(
-      `INSERT OR REPLACE INTO connector_configs (type, credentials, settings, enabled)
-       VALUES (?, ?, ?, ?)`
+      `INSERT OR REPLACE INTO connector_configs (type, owner_id, credentials, settings, enabled)
+       VALUES (?, ?, ?, ?, ?)`
     ).run(
       type,
-      credentials ? JSON.stringify(credentials) : null,
+      currentUserId(res),
+      credentials ? cipher.encrypt(mergeCredentials(stored, credentials)) : null,
       settings ? JSON.stringify(settings) : null,
       enabled ? 1 : 0
     );
@@ -310,7 +370,9 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
   // Reload connector with current DB config
   router.post("/:type/reload", (req, res) => {
     const { type } = req.params;
-    const config = db.prepare("SELECT * FROM connector_configs WHERE type = ?").get(type) as any;
+    const config = db
+      .prepare("SELECT * FROM connector_configs WHERE type = ? AND owner_id = ?")
+      .get(type, currentUserId(res)) as any;
 
     if (!config || !config.credentials) {
       res.status(404).json({ error: "No config found for connector" });
@@ -318,14 +380,14 @@ export function createConnectorsRouter(deps: ConnectorsRouterDeps): Router {
     }
 
     try {
-      const credentials = JSON.parse(config.credentials);
+      const credentials = cipher.decrypt(config.credentials);
       const settings = config.settings ? JSON.parse(config.settings) : null;
-      initializeConnector(type, credentials, registry, boardRepo, cardRepo, settings);
-      console.log(`Connector ${type} reloaded successfully`);
+      initializeConnector(type, credentials, registry, boardRepo, cardRepo, settings, config.owner_id);
+      console.log(`Connector ${connectorKey(type, config.owner_id)} reloaded successfully`);
       res.json({ success: true });
     } catch (err) {
       console.error(`Failed to reload connector ${type}:`, err);
-      res.status(500).json({ error: "Failed to reload connector" });
+      res.status(500).json({ error: `Failed to reload connector: ${(err as Error).message}` });
     }
   });
 
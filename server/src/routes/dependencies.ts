@@ -0,0 +1,62 @@
+import { Router, type Request } from "express";
+import type { CardRepo } from "../db/card-repo.js";
+import type { DependencyRepo } from "../db/dependency-repo.js";
+import type { AddDependencyRequest } from "@daily-kanban/shared";
+
+// Mounted under /api/cards/:cardId/dependencies; the card in the path is the
+// blocked one and `blocker_id` is the card it waits on.
+function cardIdOf(req: Request): number {
+  return Number(req.params.cardId);
+}
+
+export function createDependenciesRouter(cardRepo: CardRepo, dependencyRepo: DependencyRepo): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get("/", (req, res) => {
+    const card = cardRepo.getById(cardIdOf(req));
+    if (!card) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    const load = (ids: number[]) => ids.map((id) => cardRepo.getById(id)).filter((c) => c !== null);
+    res.json({
+      blocked_by: load(card.dependencies.blocked_by),
+      blocks: load(card.dependencies.blocks),
+    });
+  });
+
+  router.post("/", (req, res) => {
+    const cardId = cardIdOf(req);
+    const { blocker_id } = req.body as AddDependencyRequest;
+    if (!cardRepo.getById(cardId)) {
+      res.status(404).json({ error: "Card not found" });
+      return;
+    }
+    if (!Number.isInteger(blocker_id)) {
+      res.status(400).json({ error: "blocker_id must be a card id" });
+      return;
+    }
+    if (!cardRepo.getById(blocker_id)) {
+      res.status(404).json({ error: "Blocking card not found" });
+      return;
+    }
+    if (dependencyRepo.wouldCycle(blocker_id, cardId)) {
+      res.status(409).json({ error: "That dependency would create a cycle" });
+      return;
+    }
+
+    dependencyRepo.add(blocker_id, cardId);
+    res.status(201).json(cardRepo.getById(cardId));
+  });
+
+  router.delete("/:blockerId", (req, res) => {
+    const cardId = cardIdOf(req);
+    if (!dependencyRepo.remove(Number(req.params.blockerId), cardId)) {
+      res.status(404).json({ error: "Dependency not found" });
+      return;
+    }
+    res.json(cardRepo.getById(cardId));
+  });
+
+  return router;
+}
@@ -0,0 +1,190 @@
+import { Router } from "express";
+import type Database from "better-sqlite3";
+import type { BoardRepo } from "../db/board-repo.js";
+import type { CardRepo } from "../db/card-repo.js";
+import type { ColumnRepo } from "../db/column-repo.js";
+import type { LabelRepo } from "../db/label-repo.js";
+import type { LogRepo } from "../db/log-repo.js";
+import { exportCard, toCsv, toJson, toMarkdown } from "../board-export.js";
+import type { BoardExport, ExportedCard, ExportFormat, ImportBoardResponse, SourceType } from "@daily-kanban/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FORMATS: ExportFormat[] = ["json", "csv", "md"];
+const SOURCE_TYPES: SourceType[] = ["gmail", "calendar", "linear", "gitlab", "telegram", "manual", "recurring"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+// Absent and null are always fine; anything else has to pass `check`
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || value === null || check(value);
+}
+
+// Returns an error message, or null when the card can be inserted as is
+function validateCard(card: ExportedCard): string | null {
+  if (!card || typeof card.title !== "string" || !card.title.trim()) return "needs a title";
+  if (card.source_type !== undefined && !SOURCE_TYPES.includes(card.source_type)) {
+    return `source_type must be one of: ${SOURCE_TYPES.join(", ")}`;
+  }
+  if (!isOptional(card.source_id, isString)) return "source_id must be a string or null";
+  if (!isOptional(card.body, isString)) return "body must be a string or null";
+  if (!isOptional(card.metadata, isObject)) return "metadata must be an object or null";
+  if (!isOptional(card.action_payload, isObject)) return "action_payload must be an object or null";
+  if (!isOptional(card.proposed_action, isString)) return "proposed_action must be a string or null";
+  if (!isOptional(card.execution_result, isString)) return "execution_result must be a string or null";
+  if (!isOptional(card.confidence, (c) => typeof c === "number" && c >= 0 && c <= 100)) {
+    return "confidence must be a number from 0 to 100 or null";
+  }
+  if (!isOptional(card.due_at, (d) => typeof d === "string" && !Number.isNaN(Date.parse(d)))) {
+    return "due_at must be an ISO date string or null";
+  }
+  if (card.position !== undefined && !Number.isFinite(card.position)) return "position must be a number";
+  if (card.ai_toggle !== undefined && typeof card.ai_toggle !== "boolean") return "ai_toggle must be true or false";
+  if (card.priority !== undefined && !(Number.isInteger(card.priority) && card.priority >= 0 && card.priority <= 4)) {
+    return "priority must be an integer from 0 to 4";
+  }
+  if (card.labels !== undefined && !(Array.isArray(card.labels) && card.labels.every((l) => typeof l === "string"))) {
+    return "labels must be an array of names";
+  }
+  if (card.logs !== undefined) {
+    if (!Array.isArray(card.logs)) return "logs must be an array";
+    const bad = card.logs.findIndex((l) => !l || typeof l.step !== "string" || typeof l.message !== "string");
+    if (bad !== -1) return `logs[${bad}] needs a step and a message`;
+  }
+  return null;
+}
+
+// Returns an error message, or null when the payload looks like a version 1 export
+function validateImport(payload: BoardExport): string | null {
+  if (!payload || typeof payload !== "object" || payload.version !== 1) {
+    return "Expected a version 1 board export";
+  }
+  if (typeof payload.date !== "string" || !DATE_PATTERN.test(payload.date)) {
+    return "date must be in YYYY-MM-DD format";
+  }
+  if (!Array.isArray(payload.cards)) return "cards must be an array";
+  for (const [i, card] of payload.cards.entries()) {
+    const error = validateCard(card);
+    if (error) return `cards[${i}] ${error}`;
+  }
+  return null;
+}
+
+export function createExportRouter(
+  db: Database.Database,
+  boardRepo: BoardRepo,
+  cardRepo: CardRepo,
+  columnRepo: ColumnRepo,
+  labelRepo: LabelRepo,
+  logRepo: LogRepo,
+): Router {
+  const router = Router();
+
+  // ?format=json|csv|md (default json); ?include_logs=true adds execution logs
+  router.get("/:date/export", (req, res) => {
+    const format = (req.query.format ?? "json") as ExportFormat;
+    if (!FORMATS.includes(format)) {
+      res.status(400).json({ error: `format must be one of: ${FORMATS.join(", ")}` });
+      return;
+    }
+    const today = boardRepo.getOrCreateToday();
+    const date = req.params.date === "today" ? today.date : req.params.date;
+    if (!DATE_PATTERN.test(date)) {
+      res.status(400).json({ error: "Date must be in YYYY-MM-DD format" });
+      return;
+    }
+    const board = boardRepo.getByDate(date);
+    if (!board) {
+      res.status(404).json({ error: "Board not found" });
+      return;
+    }
+
+    const includeLogs = req.query.include_logs === "true";
+    const columns = columnRepo.listByBoard(board.id);
+    const cards = cardRepo
+      .listByBoard(board.id)
+      .map((card) => exportCard(card, date, includeLogs ? logRepo.listByCard(card.id) : undefined));
+
+    res.setHeader("Content-Type", CONTENT_TYPES[format]);
+    res.setHeader("Content-Disposition", `attachment; filename="board-${date}.${format}"`);
+    if (format === "json") res.send(JSON.stringify(toJson(date, columns, cards), null, 2));
+    else if (format === "csv") res.send(toCsv(columns, cards, includeLogs));
+    else res.send(toMarkdown(date, columns, cards));
+  });
+
+  // Recreates the cards of a JSON export on its date, or on ?date= instead.
+  // Cards whose source_id is already on that board are skipped, so importing
+  // the same file twice is harmless; unknown columns land in the inbox.
+  // Every card comes in as a manual one without an action payload: a file
+  // must not be able to send mail or post comments through a connector.
+  router.post("/import", (req, res) => {
+    const payload = req.body as BoardExport;
+    const error = validateImport(payload);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const date = typeof req.query.date === "string" ? req.query.date : payload.date;
+    if (!DATE_PATTERN.test(date)) {
+      res.status(400).json({ error: "Date must be in YYYY-MM-DD format" });
+      return;
+    }
+
+    const result = db.transaction((): ImportBoardResponse => {
+      const board = boardRepo.getOrCreate(date, { carryOver: false });
+      const columnKeys = new Set(columnRepo.listByBoard(board.id).map((c) => c.key));
+      let imported = 0;
+      let skipped = 0;
+      for (const entry of payload.cards) {
+        if (entry.source_id && cardRepo.getBySourceId(board.id, entry.source_id)) {
+          skipped++;
+          continue;
+        }
+        const labelIds = (entry.labels ?? [])
+          .filter((name) => name.trim())
+          .map((name) => labelRepo.ensure(name.trim()).id);
+        const card = cardRepo.create({
+          board_id: board.id,
+          source_id: entry.source_id ?? null,
+          source_type: "manual",
+          title: entry.title.trim(),
+          body: entry.body ?? null,
+          metadata: entry.metadata ?? null,
+          priority: entry.priority,
+          due_at: entry.due_at ? new Date(entry.due_at).toISOString() : null,
+          ai_toggle: entry.ai_toggle,
+          label_ids: labelIds,
+          column_name: columnKeys.has(entry.column_name) ? entry.column_name : "inbox",
+          position: columnKeys.has(entry.column_name) ? entry.position : undefined,
+        });
+        if (entry.confidence != null || entry.proposed_action) {
+          cardRepo.setAiEvaluation(card.id, {
+            confidence: entry.confidence ?? 0,
+            proposed_action: entry.proposed_action ?? "",
+            action_payload: null,
+          }, "user");
+        }
+        if (entry.execution_result) cardRepo.setExecutionResult(card.id, entry.execution_result, "user");
+        for (const log of entry.logs ?? []) {
+          logRepo.insert(card.id, log.step, log.message, null, log.data ?? null);
+        }
+        imported++;
+      }
+      return { board, imported, skipped };
+    })();
+    res.status(201).json(result);
+  });
+
+  return router;
+}
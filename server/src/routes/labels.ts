@@ -0,0 +1,67 @@
+import { Router } from "express";
+import type { LabelRepo } from "../db/label-repo.js";
+import type { CardRepo } from "../db/card-repo.js";
+
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export function createLabelsRouter(labelRepo: LabelRepo, cardRepo: CardRepo): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.json({ labels: labelRepo.list() });
+  });
+
+  router.post("/", (req, res) => {
+    const { name, color } = req.body as { name?: string; color?: string };
+    if (!name || !name.trim()) {
+      res.status(400).json({ error: "name is required" });
+      return;
+    }
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+      res.status(400).json({ error: "color must be a hex value like #3b82f6" });
+      return;
+    }
+    if (labelRepo.getByName(name.trim())) {
+      res.status(409).json({ error: "A label with that name already exists" });
+      return;
+    }
+
+    res.status(201).json(labelRepo.create(name.trim(), color));
+  });
+
+  router.patch("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    const { name, color } = req.body as { name?: string; color?: string };
+    if (!labelRepo.getById(id)) {
+      res.status(404).json({ error: "Label not found" });
+      return;
+    }
+    if (name !== undefined && !name.trim()) {
+      res.status(400).json({ error: "name cannot be empty" });
+      return;
+    }
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+      res.status(400).json({ error: "color must be a hex value like #3b82f6" });
+      return;
+    }
+    const clash = name !== undefined ? labelRepo.getByName(name.trim()) : null;
+    if (clash && clash.id !== id) {
+      res.status(409).json({ error: "A label with that name already exists" });
+      return;
+    }
+
+    labelRepo.update(id, { name: name?.trim(), color });
+    res.json(labelRepo.getById(id));
+  });
+
+  router.delete("/:id", (req, res) => {
+    const deleted = cardRepo.deleteLabel(Number(req.params.id));
+    if (!deleted) {
+      res.status(404).json({ error: "Label not found" });
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,69 @@
+import { Router, type Response } from "express";
+import type { BoardRepo } from "../db/board-repo.js";
+import type { CardRepo } from "../db/card-repo.js";
+import type { ColumnRepo } from "../db/column-repo.js";
+import type { SessionRepo } from "../db/session-repo.js";
+import type { CardEventRepo } from "../db/card-event-repo.js";
+import type { ReportRepo } from "../db/report-repo.js";
+import type { ClaudeEvaluator } from "../ai/claude-evaluator.js";
+import { collectReportFacts, renderReport } from "../daily-report.js";
+import type { Board, GenerateReportRequest } from "@daily-kanban/shared";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createReportRouter(
+  boardRepo: BoardRepo,
+  cardRepo: CardRepo,
+  columnRepo: ColumnRepo,
+  sessionRepo: SessionRepo,
+  eventRepo: CardEventRepo,
+  reportRepo: ReportRepo,
+  evaluator: ClaudeEvaluator,
+): Router {
+  const router = Router();
+
+  // "today" or a YYYY-MM-DD date; sends the error response when there is no board
+  const findBoard = (date: string, res: Response): Board | null => {
+    const today = boardRepo.getOrCreateToday();
+    if (date === "today") return today;
+    if (!DATE_PATTERN.test(date)) {
+      res.status(400).json({ error: "Date must be in YYYY-MM-DD format" });
+      return null;
+    }
+    const board = boardRepo.getByDate(date);
+    if (!board) res.status(404).json({ error: "Board not found" });
+    return board;
+  };
+
+  router.get("/:date/report", (req, res) => {
+    const board = findBoard(req.params.date, res);
+    if (!board) return;
+    // null until the first report is generated
+    res.json({ report: reportRepo.getByBoard(board.id) });
+  });
+
+  // Builds the report from the board's cards and execution sessions and
+  // stores it, replacing the previous one
+  router.post("/:date/report", async (req, res) => {
+    const board = findBoard(req.params.date, res);
+    if (!board) return;
+    const { use_ai = true } = (req.body ?? {}) as GenerateReportRequest;
+
+    const cards = cardRepo.listByBoard(board.id, { includeArchived: true });
+    const day = boardRepo.dayOf(board.date);
+    const facts = collectReportFacts({
+      date: board.date,
+      cards,
+      columns: columnRepo.listByBoard(board.id),
+      sessions: new Map(cards.map((c) => [c.id, sessionRepo.listByCard(c.id)])),
+      events: new Map(cards.map((c) => [c.id, eventRepo.listByCard(c.id)])),
+      window: { start: day.start, end: new Date(Math.min(day.end.getTime(), Date.now())) },
+    });
+    const draft = renderReport(facts);
+
+    const written = use_ai ? await evaluator.generateReport(facts, draft) : null;
+    res.json(reportRepo.save(board.id, written ?? draft, written ? "ai" : "template"));
+  });
+
+  return router;
+}
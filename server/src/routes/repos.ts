@@ -2,6 +2,7 @@ import { Router } from "express";
 import crypto from "crypto";
 import { execFileSync } from "child_process";
 import type { SettingsRepo } from "../db/settings-repo.js";
+import { requireOwner } from "../auth.js";
 
 interface Repo {
   id: string;
@@ -22,7 +23,8 @@ export function createReposRouter(settingsRepo: SettingsRepo): Router {
     res.json({ repos, default_repo_id: defaultRepoId });
   });
 
-  router.post("/", (req, res) => {
+  // Everyone picks from the team's repos; only the owner changes the list
+  router.post("/", requireOwner, (req, res) => {
     const { name, path } = req.body;
     if (!name || !path) {
       res.status(400).json({ error: "name and path are required" });
@@ -44,7 +46,7 @@ export function createReposRouter(settingsRepo: SettingsRepo): Router {
     res.status(201).json(repo);
   });
 
-  router.delete("/:id", (req, res) => {
+  router.delete("/:id", requireOwner, (req, res) => {
     const repos = getRepos();
     const filtered = repos.filter((r) => r.id !== req.params.id);
     if (filtered.length === repos.length) {
@@ -62,7 +64,7 @@ export function createReposRouter(settingsRepo: SettingsRepo): Router {
     res.json({ success: true });
   });
 
-  router.patch("/default", (req, res) => {
+  router.patch("/default", requireOwner, (req, res) => {
     const { repo_id } = req.body;
     settingsRepo.set("default_repo_id", repo_id ?? null);
     res.json({ success: true });
@@ -0,0 +1,17 @@
+import { Router } from "express";
+import type { SearchRepo } from "../db/search-repo.js";
+
+export function createSearchRouter(searchRepo: SearchRepo): Router {
+  const router = Router();
+
+  router.get("/", (req, res) => {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (!q) {
+      res.status(400).json({ error: "q is required" });
+      return;
+    }
+    res.json({ query: q, groups: searchRepo.search(q) });
+  });
+
+  return router;
+}
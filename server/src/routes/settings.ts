@@ -1,20 +1,41 @@
 import { Router } from "express";
 import type { SettingsRepo } from "../db/settings-repo.js";
+import { getDayBoundary, isValidTimezone } from "../board-day.js";
+import { requireOwner } from "../auth.js";
 
 export function createSettingsRouter(settingsRepo: SettingsRepo): Router {
   const router = Router();
 
   router.get("/", (_req, res) => {
+    const { timezone, dayStartHour } = getDayBoundary(settingsRepo);
     res.json({
       confidence_threshold: settingsRepo.get("confidence_threshold", 80),
       poll_interval_ms: settingsRepo.get("poll_interval_ms", 5 * 60 * 1000),
+      timezone,
+      day_start_hour: dayStartHour,
     });
   });
 
-  router.patch("/", (req, res) => {
-    const { confidence_threshold, poll_interval_ms } = req.body;
+  // Settings apply to the whole team, so only the owner changes them
+  router.patch("/", requireOwner, (req, res) => {
+    const { confidence_threshold, poll_interval_ms, timezone, day_start_hour } = req.body;
+
+    if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+      res.status(400).json({ error: `Unknown timezone: ${timezone}` });
+      return;
+    }
+    if (
+      day_start_hour !== undefined &&
+      (!Number.isInteger(day_start_hour) || day_start_hour < 0 || day_start_hour > 23)
+    ) {
+      res.status(400).json({ error: "day_start_hour must be an integer between 0 and 23" });
+      return;
+    }
+
     if (confidence_threshold !== undefined) settingsRepo.set("confidence_threshold", confidence_threshold);
     if (poll_interval_ms !== undefined) settingsRepo.set("poll_interval_ms", poll_interval_ms);
+    if (timezone !== undefined) settingsRepo.set("timezone", timezone);
+    if (day_start_hour !== undefined) settingsRepo.set("day_start_hour", day_start_hour);
     res.json({ success: true });
   });
 
@@ -0,0 +1,33 @@
+import { Router } from "express";
+import type { BoardRepo } from "../db/board-repo.js";
+import type { StatsRepo } from "../db/stats-repo.js";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_DAYS = 30;
+
+function daysBefore(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - days);
+  return day.toISOString().slice(0, 10);
+}
+
+export function createStatsRouter(statsRepo: StatsRepo, boardRepo: BoardRepo): Router {
+  const router = Router();
+
+  // ?from=&to= (YYYY-MM-DD, inclusive); defaults to the last 30 board days
+  router.get("/", (req, res) => {
+    const to = typeof req.query.to === "string" ? req.query.to : boardRepo.today().date;
+    const from = typeof req.query.from === "string" ? req.query.from : daysBefore(to, DEFAULT_DAYS - 1);
+    if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+      res.status(400).json({ error: "from and to must be in YYYY-MM-DD format" });
+      return;
+    }
+    if (from > to) {
+      res.status(400).json({ error: "from must not be after to" });
+      return;
+    }
+    res.json(statsRepo.compute(from, to));
+  });
+
+  return router;
+}
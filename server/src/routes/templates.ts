@@ -0,0 +1,97 @@
+import { Router } from "express";
+import type { BoardRepo } from "../db/board-repo.js";
+import type { CardRepo } from "../db/card-repo.js";
+import type { LabelRepo } from "../db/label-repo.js";
+import { cardInputFromTemplate, type TemplateRepo } from "../db/template-repo.js";
+import { validateRecurrence } from "../recurrence.js";
+import type { CardTemplateRequest } from "@daily-kanban/shared";
+
+export function createTemplatesRouter(
+  templateRepo: TemplateRepo,
+  cardRepo: CardRepo,
+  boardRepo: BoardRepo,
+  labelRepo: LabelRepo,
+): Router {
+  const router = Router();
+
+  // Returns an error message, or null when every field present is valid
+  const validate = (input: CardTemplateRequest): string | null => {
+    if (input.name !== undefined && (typeof input.name !== "string" || !input.name.trim())) {
+      return "name cannot be empty";
+    }
+    if (input.title !== undefined && (typeof input.title !== "string" || !input.title.trim())) {
+      return "title cannot be empty";
+    }
+    if (
+      input.priority !== undefined &&
+      !(Number.isInteger(input.priority) && input.priority >= 0 && input.priority <= 4)
+    ) {
+      return "priority must be an integer from 0 to 4";
+    }
+    if (input.label_ids !== undefined && (!Array.isArray(input.label_ids) || input.label_ids.some((id) => !labelRepo.getById(id)))) {
+      return "label_ids must be a list of existing label ids";
+    }
+    if (input.recurrence !== undefined && input.recurrence !== null) {
+      return validateRecurrence(input.recurrence);
+    }
+    return null;
+  };
+
+  router.get("/", (_req, res) => {
+    res.json({ templates: templateRepo.list() });
+  });
+
+  router.post("/", (req, res) => {
+    const input = req.body as CardTemplateRequest;
+    if (!input.title?.trim()) {
+      res.status(400).json({ error: "title is required" });
+      return;
+    }
+    const error = validate(input);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    const title = input.title.trim();
+    const template = templateRepo.create({ ...input, title, name: input.name?.trim() || title });
+    res.status(201).json(template);
+  });
+
+  router.patch("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    if (!templateRepo.getById(id)) {
+      res.status(404).json({ error: "Template not found" });
+      return;
+    }
+    const input = req.body as CardTemplateRequest;
+    const error = validate(input);
+    if (error) {
+      res.status(400).json({ error });
+      return;
+    }
+    templateRepo.update(id, { ...input, name: input.name?.trim(), title: input.title?.trim() });
+    res.json(templateRepo.getById(id));
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!templateRepo.delete(Number(req.params.id))) {
+      res.status(404).json({ error: "Template not found" });
+      return;
+    }
+    res.json({ success: true });
+  });
+
+  // Creates a card from the template on today's board right away
+  router.post("/:id/cards", (req, res) => {
+    const template = templateRepo.getById(Number(req.params.id));
+    if (!template) {
+      res.status(404).json({ error: "Template not found" });
+      return;
+    }
+    const board = boardRepo.getOrCreateToday();
+    const card = cardRepo.create(cardInputFromTemplate(template, board.id, { source_type: "manual", source_id: null }));
+    res.status(201).json(card);
+  });
+
+  return router;
+}
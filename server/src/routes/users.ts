@@ -0,0 +1,79 @@
+import { Router } from "express";
+import type { CreateUserRequest, UpdateUserRequest } from "@daily-kanban/shared";
+import type { UserRepo } from "../db/user-repo.js";
+import { OWNER_USER_ID } from "../db/user-repo.js";
+import { currentUserId } from "../auth.js";
+
+// Returns an error message, or null when the name is usable
+function validateName(name: unknown, users: UserRepo, id?: number): string | null {
+  if (typeof name !== "string" || !name.trim()) return "name is required";
+  const existing = users.getByName(name.trim());
+  return existing && existing.id !== id ? `A user named "${name.trim()}" already exists` : null;
+}
+
+export function createUsersRouter(userRepo: UserRepo): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.json({ users: userRepo.list() });
+  });
+
+  router.get("/me", (_req, res) => {
+    res.json(userRepo.getById(currentUserId(res)));
+  });
+
+  // Only the owner adds and removes teammates
+  router.post("/", (req, res) => {
+    if (currentUserId(res) !== OWNER_USER_ID) {
+      res.status(403).json({ error: "Only the owner can add users" });
+      return;
+    }
+    const { name } = req.body as CreateUserRequest;
+    const error = validateName(name, userRepo);
+    if (error) {
+      res.status(error === "name is required" ? 400 : 409).json({ error });
+      return;
+    }
+    res.status(201).json(userRepo.create(name.trim()));
+  });
+
+  router.patch("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    if (currentUserId(res) !== OWNER_USER_ID && currentUserId(res) !== id) {
+      res.status(403).json({ error: "You can only rename yourself" });
+      return;
+    }
+    if (!userRepo.getById(id)) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    const { name } = req.body as UpdateUserRequest;
+    const error = validateName(name, userRepo, id);
+    if (error) {
+      res.status(error === "name is required" ? 400 : 409).json({ error });
+      return;
+    }
+    userRepo.rename(id, name.trim());
+    res.json(userRepo.getById(id));
+  });
+
+  router.delete("/:id", (req, res) => {
+    const id = Number(req.params.id);
+    if (currentUserId(res) !== OWNER_USER_ID) {
+      res.status(403).json({ error: "Only the owner can remove users" });
+      return;
+    }
+    if (id === OWNER_USER_ID) {
+      res.status(400).json({ error: "The owner cannot be removed" });
+      return;
+    }
+    if (!userRepo.getById(id)) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+    userRepo.delete(id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
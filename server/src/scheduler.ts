@@ -1,8 +1,10 @@
 // server/src/scheduler.ts
 import type Database from "better-sqlite3";
-import type { ConnectorRegistry } from "./connectors/registry.js";
+import { type ConnectorRegistry, parseConnectorKey } from "./connectors/registry.js";
 import type { BoardRepo } from "./db/board-repo.js";
 import type { CardRepo } from "./db/card-repo.js";
+import { TemplateRepo, cardInputFromTemplate } from "./db/template-repo.js";
+import { occursOn } from "./recurrence.js";
 
 export class Scheduler {
   private intervals: NodeJS.Timeout[] = [];
@@ -12,28 +14,68 @@ export class Scheduler {
     private boardRepo: BoardRepo,
     private cardRepo: CardRepo,
     private db: Database.Database,
+    private templateRepo: TemplateRepo = new TemplateRepo(db),
   ) {}
 
-  private isConnectorEnabled(type: string): boolean {
+  private isConnectorEnabled(type: string, ownerId: number): boolean {
     const config = this.db.prepare(
-      "SELECT enabled FROM connector_configs WHERE type = ?"
-    ).get(type) as { enabled: number } | undefined;
+      "SELECT enabled FROM connector_configs WHERE type = ? AND owner_id = ?"
+    ).get(type, ownerId) as { enabled: number } | undefined;
 
     // If no config row exists, treat as disabled
     return config ? Boolean(config.enabled) : false;
   }
 
-  async pollAll(): Promise<void> {
+  // Puts today's card for every recurring template on today's board, once per
+  // template and date. Days the server was down are not backfilled.
+  materializeTemplates(): void {
+    const { date } = this.boardRepo.today();
+    for (const template of this.templateRepo.list()) {
+      if (!template.enabled || !template.recurrence || !occursOn(template.recurrence, date)) continue;
+      if (this.templateRepo.hasRun(template.id, date)) continue;
+
+      const board = this.boardRepo.getOrCreate(date);
+      this.db.transaction(() => {
+        const card = this.cardRepo.create(
+          cardInputFromTemplate(template, board.id, {
+            source_type: "recurring",
+            source_id: `template:${template.id}:${date}`,
+          }),
+          "scheduler",
+        );
+        this.templateRepo.recordRun(template.id, date, card.id);
+      })();
+    }
+  }
+
+  // Returns snoozed cards whose time has passed to the inbox of today's board
+  wakeSnoozed(now: Date = new Date()): void {
+    const due = this.cardRepo.listDueSnoozed(now);
+    if (due.length === 0) return;
     const board = this.boardRepo.getOrCreateToday();
+    for (const id of due) this.cardRepo.wake(id, board.id, "scheduler");
+  }
+
+  async pollAll(): Promise<void> {
+    try {
+      this.wakeSnoozed();
+      this.materializeTemplates();
+    } catch (err) {
+      console.error("Waking snoozed cards or recurring templates failed:", err);
+    }
+
+    const day = this.boardRepo.today();
+    const board = this.boardRepo.getOrCreate(day.date);
     const connectors = this.registry.getAllEntries();
 
     for (const [name, connector] of connectors) {
-      if (!this.isConnectorEnabled(name)) {
+      const { type, ownerId } = parseConnectorKey(name);
+      if (!this.isConnectorEnabled(type, ownerId)) {
         continue;
       }
 
       try {
-        const items = await connector.fetchItems();
+        const items = await connector.fetchItems(day);
         for (const item of items) {
           this.cardRepo.upsertFromConnector({
             board_id: board.id,
@@ -42,7 +84,12 @@ export class Scheduler {
             title: item.title,
             body: item.body,
             metadata: item.metadata,
-          });
+            priority: item.priority,
+            due_at: item.due_at,
+            // Lands on the shared board as the connector owner's card
+            assignee_id: ownerId,
+            source_user_id: ownerId,
+          }, "connector");
         }
       } catch (err) {
         console.error(`Connector ${name} poll failed:`, err);
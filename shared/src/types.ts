@@ -1,8 +1,103 @@
 // shared/src/types.ts
 
-export type ColumnName = "inbox" | "in_process" | "review" | "ai_do" | "human_do" | "done";
+export type BuiltinColumn = "inbox" | "in_process" | "review" | "ai_do" | "human_do" | "done";
 
-export type SourceType = "gmail" | "calendar" | "linear" | "gitlab" | "telegram" | "manual";
+// Boards can add their own columns, so any string is a valid key
+export type ColumnName = BuiltinColumn | (string & {});
+
+// What happens when a card is dropped into a column
+export type ColumnBehavior = "start_ai" | "execute_action";
+
+export interface BoardColumn {
+  id: number;
+  board_id: number;
+  key: ColumnName;
+  name: string;
+  color: string;
+  position: number;
+  wip_limit: number | null;
+  behavior: ColumnBehavior | null;
+  system: boolean; // inbox, review and done are used by the server and can't be removed
+  created_at: string;
+}
+
+export type SourceType = "gmail" | "calendar" | "linear" | "gitlab" | "telegram" | "manual" | "recurring";
+
+// Same scale as Linear: 0 = no priority, 1 = urgent ... 4 = low
+export type Priority = 0 | 1 | 2 | 3 | 4;
+
+export type CardSort = "position" | "urgency";
+
+export type ChecklistSource = "manual" | "plan" | "todo";
+
+export interface ChecklistItem {
+  id: number;
+  card_id: number;
+  text: string;
+  checked: boolean;
+  position: number;
+  source: ChecklistSource;
+  todo_id: string | null; // execution todo this item is linked to
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export interface CardComment {
+  id: number;
+  card_id: number;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CardDependencies {
+  blocked_by: number[]; // every card this one waits on
+  blocks: number[];
+  open_blockers: number[]; // blockers not yet done; empty means unblocked
+}
+
+// Who made a change to a card
+export type CardActor = "user" | "scheduler" | "ai" | "connector";
+
+export type CardEventType =
+  | "created"
+  | "updated"
+  | "moved"
+  | "ai_toggled"
+  | "ai_evaluated"
+  | "execution_result"
+  | "deleted"
+  | "archived"
+  | "restored"
+  | "carried_over"
+  | "snoozed"
+  | "woke";
+
+export interface CardEvent {
+  id: number;
+  card_id: number;
+  type: CardEventType;
+  actor: CardActor;
+  // Only the fields the change touched, before and after
+  old_value: Record<string, unknown> | null;
+  new_value: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export type BoardEventType = "created" | "updated" | "moved" | "deleted";
+
+// Pushed over GET /api/board/events whenever a card changes
+export interface BoardEvent {
+  type: BoardEventType;
+  card_id: number;
+  board_id: number;
+  card: Card | null; // null for "deleted"
+}
 
 export interface Board {
   id: number;
@@ -10,6 +105,18 @@ export interface Board {
   created_at: string;
 }
 
+export interface BoardSummary extends Board {
+  card_count: number;
+  done_count: number;
+}
+
+export interface Label {
+  id: number;
+  name: string;
+  color: string;
+  created_at: string;
+}
+
 export interface Card {
   id: number;
   board_id: number;
@@ -25,10 +132,64 @@ export interface Card {
   action_payload: Record<string, unknown> | null;
   execution_result: string | null;
   position: number;
+  priority: Priority;
+  due_at: string | null; // ISO 8601
+  labels: Label[];
+  checklist: ChecklistProgress;
+  dependencies: CardDependencies;
+  archived_at: string | null;
+  deleted_at: string | null;
+  // Hidden from the board until then (ISO 8601)
+  snoozed_until: string | null;
+  assignee_id: number | null;
+  // Whose connector created the card; null for manual and recurring cards
+  source_user_id: number | null;
   created_at: string;
   updated_at: string;
 }
 
+export type RecurrenceKind = "daily" | "weekdays" | "weekly" | "cron";
+
+export interface Recurrence {
+  kind: RecurrenceKind;
+  // Days for "weekly", 0 = Sunday
+  weekdays?: number[];
+  // Five-field cron expression for "cron"; only its day fields decide which
+  // boards get the card
+  cron?: string;
+}
+
+export interface CardTemplate {
+  id: number;
+  name: string;
+  title: string;
+  body: string | null;
+  repo_id: string | null;
+  labels: Label[];
+  ai_toggle: boolean;
+  // Extra instructions for the AI on cards made from this template
+  ai_rules: string | null;
+  priority: Priority;
+  // null for templates that are only used by hand
+  recurrence: Recurrence | null;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CardTemplateRequest {
+  name?: string;
+  title?: string;
+  body?: string | null;
+  repo_id?: string | null;
+  label_ids?: number[];
+  ai_toggle?: boolean;
+  ai_rules?: string | null;
+  priority?: Priority;
+  recurrence?: Recurrence | null;
+  enabled?: boolean;
+}
+
 export interface ConnectorConfig {
   id: number;
   type: SourceType;
@@ -37,12 +198,31 @@ export interface ConnectorConfig {
   enabled: boolean;
 }
 
+// A stored credential as the API shows it. Secrets are write-only: only
+// `${env:NAME}` / `file:/path` references and non-secret fields such as
+// base_url come back in `value`.
+export interface MaskedCredential {
+  configured: boolean;
+  value: string | null;
+}
+
+export interface ConnectorConfigResponse {
+  id: number;
+  type: SourceType;
+  owner_id: number;
+  credentials: Record<string, MaskedCredential> | null;
+  settings: Record<string, unknown> | null;
+  enabled: boolean;
+}
+
 export interface KanbanItem {
   source_id: string;
   source_type: SourceType;
   title: string;
   body: string | null;
   metadata: Record<string, unknown>;
+  priority?: Priority;
+  due_at?: string | null;
 }
 
 export interface ActionPayload {
@@ -66,6 +246,33 @@ export interface AiEvaluation {
 export interface CreateCardRequest {
   title: string;
   body?: string;
+  priority?: Priority;
+  due_at?: string | null;
+}
+
+export interface UpdateCardRequest {
+  title?: string;
+  body?: string | null;
+  metadata?: Record<string, unknown>;
+  priority?: Priority;
+  due_at?: string | null;
+}
+
+export interface CreateChecklistItemRequest {
+  text: string;
+}
+
+export interface UpdateChecklistItemRequest {
+  text?: string;
+  checked?: boolean;
+}
+
+export interface CommentRequest {
+  body: string;
+}
+
+export interface AddDependencyRequest {
+  blocker_id: number;
 }
 
 export interface MoveCardRequest {
@@ -73,6 +280,252 @@ export interface MoveCardRequest {
   position?: number;
 }
 
+// Neighbors are ids of cards in the target column; leave both out to drop
+// the card at the end
+export interface ReorderCardRequest {
+  column_name: ColumnName;
+  before_id?: number | null;
+  after_id?: number | null;
+}
+
+export type BulkCardAction =
+  | { type: "move"; column_name: ColumnName }
+  | { type: "archive" }
+  | { type: "delete" }
+  | { type: "toggle_ai"; ai_toggle: boolean }
+  | { type: "set_repo"; repo_id: string | null }
+  | { type: "add_label"; label_id: number }
+  | { type: "remove_label"; label_id: number };
+
+export interface BulkCardRequest {
+  card_ids: number[];
+  action: BulkCardAction;
+}
+
+export interface BulkCardResponse {
+  // Every card after the change, including ones that were archived or deleted
+  cards: Card[];
+}
+
+export interface CardPosition {
+  id: number;
+  position: number;
+}
+
+export interface ReorderCardResponse {
+  card: Card;
+  // The moved card plus any cards renumbered to make room
+  positions: CardPosition[];
+}
+
+export interface BoardResponse {
+  board: Board;
+  cards: Card[];
+  columns: BoardColumn[];
+}
+
+export interface CreateColumnRequest {
+  name: string;
+  color?: string;
+  wip_limit?: number | null;
+  behavior?: ColumnBehavior | null;
+}
+
+export interface UpdateColumnRequest {
+  name?: string;
+  color?: string;
+  wip_limit?: number | null;
+  behavior?: ColumnBehavior | null;
+}
+
+export interface ReorderColumnsRequest {
+  ids: number[];
+}
+
+export interface PurgeBoardResponse {
+  success: boolean;
+  deleted: number;
+  card_ids: number[]; // soft-deleted, so they can be restored
+}
+
+export interface RestoreCardsRequest {
+  card_ids: number[];
+}
+
+export interface SnoozeCardRequest {
+  until: string; // ISO 8601
+}
+
+export type ExportFormat = "json" | "csv" | "md";
+
+// One card in a JSON board export; ids are left out so the file can be
+// imported into another database
+export interface ExportedCard {
+  source_id: string | null;
+  source_type: SourceType;
+  column_name: ColumnName;
+  position: number;
+  title: string;
+  body: string | null;
+  metadata: Record<string, unknown> | null;
+  priority: Priority;
+  due_at: string | null;
+  labels: string[];
+  ai_toggle: boolean;
+  confidence: number | null;
+  proposed_action: string | null;
+  action_payload: Record<string, unknown> | null;
+  execution_result: string | null;
+  created_at: string;
+  // Only with ?include_logs=true
+  logs?: { step: string; message: string; data: Record<string, unknown> | null; created_at: string }[];
+}
+
+export interface BoardExport {
+  version: 1;
+  exported_at: string;
+  date: string;
+  columns: { key: ColumnName; name: string; color: string }[];
+  cards: ExportedCard[];
+}
+
+export interface ImportBoardResponse {
+  board: Board;
+  imported: number;
+  // Cards whose source_id was already on the board
+  skipped: number;
+}
+
+// "template" reports are built from the board alone; "ai" ones are written
+// by Claude from the same facts
+export type ReportGenerator = "ai" | "template";
+
+export interface BoardReport {
+  board_id: number;
+  date: string;
+  content: string; // Markdown
+  generator: ReportGenerator;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface GenerateReportRequest {
+  // Defaults to true; falls back to the template when Claude fails
+  use_ai?: boolean;
+}
+
+export interface AutomationCounts {
+  cards: number;
+  // Has an AI confidence score
+  evaluated: number;
+  // Has an execution result, whether the action worked or not
+  executed: number;
+  // Executed and ended up in done
+  succeeded: number;
+  // Was moved to human_do at some point
+  human_do: number;
+  done: number;
+}
+
+export interface SourceStats extends AutomationCounts {
+  source_type: SourceType;
+}
+
+export interface ConfidenceBucket {
+  min: number;
+  max: number;
+  evaluated: number;
+  executed: number;
+  succeeded: number;
+}
+
+export interface StatsResponse {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  totals: AutomationCounts;
+  by_source: SourceStats[];
+  confidence: ConfidenceBucket[];
+  // Card creation to its last move into done
+  cycle_time: { cards: number; average_minutes: number | null; median_minutes: number | null };
+  sessions: { total: number; completed: number; failed: number; paused: number; running: number };
+}
+
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  applied_at: string;
+}
+
+export interface SchemaStatus {
+  // Highest applied migration, 0 for an empty database
+  version: number;
+  latest: number;
+  applied: SchemaMigration[];
+  pending: { version: number; name: string }[];
+}
+
+export interface BackupFile {
+  name: string;
+  size: number; // bytes
+  created_at: string;
+}
+
+export interface BackupsResponse {
+  dir: string;
+  backups: BackupFile[]; // newest first
+}
+
+export interface RestoreBackupRequest {
+  name: string;
+}
+
+export interface RestoreBackupResponse {
+  restored: string;
+  // Taken just before restoring, so the restore can itself be undone
+  safety_backup: BackupFile;
+  schema_version: number;
+}
+
+export interface MaintenancePolicy {
+  backup_interval_hours: number; // 0 turns scheduled backups off
+  backup_keep: number;
+  // null keeps everything
+  log_retention_days: number | null;
+  board_retention_days: number | null;
+}
+
+export interface PruneResult {
+  logs: number;
+  sessions: number;
+  boards: number;
+  cards: number;
+}
+
+export interface User {
+  id: number;
+  name: string;
+  // The first user, who signs in with the server's own API token
+  is_owner: boolean;
+  created_at: string;
+}
+
+export interface CreateUserRequest {
+  name: string;
+}
+
+export interface CreateUserResponse {
+  user: User;
+  token: string; // only ever shown here
+}
+
+export interface UpdateUserRequest {
+  name: string;
+}
+
+export interface AssignCardRequest {
+  assignee_id: number | null;
+}
+
 export interface ToggleAiRequest {
   ai_toggle: boolean;
 }
@@ -127,3 +580,24 @@ export interface DiffResult {
     totalDeletions: number;
   };
 }
+
+// Snippets mark matched terms with \u0002 ... \u0003
+export interface SearchHit {
+  kind: "card" | "log";
+  card_id: number;
+  card_title: string;
+  column_name: ColumnName;
+  snippet: string;
+  log_id: number | null;
+  execution_session_id: number | null;
+}
+
+export interface SearchResultGroup {
+  date: string; // board date, YYYY-MM-DD
+  hits: SearchHit[];
+}
+
+export interface SearchResponse {
+  query: string;
+  groups: SearchResultGroup[];
+}